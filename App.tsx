@@ -3,7 +3,7 @@ import React, { useState, useCallback } from 'react';
 import { AlertTriangle, CheckCircle, Info, X } from 'lucide-react';
 import UnifiedHub from './components/UnifiedHub.tsx';
 import Sidebar from './components/Sidebar.tsx';
-import { HubMode } from './types.ts';
+import { HubMode, type UnlockedKeyring } from './types.ts';
 
 const App: React.FC = () => {
   const [hubMode, setHubMode] = useState<HubMode>(HubMode.AutoDecode);
@@ -11,6 +11,7 @@ const App: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [showIntro, setShowIntro] = useState<boolean>(true);
+  const [keyring, setKeyring] = useState<UnlockedKeyring | null>(null); // Decrypted entries live only in memory
 
   const handleSetLoading = useCallback((loadingState: boolean | ((prevState: boolean) => boolean)) => {
     setIsLoading(loadingState);
@@ -85,6 +86,8 @@ const App: React.FC = () => {
                 setLoading={handleSetLoading}
                 setError={handleSetError}
                 setSuccessMessage={handleSetSuccessMessage}
+                keyring={keyring}
+                setKeyring={setKeyring}
               />
           </main>
         </div>
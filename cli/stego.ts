@@ -0,0 +1,711 @@
+// Command-line front end for the studio, built on the headless stego core.
+//
+//   npm run stego -- encode --method pattern-lsb --key K --password P cover.png msg.txt -o out.png
+//   npm run stego -- decode --password P --key K stego.png
+//   npm run stego -- analyze --password P suspicious.png --json
+//   npm run stego -- keygen -o alice
+//   npm run stego -- encode --method lsb --recipient alice.pub.pem cover.png msg.txt -o out.png
+//   npm run stego -- encode --method lsb --password P --sign bob.key.pem cover.png msg.txt -o out.png
+//   npm run stego -- hash "some text"
+//   npm run stego -- crack --hash 5f4dcc3b5aa765d61d8327deb882cf99 --wordlist rockyou.txt
+//
+// Every command accepts --json for machine-readable output on stdout. Errors go to stderr (or into the
+// JSON object). Exit codes: 0 on success, 1 when a command fails or a signature is invalid, 2 for usage
+// errors. Pixel methods need PNG covers here: other formats are decoded by the browser in the app, and
+// there is no browser in a terminal.
+
+import { readFile, writeFile, stat } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { CipherAlgorithm, ContainerMethod, KdfAlgorithm, SignatureAlgorithm, PayloadFormat } from '../types.ts';
+import type { DecodedPayload, DeniableOptions, HiddenFile, LsbEncodeOptions, EncryptionOptions, EncryptionSecret, DecryptionSecret, PasswordWithKeyFiles, KeyFormat, RawImage, AIForensicResult, StatisticalAnalysis, SignatureInfo } from '../types.ts';
+import { md2, md4, md5, sha1, sha224, sha256, sha384, sha512, formatBytes } from '../utils.ts';
+import * as core from '../services/stegoCoreService.ts';
+import { defaultKdfCosts, kdfParamsFromCosts, validateKdfParams, formatKdfSpec } from '../services/kdfService.ts';
+import { generateKeyPair, generateSigningKeyPair, exportKey, importPublicKey, importPrivateKey, importSigningKey, publicKeyFingerprint } from '../services/keyPairService.ts';
+import { SIGNATURE_ALGORITHM_NAMES } from '../services/signatureService.ts';
+import { digestKeyFiles } from '../services/keyFileService.ts';
+import { crackMD5, bruteForceMD5, getAIPasswordGuesses, calculateBruteForceCombinations } from '../services/hashCrackerService.ts';
+import { analyzeImageWithAI } from '../services/analysisService.ts';
+
+type Method = 'lsb' | 'pattern-lsb' | 'md5-pattern' | 'rd' | 'morse' | 'jpeg-dct';
+
+interface MethodInfo {
+  name: string;
+  containerMethod: ContainerMethod;
+  requiresKey: boolean;
+  usesCover: boolean;
+  outputExtension: '.png' | '.jpg';
+}
+
+const METHODS: Record<Method, MethodInfo> = {
+  'lsb': { name: 'LSB', containerMethod: ContainerMethod.LSB, requiresKey: false, usesCover: true, outputExtension: '.png' },
+  'pattern-lsb': { name: 'Pattern LSB', containerMethod: ContainerMethod.PatternLSB, requiresKey: true, usesCover: true, outputExtension: '.png' },
+  'md5-pattern': { name: 'MD5 Pattern', containerMethod: ContainerMethod.MD5Pattern, requiresKey: true, usesCover: true, outputExtension: '.png' },
+  'rd': { name: 'RD Pattern', containerMethod: ContainerMethod.RD, requiresKey: false, usesCover: false, outputExtension: '.png' },
+  'morse': { name: 'Morse Pattern', containerMethod: ContainerMethod.Morse, requiresKey: false, usesCover: false, outputExtension: '.png' },
+  'jpeg-dct': { name: 'JPEG DCT', containerMethod: ContainerMethod.JpegDct, requiresKey: false, usesCover: true, outputExtension: '.jpg' },
+};
+
+// Same order as the Universal Decoder: keyless methods first.
+const DECODE_ORDER: Method[] = ['lsb', 'rd', 'morse', 'jpeg-dct', 'pattern-lsb', 'md5-pattern'];
+
+const HASH_ALGORITHMS: Record<string, (text: string) => string | Promise<string>> = {
+  'md2': md2,
+  'md4': md4,
+  'md5': md5,
+  'sha1': sha1,
+  'sha224': sha224,
+  'sha256': sha256,
+  'sha384': sha384,
+  'sha512': sha512,
+};
+
+const MIME_TYPES: Record<string, string> = {
+  '.txt': 'text/plain', '.json': 'application/json', '.pdf': 'application/pdf', '.zip': 'application/zip',
+  '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.gif': 'image/gif',
+  '.pem': 'application/x-pem-file', '.key': 'application/octet-stream',
+};
+
+const DEFAULT_BRUTE_FORCE_CHARSET = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+const USAGE = `Usage: stego <command> [options]
+
+Commands:
+  encode   --method <m> (--password <p> [--key-file <f>...] | --recipient <pub>...) [--key <k>] [cover...] <message> -o <out>
+           Hide a message (or, with --as-file, a whole file) in each cover. With several
+           covers, -o is a directory. rd and morse generate their own image and take no cover.
+           Message "-" reads stdin; --message <text> passes it inline instead.
+           --recipient encrypts for a public key instead of a password; repeat it for several.
+           --key-file <file> adds a key file that decoding will need too; repeat it for several.
+           LSB options: --bits <1-4> --alpha --matching --matrix --adaptive (pattern-lsb only)
+           Key derivation: --kdf argon2id|scrypt|pbkdf2 (default argon2id) --kdf-memory <MiB>
+           --kdf-time <n> (Argon2id passes, scrypt p, or PBKDF2 iterations in thousands)
+           --cipher aes-256-gcm|chacha20-poly1305|aes-256-gcm-siv (default aes-256-gcm)
+           --sign <key> signs the message with an ECDSA P-256 or Ed25519 private key.
+           --openpgp hides a standard OpenPGP message (password only) that gpg can decrypt.
+           --compress deflates the message before encryption; --binary embeds the ciphertext
+           as raw bytes instead of base64 text.
+           --deniable (pattern-lsb, md5-pattern): deniable mode. The message goes in one half
+           of the pattern and random fill in the other; add --decoy <text> --decoy-password <p>
+           to put a decoy there instead. Decoding opens whichever message the password belongs to.
+           --threshold <k> splits the message across the covers instead, one share per cover:
+           any k of the images rebuild it, and fewer reveal nothing (not for rd or morse).
+  decode   (--password <p> [--key-file <f>...] | --private-key <file>) [--key <k>] [--method <m>|auto] <image...> [-o <out>]
+           Extract and decrypt. Hidden files are written to -o, or under their original name
+           (never over an existing file unless -o names it).
+           Signed messages report the signer's key id; an invalid signature exits with code 1.
+           --shares treats the images as shares of one split message and rebuilds it.
+  analyze  [--password <p> [--key-file <f>...] | --private-key <file>] [--key <k>] [--ai] <image...>
+           Try every method and report what was found. PNGs also get the chi-square attack and
+           RS/SPA embedding rate estimates, run locally. --ai adds Gemini forensic analysis (needs GEMINI_API_KEY).
+  keygen   [--format pem|jwk] [--type encryption|ecdsa-p256|ed25519] -o <name>
+           Create a key pair: <name>.pub.<ext> to share, <name>.key.<ext> to keep.
+           encryption (the default) is ECDH P-256; the others are signing keys for --sign.
+  hash     [--algo <a,b,...>] <text>|-
+           Hashes with ${Object.keys(HASH_ALGORITHMS).join(', ')} (default: all).
+  crack    --hash <md5> (--wordlist <file> | --brute [--charset <c>] [--max-length <n>] | --ai)
+           Recover an MD5 preimage.
+
+Methods: ${Object.keys(METHODS).join(', ')}
+Global:  --json  print one JSON object on stdout instead of text
+Exit codes: 0 success, 1 failure or invalid signature, 2 usage error
+`;
+
+class UsageError extends Error {}
+
+const OPTIONS = {
+  'method': { type: 'string' },
+  'key': { type: 'string' },
+  'password': { type: 'string' },
+  'recipient': { type: 'string', multiple: true },
+  'key-file': { type: 'string', multiple: true },
+  'private-key': { type: 'string' },
+  'format': { type: 'string' },
+  'sign': { type: 'string' },
+  'type': { type: 'string' },
+  'message': { type: 'string' },
+  'deniable': { type: 'boolean' },
+  'decoy': { type: 'string' },
+  'decoy-password': { type: 'string' },
+  'threshold': { type: 'string' },
+  'shares': { type: 'boolean' },
+  'as-file': { type: 'boolean' },
+  'mime': { type: 'string' },
+  'output': { type: 'string', short: 'o' },
+  'bits': { type: 'string' },
+  'alpha': { type: 'boolean' },
+  'matching': { type: 'boolean' },
+  'matrix': { type: 'boolean' },
+  'adaptive': { type: 'boolean' },
+  'cipher': { type: 'string' },
+  'openpgp': { type: 'boolean' },
+  'compress': { type: 'boolean' },
+  'binary': { type: 'boolean' },
+  'kdf': { type: 'string' },
+  'kdf-memory': { type: 'string' },
+  'kdf-time': { type: 'string' },
+  'ai': { type: 'boolean' },
+  'algo': { type: 'string' },
+  'hash': { type: 'string' },
+  'wordlist': { type: 'string' },
+  'brute': { type: 'boolean' },
+  'charset': { type: 'string' },
+  'max-length': { type: 'string' },
+  'json': { type: 'boolean' },
+  'help': { type: 'boolean', short: 'h' },
+} as const;
+
+type Options = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+// --- Helpers ---
+
+const readStdin = async (): Promise<Uint8Array> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return new Uint8Array(Buffer.concat(chunks));
+};
+
+const readInput = async (path: string): Promise<Uint8Array> => path === '-' ? readStdin() : new Uint8Array(await readFile(path));
+
+const isDirectory = async (path: string): Promise<boolean> => {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+};
+
+const parseMethod = (value: string | undefined): Method => {
+  if (!value) throw new UsageError('--method is required.');
+  if (!(value in METHODS)) throw new UsageError(`Unknown method "${value}". Expected one of: ${Object.keys(METHODS).join(', ')}.`);
+  return value as Method;
+};
+
+// The password with any --key-file digests mixed in; undefined when neither was given.
+const passwordSecretFrom = async (options: Options): Promise<string | PasswordWithKeyFiles | undefined> => {
+  const keyFilePaths = options['key-file'] ?? [];
+  if (keyFilePaths.length === 0) return options.password || undefined;
+  const keyFiles = [];
+  for (const path of keyFilePaths) keyFiles.push(await readInput(path));
+  return { password: options.password ?? '', keyFileDigest: await digestKeyFiles(keyFiles) };
+};
+
+const encryptionSecretFrom = async (options: Options): Promise<EncryptionSecret> => {
+  const recipientPaths = options.recipient ?? [];
+  if (recipientPaths.length > 0) {
+    if (options.password || options['key-file']) throw new UsageError('Use either --password/--key-file or --recipient, not both.');
+    const recipients = [];
+    for (const path of recipientPaths) recipients.push(await importPublicKey(new TextDecoder().decode(await readInput(path))));
+    return { recipients };
+  }
+  const password = await passwordSecretFrom(options);
+  if (!password) throw new UsageError('--password, --key-file or --recipient is required.');
+  return password;
+};
+
+// undefined when neither was given; only analyze allows that.
+const decryptionSecretFrom = async (options: Options): Promise<DecryptionSecret | undefined> => {
+  if (options['private-key'] === undefined) return passwordSecretFrom(options);
+  if (options.password || options['key-file']) throw new UsageError('Use either --password/--key-file or --private-key, not both.');
+  return importPrivateKey(new TextDecoder().decode(await readInput(options['private-key'])));
+};
+
+const lsbOptionsFrom = (options: Options): LsbEncodeOptions => {
+  const bitsPerChannel = options.bits === undefined ? undefined : Number(options.bits);
+  if (bitsPerChannel !== undefined && !Number.isInteger(bitsPerChannel)) throw new UsageError('--bits must be a whole number.');
+  return {
+    embeddingMode: options.matching ? 'matching' : 'replacement',
+    bitsPerChannel,
+    useAlpha: options.alpha ?? false,
+    matrixEmbedding: options.matrix ?? false,
+    adaptive: options.adaptive ?? false,
+  };
+};
+
+// --decoy implies --deniable; --deniable alone leaves the other half of the pattern as random fill.
+const deniableFrom = (options: Options, method: Method): DeniableOptions | undefined => {
+  const hasDecoy = options.decoy !== undefined || options['decoy-password'] !== undefined;
+  if (!options.deniable && !hasDecoy) return undefined;
+  if (method !== 'pattern-lsb' && method !== 'md5-pattern') throw new UsageError('--deniable and --decoy only work with pattern-lsb and md5-pattern.');
+  if (!hasDecoy) return {};
+  if (!options.decoy || !options['decoy-password']) throw new UsageError('A decoy needs both --decoy and --decoy-password.');
+  return { decoy: { secret: options.decoy, password: options['decoy-password'] } };
+};
+
+const encryptionOptionsFrom = async (options: Options): Promise<EncryptionOptions> => {
+  if (options.openpgp) {
+    if (options.cipher || options.kdf || options['kdf-memory'] || options['kdf-time'] || options.sign || options['key-file'] || options.recipient || options.compress || options.binary) {
+      throw new UsageError('--openpgp takes only a password: --cipher, --kdf*, --sign, --key-file, --recipient, --compress and --binary do not apply.');
+    }
+    return { format: PayloadFormat.OpenPgp };
+  }
+  const cipher = (options.cipher ?? CipherAlgorithm.AesGcm) as CipherAlgorithm;
+  if (!Object.values(CipherAlgorithm).includes(cipher)) {
+    throw new UsageError(`Unknown cipher "${options.cipher}". Expected one of: ${Object.values(CipherAlgorithm).join(', ')}.`);
+  }
+  const algorithm = (options.kdf ?? KdfAlgorithm.Argon2id) as KdfAlgorithm;
+  if (!Object.values(KdfAlgorithm).includes(algorithm)) {
+    throw new UsageError(`Unknown KDF "${options.kdf}". Expected one of: ${Object.values(KdfAlgorithm).join(', ')}.`);
+  }
+  const defaults = defaultKdfCosts(algorithm);
+  const memoryMiB = options['kdf-memory'] === undefined ? defaults.memoryMiB : Number(options['kdf-memory']);
+  const timeCost = options['kdf-time'] === undefined ? defaults.timeCost : Number(options['kdf-time']);
+  if (!Number.isInteger(memoryMiB) || !Number.isInteger(timeCost)) throw new UsageError('--kdf-memory and --kdf-time must be whole numbers.');
+  const kdf = kdfParamsFromCosts(algorithm, memoryMiB, timeCost);
+  try {
+    validateKdfParams(kdf);
+  } catch (e: any) {
+    throw new UsageError(`${e.message} (${formatKdfSpec(kdf)})`);
+  }
+  const payload = { compress: !!options.compress, binaryPayload: !!options.binary };
+  if (options.sign === undefined) return { cipher, kdf, ...payload };
+  return { cipher, kdf, ...payload, signingKey: await importSigningKey(new TextDecoder().decode(await readInput(options.sign))) };
+};
+
+// e.g. "verified (Ed25519, key id 3f2a 91c0 7be1 44d2)"
+const describeSignature = (signature: SignatureInfo): string => {
+  if (signature.status === 'unsigned') return 'unsigned';
+  const algorithm = signature.algorithm ? SIGNATURE_ALGORITHM_NAMES[signature.algorithm] : 'unknown algorithm';
+  const details = `${algorithm}, key id ${signature.keyId}`;
+  return signature.status === 'verified' ? `verified (${details})` : `INVALID (${details}): ${signature.reason}`;
+};
+
+const readSecret = async (options: Options, messagePath: string | undefined): Promise<string | HiddenFile> => {
+  if (options.message !== undefined) {
+    if (messagePath !== undefined) throw new UsageError('Pass the message either with --message or as a file, not both.');
+    return options.message;
+  }
+  if (messagePath === undefined) throw new UsageError('No message given. Pass a message file, "-" for stdin, or --message.');
+  const bytes = await readInput(messagePath);
+  if (!options['as-file']) return new TextDecoder().decode(bytes);
+  const name = messagePath === '-' ? 'stdin.bin' : basename(messagePath);
+  return { name, mimeType: options.mime ?? MIME_TYPES[extname(name).toLowerCase()] ?? 'application/octet-stream', data: bytes };
+};
+
+const decodeWith = async (method: Method, bytes: Uint8Array, password: DecryptionSecret, key: string): Promise<DecodedPayload> => {
+  if (method === 'jpeg-dct') return core.decodeJpegMessageBytes(bytes, password);
+  const image = await core.decodeImageBytes(bytes);
+  switch (method) {
+    case 'lsb': return core.decodeMessagePixels(image, password);
+    case 'pattern-lsb': return core.decodeMessagePatternLSBPixels(image, key, password);
+    case 'md5-pattern': return core.decodeMessageMD5PatternPixels(image, key, password);
+    case 'rd': return core.decodeRDMessagePixels(image, password);
+    case 'morse': return core.decodeMorseMessagePixels(image, password);
+  }
+};
+
+// --- Commands ---
+
+const encodeCommand = async (options: Options, positionals: string[]) => {
+  const method = parseMethod(options.method);
+  const info = METHODS[method];
+  const password = await encryptionSecretFrom(options);
+  if (info.requiresKey && !options.key) throw new UsageError(`--key is required for ${info.name}.`);
+  if (!options.output) throw new UsageError('-o/--output is required.');
+
+  const messagePath = options.message === undefined ? positionals[positionals.length - 1] : undefined;
+  const covers = options.message === undefined ? positionals.slice(0, -1) : positionals;
+  if (info.usesCover && covers.length === 0) throw new UsageError(`${info.name} needs at least one cover image.`);
+  if (!info.usesCover && covers.length > 0) throw new UsageError(`${info.name} generates its own image and takes no cover.`);
+  const secret = await readSecret(options, messagePath);
+
+  const outputIsDirectory = covers.length > 1 || await isDirectory(options.output);
+  if (covers.length > 1 && !await isDirectory(options.output)) throw new UsageError('With several covers, -o must be an existing directory.');
+  const outputPathFor = (cover: string | null): string => !outputIsDirectory
+    ? options.output!
+    : join(options.output!, `${cover ? basename(cover, extname(cover)) : method}${info.outputExtension}`);
+  // Covers with the same name in different directories would overwrite each other's output.
+  const outputCovers = new Map<string, string>();
+  for (const cover of covers) {
+    const outputPath = outputPathFor(cover);
+    if (outputCovers.has(outputPath)) throw new UsageError(`${outputCovers.get(outputPath)} and ${cover} would both be written to ${outputPath}. Rename one of the covers.`);
+    outputCovers.set(outputPath, cover);
+  }
+
+  const lsbOptions = lsbOptionsFrom(options);
+  const encryption = await encryptionOptionsFrom(options);
+  const deniable = deniableFrom(options, method);
+  if (options.threshold !== undefined) {
+    // One Shamir share per cover instead of the whole message in each
+    const threshold = Number(options.threshold);
+    if (!Number.isInteger(threshold)) throw new UsageError('--threshold must be a whole number.');
+    if (!info.usesCover) throw new UsageError(`${info.name} generates its own image, so it cannot split a message across covers.`);
+    if (deniable) throw new UsageError('--threshold cannot be combined with --deniable or --decoy.');
+    if (covers.length < 2) throw new UsageError('--threshold needs at least two covers.');
+    const coverBytes = [];
+    for (const cover of covers) coverBytes.push(await readInput(cover));
+    const results = [];
+    const { images } = await core.encodeShareSet(coverBytes, info.containerMethod as core.ShareMethod, threshold, secret, password, options.key ?? '', lsbOptions, encryption);
+    for (let i = 0; i < covers.length; i++) {
+      const outputPath = outputPathFor(covers[i]);
+      await writeFile(outputPath, images[i].bytes);
+      results.push({ cover: covers[i], output: outputPath, bytes: images[i].bytes.length, changedValues: images[i].changedValues, share: i + 1 });
+    }
+    return {
+      json: { command: 'encode', method, threshold, results },
+      text: results.map(r => `${r.cover} -> ${r.output} (share ${r.share} of ${covers.length}, ${formatBytes(r.bytes)}, ${r.changedValues} values changed)`).join('\n'),
+    };
+  }
+
+  const results = [];
+  for (const cover of info.usesCover ? covers : [null]) {
+    let output: Uint8Array;
+    let details: Record<string, unknown> = {};
+    if (method === 'rd' || method === 'morse') {
+      const result = method === 'rd' ? await core.encodeRDMessagePixels(secret, password, encryption) : await core.encodeMorseMessagePixels(secret, password, encryption);
+      output = await core.encodeImagePng(result.image);
+    } else if (method === 'jpeg-dct') {
+      const result = await core.encodeJpegMessageBytes(await readInput(cover!), secret, password, encryption);
+      output = result.jpegBytes;
+      details = { changedValues: result.changedValues, recompressed: result.recompressed };
+    } else {
+      const image: RawImage = await core.decodeImageBytes(await readInput(cover!));
+      const result = method === 'lsb'
+        ? await core.encodeMessagePixels(image, secret, password, lsbOptions, encryption)
+        : method === 'pattern-lsb'
+          ? await core.encodeMessagePatternLSBPixels(image, secret, options.key!, password, lsbOptions, encryption, deniable)
+          : await core.encodeMessageMD5PatternPixels(image, secret, options.key!, password, lsbOptions, encryption, deniable);
+      output = await core.encodeImagePng(result.image);
+      details = { changedValues: result.changedValues };
+    }
+    const outputPath = outputPathFor(cover);
+    await writeFile(outputPath, output);
+    results.push({ cover, output: outputPath, bytes: output.length, ...details });
+  }
+
+  return {
+    json: { command: 'encode', method, results },
+    text: results.map(r => `${r.cover ?? info.name} -> ${r.output} (${formatBytes(r.bytes)}${'changedValues' in r ? `, ${r.changedValues} values changed` : ''})`).join('\n'),
+  };
+};
+
+// A hidden file's name comes from whoever made the payload (anyone, with a public key), so only its last
+// component is used: "../x" or "/etc/x" must not write outside the chosen directory.
+const safeFileName = (name: string): string => {
+  const base = basename(name.replace(/\\/g, '/'));
+  if (base === '' || base === '.' || base === '..') throw new Error(`The hidden file's name "${name}" is not a usable file name. Pass -o to choose one.`);
+  return base;
+};
+
+// Writes a hidden file to -o (or under its own name), and a message to -o if given. Returns the path.
+// A file named by the payload never replaces an existing one; an explicit -o path does.
+const savePayload = async (payload: DecodedPayload, output: string | undefined, textFileName: string): Promise<string | null> => {
+  let savedTo: string | null = null;
+  if (payload.file) {
+    const named = !output || await isDirectory(output);
+    savedTo = !output ? safeFileName(payload.file.name)
+      : named ? join(output, safeFileName(payload.file.name)) : output;
+    try {
+      await writeFile(savedTo, payload.file.data, { flag: named ? 'wx' : 'w' });
+    } catch (e: any) {
+      if (e.code === 'EEXIST') throw new Error(`${savedTo} already exists. Pass -o with a file path to replace it.`);
+      throw e;
+    }
+  } else if (output) {
+    savedTo = await isDirectory(output) ? join(output, textFileName) : output;
+    await writeFile(savedTo, payload.text);
+  }
+  return savedTo;
+};
+
+const decodeCommand = async (options: Options, positionals: string[]) => {
+  const password = await decryptionSecretFrom(options);
+  if (!password) throw new UsageError('--password, --key-file or --private-key is required.');
+  if (positionals.length === 0) throw new UsageError('No image given.');
+  if (options.shares) return decodeSharesCommand(options, positionals, password);
+  const methods = !options.method || options.method === 'auto' ? DECODE_ORDER : [parseMethod(options.method)];
+  if (positionals.length > 1 && options.output && !await isDirectory(options.output)) {
+    throw new UsageError('With several images, -o must be an existing directory.');
+  }
+
+  const results = [];
+  let failures = 0;
+  for (const imagePath of positionals) {
+    const bytes = await readInput(imagePath);
+    const errors: { method: string; error: string }[] = [];
+    let found: { method: Method; payload: DecodedPayload } | null = null;
+    for (const method of methods) {
+      if (METHODS[method].requiresKey && !options.key) continue;
+      try {
+        found = { method, payload: await decodeWith(method, bytes, password, options.key ?? '') };
+        break;
+      } catch (e: any) {
+        errors.push({ method, error: e.message });
+      }
+    }
+    if (!found) {
+      failures++;
+      results.push({ image: imagePath, ok: false, errors });
+      continue;
+    }
+
+    const { payload } = found;
+    if (payload.signature.status === 'invalid') failures++;
+    const savedTo = await savePayload(payload, options.output, `${basename(imagePath, extname(imagePath))}.txt`);
+    results.push({
+      image: imagePath,
+      ok: true,
+      method: found.method,
+      kind: payload.kind,
+      text: payload.kind === 'text' ? payload.text : null,
+      file: payload.file ? { name: payload.file.name, mimeType: payload.file.mimeType, size: payload.file.data.length } : null,
+      signature: payload.signature,
+      savedTo,
+    });
+  }
+
+  return {
+    json: { command: 'decode', results },
+    text: results.map(r => {
+      const prefix = positionals.length > 1 ? `${r.image}: ` : '';
+      if (!r.ok) return `${prefix}no hidden payload found (${r.errors!.map(e => `${e.method}: ${e.error}`).join('; ') || 'no method applicable'})`;
+      const signatureLine = r.signature!.status === 'unsigned' ? '' : `${prefix}Signature: ${describeSignature(r.signature!)}\n`;
+      if (r.savedTo) return `${signatureLine}${prefix}[${r.method}] ${r.kind === 'file' ? `file ${r.file!.name} (${formatBytes(r.file!.size)})` : 'message'} written to ${r.savedTo}`;
+      return `${signatureLine}${prefix}${r.text}`;
+    }).join('\n'),
+    failed: failures > 0,
+  };
+};
+
+// Rebuilds one message from shares hidden in several images, with whichever cover method each used.
+const decodeSharesCommand = async (options: Options, positionals: string[], password: DecryptionSecret) => {
+  const shares = [];
+  const found: core.ImageShare[] = [];
+  for (const imagePath of positionals) {
+    const bytes = await readInput(imagePath);
+    try {
+      const share = await core.findImageShare(bytes, core.isPng(bytes) ? await core.decodeImageBytes(bytes) : null, options.key ?? '');
+      if (share) found.push(share);
+      shares.push({ image: imagePath, share: share && { index: share.share.x, count: share.count, threshold: share.threshold, method: core.CONTAINER_METHOD_NAMES[share.header.method] }, error: null });
+    } catch (e: any) {
+      shares.push({ image: imagePath, share: null, error: e.message as string });
+    }
+  }
+  const payload = await core.decodeShareSet(found, password);
+  const savedTo = await savePayload(payload, options.output, 'shares.txt');
+  const signatureLine = payload.signature.status === 'unsigned' ? [] : [`Signature: ${describeSignature(payload.signature)}`];
+  return {
+    json: {
+      command: 'decode',
+      shares,
+      result: { kind: payload.kind, text: payload.kind === 'text' ? payload.text : null, file: payload.file ? { name: payload.file.name, mimeType: payload.file.mimeType, size: payload.file.data.length } : null, signature: payload.signature, savedTo },
+    },
+    text: [
+      ...shares.map(s => `${s.image}: ${s.share ? `share ${s.share.index} of ${s.share.count} (${s.share.method}, any ${s.share.threshold} rebuild the message)` : s.error ?? 'no share found'}`),
+      ...signatureLine,
+      savedTo ? `${payload.kind === 'file' ? `File ${payload.file!.name} (${formatBytes(payload.file!.data.length)})` : 'Message'} written to ${savedTo}` : payload.text,
+    ].join('\n'),
+    failed: payload.signature.status === 'invalid',
+  };
+};
+
+const describeChiSquare = (analysis: StatisticalAnalysis): string => {
+  const embedded = analysis.chiSquare.filter(c => c.embeddedFraction > 0);
+  if (embedded.length === 0) return 'no sign of LSB replacement';
+  return `LSB replacement possible in the top part of the image (${embedded.map(c => `${c.channel} ~${Math.round(c.embeddedFraction * 100)}%`).join(', ')})`;
+};
+
+const describeEmbeddingRates = (analysis: StatisticalAnalysis): string => {
+  const rates = analysis.embeddingRates.map(e => `${e.channel} ${(e.rs.rate * 100).toFixed(1)}%/${(e.spa.rate * 100).toFixed(1)}%`).join(', ');
+  const verdict = core.embeddingRateVerdict(Math.max(0, ...analysis.embeddingRates.map(core.meanEmbeddingRate)));
+  const summary = verdict === 'none' ? 'no sign of LSB embedding' : `LSB embedding ${verdict}, about ${formatBytes(core.estimatedMessageBytes(analysis))}`;
+  return `${summary} (RS/SPA rates: ${rates})`;
+};
+
+const analyzeCommand = async (options: Options, positionals: string[]) => {
+  if (positionals.length === 0) throw new UsageError('No image given.');
+  const password = await decryptionSecretFrom(options);
+  const reports = [];
+  for (const imagePath of positionals) {
+    const bytes = await readInput(imagePath);
+    const type = core.isPng(bytes) ? 'image/png' : core.isJpeg(bytes) ? 'image/jpeg' : 'application/octet-stream';
+    let aiAnalysis: AIForensicResult | null = null;
+    if (options.ai) {
+      try {
+        const file = new File([bytes], basename(imagePath), { type });
+        aiAnalysis = await analyzeImageWithAI(file, { signal: new AbortController().signal });
+      } catch (e: any) {
+        aiAnalysis = { confidence: -1, reasoning: `AI analysis failed: ${e.message}`, visual_anomalies: [] };
+      }
+    }
+
+    const decodingLog: { method: string; result: 'Success' | 'Failed' | 'Skipped'; details: string }[] = [];
+    let statisticalAnalysis: StatisticalAnalysis | null = null;
+    if (core.isPng(bytes)) {
+      try {
+        statisticalAnalysis = core.analyzeImageStatistics(await core.decodeImageBytes(bytes));
+      } catch (e: any) {
+        decodingLog.push({ method: 'Statistical Analysis', result: 'Failed', details: e.message.substring(0, 150) });
+      }
+    }
+
+    let detectedMethod: string | null = null;
+    let finalResult: string | null = null;
+    let finalSignature: SignatureInfo | null = null;
+    for (const method of DECODE_ORDER) {
+      const info = METHODS[method];
+      if (!password) {
+        decodingLog.push({ method: info.name, result: 'Skipped', details: 'Password or private key not provided.' });
+        continue;
+      }
+      if (info.requiresKey && !options.key) {
+        decodingLog.push({ method: info.name, result: 'Skipped', details: 'Stego Key not provided.' });
+        continue;
+      }
+      if (detectedMethod) {
+        decodingLog.push({ method: info.name, result: 'Skipped', details: `Already decoded with ${detectedMethod}.` });
+        continue;
+      }
+      try {
+        const decoded = await decodeWith(method, bytes, password, options.key ?? '');
+        decodingLog.push({ method: info.name, result: 'Success', details: decoded.kind === 'file' ? 'Hidden file decrypted successfully.' : 'Message decrypted successfully.' });
+        detectedMethod = info.name;
+        finalResult = decoded.text;
+        finalSignature = decoded.signature;
+      } catch (e: any) {
+        decodingLog.push({ method: info.name, result: 'Failed', details: e.message.substring(0, 150) });
+      }
+    }
+    reports.push({ fileProperties: { name: basename(imagePath), size: bytes.length, type }, aiAnalysis, statisticalAnalysis, decodingLog, detectedMethod, finalResult, finalSignature });
+  }
+
+  return {
+    json: { command: 'analyze', reports },
+    text: reports.map(r => [
+      `${r.fileProperties.name} (${r.fileProperties.type}, ${formatBytes(r.fileProperties.size)})`,
+      ...(r.statisticalAnalysis ? [`  Chi-square: ${describeChiSquare(r.statisticalAnalysis)}`, `  RS/SPA: ${describeEmbeddingRates(r.statisticalAnalysis)}`] : []),
+      ...(r.aiAnalysis ? [`  AI confidence: ${r.aiAnalysis.confidence}/10 - ${r.aiAnalysis.reasoning}`] : []),
+      ...r.decodingLog.map(l => `  ${l.method}: ${l.result} - ${l.details}`),
+      `  Result: ${r.detectedMethod ? `${r.detectedMethod}: ${r.finalResult}` : 'nothing found'}`,
+      ...(r.finalSignature ? [`  Signature: ${describeSignature(r.finalSignature)}`] : []),
+    ].join('\n')).join('\n\n'),
+  };
+};
+
+const keygenCommand = async (options: Options) => {
+  const format = (options.format ?? 'pem') as KeyFormat;
+  if (format !== 'pem' && format !== 'jwk') throw new UsageError('--format must be pem or jwk.');
+  if (!options.output) throw new UsageError('-o/--output is required (the key file name without extension).');
+  const type = options.type ?? 'encryption';
+  if (type !== 'encryption' && !Object.values(SignatureAlgorithm).includes(type as SignatureAlgorithm)) {
+    throw new UsageError(`--type must be encryption, ${Object.values(SignatureAlgorithm).join(' or ')}.`);
+  }
+
+  const pair = type === 'encryption' ? await generateKeyPair() : await generateSigningKeyPair(type as SignatureAlgorithm);
+  const publicKeyPath = `${options.output}.pub.${format}`;
+  const privateKeyPath = `${options.output}.key.${format}`;
+  // Never overwrite an existing key: the messages hidden for it would become unreadable (or, for a
+  // signing key, no longer match the fingerprint readers were given).
+  await writeFile(privateKeyPath, await exportKey(pair.privateKey, format), { flag: 'wx', mode: 0o600 });
+  await writeFile(publicKeyPath, await exportKey(pair.publicKey, format), { flag: 'wx' });
+  const fingerprint = await publicKeyFingerprint(pair.publicKey);
+
+  return {
+    json: { command: 'keygen', type, publicKey: publicKeyPath, privateKey: privateKeyPath, fingerprint },
+    text: `Public key:  ${publicKeyPath} (share this)\nPrivate key: ${privateKeyPath} (keep this secret)\nFingerprint: ${fingerprint}`,
+  };
+};
+
+const hashCommand = async (options: Options, positionals: string[]) => {
+  if (positionals.length !== 1) throw new UsageError('Pass exactly one text argument, or "-" for stdin.');
+  const text = positionals[0] === '-' ? new TextDecoder().decode(await readStdin()) : positionals[0];
+  const algorithms = options.algo ? options.algo.split(',').map(a => a.trim().toLowerCase().replace('-', '')) : Object.keys(HASH_ALGORITHMS);
+  const hashes: Record<string, string> = {};
+  for (const algorithm of algorithms) {
+    const hash = HASH_ALGORITHMS[algorithm];
+    if (!hash) throw new UsageError(`Unknown hash algorithm "${algorithm}". Expected: ${Object.keys(HASH_ALGORITHMS).join(', ')}.`);
+    hashes[algorithm] = await hash(text);
+  }
+  return {
+    json: { command: 'hash', hashes },
+    text: Object.entries(hashes).map(([name, value]) => `${name.padEnd(7)} ${value}`).join('\n'),
+  };
+};
+
+const crackCommand = async (options: Options) => {
+  const targetHash = options.hash?.trim().toLowerCase();
+  if (!targetHash || !/^[0-9a-f]{32}$/.test(targetHash)) throw new UsageError('--hash must be a 32-character hexadecimal MD5 hash.');
+  const modes = [options.wordlist !== undefined, options.brute, options.ai].filter(Boolean).length;
+  if (modes !== 1) throw new UsageError('Choose exactly one attack: --wordlist <file>, --brute or --ai.');
+
+  const signal = new AbortController().signal;
+  const showProgress = !options.json && process.stderr.isTTY;
+  const onProgress = ({ checked, total }: { checked: number; total: number }) => {
+    if (showProgress) process.stderr.write(`\rChecked ${checked.toLocaleString()} / ${total.toLocaleString()}`);
+  };
+
+  let mode: 'dictionary' | 'brute-force' | 'ai';
+  let candidates: number;
+  let found: string | null;
+  const start = Date.now();
+  if (options.wordlist !== undefined) {
+    mode = 'dictionary';
+    const wordlist = new TextDecoder().decode(await readInput(options.wordlist));
+    candidates = wordlist.split(/\r?\n/).filter(w => w.length > 0).length;
+    found = await crackMD5(targetHash, wordlist, { onProgress, signal });
+  } else if (options.brute) {
+    mode = 'brute-force';
+    const charset = options.charset ?? DEFAULT_BRUTE_FORCE_CHARSET;
+    const maxLength = Number(options['max-length'] ?? 4);
+    if (!Number.isInteger(maxLength) || maxLength < 1) throw new UsageError('--max-length must be a positive whole number.');
+    candidates = calculateBruteForceCombinations(charset, maxLength);
+    found = await bruteForceMD5(targetHash, charset, maxLength, { onProgress, signal });
+  } else {
+    mode = 'ai';
+    process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+    const guesses = await getAIPasswordGuesses(targetHash, { signal });
+    candidates = guesses.length;
+    found = guesses.find(guess => md5(guess) === targetHash) ?? null;
+  }
+  if (showProgress) process.stderr.write('\n');
+
+  const seconds = (Date.now() - start) / 1000;
+  return {
+    json: { command: 'crack', hash: targetHash, mode, candidates, found: found !== null, password: found, seconds },
+    text: found !== null ? `Found: ${found}` : `Not found after ${candidates.toLocaleString()} candidates.`,
+    failed: found === null,
+  };
+};
+
+// --- Entry point ---
+
+const COMMANDS = {
+  encode: encodeCommand,
+  decode: decodeCommand,
+  analyze: analyzeCommand,
+  keygen: keygenCommand,
+  hash: hashCommand,
+  crack: crackCommand,
+} as const;
+
+const main = async (): Promise<number> => {
+  let json = process.argv.includes('--json');
+  try {
+    const [command, ...rest] = process.argv.slice(2);
+    if (!command || command === '--help' || command === '-h' || command === 'help') {
+      process.stdout.write(USAGE);
+      return command ? 0 : 2;
+    }
+    if (!(command in COMMANDS)) throw new UsageError(`Unknown command "${command}".`);
+
+    const { values, positionals } = parseArgs({ args: rest, options: OPTIONS, allowPositionals: true });
+    json = values.json ?? false;
+    if (values.help) {
+      process.stdout.write(USAGE);
+      return 0;
+    }
+    process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+
+    const result: { json: object; text: string; failed?: boolean } = await COMMANDS[command as keyof typeof COMMANDS](values, positionals);
+    process.stdout.write(`${json ? JSON.stringify({ ok: !result.failed, ...result.json }, null, 2) : result.text}\n`);
+    return result.failed ? 1 : 0;
+  } catch (e: any) {
+    const message = e instanceof UsageError ? `${e.message}\nRun "stego --help" for usage.` : e.message;
+    if (json) process.stdout.write(`${JSON.stringify({ ok: false, error: e.message }, null, 2)}\n`);
+    else process.stderr.write(`Error: ${message}\n`);
+    return e instanceof UsageError ? 2 : 1;
+  }
+};
+
+process.exitCode = await main();
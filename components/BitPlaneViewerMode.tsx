@@ -0,0 +1,245 @@
+import React, { useState, useEffect, useRef } from 'react';
+import FileUploader from './ImageUploader.tsx';
+import ImagePreview from './ImagePreview.tsx';
+import { Layers, Download, ZoomIn, ZoomOut, Maximize, Hourglass } from 'lucide-react';
+import { loadImage } from '../services/imageIoService.ts';
+import { PLANE_CHANNELS, MAX_BIT_PLANE, renderBitPlaneDataUrl, type PlaneChannel, type PlaneColorMap, type BitPlaneComparison } from '../services/bitPlaneService.ts';
+import type { RawImage, SetErrorFunction } from '../types.ts';
+
+interface BitPlaneViewerModeProps {
+  setError: SetErrorFunction;
+}
+
+type ComparisonKind = BitPlaneComparison['kind'];
+
+const CHANNEL_LABELS: Record<PlaneChannel, string> = { R: 'Red', G: 'Green', B: 'Blue', A: 'Alpha', Y: 'Luminance' };
+const COLOR_MAP_LABELS: Record<PlaneColorMap, string> = { grayscale: 'Black / white', inverted: 'White / black', channel: 'Channel colour', contrast: 'Blue / yellow' };
+const ZOOM_LEVELS = [0.25, 0.5, 1, 2, 4, 8, 16, 32];
+const PLANES = Array.from({ length: MAX_BIT_PLANE + 1 }, (_, i) => i);
+
+const selectClass = "p-2 border border-secondary-300 rounded-md text-sm bg-white";
+const smallButtonClass = "inline-flex items-center justify-center px-2.5 py-1.5 border border-secondary-300 text-xs font-medium rounded-md bg-white text-secondary-700 hover:bg-secondary-100 disabled:opacity-50";
+
+const BitPlaneViewerMode: React.FC<BitPlaneViewerModeProps> = ({ setError }) => {
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [image, setImage] = useState<RawImage | null>(null);
+  const [referenceImage, setReferenceImage] = useState<RawImage | null>(null);
+  const [channel, setChannel] = useState<PlaneChannel>('R');
+  const [plane, setPlane] = useState<number>(0);
+  const [comparisonKind, setComparisonKind] = useState<ComparisonKind>('none');
+  const [xorChannel, setXorChannel] = useState<PlaneChannel>('G');
+  const [xorPlane, setXorPlane] = useState<number>(0);
+  const [colorMap, setColorMap] = useState<PlaneColorMap>('grayscale');
+  const [zoom, setZoom] = useState<number | 'fit'>('fit');
+
+  const [rendered, setRendered] = useState<{ dataUrl: string; setBits: number } | null>(null);
+  const [isRendering, setIsRendering] = useState<boolean>(false);
+  const viewRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; left: number; top: number } | null>(null);
+
+  // PNGs are read byte for byte; other formats go through the browser (loadImageToCanvas).
+  const handleFileSelect = async (file: File) => {
+    setError(null);
+    setImageFile(file);
+    setImage(null);
+    setRendered(null);
+    try {
+      setImage(await loadImage(file));
+    } catch (e: any) {
+      setError(e.message || 'Failed to load the image.');
+    }
+  };
+
+  const handleReferenceSelect = async (file: File) => {
+    setError(null);
+    try {
+      setReferenceImage(await loadImage(file));
+    } catch (e: any) {
+      setError(e.message || 'Failed to load the reference image.');
+    }
+  };
+
+  useEffect(() => {
+    if (!image) return;
+    const comparison: BitPlaneComparison | null =
+      comparisonKind === 'xor' ? { kind: 'xor', with: { channel: xorChannel, plane: xorPlane } }
+      : comparisonKind === 'difference' ? (referenceImage && { kind: 'difference', reference: referenceImage })
+      : { kind: 'none' };
+    if (!comparison) {
+      setRendered(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsRendering(true);
+    renderBitPlaneDataUrl(image, { channel, plane }, comparison, colorMap)
+      .then(result => { if (!cancelled) setRendered(result); })
+      .catch((e: any) => { if (!cancelled) { setRendered(null); setError(e.message); } })
+      .finally(() => { if (!cancelled) setIsRendering(false); });
+    return () => { cancelled = true; };
+  }, [image, referenceImage, channel, plane, comparisonKind, xorChannel, xorPlane, colorMap, setError]);
+
+  const fitZoom = (): number => image && viewRef.current ? viewRef.current.clientWidth / image.width : 1;
+  const stepZoom = (direction: 1 | -1) => {
+    const current = zoom === 'fit' ? fitZoom() : zoom;
+    const next = direction > 0 ? ZOOM_LEVELS.find(z => z > current + 1e-9) : [...ZOOM_LEVELS].reverse().find(z => z < current - 1e-9);
+    if (next) setZoom(next);
+  };
+
+  // Drag to pan when zoomed in.
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!viewRef.current) return;
+    dragRef.current = { x: e.clientX, y: e.clientY, left: viewRef.current.scrollLeft, top: viewRef.current.scrollTop };
+  };
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!dragRef.current || !viewRef.current) return;
+    e.preventDefault();
+    viewRef.current.scrollLeft = dragRef.current.left - (e.clientX - dragRef.current.x);
+    viewRef.current.scrollTop = dragRef.current.top - (e.clientY - dragRef.current.y);
+  };
+  const endDrag = () => { dragRef.current = null; };
+
+  const describePlane = () => {
+    const base = `${CHANNEL_LABELS[channel]} plane ${plane}`;
+    if (comparisonKind === 'xor') return `${base} XOR ${CHANNEL_LABELS[xorChannel]} plane ${xorPlane}`;
+    if (comparisonKind === 'difference') return `${base}, bits that differ from the reference`;
+    return base;
+  };
+
+  const exportName = () => {
+    const name = imageFile?.name.replace(/\.[^.]+$/, '') || 'image';
+    const suffix = comparisonKind === 'xor' ? `_xor_${xorChannel}${xorPlane}` : comparisonKind === 'difference' ? '_diff' : '';
+    return `${name}_${channel}${plane}${suffix}.png`;
+  };
+
+  const numPixels = image ? image.width * image.height : 0;
+
+  return (
+    <div className="p-4 md:p-6 bg-white/70 backdrop-blur-md shadow-lg rounded-xl border border-secondary-200">
+      <div className="mb-6 pb-6 border-b border-secondary-200">
+        <h2 className="text-2xl font-semibold text-secondary-800 flex items-center">
+          <Layers className="w-7 h-7 mr-3 text-primary-600" />
+          <span>
+            Bit-Plane Viewer
+            <p className="text-sm font-normal text-secondary-500 mt-1">Look at single bits of a channel to spot embedded data. Sequential LSB embedding shows as a noisy band at the top of plane 0.</p>
+          </span>
+        </h2>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Left Column: Inputs */}
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-secondary-700 mb-1">Upload Image</label>
+            <FileUploader id="bit-plane-upload" onFileSelect={handleFileSelect} />
+            {imageFile && (
+              <div className="mt-3">
+                <ImagePreview file={imageFile} altText="Image being viewed" className="w-full h-auto rounded-md object-contain max-h-48" />
+                {image && <p className="text-xs text-secondary-500 mt-1">{image.width} × {image.height} pixels</p>}
+              </div>
+            )}
+          </div>
+
+          <fieldset className="space-y-3 p-4 border rounded-lg bg-secondary-50/50">
+            <legend className="text-sm font-medium text-secondary-700 px-2">Plane</legend>
+            <div className="flex flex-wrap gap-4">
+              <div>
+                <label htmlFor="plane-channel" className="block text-xs font-medium text-secondary-600 mb-1">Channel:</label>
+                <select id="plane-channel" value={channel} onChange={e => setChannel(e.target.value as PlaneChannel)} className={selectClass}>
+                  {PLANE_CHANNELS.map(c => <option key={c} value={c}>{CHANNEL_LABELS[c]}</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="plane-color-map" className="block text-xs font-medium text-secondary-600 mb-1">Colours:</label>
+                <select id="plane-color-map" value={colorMap} onChange={e => setColorMap(e.target.value as PlaneColorMap)} className={selectClass}>
+                  {(Object.keys(COLOR_MAP_LABELS) as PlaneColorMap[]).map(m => <option key={m} value={m}>{COLOR_MAP_LABELS[m]}</option>)}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="plane-index" className="block text-xs font-medium text-secondary-600 mb-1">Bit plane: <strong>{plane}</strong> {plane === 0 ? '(LSB)' : plane === MAX_BIT_PLANE ? '(MSB)' : ''}</label>
+              <input id="plane-index" type="range" min="0" max={MAX_BIT_PLANE} value={plane} onChange={e => setPlane(parseInt(e.target.value, 10))} className="w-full" />
+            </div>
+          </fieldset>
+
+          <fieldset className="space-y-3 p-4 border rounded-lg bg-secondary-50/50">
+            <legend className="text-sm font-medium text-secondary-700 px-2">Compare</legend>
+            <select value={comparisonKind} onChange={e => setComparisonKind(e.target.value as ComparisonKind)} className={`${selectClass} w-full`}>
+              <option value="none">Plane only</option>
+              <option value="xor">XOR with another plane</option>
+              <option value="difference">Difference from a reference image</option>
+            </select>
+            {comparisonKind === 'xor' && (
+              <div className="flex flex-wrap gap-4">
+                <div>
+                  <label htmlFor="xor-channel" className="block text-xs font-medium text-secondary-600 mb-1">Channel:</label>
+                  <select id="xor-channel" value={xorChannel} onChange={e => setXorChannel(e.target.value as PlaneChannel)} className={selectClass}>
+                    {PLANE_CHANNELS.map(c => <option key={c} value={c}>{CHANNEL_LABELS[c]}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="xor-plane" className="block text-xs font-medium text-secondary-600 mb-1">Plane:</label>
+                  <select id="xor-plane" value={xorPlane} onChange={e => setXorPlane(parseInt(e.target.value, 10))} className={selectClass}>
+                    {PLANES.map(p => <option key={p} value={p}>{p}</option>)}
+                  </select>
+                </div>
+              </div>
+            )}
+            {comparisonKind === 'difference' && (
+              <div>
+                <FileUploader id="bit-plane-reference-upload" onFileSelect={handleReferenceSelect} fileTypeDescription="The original cover, same size" />
+                <p className="text-xs text-secondary-500 mt-1">{referenceImage ? `Reference loaded (${referenceImage.width} × ${referenceImage.height}).` : 'Shows which bits of the plane differ from the original, i.e. exactly what was embedded.'}</p>
+              </div>
+            )}
+            {comparisonKind === 'xor' && <p className="text-xs text-secondary-500">XOR with a neighbouring plane or channel cancels picture content the two share, and leaves the embedded noise.</p>}
+          </fieldset>
+        </div>
+
+        {/* Right Columns: Rendered plane */}
+        <div className="lg:col-span-2 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm font-medium text-secondary-700">{describePlane()}</p>
+            <div className="flex items-center space-x-1">
+              <button onClick={() => stepZoom(-1)} disabled={!rendered} className={smallButtonClass} title="Zoom out"><ZoomOut className="w-4 h-4" /></button>
+              <span className="w-14 text-center text-xs text-secondary-600">{zoom === 'fit' ? 'Fit' : `${zoom * 100}%`}</span>
+              <button onClick={() => stepZoom(1)} disabled={!rendered} className={smallButtonClass} title="Zoom in"><ZoomIn className="w-4 h-4" /></button>
+              <button onClick={() => setZoom('fit')} disabled={!rendered} className={smallButtonClass} title="Fit to view"><Maximize className="w-4 h-4" /></button>
+              {rendered && (
+                <a href={rendered.dataUrl} download={exportName()} className={smallButtonClass} title="Export the plane as a PNG at full size">
+                  <Download className="w-4 h-4 mr-1" /> Export
+                </a>
+              )}
+            </div>
+          </div>
+          <div
+            ref={viewRef}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={endDrag}
+            onMouseLeave={endDrag}
+            onDragStart={e => e.preventDefault()}
+            className={`relative h-[32rem] overflow-auto border border-secondary-200 rounded-lg bg-secondary-100 ${zoom !== 'fit' ? 'cursor-grab active:cursor-grabbing' : ''}`}
+          >
+            {rendered && image ? (
+              <div style={{ width: zoom === 'fit' ? '100%' : image.width * zoom }}>
+                <ImagePreview dataUrl={rendered.dataUrl} altText={describePlane()} className="block w-full h-auto max-w-none select-none [image-rendering:pixelated]" />
+              </div>
+            ) : (
+              <div className="flex flex-col items-center justify-center h-full text-secondary-500 p-4 text-center">
+                {isRendering ? <Hourglass className="w-10 h-10 mb-2 animate-spin text-primary-500" /> : <Layers className="w-10 h-10 mb-2" />}
+                <p className="text-sm">{!imageFile ? 'Upload an image to view its bit planes.' : comparisonKind === 'difference' && !referenceImage ? 'Upload the reference image to compare with.' : 'Rendering...'}</p>
+              </div>
+            )}
+          </div>
+          {rendered && numPixels > 0 && (
+            <p className="text-xs text-secondary-500">
+              {comparisonKind === 'none' ? 'Set bits' : 'Bits that differ'}: <strong>{rendered.setBits.toLocaleString()}</strong> of {numPixels.toLocaleString()} ({(rendered.setBits / numPixels * 100).toFixed(1)}%). Random data sets about half; picture content forms visible shapes.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BitPlaneViewerMode;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { CHI_SQUARE_EMBEDDED_PROBABILITY } from '../constants.ts';
+import type { ChiSquareCurve } from '../types.ts';
+
+interface ChiSquarePlotProps {
+  curves: ChiSquareCurve[];
+}
+
+const CHANNEL_COLORS: Record<ChiSquareCurve['channel'], string> = {
+  RGB: '#1e293b',
+  R: '#dc2626',
+  G: '#16a34a',
+  B: '#2563eb',
+  A: '#9333ea',
+};
+
+const WIDTH = 320;
+const HEIGHT = 160;
+const MARGIN = { top: 8, right: 8, bottom: 24, left: 32 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+const x = (fraction: number) => MARGIN.left + fraction * PLOT_WIDTH;
+const y = (probability: number) => MARGIN.top + (1 - probability) * PLOT_HEIGHT;
+
+// Embedding probability of each channel against how much of the image, from the top, was read.
+const ChiSquarePlot: React.FC<ChiSquarePlotProps> = ({ curves }) => (
+  <div>
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-white border border-secondary-200 rounded-md" role="img" aria-label="Chi-square embedding probability">
+      {[0, 0.25, 0.5, 0.75, 1].map(t => (
+        <g key={t} className="text-secondary-400">
+          <line x1={x(0)} x2={x(1)} y1={y(t)} y2={y(t)} stroke="currentColor" strokeOpacity={0.2} />
+          <text x={MARGIN.left - 4} y={y(t) + 3} textAnchor="end" fontSize={8} fill="currentColor">{t}</text>
+          <text x={x(t)} y={HEIGHT - MARGIN.bottom + 10} textAnchor="middle" fontSize={8} fill="currentColor">{t * 100}%</text>
+        </g>
+      ))}
+      <line x1={x(0)} x2={x(1)} y1={y(CHI_SQUARE_EMBEDDED_PROBABILITY)} y2={y(CHI_SQUARE_EMBEDDED_PROBABILITY)} stroke="#ca8a04" strokeDasharray="3 3" />
+      <text x={x(0.5)} y={HEIGHT - 2} textAnchor="middle" fontSize={8} fill="#64748b">Image read, from the top</text>
+      {curves.map(curve => (
+        <polyline
+          key={curve.channel}
+          fill="none"
+          stroke={CHANNEL_COLORS[curve.channel]}
+          strokeWidth={curve.channel === 'RGB' ? 2 : 1}
+          points={[{ fraction: 0, probability: curve.points[0]?.probability ?? 0 }, ...curve.points].map(p => `${x(p.fraction).toFixed(1)},${y(p.probability).toFixed(1)}`).join(' ')}
+        />
+      ))}
+    </svg>
+    <ul className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs">
+      {curves.map(curve => (
+        <li key={curve.channel} className="flex items-center">
+          <span className="inline-block w-3 h-0.5 mr-1.5" style={{ backgroundColor: CHANNEL_COLORS[curve.channel] }} />
+          <span className="font-semibold mr-1">{curve.channel}:</span>
+          {curve.embeddedFraction > 0 ? `~${Math.round(curve.embeddedFraction * 100)}% embedded` : 'no sign'}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default ChiSquarePlot;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Upload, X, Image as ImageIcon } from 'lucide-react';
+import { formatBytes } from '../utils.ts';
+
+interface ImageFilesInputProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  label: string;
+  addLabel: string;
+}
+
+// A list of image files, in the order they were added (e.g. the covers or shares of a split message).
+const ImageFilesInput: React.FC<ImageFilesInputProps> = ({ files, onChange, label, addLabel }) => {
+  const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const added = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    onChange([...files, ...added]);
+  };
+
+  return (
+    <div>
+      <p className="block text-sm font-medium text-secondary-700 mb-1">{label} <span className="font-normal text-secondary-500">({files.length})</span></p>
+      {files.length > 0 && (
+        <ol className="mb-2 space-y-1">
+          {files.map((f, i) => (
+            <li key={i} className="flex items-center justify-between p-2 text-xs border border-secondary-200 rounded-md bg-white text-secondary-700">
+              <span className="flex items-center truncate"><ImageIcon className="w-3 h-3 mr-1.5 text-primary-600 flex-shrink-0" /> {i + 1}. {f.name} · {formatBytes(f.size)}</span>
+              <button onClick={() => onChange(files.filter((_, j) => j !== i))} className="text-secondary-400 hover:text-red-600" title="Remove image">
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+      <label className="inline-flex items-center justify-center px-3 py-1.5 border border-secondary-300 text-xs font-medium rounded-md bg-white text-secondary-700 hover:bg-secondary-100 cursor-pointer">
+        <Upload className="w-3 h-3 mr-1.5" /> {addLabel}
+        <input type="file" accept="image/*" multiple className="hidden" onChange={handleFiles} />
+      </label>
+    </div>
+  );
+};
+
+export default ImageFilesInput;
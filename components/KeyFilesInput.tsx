@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Upload, X, FileKey } from 'lucide-react';
+import { digestKeyFile } from '../services/keyFileService.ts';
+import { KEY_FILE_MAX_READ_BYTES, MAX_KEY_FILES } from '../constants.ts';
+import type { LoadedKeyFile } from '../types.ts';
+
+interface KeyFilesInputProps {
+  keyFiles: LoadedKeyFile[];
+  onChange: (keyFiles: LoadedKeyFile[]) => void;
+  highlight?: boolean; // Set when a payload turned out to need key files
+}
+
+const KeyFilesInput: React.FC<KeyFilesInputProps> = ({ keyFiles, onChange, highlight = false }) => {
+  const [keyFileError, setKeyFileError] = useState<string | null>(null);
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    setKeyFileError(null);
+    try {
+      const added = [...keyFiles];
+      for (const file of files) {
+        const digest = await digestKeyFile(new Uint8Array(await file.slice(0, KEY_FILE_MAX_READ_BYTES).arrayBuffer()));
+        if (added.some(f => f.digest.every((v, i) => v === digest[i]))) throw new Error(`"${file.name}" is already a key file.`);
+        if (added.length >= MAX_KEY_FILES) throw new Error(`At most ${MAX_KEY_FILES} key files are supported.`);
+        added.push({ name: file.name, digest });
+      }
+      onChange(added);
+    } catch (e: any) {
+      setKeyFileError(e.message);
+    }
+  };
+
+  return (
+    <div className={highlight && keyFiles.length === 0 ? 'p-2 -m-2 rounded-md ring-2 ring-yellow-400' : ''}>
+      <p className="block text-sm font-medium text-secondary-700 mb-1">Key Files <span className="font-normal text-secondary-500">(optional)</span></p>
+      {keyFiles.length > 0 && (
+        <ul className="mb-2 space-y-1">
+          {keyFiles.map((f, i) => (
+            <li key={i} className="flex items-center justify-between p-2 text-xs border border-secondary-200 rounded-md bg-white text-secondary-700">
+              <span className="flex items-center truncate"><FileKey className="w-3 h-3 mr-1.5 text-primary-600 flex-shrink-0" /> {f.name}</span>
+              <button onClick={() => onChange(keyFiles.filter((_, j) => j !== i))} className="text-secondary-400 hover:text-red-600" title="Remove key file">
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <label className="inline-flex items-center justify-center px-3 py-1.5 border border-secondary-300 text-xs font-medium rounded-md bg-white text-secondary-700 hover:bg-secondary-100 cursor-pointer">
+        <Upload className="w-3 h-3 mr-1.5" /> Add Key Files
+        <input type="file" multiple className="hidden" onChange={handleFiles} />
+      </label>
+      {keyFileError && <p className="text-xs text-red-600 mt-1">{keyFileError}</p>}
+      {highlight && keyFiles.length === 0 && <p className="text-xs text-yellow-700 mt-1">This message was encrypted with key files. Add the same files to decrypt it.</p>}
+      <p className="text-xs text-secondary-500 mt-1">Any files can be key files. They are needed along with the password to decrypt, in any order. Only the first {KEY_FILE_MAX_READ_BYTES / (1024 * 1024)} MB of each is read, and a file must not change.</p>
+    </div>
+  );
+};
+
+export default KeyFilesInput;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { KeySquare, FileKey, Fingerprint, Code, Braces, Lock, Signature } from 'lucide-react';
+import InputModeToggle from './InputModeToggle.tsx';
+import TextOutput from './TextOutput.tsx';
+import { generateKeyPair, generateSigningKeyPair, exportKey, publicKeyFingerprint } from '../services/keyPairService.ts';
+import { SignatureAlgorithm, type KeyFormat, type SetErrorFunction, type SetSuccessMessageFunction } from '../types.ts';
+
+type KeyType = 'encryption' | SignatureAlgorithm;
+
+interface KeyPairGeneratorProps {
+  setError: SetErrorFunction;
+  setSuccessMessage: SetSuccessMessageFunction;
+}
+
+const KeyPairGenerator: React.FC<KeyPairGeneratorProps> = ({ setError, setSuccessMessage }) => {
+  const [keyType, setKeyType] = useState<KeyType>('encryption');
+  const [format, setFormat] = useState<KeyFormat>('pem');
+  const [keyPair, setKeyPair] = useState<{ publicKey: string; privateKey: string; fingerprint: string } | null>(null);
+
+  const handleGenerate = async () => {
+    try {
+      const pair = keyType === 'encryption' ? await generateKeyPair() : await generateSigningKeyPair(keyType);
+      setKeyPair({
+        publicKey: await exportKey(pair.publicKey, format),
+        privateKey: await exportKey(pair.privateKey, format),
+        fingerprint: await publicKeyFingerprint(pair.publicKey),
+      });
+    } catch (e: any) {
+      setError(e.message || 'Key pair generation failed.');
+    }
+  };
+
+  const extension = format === 'pem' ? 'pem' : 'jwk';
+  const filePrefix = keyType === 'encryption' ? '' : 'signing-';
+
+  return (
+    <fieldset className="space-y-3 p-4 border rounded-lg bg-secondary-50/50">
+      <legend className="text-sm font-medium text-secondary-700 px-2">Key Pair</legend>
+      <p className="text-xs text-secondary-500">
+        {keyType === 'encryption'
+          ? 'Recipients generate an ECDH P-256 key pair once and share only the public key.'
+          : 'Senders generate a signing key pair once and publish the fingerprint so readers can check who signed a message.'}
+        {' '}Keys are generated in your browser and never leave it.
+      </p>
+      <InputModeToggle
+        options={[
+          { value: 'encryption', label: 'Encryption', icon: <Lock className="w-4 h-4 mr-2" /> },
+          { value: SignatureAlgorithm.EcdsaP256, label: 'ECDSA P-256', icon: <Signature className="w-4 h-4 mr-2" /> },
+          { value: SignatureAlgorithm.Ed25519, label: 'Ed25519', icon: <Signature className="w-4 h-4 mr-2" /> }
+        ]}
+        currentValue={keyType}
+        onSwitch={(v) => { setKeyType(v as KeyType); setKeyPair(null); }}
+        size="sm"
+      />
+      <div className="flex items-center gap-3">
+        <InputModeToggle
+          options={[
+            { value: 'pem', label: 'PEM', icon: <Code className="w-4 h-4 mr-2" /> },
+            { value: 'jwk', label: 'JWK', icon: <Braces className="w-4 h-4 mr-2" /> }
+          ]}
+          currentValue={format}
+          onSwitch={(v) => { setFormat(v as KeyFormat); setKeyPair(null); }}
+          size="sm"
+        />
+        <button onClick={handleGenerate} className="flex items-center justify-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md shadow-sm text-white bg-primary-500 hover:bg-primary-600 focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-primary-400">
+          <KeySquare className="w-3 h-3 mr-1.5" /> Generate Key Pair
+        </button>
+      </div>
+      {keyPair && (
+        <div className="space-y-3">
+          <p className="text-xs text-secondary-600 flex items-center"><Fingerprint className="w-3 h-3 mr-1.5" /> Fingerprint: <code className="ml-1 font-mono">{keyPair.fingerprint}</code></p>
+          <TextOutput
+            label="Public Key"
+            icon={<FileKey className="w-4 h-4 mr-2" />}
+            text={keyPair.publicKey}
+            fileName={`${filePrefix}public-key.${extension}`}
+            onCopySuccess={setSuccessMessage}
+            onCopyError={setError}
+            onDownloadSuccess={setSuccessMessage}
+            textAreaRows={4}
+          />
+          <TextOutput
+            label="Private Key"
+            icon={<KeySquare className="w-4 h-4 mr-2" />}
+            text={keyPair.privateKey}
+            fileName={`${filePrefix}private-key.${extension}`}
+            onCopySuccess={setSuccessMessage}
+            onCopyError={setError}
+            onDownloadSuccess={setSuccessMessage}
+            textAreaRows={4}
+          />
+          <p className="text-xs text-red-600">
+            {keyType === 'encryption'
+              ? 'Keep the private key secret and back it up. Messages hidden for this key cannot be recovered without it.'
+              : 'Keep the private key secret. Anyone who has it can sign messages in your name.'}
+          </p>
+        </div>
+      )}
+    </fieldset>
+  );
+};
+
+export default KeyPairGenerator;
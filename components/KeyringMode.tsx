@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react';
+import { KeyRound, Lock, Unlock, Plus, Trash2, Download, Upload, Fingerprint, KeySquare, Hash, Eye, EyeOff } from 'lucide-react';
+import PasswordStrengthMeter from './PasswordStrengthMeter.tsx';
+import InputModeToggle from './InputModeToggle.tsx';
+import { calculatePasswordStrength, downloadTextFile } from '../utils.ts';
+import { keyringExists, createKeyring, unlockKeyring, saveKeyringEntry, deleteKeyringEntry, deleteKeyring, exportKeyringBackup, importKeyringBackup } from '../services/keyringService.ts';
+import { summarizeKeyPair } from '../services/keyPairService.ts';
+import type { SetLoadingFunction, SetErrorFunction, SetSuccessMessageFunction, PasswordStrengthResult, KeyringEntryKind, UnlockedKeyring, SetKeyringFunction } from '../types.ts';
+
+interface KeyringModeProps {
+  keyring: UnlockedKeyring | null;
+  setKeyring: SetKeyringFunction;
+  isLoading: boolean;
+  setLoading: SetLoadingFunction;
+  setError: SetErrorFunction;
+  setSuccessMessage: SetSuccessMessageFunction;
+}
+
+const KIND_LABELS: Record<KeyringEntryKind, string> = {
+  'password': 'Password',
+  'stego-key': 'Stego Key',
+  'key-pair': 'Key Pair',
+};
+
+const BACKUP_FILE_NAME = 'keyring-backup.json';
+
+const KeyringMode: React.FC<KeyringModeProps> = ({ keyring, setKeyring, isLoading, setLoading, setError, setSuccessMessage }) => {
+  const [exists, setExists] = useState<boolean | null>(null);
+  const [masterPassword, setMasterPassword] = useState('');
+  const [passwordStrength, setPasswordStrength] = useState<PasswordStrengthResult | null>(null);
+
+  // New entry
+  const [entryKind, setEntryKind] = useState<KeyringEntryKind>('password');
+  const [entryName, setEntryName] = useState('');
+  const [entrySecret, setEntrySecret] = useState('');
+  const [entryPublicKey, setEntryPublicKey] = useState('');
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+
+  // Backup import
+  const [backupText, setBackupText] = useState<string | null>(null);
+  const [backupPassword, setBackupPassword] = useState('');
+
+  useEffect(() => {
+    keyringExists().then(setExists).catch((e: any) => { setExists(false); setError(e.message); });
+  }, [keyring, setError]);
+
+  // Shared wrapper: runs a keyring operation with the loading flag and reports its error.
+  const run = async (operation: () => Promise<void>) => {
+    setError(null);
+    setLoading(true);
+    try {
+      await operation();
+    } catch (e: any) {
+      setError(e.message || 'Keyring operation failed.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnlock = () => run(async () => {
+    setKeyring(exists ? await unlockKeyring(masterPassword) : await createKeyring(masterPassword));
+    setSuccessMessage(exists ? 'Keyring unlocked.' : 'Keyring created and unlocked.');
+    setMasterPassword('');
+    setPasswordStrength(null);
+  });
+
+  const handleLock = () => {
+    setKeyring(null);
+    setRevealedId(null);
+    setSuccessMessage('Keyring locked.');
+  };
+
+  const handleDeleteKeyring = () => {
+    if (!window.confirm('Delete the keyring and every entry in it? This cannot be undone.')) return;
+    return run(async () => {
+      await deleteKeyring();
+      setKeyring(null);
+      setExists(false);
+      setSuccessMessage('Keyring deleted.');
+    });
+  };
+
+  const handleAddEntry = () => run(async () => {
+    if (!keyring) return;
+    const keyPair = entryKind === 'key-pair' ? await summarizeKeyPair(entrySecret, entryPublicKey) : null;
+    setKeyring(await saveKeyringEntry(keyring, { kind: entryKind, name: entryName.trim(), secret: entryKind === 'key-pair' ? entrySecret.trim() : entrySecret, ...keyPair }));
+    setSuccessMessage(`"${entryName.trim()}" added to the keyring.`);
+    setEntryName('');
+    setEntrySecret('');
+    setEntryPublicKey('');
+  });
+
+  const handleDeleteEntry = (id: string, name: string) => run(async () => {
+    if (!keyring) return;
+    setKeyring(await deleteKeyringEntry(keyring, id));
+    setSuccessMessage(`"${name}" removed from the keyring.`);
+  });
+
+  const handleExport = () => run(async () => {
+    downloadTextFile(await exportKeyringBackup(), BACKUP_FILE_NAME, 'application/json');
+    setSuccessMessage('Encrypted keyring backup download started. Restoring it needs the current master password.');
+  });
+
+  const handleBackupFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) setBackupText(await file.text());
+  };
+
+  const handleImport = () => run(async () => {
+    if (!keyring || backupText === null) return;
+    const result = await importKeyringBackup(keyring, backupText, backupPassword);
+    setKeyring(result.keyring);
+    setBackupText(null);
+    setBackupPassword('');
+    setSuccessMessage(`Imported ${result.imported} ${result.imported === 1 ? 'entry' : 'entries'} from the backup.`);
+  });
+
+  const inputClass = 'w-full p-3 border bg-white border-secondary-300 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-shadow';
+  const smallButtonClass = 'flex items-center justify-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md shadow-sm text-white bg-primary-500 hover:bg-primary-600 disabled:bg-secondary-300 disabled:cursor-not-allowed';
+  const canAddEntry = !!entryName.trim() && (entryKind === 'key-pair' ? !!(entrySecret.trim() || entryPublicKey.trim()) : !!entrySecret);
+
+  return (
+    <div className="p-4 md:p-6 bg-white/70 backdrop-blur-md shadow-lg rounded-xl border border-secondary-200">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6 pb-6 border-b border-secondary-200">
+        <h2 className="text-2xl font-semibold text-secondary-800">
+          Keyring
+          <p className="text-sm font-normal text-secondary-500 mt-1">Passwords, stego keys and key pairs, encrypted in this browser under one master password.</p>
+        </h2>
+        {keyring && (
+          <div className="flex-shrink-0 flex space-x-2">
+            <button onClick={handleLock} className={smallButtonClass}><Lock className="w-3 h-3 mr-1.5" /> Lock</button>
+          </div>
+        )}
+      </div>
+
+      {!keyring ? (
+        <div className="max-w-md space-y-4">
+          <p className="text-sm text-secondary-600">
+            {exists === null ? 'Checking for a keyring…'
+              : exists ? 'Enter the master password to unlock your keyring. Unlocked entries appear as "From keyring" menus next to every password and key field.'
+              : 'No keyring yet. Choose a master password to create one. It cannot be recovered, so keep an encrypted backup.'}
+          </p>
+          <div>
+            <label htmlFor="keyring-master-password" className="block text-sm font-medium text-secondary-700 mb-1">Master Password</label>
+            <input id="keyring-master-password" type="password" value={masterPassword} onChange={e => { setMasterPassword(e.target.value); setPasswordStrength(calculatePasswordStrength(e.target.value)); }} onKeyDown={e => { if (e.key === 'Enter' && masterPassword && !isLoading) handleUnlock(); }} className={inputClass} placeholder={exists ? 'Master password' : 'Choose a strong master password'}/>
+            {exists === false && <PasswordStrengthMeter strength={passwordStrength} />}
+          </div>
+          <div className="flex space-x-2">
+            <button onClick={handleUnlock} disabled={!masterPassword || isLoading || exists === null} className="flex items-center justify-center px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-primary-600 hover:bg-primary-700 disabled:bg-secondary-300 disabled:cursor-not-allowed transition-colors">
+              <Unlock className="w-4 h-4 mr-2" /> {isLoading ? 'Deriving key...' : exists ? 'Unlock Keyring' : 'Create Keyring'}
+            </button>
+            {exists && (
+              <button onClick={handleDeleteKeyring} disabled={isLoading} className="flex items-center justify-center px-4 py-3 border border-red-300 text-sm font-medium rounded-md text-red-600 bg-white hover:bg-red-50">
+                <Trash2 className="w-4 h-4 mr-2" /> Delete Keyring
+              </button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <h3 className="text-lg font-medium text-secondary-700">Entries ({keyring.entries.length})</h3>
+            {keyring.entries.length === 0 ? (
+              <p className="text-sm text-secondary-500">The keyring is empty. Add an entry to use it in the steganography tools and the Universal Decoder.</p>
+            ) : (
+              <ul className="space-y-2">
+                {keyring.entries.map(entry => (
+                  <li key={entry.id} className="p-3 border border-secondary-200 rounded-md bg-white text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="flex items-center font-medium text-secondary-800">
+                        {entry.kind === 'key-pair' ? <KeySquare className="w-4 h-4 mr-2 text-primary-600" /> : entry.kind === 'stego-key' ? <Hash className="w-4 h-4 mr-2 text-primary-600" /> : <KeyRound className="w-4 h-4 mr-2 text-primary-600" />}
+                        {entry.name}
+                        <span className="ml-2 text-xs font-normal text-secondary-500">{KIND_LABELS[entry.kind]}{entry.kind === 'key-pair' && !entry.secret ? ' (public only)' : ''}</span>
+                      </span>
+                      <span className="flex items-center space-x-2">
+                        {entry.kind !== 'key-pair' && (
+                          <button onClick={() => setRevealedId(revealedId === entry.id ? null : entry.id)} className="text-secondary-400 hover:text-primary-600" title={revealedId === entry.id ? 'Hide' : 'Show'}>
+                            {revealedId === entry.id ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                          </button>
+                        )}
+                        <button onClick={() => handleDeleteEntry(entry.id, entry.name)} className="text-secondary-400 hover:text-red-600" title="Delete entry">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </span>
+                    </div>
+                    {entry.fingerprint && <p className="text-xs text-secondary-600 mt-1 flex items-center"><Fingerprint className="w-3 h-3 mr-1.5" /> <code className="font-mono">{entry.fingerprint}</code></p>}
+                    {revealedId === entry.id && <p className="text-xs mt-1 font-mono break-all text-secondary-700">{entry.secret}</p>}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <fieldset className="space-y-3 p-4 border rounded-lg bg-secondary-50/50">
+              <legend className="text-sm font-medium text-secondary-700 px-2">Backup</legend>
+              <p className="text-xs text-secondary-500">The backup file holds the encrypted entries exactly as stored; it is useless without the master password it was made with.</p>
+              <div className="flex space-x-2">
+                <button onClick={handleExport} disabled={isLoading} className={smallButtonClass}><Download className="w-3 h-3 mr-1.5" /> Export Backup</button>
+                <label className="flex items-center justify-center px-3 py-1.5 border border-secondary-300 text-xs font-medium rounded-md bg-white text-secondary-700 hover:bg-secondary-100 cursor-pointer">
+                  <Upload className="w-3 h-3 mr-1.5" /> Import Backup
+                  <input type="file" className="hidden" accept=".json,application/json" onChange={handleBackupFile} />
+                </label>
+              </div>
+              {backupText !== null && (
+                <div>
+                  <label htmlFor="keyring-backup-password" className="block text-xs font-medium text-secondary-600 mb-1">Master password of the backup:</label>
+                  <div className="flex space-x-2">
+                    <input id="keyring-backup-password" type="password" value={backupPassword} onChange={e => setBackupPassword(e.target.value)} className="flex-1 p-2 border border-secondary-300 rounded-md text-sm bg-white"/>
+                    <button onClick={handleImport} disabled={!backupPassword || isLoading} className={smallButtonClass}>Import</button>
+                  </div>
+                  <p className="text-xs text-secondary-500 mt-1">Entries are re-encrypted under this keyring's master password. Duplicates are skipped.</p>
+                </div>
+              )}
+            </fieldset>
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="text-lg font-medium text-secondary-700">Add Entry</h3>
+            <InputModeToggle
+              options={[
+                { value: 'password', label: 'Password', icon: <KeyRound className="w-4 h-4 mr-2" /> },
+                { value: 'stego-key', label: 'Stego Key', icon: <Hash className="w-4 h-4 mr-2" /> },
+                { value: 'key-pair', label: 'Key Pair', icon: <KeySquare className="w-4 h-4 mr-2" /> }
+              ]}
+              currentValue={entryKind}
+              onSwitch={(v) => { setEntryKind(v as KeyringEntryKind); setEntrySecret(''); setEntryPublicKey(''); }}
+              size="sm"
+            />
+            <div>
+              <label htmlFor="keyring-entry-name" className="block text-sm font-medium text-secondary-700 mb-1">Name</label>
+              <input id="keyring-entry-name" type="text" value={entryName} onChange={e => setEntryName(e.target.value)} className={inputClass} placeholder={entryKind === 'key-pair' ? 'e.g. Alice' : 'e.g. Project images'}/>
+            </div>
+            {entryKind === 'key-pair' ? (
+              <>
+                <div>
+                  <label htmlFor="keyring-entry-private" className="block text-sm font-medium text-secondary-700 mb-1">Private Key</label>
+                  <textarea id="keyring-entry-private" rows={4} value={entrySecret} onChange={e => setEntrySecret(e.target.value)} className={`${inputClass} font-mono text-xs`} placeholder="PEM or JWK. Leave empty to store someone else's public key."/>
+                </div>
+                <div>
+                  <label htmlFor="keyring-entry-public" className="block text-sm font-medium text-secondary-700 mb-1">Public Key</label>
+                  <textarea id="keyring-entry-public" rows={3} value={entryPublicKey} onChange={e => setEntryPublicKey(e.target.value)} className={`${inputClass} font-mono text-xs`} placeholder="PEM or JWK. Derived from the private key when left empty."/>
+                </div>
+              </>
+            ) : (
+              <div>
+                <label htmlFor="keyring-entry-secret" className="block text-sm font-medium text-secondary-700 mb-1">{KIND_LABELS[entryKind]}</label>
+                <input id="keyring-entry-secret" type="password" value={entrySecret} onChange={e => setEntrySecret(e.target.value)} className={inputClass}/>
+              </div>
+            )}
+            <button onClick={handleAddEntry} disabled={!canAddEntry || isLoading} className={smallButtonClass}><Plus className="w-3 h-3 mr-1.5" /> Add to Keyring</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KeyringMode;
@@ -0,0 +1,31 @@
+import React from 'react';
+import type { KeyringEntry, KeyringEntryKind, UnlockedKeyring } from '../types.ts';
+
+interface KeyringPickerProps {
+  keyring: UnlockedKeyring | null;
+  kind: KeyringEntryKind;
+  onPick: (entry: KeyringEntry) => void;
+  filter?: (entry: KeyringEntry) => boolean; // e.g. only key pairs that include a private key
+}
+
+// Compact "fill from keyring" menu shown next to a password or key field. Hidden while the keyring is
+// locked or has no matching entries.
+const KeyringPicker: React.FC<KeyringPickerProps> = ({ keyring, kind, onPick, filter }) => {
+  const entries = keyring?.entries.filter(e => e.kind === kind && (!filter || filter(e))) ?? [];
+  if (entries.length === 0) return null;
+
+  const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const entry = entries.find(e => e.id === event.target.value);
+    event.target.value = '';
+    if (entry) onPick(entry);
+  };
+
+  return (
+    <select defaultValue="" onChange={handleChange} className="p-1 text-xs border border-secondary-300 rounded-md bg-white text-primary-600" aria-label="Fill from keyring">
+      <option value="" disabled>From keyring…</option>
+      {entries.map(e => <option key={e.id} value={e.id}>{e.name}{e.fingerprint ? ` (${e.fingerprint})` : ''}</option>)}
+    </select>
+  );
+};
+
+export default KeyringPicker;
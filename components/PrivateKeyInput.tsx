@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Upload, Fingerprint } from 'lucide-react';
+import { importPrivateKey, importSigningKey, publicKeyFromPrivateKey, publicKeyFingerprint } from '../services/keyPairService.ts';
+import KeyringPicker from './KeyringPicker.tsx';
+import type { LoadedKey, UnlockedKeyring } from '../types.ts';
+
+interface PrivateKeyInputProps {
+  id: string;
+  value: LoadedKey | null;
+  onChange: (key: LoadedKey | null) => void;
+  purpose?: 'decryption' | 'signing'; // Signing keys are ECDSA P-256 or Ed25519 instead of ECDH
+  keyring?: UnlockedKeyring | null;
+}
+
+const KEY_FILE_ACCEPT = '.pem,.key,.jwk,.json,.txt';
+
+const PrivateKeyInput: React.FC<PrivateKeyInputProps> = ({ id, value, onChange, purpose = 'decryption', keyring = null }) => {
+  const [keyText, setKeyText] = useState('');
+  const [keyError, setKeyError] = useState<string | null>(null);
+
+  const loadKey = async (text: string) => {
+    setKeyText(text);
+    setKeyError(null);
+    if (!text.trim()) {
+      onChange(null);
+      return;
+    }
+    try {
+      const key = purpose === 'signing' ? await importSigningKey(text) : await importPrivateKey(text);
+      onChange({ key, fingerprint: await publicKeyFingerprint(await publicKeyFromPrivateKey(key)) });
+    } catch (e: any) {
+      onChange(null);
+      setKeyError(e.message);
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) await loadKey(await file.text());
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label htmlFor={id} className="block text-sm font-medium text-secondary-700">{purpose === 'signing' ? 'Signing Key' : 'Private Key'}</label>
+        <div className="flex items-center space-x-3">
+          <KeyringPicker keyring={keyring} kind="key-pair" filter={e => !!e.secret} onPick={e => loadKey(e.secret)} />
+          <label className="flex items-center text-xs font-medium text-primary-600 hover:text-primary-700 cursor-pointer">
+            <Upload className="w-3 h-3 mr-1" /> Load Key File
+            <input type="file" className="hidden" accept={KEY_FILE_ACCEPT} onChange={handleFile} />
+          </label>
+        </div>
+      </div>
+      <textarea id={id} rows={4} value={keyText} onChange={e => loadKey(e.target.value)} className="w-full p-3 border bg-white border-secondary-300 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-shadow font-mono text-xs" placeholder={`Paste your ${purpose === 'signing' ? 'signing' : 'private'} key (PEM or JWK)...`}/>
+      {keyError && <p className="text-xs text-red-600 mt-1">{keyError}</p>}
+      {value && <p className="text-xs text-secondary-600 mt-1 flex items-center"><Fingerprint className="w-3 h-3 mr-1.5" /> {purpose === 'signing' ? 'Signing' : 'Decrypting'} as <code className="ml-1 font-mono">{value.fingerprint}</code></p>}
+    </div>
+  );
+};
+
+export default PrivateKeyInput;
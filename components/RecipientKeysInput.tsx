@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { UserPlus, Upload, X, Fingerprint } from 'lucide-react';
+import { importPublicKey, publicKeyFingerprint } from '../services/keyPairService.ts';
+import { MAX_HYBRID_RECIPIENTS } from '../constants.ts';
+import KeyringPicker from './KeyringPicker.tsx';
+import type { LoadedKey, UnlockedKeyring } from '../types.ts';
+
+interface RecipientKeysInputProps {
+  recipients: LoadedKey[];
+  onChange: (recipients: LoadedKey[]) => void;
+  keyring?: UnlockedKeyring | null;
+}
+
+const KEY_FILE_ACCEPT = '.pem,.pub,.jwk,.json,.txt';
+
+const RecipientKeysInput: React.FC<RecipientKeysInputProps> = ({ recipients, onChange, keyring = null }) => {
+  const [keyText, setKeyText] = useState('');
+  const [keyError, setKeyError] = useState<string | null>(null);
+
+  const addKey = async (text: string) => {
+    setKeyError(null);
+    try {
+      const key = await importPublicKey(text);
+      const fingerprint = await publicKeyFingerprint(key);
+      if (recipients.some(r => r.fingerprint === fingerprint)) throw new Error('This public key is already a recipient.');
+      if (recipients.length >= MAX_HYBRID_RECIPIENTS) throw new Error(`At most ${MAX_HYBRID_RECIPIENTS} recipients are supported.`);
+      onChange([...recipients, { key, fingerprint }]);
+      setKeyText('');
+    } catch (e: any) {
+      setKeyError(e.message);
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) await addKey(await file.text());
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label htmlFor="recipient-key-input" className="block text-sm font-medium text-secondary-700">Recipient Public Keys</label>
+        <KeyringPicker keyring={keyring} kind="key-pair" filter={e => !!e.publicKey} onPick={e => addKey(e.publicKey!)} />
+      </div>
+      {recipients.length > 0 && (
+        <ul className="mb-2 space-y-1">
+          {recipients.map((r, i) => (
+            <li key={r.fingerprint} className="flex items-center justify-between p-2 text-xs border border-secondary-200 rounded-md bg-white text-secondary-700">
+              <span className="flex items-center"><Fingerprint className="w-3 h-3 mr-1.5 text-primary-600" /> <code className="font-mono">{r.fingerprint}</code></span>
+              <button onClick={() => onChange(recipients.filter((_, j) => j !== i))} className="text-secondary-400 hover:text-red-600" title="Remove recipient">
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <textarea id="recipient-key-input" rows={3} value={keyText} onChange={e => setKeyText(e.target.value)} className="w-full p-3 border bg-white border-secondary-300 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-shadow font-mono text-xs" placeholder="Paste a public key (PEM or JWK)..."/>
+      <div className="flex space-x-2 mt-1">
+        <button onClick={() => addKey(keyText)} disabled={!keyText.trim()} className="flex items-center justify-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md shadow-sm text-white bg-primary-500 hover:bg-primary-600 disabled:bg-secondary-300 disabled:cursor-not-allowed">
+          <UserPlus className="w-3 h-3 mr-1.5" /> Add Recipient
+        </button>
+        <label className="flex items-center justify-center px-3 py-1.5 border border-secondary-300 text-xs font-medium rounded-md bg-white text-secondary-700 hover:bg-secondary-100 cursor-pointer">
+          <Upload className="w-3 h-3 mr-1.5" /> Load Key File
+          <input type="file" className="hidden" accept={KEY_FILE_ACCEPT} onChange={handleFile} />
+        </label>
+      </div>
+      {keyError && <p className="text-xs text-red-600 mt-1">{keyError}</p>}
+      <p className="text-xs text-secondary-500 mt-1">Each recipient can decrypt with their own private key. Recipients are not listed in the payload.</p>
+    </div>
+  );
+};
+
+export default RecipientKeysInput;
@@ -1,7 +1,7 @@
 
 import React from 'react';
 import { HubMode } from '../types.ts';
-import { ScanSearch, Lock, Hash, FileKey, Wrench, ShieldQuestion } from 'lucide-react';
+import { ScanSearch, Layers, Lock, Hash, FileKey, Wrench, ShieldQuestion, KeyRound } from 'lucide-react';
 
 interface SidebarProps {
   currentMode: HubMode;
@@ -10,14 +10,17 @@ interface SidebarProps {
 
 const MODES = [
   { id: HubMode.AutoDecode, label: 'Universal Decoder', icon: ScanSearch, group: 'Analysis' },
+  { id: HubMode.BitPlanes, label: 'Bit-Plane Viewer', icon: Layers, group: 'Analysis' },
   { id: HubMode.LSB, label: 'LSB', icon: Lock, group: 'Steganography' },
   { id: HubMode.PatternLSB, label: 'Pattern LSB', icon: Lock, group: 'Steganography' },
   { id: HubMode.MD5Pattern, label: 'MD5 Pattern', icon: Lock, group: 'Steganography' },
   { id: HubMode.RD, label: 'RD Pattern', icon: Lock, group: 'Steganography' },
   { id: HubMode.Morse, label: 'Morse Pattern', icon: Lock, group: 'Steganography' },
+  { id: HubMode.JpegDct, label: 'JPEG DCT', icon: Lock, group: 'Steganography' },
   { id: HubMode.HashingTools, label: 'Hashing Tools', icon: Hash, group: 'Crypto Tools' },
   { id: HubMode.MD5Cracker, label: 'MD5 Cracker', icon: FileKey, group: 'Crypto Tools' },
   { id: HubMode.Utilities, label: 'Utilities', icon: Wrench, group: 'Crypto Tools' },
+  { id: HubMode.Keyring, label: 'Keyring', icon: KeyRound, group: 'Crypto Tools' },
 ];
 
 const GROUP_ORDER = ['Analysis', 'Steganography', 'Crypto Tools'];
@@ -0,0 +1,36 @@
+import React from 'react';
+import { ShieldCheck, ShieldAlert, ShieldOff } from 'lucide-react';
+import { SIGNATURE_ALGORITHM_NAMES } from '../services/signatureService.ts';
+import type { SignatureInfo } from '../types.ts';
+
+interface SignatureBadgeProps {
+  signature: SignatureInfo;
+}
+
+// Pill showing whether a decoded message was signed and whether the signature checked out. The key id
+// only identifies the signer if the reader compares it with a fingerprint they already trust.
+const SignatureBadge: React.FC<SignatureBadgeProps> = ({ signature }) => {
+  const algorithm = signature.algorithm ? SIGNATURE_ALGORITHM_NAMES[signature.algorithm] : 'Unknown algorithm';
+
+  if (signature.status === 'verified') {
+    return (
+      <span className="inline-flex items-center px-2 py-0.5 text-xs font-bold rounded-full bg-green-200 text-green-800" title={`${algorithm} signature verified. Compare the key id with the signer's fingerprint.`}>
+        <ShieldCheck className="w-3 h-3 mr-1" /> Signed by <code className="ml-1 font-mono">{signature.keyId}</code>
+      </span>
+    );
+  }
+  if (signature.status === 'invalid') {
+    return (
+      <span className="inline-flex items-center px-2 py-0.5 text-xs font-bold rounded-full bg-red-200 text-red-800" title={signature.reason}>
+        <ShieldAlert className="w-3 h-3 mr-1" /> Signature invalid
+      </span>
+    );
+  }
+  return (
+    <span className="inline-flex items-center px-2 py-0.5 text-xs font-bold rounded-full bg-secondary-200 text-secondary-600" title="The sender did not sign this message.">
+      <ShieldOff className="w-3 h-3 mr-1" /> Unsigned
+    </span>
+  );
+};
+
+export default SignatureBadge;
@@ -1,24 +1,39 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import FileUploader from './ImageUploader.tsx';
 import ImagePreview from './ImagePreview.tsx';
 import TextOutput from './TextOutput.tsx';
 import PasswordStrengthMeter from './PasswordStrengthMeter.tsx';
 import InputModeToggle from './InputModeToggle.tsx';
+import RecipientKeysInput from './RecipientKeysInput.tsx';
+import KeyFilesInput from './KeyFilesInput.tsx';
+import PrivateKeyInput from './PrivateKeyInput.tsx';
+import KeyPairGenerator from './KeyPairGenerator.tsx';
+import KeyringPicker from './KeyringPicker.tsx';
+import ImageFilesInput from './ImageFilesInput.tsx';
 import { 
     LockKeyhole, KeyRound, Download, CheckCircle, Shuffle, Fingerprint, Palette, Eye, AudioWaveform, 
-    Binary, FileText, Image as ImageIcon, Type, EyeOff
+    Binary, FileText, Image as ImageIcon, Type, EyeOff, Paperclip, Layers, Grid3x3, Cpu, MemoryStick, Timer, KeySquare, Lock, Zap, ShieldCheck, Box, Globe, Split
 } from 'lucide-react';
-import { MAX_MESSAGE_LENGTH_CHARS } from '../constants.ts';
-import { HubMode, Action, SteganographyMode as StegoModeEnum } from '../types.ts';
-import { calculatePasswordStrength } from '../utils.ts';
+import { MAX_MESSAGE_LENGTH_CHARS, MAX_HIDDEN_FILE_SIZE_BYTES, MAX_LSB_BITS_PER_CHANNEL, DEFAULT_CIPHER, STEGO_CONTEXT_NUM_BYTES, DENIABLE_SLOT_COUNT } from '../constants.ts';
+import { HubMode, Action, SteganographyMode as StegoModeEnum, ContainerMethod, KdfAlgorithm, CipherAlgorithm, PayloadFormat } from '../types.ts';
+import { calculatePasswordStrength, formatBytes } from '../utils.ts';
 import * as LsbService from '../services/steganographyService.ts';
 import * as PatternLsbService from '../services/steganographyPatternLSBService.ts';
 import * as Md5PatternService from '../services/steganographyMD5PatternService.ts';
 import * as RdService from '../services/steganographyRDService.ts';
 import * as MorseService from '../services/steganographyMorseService.ts';
+import * as JpegService from '../services/steganographyJpegService.ts';
+import * as SharingService from '../services/secretSharingService.ts';
 import * as CryptoService from '../services/cryptoService.ts';
-import type { SetLoadingFunction, SetErrorFunction, SetSuccessMessageFunction, PasswordStrengthResult } from '../types.ts';
+import { defaultKdfCosts, kdfParamsFromCosts } from '../services/kdfService.ts';
+import { passwordWithKeyFiles } from '../services/keyFileService.ts';
+import { loadImage } from '../services/imageIoService.ts';
+import { decryptPayloadText, serializeSecret } from '../services/payloadContainerService.ts';
+import { estimateOpenPgpMessageLength } from '../services/openPgpService.ts';
+import { deflate } from '../services/compressionService.ts';
+import { estimateLsbDistortion, lsbLayoutFromOptions, lsbPayloadCapacityBits } from '../services/lsbEmbeddingService.ts';
+import type { SetLoadingFunction, SetErrorFunction, SetSuccessMessageFunction, PasswordStrengthResult, HiddenFile, DecodedPayload, LsbEmbeddingMode, LsbEncodeOptions, EncryptionOptions, EncryptionSecret, DecryptionSecret, LoadedKey, LoadedKeyFile, UnlockedKeyring, DeniableOptions } from '../types.ts';
 
 interface SteganographyModeProps {
   mode: StegoModeEnum;
@@ -26,41 +41,90 @@ interface SteganographyModeProps {
   setLoading: SetLoadingFunction;
   setError: SetErrorFunction;
   setSuccessMessage: SetSuccessMessageFunction;
+  keyring: UnlockedKeyring | null;
 }
 
 type DecodeInputType = 'image' | 'text' | 'binary' | 'hex';
+type SecretInputType = 'text' | 'file';
+type KeyMode = 'password' | 'public_key';
 
-const SteganographyMode: React.FC<SteganographyModeProps> = ({ mode, isLoading, setLoading, setError, setSuccessMessage }) => {
+// Cover methods a message can be split across, by mode.
+const SPLIT_METHODS: Partial<Record<StegoModeEnum, SharingService.ShareMethod>> = {
+  [HubMode.LSB]: ContainerMethod.LSB,
+  [HubMode.PatternLSB]: ContainerMethod.PatternLSB,
+  [HubMode.MD5Pattern]: ContainerMethod.MD5Pattern,
+  [HubMode.JpegDct]: ContainerMethod.JpegDct,
+};
+
+const SteganographyMode: React.FC<SteganographyModeProps> = ({ mode, isLoading, setLoading, setError, setSuccessMessage, keyring }) => {
   const [action, setAction] = useState<Action>('encrypt');
   
   // Inputs
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [secretMessage, setSecretMessage] = useState<string>('');
+  const [secretInputType, setSecretInputType] = useState<SecretInputType>('text');
+  const [secretFile, setSecretFile] = useState<File | null>(null);
   const [password, setPassword] = useState<string>('');
   const [stegoKey, setStegoKey] = useState<string>('');
   const [passwordStrength, setPasswordStrength] = useState<PasswordStrengthResult | null>(null);
+  const [keyMode, setKeyMode] = useState<KeyMode>('password');
+  const [recipients, setRecipients] = useState<LoadedKey[]>([]);
+  const [keyFiles, setKeyFiles] = useState<LoadedKeyFile[]>([]);
+  const [keyFilesRequested, setKeyFilesRequested] = useState<boolean>(false);
+  const [privateKey, setPrivateKey] = useState<LoadedKey | null>(null);
+  const [signMessage, setSignMessage] = useState<boolean>(false);
+  const [signingKey, setSigningKey] = useState<LoadedKey | null>(null);
   const [textPayload, setTextPayload] = useState('');
   const [intermediatePayload, setIntermediatePayload] = useState(''); // For RD Binary / Morse Hex
   const [decodeInputType, setDecodeInputType] = useState<DecodeInputType>('image');
+  const [embeddingMode, setEmbeddingMode] = useState<LsbEmbeddingMode>('replacement');
+  const [bitsPerChannel, setBitsPerChannel] = useState<number>(1);
+  const [useAlpha, setUseAlpha] = useState<boolean>(false);
+  const [matrixEmbedding, setMatrixEmbedding] = useState<boolean>(false);
+  const [adaptiveEmbedding, setAdaptiveEmbedding] = useState<boolean>(false);
+  const [deniable, setDeniable] = useState<boolean>(false);
+  const [withDecoy, setWithDecoy] = useState<boolean>(true);
+  const [decoyMessage, setDecoyMessage] = useState<string>('');
+  const [decoyPassword, setDecoyPassword] = useState<string>('');
+  const [splitShares, setSplitShares] = useState<boolean>(false);
+  const [shareCovers, setShareCovers] = useState<File[]>([]);
+  const [shareThreshold, setShareThreshold] = useState<number>(2);
+  const [payloadFormat, setPayloadFormat] = useState<PayloadFormat>(PayloadFormat.Native);
+  const [cipher, setCipher] = useState<CipherAlgorithm>(DEFAULT_CIPHER);
+  const [compressPayload, setCompressPayload] = useState<boolean>(false);
+  const [compressedSecretBytes, setCompressedSecretBytes] = useState<number | null>(null);
+  const [binaryPayload, setBinaryPayload] = useState<boolean>(false);
+  const [kdfAlgorithm, setKdfAlgorithm] = useState<KdfAlgorithm>(KdfAlgorithm.Argon2id);
+  const [kdfMemoryMiB, setKdfMemoryMiB] = useState<number>(defaultKdfCosts(KdfAlgorithm.Argon2id).memoryMiB);
+  const [kdfTimeCost, setKdfTimeCost] = useState<number>(defaultKdfCosts(KdfAlgorithm.Argon2id).timeCost);
+  const [coverSize, setCoverSize] = useState<{ width: number; height: number } | null>(null);
+  const [jpegCapacity, setJpegCapacity] = useState<{ capacityBytes: number; recompressed: boolean } | null>(null);
 
   // Outputs
   const [encodedDataUrl, setEncodedDataUrl] = useState<string | null>(null);
   const [finalEncryptedPayload, setFinalEncryptedPayload] = useState<string | null>(null);
   const [finalIntermediatePayload, setFinalIntermediatePayload] = useState<string | null>(null);
-  const [decryptedMessage, setDecryptedMessage] = useState<string | null>(null);
+  const [decodedPayload, setDecodedPayload] = useState<DecodedPayload | null>(null);
+  const [changedValues, setChangedValues] = useState<number | null>(null);
+  const [shareImages, setShareImages] = useState<{ dataUrl: string; changedValues: number }[] | null>(null);
 
   const resetState = useCallback(() => {
     setImageFile(null);
+    setShareCovers([]);
     setSecretMessage('');
+    setSecretFile(null);
     setPassword('');
     setStegoKey('');
     setPasswordStrength(null);
+    setKeyFilesRequested(false);
     setTextPayload('');
     setIntermediatePayload('');
     setEncodedDataUrl(null);
     setFinalEncryptedPayload(null);
     setFinalIntermediatePayload(null);
-    setDecryptedMessage(null);
+    setDecodedPayload(null);
+    setChangedValues(null);
+    setShareImages(null);
     setError(null);
     setSuccessMessage(null);
   }, [setError, setSuccessMessage]);
@@ -71,6 +135,28 @@ const SteganographyMode: React.FC<SteganographyModeProps> = ({ mode, isLoading,
     setDecodeInputType('image'); // Reset decode input type when mode changes
   }, [mode, action, resetState]);
 
+  // Read the cover's dimensions for the capacity preview
+  React.useEffect(() => {
+    setCoverSize(null);
+    if (!imageFile) return;
+    let cancelled = false;
+    loadImage(imageFile)
+      .then(({ width, height }) => { if (!cancelled) setCoverSize({ width, height }); })
+      .catch(() => { /* Unreadable images are reported when encoding. */ });
+    return () => { cancelled = true; };
+  }, [imageFile]);
+
+  // The JPEG DCT method's capacity depends on the cover's coefficients, not just its size
+  React.useEffect(() => {
+    setJpegCapacity(null);
+    if (!imageFile || mode !== HubMode.JpegDct || action !== 'encrypt') return;
+    let cancelled = false;
+    JpegService.estimateJpegCapacity(imageFile)
+      .then(capacity => { if (!cancelled) setJpegCapacity(capacity); })
+      .catch(() => { /* Unreadable images are reported when encoding. */ });
+    return () => { cancelled = true; };
+  }, [imageFile, mode, action]);
+
   const handlePasswordChange = (newPassword: string) => {
     setPassword(newPassword);
     setPasswordStrength(calculatePasswordStrength(newPassword));
@@ -78,6 +164,53 @@ const SteganographyMode: React.FC<SteganographyModeProps> = ({ mode, isLoading,
   
   const characterCount = secretMessage.length;
   const isMessageTooLong = characterCount > MAX_MESSAGE_LENGTH_CHARS;
+  const isFileTooLarge = !!secretFile && secretFile.size > MAX_HIDDEN_FILE_SIZE_BYTES;
+  const hasSecret = secretInputType === 'text' ? !!secretMessage && !isMessageTooLong : !!secretFile && !isFileTooLarge;
+
+  const kdf = useMemo(() => kdfParamsFromCosts(kdfAlgorithm, kdfMemoryMiB, kdfTimeCost), [kdfAlgorithm, kdfMemoryMiB, kdfTimeCost]);
+
+  const handleKdfAlgorithmChange = (algorithm: KdfAlgorithm) => {
+    const costs = defaultKdfCosts(algorithm);
+    setKdfAlgorithm(algorithm);
+    setKdfMemoryMiB(costs.memoryMiB);
+    setKdfTimeCost(costs.timeCost);
+  };
+
+  // OpenPGP messages are password-only, with their own cipher and S2K; key files and signing do not apply.
+  const isOpenPgp = keyMode === 'password' && payloadFormat === PayloadFormat.OpenPgp;
+  // Split mode hides one Shamir share of the payload in each of several covers.
+  const isSplit = splitShares && mode in SPLIT_METHODS;
+  // Deniable mode puts the message in one half of the keyed pattern and a decoy, or random fill, in the other.
+  const isDeniable = deniable && !isSplit && keyMode === 'password' && [HubMode.PatternLSB, HubMode.MD5Pattern].includes(mode);
+
+  const estimatedPayloadBytes = useMemo(() => {
+    if (isOpenPgp) {
+      if (secretInputType === 'text') return secretMessage ? estimateOpenPgpMessageLength(new TextEncoder().encode(secretMessage).length) : 0;
+      return secretFile ? estimateOpenPgpMessageLength(secretFile.size, new TextEncoder().encode(secretFile.name).length) : 0;
+    }
+    const hasPlaintext = secretInputType === 'text' ? !!secretMessage : !!secretFile;
+    const plaintextBytes = compressPayload && compressedSecretBytes !== null ? compressedSecretBytes : secretInputType === 'text'
+      ? serializeSecret(secretMessage).length
+      : secretFile ? serializeSecret({ name: secretFile.name, mimeType: secretFile.type || 'application/octet-stream', data: new Uint8Array(0) }).length + secretFile.size : 0;
+    // The encoders bind a stego context of fixed size; only its length matters here.
+    const encryption: EncryptionOptions = { cipher, kdf, signingKey: signMessage ? signingKey?.key : undefined, additionalData: new Uint8Array(STEGO_CONTEXT_NUM_BYTES), binaryPayload };
+    return hasPlaintext ? CryptoService.estimateEncryptedPayloadBytes(plaintextBytes, encryption, keyMode === 'public_key' ? Math.max(1, recipients.length) : 0, keyFiles.length > 0) : 0;
+  }, [isOpenPgp, secretInputType, secretMessage, secretFile, compressPayload, compressedSecretBytes, binaryPayload, cipher, kdf, keyMode, recipients, keyFiles, signMessage, signingKey]);
+
+  const capacityPreview = useMemo(() => {
+    if (!coverSize) return null;
+    const payloadBytes = estimatedPayloadBytes;
+    const numPixels = coverSize.width * coverSize.height;
+    if (isDeniable) {
+      // Each message gets one slot, and the random fill changes the whole image as a full payload would.
+      const layout = lsbLayoutFromOptions({ bitsPerChannel, useAlpha }, numPixels, payloadBytes);
+      const slot = estimateLsbDistortion(Math.floor(numPixels / DENIABLE_SLOT_COUNT), payloadBytes, layout, embeddingMode);
+      const filled = estimateLsbDistortion(numPixels, Math.floor(lsbPayloadCapacityBits(numPixels, layout) / 8), layout, embeddingMode);
+      return { payloadBytes, matrixK: 0, ...filled, capacityBytes: slot.capacityBytes, usedFraction: slot.usedFraction };
+    }
+    const layout = lsbLayoutFromOptions({ bitsPerChannel, useAlpha, matrixEmbedding }, numPixels, payloadBytes);
+    return { payloadBytes, matrixK: layout.matrixK, ...estimateLsbDistortion(numPixels, payloadBytes, layout, embeddingMode) };
+  }, [coverSize, estimatedPayloadBytes, isDeniable, bitsPerChannel, useAlpha, matrixEmbedding, embeddingMode]);
 
   const handleProcess = async () => {
     setLoading(true);
@@ -86,7 +219,9 @@ const SteganographyMode: React.FC<SteganographyModeProps> = ({ mode, isLoading,
     setEncodedDataUrl(null);
     setFinalEncryptedPayload(null);
     setFinalIntermediatePayload(null);
-    setDecryptedMessage(null);
+    setDecodedPayload(null);
+    setChangedValues(null);
+    setShareImages(null);
 
     try {
         if (action === 'encrypt') {
@@ -97,91 +232,149 @@ const SteganographyMode: React.FC<SteganographyModeProps> = ({ mode, isLoading,
     } catch (e: any) {
         console.error(`Error during ${mode} ${action}:`, e);
         setError(e.message || 'An unexpected error occurred.');
+        if (e.message?.includes(CryptoService.KEY_FILES_REQUIRED_MESSAGE)) setKeyFilesRequested(true);
     } finally {
         setLoading(false);
     }
   };
 
+  const readSecret = async (): Promise<string | HiddenFile> => {
+    if (secretInputType === 'text') return secretMessage;
+    if (!secretFile) throw new Error('Please choose a file to hide.');
+    return {
+      name: secretFile.name,
+      mimeType: secretFile.type || 'application/octet-stream',
+      data: new Uint8Array(await secretFile.arrayBuffer()),
+    };
+  };
+
+  // What compression saves depends on the content, so the estimate deflates the secret itself
+  React.useEffect(() => {
+    setCompressedSecretBytes(null);
+    if (!compressPayload || isOpenPgp || action !== 'encrypt' || (secretInputType === 'text' ? !secretMessage : !secretFile)) return;
+    let cancelled = false;
+    readSecret()
+      .then(secret => deflate(serializeSecret(secret)))
+      .then(compressed => { if (!cancelled) setCompressedSecretBytes(compressed.length); })
+      .catch(() => { /* Unreadable files are reported when encoding. */ });
+    return () => { cancelled = true; };
+  }, [compressPayload, isOpenPgp, action, secretInputType, secretMessage, secretFile]);
+
+  // With key files the password may be empty, as with VeraCrypt.
+  const hasEncryptionSecret = keyMode === 'password' ? !!password || (keyFiles.length > 0 && !isOpenPgp) : recipients.length > 0;
+  const hasSigningKey = !signMessage || isOpenPgp || !!signingKey;
+  const hasDecryptionSecret = keyMode === 'password' ? !!password || keyFiles.length > 0 : !!privateKey;
+
   const handleEncrypt = async () => {
-    if(!secretMessage || !password) throw new Error('Secret message and password are required.');
+    if(!hasSecret || !hasEncryptionSecret) throw new Error(keyMode === 'password' ? 'A secret message or file and a password are required.' : 'A secret message or file and at least one recipient public key are required.');
+    if(!hasSigningKey) throw new Error('A signing key is required to sign the message.');
+    const encryptionSecret: EncryptionSecret = isOpenPgp ? password : keyMode === 'password' ? await passwordWithKeyFiles(password, keyFiles) : { recipients: recipients.map(r => r.key) };
     
+    const secret = await readSecret();
+    const lsbOptions: LsbEncodeOptions = { embeddingMode, bitsPerChannel, useAlpha, matrixEmbedding: matrixEmbedding && !isDeniable, adaptive: mode === HubMode.PatternLSB && adaptiveEmbedding && !isDeniable };
+    const deniableOptions: DeniableOptions | undefined = isDeniable ? { decoy: withDecoy ? { secret: decoyMessage, password: decoyPassword } : undefined } : undefined;
+    const encryption: EncryptionOptions = isOpenPgp ? { format: PayloadFormat.OpenPgp } : { cipher, kdf, signingKey: signMessage ? signingKey?.key : undefined, compress: compressPayload, binaryPayload };
+    if (isSplit) {
+        if (shareCovers.length < 2) throw new Error("Please add at least two cover images.");
+        if (needsStegoKey && !stegoKey) throw new Error("Please provide a Stego Key.");
+        const split = await SharingService.encodeShareSetFiles(shareCovers, SPLIT_METHODS[mode]!, shareThreshold, secret, encryptionSecret, stegoKey, lsbOptions, encryption);
+        setShareImages(split.images);
+        setFinalEncryptedPayload(split.encryptedPayload);
+        setSuccessMessage(`The ${secretInputType === 'file' ? 'file' : 'message'} was split across ${shareCovers.length} images. Any ${shareThreshold} of them rebuild it in the Universal Decoder.`);
+        return;
+    }
     let result;
     switch(mode) {
         case HubMode.LSB:
             if(!imageFile) throw new Error("Please upload a cover image.");
-            result = await LsbService.encodeMessage(imageFile, secretMessage, password);
+            result = await LsbService.encodeMessage(imageFile, secret, encryptionSecret, lsbOptions, encryption);
             setEncodedDataUrl(result.dataUrl);
             setFinalEncryptedPayload(result.encryptedPayload);
+            setChangedValues(result.changedValues);
             break;
         case HubMode.PatternLSB:
              if(!imageFile || !stegoKey) throw new Error("Please upload a cover image and provide a Stego Key.");
-             result = await PatternLsbService.encodeMessagePatternLSB(imageFile, secretMessage, stegoKey, password);
+             result = await PatternLsbService.encodeMessagePatternLSB(imageFile, secret, stegoKey, encryptionSecret, lsbOptions, encryption, deniableOptions);
              setEncodedDataUrl(result.dataUrl);
              setFinalEncryptedPayload(result.encryptedPayload);
+             setChangedValues(result.changedValues);
              break;
         case HubMode.MD5Pattern:
              if(!imageFile || !stegoKey) throw new Error("Please upload a cover image and provide a Stego Key.");
-             result = await Md5PatternService.encodeMessageMD5Pattern(imageFile, secretMessage, stegoKey, password);
+             result = await Md5PatternService.encodeMessageMD5Pattern(imageFile, secret, stegoKey, encryptionSecret, lsbOptions, encryption, deniableOptions);
+             setEncodedDataUrl(result.dataUrl);
+             setFinalEncryptedPayload(result.encryptedPayload);
+             setChangedValues(result.changedValues);
+             break;
+        case HubMode.JpegDct:
+             if(!imageFile) throw new Error("Please upload a cover image.");
+             result = await JpegService.encodeJpegMessage(imageFile, secret, encryptionSecret, encryption);
              setEncodedDataUrl(result.dataUrl);
              setFinalEncryptedPayload(result.encryptedPayload);
+             setChangedValues(result.changedValues);
              break;
         case HubMode.RD:
-             result = await RdService.encodeRDMessage(secretMessage, password);
+             result = await RdService.encodeRDMessage(secret, encryptionSecret, encryption);
              setEncodedDataUrl(result.imageDataUrl);
-             setFinalIntermediatePayload(result.binaryEncryptedPayloadWithTerminator);
+             setFinalIntermediatePayload(result.binaryPayload);
              setFinalEncryptedPayload(result.encryptedPayload);
              break;
         case HubMode.Morse:
-            result = await MorseService.encodeMorseMessage(secretMessage, password);
+            result = await MorseService.encodeMorseMessage(secret, encryptionSecret, encryption);
             setEncodedDataUrl(result.dataUrl);
             setFinalIntermediatePayload(result.hexString);
             setFinalEncryptedPayload(result.encryptedPayload);
             break;
     }
-    setSuccessMessage("Encryption and encoding successful!");
+    setSuccessMessage(secretInputType === 'file' ? "File encrypted and hidden successfully!" : "Encryption and encoding successful!");
   };
 
   const handleDecrypt = async () => {
-    if(!password) throw new Error("Password is required for decryption.");
+    if(!hasDecryptionSecret) throw new Error(keyMode === 'password' ? "Password is required for decryption." : "A private key is required for decryption.");
+    const decryptionSecret: DecryptionSecret = keyMode === 'password' ? await passwordWithKeyFiles(password, keyFiles) : privateKey!.key;
     
     let message;
     if (decodeInputType === 'text') {
         if(!textPayload) throw new Error('Please provide the encrypted text payload.');
-        message = await CryptoService.decryptMessage(textPayload, password);
+        message = await decryptPayloadText(textPayload, decryptionSecret);
     } else if (decodeInputType === 'binary' && mode === HubMode.RD) {
         if(!intermediatePayload) throw new Error('Please provide the intermediate binary payload.');
-        message = await RdService.decryptRDMessageFromBinary(intermediatePayload, password);
+        message = await RdService.decryptRDMessageFromBinary(intermediatePayload, decryptionSecret);
     } else if (decodeInputType === 'hex' && mode === HubMode.Morse) {
         if(!intermediatePayload) throw new Error('Please provide the intermediate hex payload.');
-        message = await MorseService.decryptMorseMessageFromHex(intermediatePayload, password);
+        message = await MorseService.decryptMorseMessageFromHex(intermediatePayload, decryptionSecret);
     } else { // 'image'
         if(!imageFile) throw new Error('Please upload an image file.');
         switch(mode) {
             case HubMode.LSB:
-                message = await LsbService.decodeMessage(imageFile, password);
+                message = await LsbService.decodeMessage(imageFile, decryptionSecret);
                 break;
             case HubMode.PatternLSB:
                 if(!stegoKey) throw new Error("Stego Key is required for image decoding.");
-                message = await PatternLsbService.decodeMessagePatternLSB(imageFile, stegoKey, password);
+                message = await PatternLsbService.decodeMessagePatternLSB(imageFile, stegoKey, decryptionSecret);
                 break;
             case HubMode.MD5Pattern:
                 if(!stegoKey) throw new Error("Stego Key is required for image decoding.");
-                message = await Md5PatternService.decodeMessageMD5Pattern(imageFile, stegoKey, password);
+                message = await Md5PatternService.decodeMessageMD5Pattern(imageFile, stegoKey, decryptionSecret);
                 break;
             case HubMode.RD:
-                message = await RdService.decodeRDMessage(imageFile, password);
+                message = await RdService.decodeRDMessage(imageFile, decryptionSecret);
                 break;
             case HubMode.Morse:
-                message = await MorseService.decodeMorseMessage(imageFile, password);
+                message = await MorseService.decodeMorseMessage(imageFile, decryptionSecret);
+                break;
+            case HubMode.JpegDct:
+                message = await JpegService.decodeJpegMessage(imageFile, decryptionSecret);
                 break;
         }
     }
-    setDecryptedMessage(message);
-    setSuccessMessage("Decryption successful!");
+    setDecodedPayload(message ?? null);
+    setSuccessMessage(message?.kind === 'file' ? "Decryption successful! A hidden file was recovered." : "Decryption successful!");
   };
 
   const needsStegoKey = [HubMode.PatternLSB, HubMode.MD5Pattern].includes(mode);
-  const isImageBased = [HubMode.LSB, HubMode.PatternLSB, HubMode.MD5Pattern].includes(mode);
+  const isImageBased = [HubMode.LSB, HubMode.PatternLSB, HubMode.MD5Pattern, HubMode.JpegDct].includes(mode);
+  const usesLsbOptions = [HubMode.LSB, HubMode.PatternLSB, HubMode.MD5Pattern].includes(mode);
   const isGeneratedImage = [HubMode.RD, HubMode.Morse].includes(mode);
 
   const MODE_DETAILS = {
@@ -190,6 +383,7 @@ const SteganographyMode: React.FC<SteganographyModeProps> = ({ mode, isLoading,
       [HubMode.MD5Pattern]: { name: "MD5 Pattern Steganography", icon: Fingerprint },
       [HubMode.RD]: { name: "RD Pattern Steganography", icon: Palette },
       [HubMode.Morse]: { name: "Morse Pattern Steganography", icon: AudioWaveform },
+      [HubMode.JpegDct]: { name: "JPEG DCT Steganography", icon: Grid3x3 },
   };
   
   const currentModeDetails = MODE_DETAILS[mode];
@@ -209,12 +403,14 @@ const SteganographyMode: React.FC<SteganographyModeProps> = ({ mode, isLoading,
   const isProcessButtonDisabled = () => {
       if (isLoading) return true;
       if (action === 'encrypt') {
-          if (!secretMessage || !password || isMessageTooLong) return true;
+          if (!hasSecret || !hasEncryptionSecret || !hasSigningKey) return true;
+          if (isSplit) return shareCovers.length < 2 || shareThreshold < 2 || shareThreshold > shareCovers.length || (needsStegoKey && !stegoKey);
           if (isImageBased && !imageFile) return true;
           if (needsStegoKey && !stegoKey) return true;
+          if (isDeniable && withDecoy && (!decoyMessage || !decoyPassword)) return true;
           return false;
       } else { // decrypt
-          if (!password) return true;
+          if (!hasDecryptionSecret) return true;
           if (decodeInputType === 'image') return !imageFile || (needsStegoKey && !stegoKey);
           if (decodeInputType === 'text') return !textPayload;
           if (['binary', 'hex'].includes(decodeInputType)) return !intermediatePayload;
@@ -261,7 +457,9 @@ const SteganographyMode: React.FC<SteganographyModeProps> = ({ mode, isLoading,
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Left Column: Inputs */}
         <div className="space-y-4">
-            { (action === 'encrypt' && isImageBased) || (action === 'decrypt' && decodeInputType === 'image') ? (
+            { action === 'encrypt' && isSplit ? (
+                <ImageFilesInput files={shareCovers} onChange={setShareCovers} label="Cover Images" addLabel="Add Cover Images" />
+            ) : (action === 'encrypt' && isImageBased) || (action === 'decrypt' && decodeInputType === 'image') ? (
                 <div>
                     <label className="block text-sm font-medium text-secondary-700 mb-1">Upload Image</label>
                     <FileUploader id={`file-upload-${mode}`} onFileSelect={setImageFile} />
@@ -270,9 +468,33 @@ const SteganographyMode: React.FC<SteganographyModeProps> = ({ mode, isLoading,
 
             { action === 'encrypt' ? (
                 <div>
-                    <label htmlFor="secretMessage" className="block text-sm font-medium text-secondary-700 mb-1">Secret Message</label>
-                    <textarea id="secretMessage" rows={4} value={secretMessage} onChange={e => setSecretMessage(e.target.value)} className={`w-full p-3 border rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-shadow bg-white ${isMessageTooLong ? 'border-red-500' : 'border-secondary-300'}`} placeholder="Type your secret message..."/>
-                    <p className={`text-xs mt-1 text-right ${isMessageTooLong ? 'text-red-600' : 'text-secondary-500'}`}>{characterCount}/{MAX_MESSAGE_LENGTH_CHARS}</p>
+                    <div className="flex items-center justify-between mb-1">
+                        <label htmlFor={secretInputType === 'text' ? 'secretMessage' : `secret-file-${mode}`} className="block text-sm font-medium text-secondary-700">Secret {secretInputType === 'text' ? 'Message' : 'File'}</label>
+                        <InputModeToggle
+                            options={[
+                                { value: 'text', label: 'Text', icon: <Type className="w-4 h-4 mr-2" /> },
+                                { value: 'file', label: 'File', icon: <Paperclip className="w-4 h-4 mr-2" /> }
+                            ]}
+                            currentValue={secretInputType}
+                            onSwitch={(v) => setSecretInputType(v as SecretInputType)}
+                            size="sm"
+                        />
+                    </div>
+                    {secretInputType === 'text' ? (
+                        <>
+                            <textarea id="secretMessage" rows={4} value={secretMessage} onChange={e => setSecretMessage(e.target.value)} className={`w-full p-3 border rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-shadow bg-white ${isMessageTooLong ? 'border-red-500' : 'border-secondary-300'}`} placeholder="Type your secret message..."/>
+                            <p className={`text-xs mt-1 text-right ${isMessageTooLong ? 'text-red-600' : 'text-secondary-500'}`}>{characterCount}/{MAX_MESSAGE_LENGTH_CHARS}</p>
+                        </>
+                    ) : (
+                        <>
+                            <FileUploader id={`secret-file-${mode}`} onFileSelect={setSecretFile} accept="*/*" fileTypeDescription={`Any file type, up to ${formatBytes(MAX_HIDDEN_FILE_SIZE_BYTES)}`} />
+                            {secretFile && (
+                                <p className={`text-xs mt-1 text-right ${isFileTooLarge ? 'text-red-600' : 'text-secondary-500'}`}>
+                                    {secretFile.name} · {formatBytes(secretFile.size)}{isFileTooLarge ? ' (too large)' : ''}
+                                </p>
+                            )}
+                        </>
+                    )}
                 </div>
             ) : null }
             
@@ -298,18 +520,301 @@ const SteganographyMode: React.FC<SteganographyModeProps> = ({ mode, isLoading,
             )}
 
             <div>
-                <label htmlFor="password-main" className="block text-sm font-medium text-secondary-700 mb-1">Encryption Password</label>
-                <input id="password-main" type="password" value={password} onChange={e => handlePasswordChange(e.target.value)} className="w-full p-3 border bg-white border-secondary-300 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-shadow" placeholder="Enter a strong password"/>
-                <PasswordStrengthMeter strength={passwordStrength} />
+                <p className="text-xs font-medium text-secondary-600 mb-1">Protect With:</p>
+                <InputModeToggle
+                    options={[
+                        { value: 'password', label: 'Password', icon: <KeyRound className="w-4 h-4 mr-2" /> },
+                        { value: 'public_key', label: 'Public Key', icon: <KeySquare className="w-4 h-4 mr-2" /> }
+                    ]}
+                    currentValue={keyMode}
+                    onSwitch={(v) => setKeyMode(v as KeyMode)}
+                    size="sm"
+                />
             </div>
 
+            {keyMode === 'password' ? (
+                <div>
+                    <div className="flex items-center justify-between mb-1">
+                        <label htmlFor="password-main" className="block text-sm font-medium text-secondary-700">Encryption Password</label>
+                        <KeyringPicker keyring={keyring} kind="password" onPick={e => handlePasswordChange(e.secret)} />
+                    </div>
+                    <input id="password-main" type="password" value={password} onChange={e => handlePasswordChange(e.target.value)} className="w-full p-3 border bg-white border-secondary-300 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-shadow" placeholder="Enter a strong password"/>
+                    <PasswordStrengthMeter strength={passwordStrength} />
+                    {!(action === 'encrypt' && isOpenPgp) && (
+                        <div className="mt-3">
+                            <KeyFilesInput keyFiles={keyFiles} onChange={setKeyFiles} highlight={keyFilesRequested} />
+                        </div>
+                    )}
+                </div>
+            ) : action === 'encrypt' ? (
+                <RecipientKeysInput recipients={recipients} onChange={setRecipients} keyring={keyring} />
+            ) : (
+                <PrivateKeyInput id={`private-key-${mode}`} value={privateKey} onChange={setPrivateKey} keyring={keyring} />
+            )}
+
             {needsStegoKey && (action === 'encrypt' || (action === 'decrypt' && decodeInputType === 'image')) && (
                 <div>
-                    <label htmlFor="stego-key" className="block text-sm font-medium text-secondary-700 mb-1">Stego Key</label>
+                    <div className="flex items-center justify-between mb-1">
+                        <label htmlFor="stego-key" className="block text-sm font-medium text-secondary-700">Stego Key</label>
+                        <KeyringPicker keyring={keyring} kind="stego-key" onPick={e => setStegoKey(e.secret)} />
+                    </div>
                     <input id="stego-key" type="password" value={stegoKey} onChange={e => setStegoKey(e.target.value)} className="w-full p-3 border bg-white border-secondary-300 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-shadow" placeholder="Key for pixel pattern"/>
                 </div>
             )}
 
+            {action === 'encrypt' && mode === HubMode.JpegDct && jpegCapacity && (
+                <div className={`text-xs p-2 rounded-md border ${estimatedPayloadBytes > jpegCapacity.capacityBytes ? 'bg-red-50 border-red-200 text-red-700' : 'bg-white border-secondary-200 text-secondary-600'}`}>
+                    <p>Capacity: <strong>{formatBytes(jpegCapacity.capacityBytes)}</strong> (one bit per AC coefficient other than 0 and 1)</p>
+                    <p>Encrypted payload: <strong>{formatBytes(estimatedPayloadBytes)}</strong></p>
+                    {jpegCapacity.recompressed && <p className="mt-1">This cover is not a baseline JPEG, so it will be compressed to JPEG first.</p>}
+                    {estimatedPayloadBytes > jpegCapacity.capacityBytes && <p className="font-medium mt-1">The payload does not fit. Use a larger or more detailed image, or a smaller secret.</p>}
+                </div>
+            )}
+
+            {action === 'encrypt' && usesLsbOptions && (
+                <fieldset className="space-y-3 p-4 border rounded-lg bg-secondary-50/50">
+                    <legend className="text-sm font-medium text-secondary-700 px-2">Embedding Options</legend>
+                    <div>
+                        <p className="text-xs font-medium text-secondary-600 mb-1">Bit Embedding:</p>
+                        <InputModeToggle
+                            options={[
+                                { value: 'replacement', label: 'LSB Replacement', icon: <Binary className="w-4 h-4 mr-2" /> },
+                                { value: 'matching', label: 'LSB Matching (±1)', icon: <Shuffle className="w-4 h-4 mr-2" /> }
+                            ]}
+                            currentValue={embeddingMode}
+                            onSwitch={(v) => { setEmbeddingMode(v as LsbEmbeddingMode); if (v === 'matching') setAdaptiveEmbedding(false); }}
+                            size="sm"
+                        />
+                        <p className="text-xs text-secondary-500 mt-1">
+                            {embeddingMode === 'matching'
+                                ? 'Changed values are randomly raised or lowered by 1, which defeats chi-square and sample pairs detection.'
+                                : 'Classic LSB overwrite. Simple, but easily found by statistical attacks.'}
+                        </p>
+                    </div>
+                    {mode === HubMode.PatternLSB && !isDeniable && (
+                        <div>
+                            <label className="flex items-center text-sm"><input type="checkbox" checked={adaptiveEmbedding} onChange={(e) => { setAdaptiveEmbedding(e.target.checked); if (e.target.checked) setEmbeddingMode('replacement'); }} className="mr-2 h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"/>Adaptive (textured regions first)</label>
+                            <p className="text-xs text-secondary-500 mt-1">Fills the most textured pixels first and avoids flat areas where changes stand out. Texture is measured on the upper bit planes so the decoder can rebuild the selection. Uses LSB replacement.</p>
+                        </div>
+                    )}
+                    {!isDeniable && (
+                        <div>
+                            <label className="flex items-center text-sm"><input type="checkbox" checked={matrixEmbedding} onChange={(e) => { setMatrixEmbedding(e.target.checked); if (e.target.checked) setBitsPerChannel(1); }} className="mr-2 h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"/>Matrix embedding (Hamming codes)</label>
+                            <p className="text-xs text-secondary-500 mt-1">Embeds k bits into every 2^k − 1 LSBs while changing at most one of them. k is chosen automatically: the smaller the payload relative to the image, the fewer changes. Uses 1 bit per channel.</p>
+                        </div>
+                    )}
+                    {(!matrixEmbedding || isDeniable) && (
+                        <div>
+                            <p className="text-xs font-medium text-secondary-600 mb-1">Bits per Channel:</p>
+                            <InputModeToggle
+                                options={Array.from({ length: MAX_LSB_BITS_PER_CHANNEL }, (_, i) => ({
+                                    value: String(i + 1), label: String(i + 1), icon: <Layers className="w-4 h-4 mr-2" />
+                                }))}
+                                currentValue={String(bitsPerChannel)}
+                                onSwitch={(v) => {
+                                    // Deniable mode shows this toggle with matrix embedding still ticked; more than 1 bit rules it out.
+                                    const bits = parseInt(v, 10);
+                                    setBitsPerChannel(bits);
+                                    if (bits > 1) setMatrixEmbedding(false);
+                                }}
+                                size="sm"
+                            />
+                            <p className="text-xs text-secondary-500 mt-1">More bits per channel multiply capacity but add visible noise and are much easier to detect.</p>
+                        </div>
+                    )}
+                    <div>
+                        <label className="flex items-center text-sm"><input type="checkbox" checked={useAlpha} onChange={(e) => setUseAlpha(e.target.checked)} className="mr-2 h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"/>Include alpha channel</label>
+                        <p className="text-xs text-secondary-500 mt-1">Adds a fourth channel per pixel. PNG covers are read byte for byte, so semi-transparent pixels are safe; other formats are decoded by the browser.</p>
+                    </div>
+                    {capacityPreview && (
+                        <div className={`text-xs p-2 rounded-md border ${capacityPreview.usedFraction > 1 ? 'bg-red-50 border-red-200 text-red-700' : 'bg-white border-secondary-200 text-secondary-600'}`}>
+                            <p>Capacity: <strong>{formatBytes(capacityPreview.capacityBytes)}</strong>{isDeniable && ' per message'} ({coverSize?.width}×{coverSize?.height} px)</p>
+                            <p>Encrypted payload: <strong>{formatBytes(capacityPreview.payloadBytes)}</strong>{capacityPreview.capacityBytes > 0 && ` (${(capacityPreview.usedFraction * 100).toFixed(1)}% of capacity)`}</p>
+                            {capacityPreview.matrixK > 1 && <p>Matrix code: <strong>Hamming ({(1 << capacityPreview.matrixK) - 1}, {capacityPreview.matrixK})</strong></p>}
+                            <p>Expected changes: <strong>~{Math.round(capacityPreview.expectedChanges).toLocaleString()}</strong> channel values</p>
+                            <p>Estimated PSNR: <strong>{Number.isFinite(capacityPreview.psnr) ? `${capacityPreview.psnr.toFixed(1)} dB` : '∞'}</strong> (higher is less visible; above ~40 dB is imperceptible)</p>
+                            {capacityPreview.usedFraction > 1 && <p className="font-medium mt-1">The payload does not fit. Use a larger image, more bits per channel, or a smaller secret.</p>}
+                        </div>
+                    )}
+                </fieldset>
+            )}
+
+            {action === 'encrypt' && mode in SPLIT_METHODS && (
+                <fieldset className="space-y-3 p-4 border rounded-lg bg-secondary-50/50">
+                    <legend className="text-sm font-medium text-secondary-700 px-2">Split Across Images</legend>
+                    <div>
+                        <label className="flex items-center text-sm"><input type="checkbox" checked={splitShares} onChange={(e) => setSplitShares(e.target.checked)} className="mr-2 h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"/>Split the secret across several covers</label>
+                        <p className="text-xs text-secondary-500 mt-1">The encrypted payload is split with Shamir's secret sharing and each cover hides one share. Any chosen number of the images rebuild it; fewer reveal nothing about it, even with the password.</p>
+                    </div>
+                    {isSplit && (
+                        <>
+                            <div>
+                                <label htmlFor="share-threshold" className="block text-xs font-medium text-secondary-600 mb-1">Images needed to rebuild:</label>
+                                <input id="share-threshold" type="number" min="2" max={Math.max(2, shareCovers.length)} value={shareThreshold} onChange={e => setShareThreshold(parseInt(e.target.value, 10) || 0)} className="w-24 p-2 border border-secondary-300 rounded-md text-sm bg-white"/>
+                                <span className="text-xs text-secondary-500 ml-2">of {shareCovers.length} cover{shareCovers.length === 1 ? '' : 's'}</span>
+                            </div>
+                            {shareCovers.length > 0 && (shareThreshold < 2 || shareThreshold > shareCovers.length) && <p className="text-xs text-yellow-700">Choose between 2 and {Math.max(2, shareCovers.length)} images{shareCovers.length < 2 && ', and add at least two covers'}.</p>}
+                            <p className="text-xs text-secondary-500">Every cover must have room for the whole encrypted payload, plus a few bytes. Decode the images together in the Universal Decoder.{needsStegoKey && keyMode === 'password' ? ' Deniable mode is off while splitting.' : ''}</p>
+                        </>
+                    )}
+                </fieldset>
+            )}
+
+            {action === 'encrypt' && needsStegoKey && keyMode === 'password' && !isSplit && (
+                <fieldset className="space-y-3 p-4 border rounded-lg bg-secondary-50/50">
+                    <legend className="text-sm font-medium text-secondary-700 px-2">Deniable Mode</legend>
+                    <div>
+                        <label className="flex items-center text-sm"><input type="checkbox" checked={deniable} onChange={(e) => setDeniable(e.target.checked)} className="mr-2 h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"/>Hide the message deniably</label>
+                        <p className="text-xs text-secondary-500 mt-1">The pattern is split in two: your message goes in one half, and a harmless decoy under its own password, or nothing, in the other. The rest of the image is filled with random data, so a password opens only its own message and nothing shows whether the image holds another.</p>
+                    </div>
+                    {isDeniable && (
+                        <label className="flex items-center text-sm"><input type="checkbox" checked={withDecoy} onChange={(e) => setWithDecoy(e.target.checked)} className="mr-2 h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"/>Also hide a decoy message</label>
+                    )}
+                    {isDeniable && withDecoy && (
+                        <>
+                            <div>
+                                <label htmlFor="decoy-message" className="block text-xs font-medium text-secondary-600 mb-1">Decoy Message:</label>
+                                <textarea id="decoy-message" rows={3} value={decoyMessage} onChange={e => setDecoyMessage(e.target.value)} maxLength={MAX_MESSAGE_LENGTH_CHARS} className="w-full p-2 border border-secondary-300 rounded-md text-sm bg-white" placeholder="Something believable but harmless..."/>
+                            </div>
+                            <div>
+                                <div className="flex items-center justify-between mb-1">
+                                    <label htmlFor="decoy-password" className="block text-xs font-medium text-secondary-600">Decoy Password:</label>
+                                    <KeyringPicker keyring={keyring} kind="password" onPick={e => setDecoyPassword(e.secret)} />
+                                </div>
+                                <input id="decoy-password" type="password" value={decoyPassword} onChange={e => setDecoyPassword(e.target.value)} className="w-full p-2 border border-secondary-300 rounded-md text-sm bg-white" placeholder="Must differ from the real password"/>
+                            </div>
+                            <p className="text-xs text-secondary-500">The decoy is encrypted with the same settings but never signed. If you are forced to reveal a password, give the decoy's.</p>
+                        </>
+                    )}
+                    {isDeniable && (
+                        <p className="text-xs text-secondary-500">Each message gets half of the capacity. Matrix embedding and adaptive selection are off in this mode. Decoding needs no setting: each password opens its own message.</p>
+                    )}
+                </fieldset>
+            )}
+
+            {action === 'encrypt' && keyMode === 'password' && (
+                <fieldset className="space-y-3 p-4 border rounded-lg bg-secondary-50/50">
+                    <legend className="text-sm font-medium text-secondary-700 px-2">Payload Format</legend>
+                    <div>
+                        <InputModeToggle
+                            options={[
+                                { value: PayloadFormat.Native, label: 'Native', icon: <Box className="w-4 h-4 mr-2" /> },
+                                { value: PayloadFormat.OpenPgp, label: 'OpenPGP', icon: <Globe className="w-4 h-4 mr-2" /> }
+                            ]}
+                            currentValue={payloadFormat}
+                            onSwitch={(v) => setPayloadFormat(v as PayloadFormat)}
+                            size="sm"
+                        />
+                        <p className="text-xs text-secondary-500 mt-1">
+                            {payloadFormat === PayloadFormat.OpenPgp
+                                ? 'A standard ASCII-armored OpenPGP message (AES-256, iterated and salted S2K). Once extracted, gpg --decrypt or any OpenPGP tool opens it with the password. Key files, signing and the choices below do not apply, and the message is not bound to its carrier.'
+                                : 'This tool\'s own format, with every cipher, key derivation and protection option.'}
+                        </p>
+                    </div>
+                    <p className="text-xs text-secondary-500">Decoding recognises both formats. OpenPGP messages made with other tools can be pasted as encrypted text.</p>
+                </fieldset>
+            )}
+
+            {action === 'encrypt' && !isOpenPgp && (
+                <fieldset className="space-y-3 p-4 border rounded-lg bg-secondary-50/50">
+                    <legend className="text-sm font-medium text-secondary-700 px-2">Cipher</legend>
+                    <div>
+                        <InputModeToggle
+                            options={[
+                                { value: CipherAlgorithm.AesGcm, label: CryptoService.CIPHER_NAMES[CipherAlgorithm.AesGcm], icon: <Lock className="w-4 h-4 mr-2" /> },
+                                { value: CipherAlgorithm.ChaCha20Poly1305, label: CryptoService.CIPHER_NAMES[CipherAlgorithm.ChaCha20Poly1305], icon: <Zap className="w-4 h-4 mr-2" /> },
+                                { value: CipherAlgorithm.AesGcmSiv, label: CryptoService.CIPHER_NAMES[CipherAlgorithm.AesGcmSiv], icon: <ShieldCheck className="w-4 h-4 mr-2" /> }
+                            ]}
+                            currentValue={cipher}
+                            onSwitch={(v) => setCipher(v as CipherAlgorithm)}
+                            size="sm"
+                        />
+                        <p className="text-xs text-secondary-500 mt-1">
+                            {cipher === CipherAlgorithm.AesGcm
+                                ? 'Hardware-accelerated and readable by older versions of this tool.'
+                                : cipher === CipherAlgorithm.ChaCha20Poly1305
+                                    ? 'A stream cipher that needs no AES hardware. Older versions of this tool cannot decrypt it.'
+                                    : 'Misuse-resistant: a repeated nonce only reveals whether two messages are identical. Older versions of this tool cannot decrypt it.'}
+                        </p>
+                    </div>
+                    <p className="text-xs text-secondary-500">The cipher is recorded in the payload, so decoding detects it automatically.</p>
+                </fieldset>
+            )}
+
+            {action === 'encrypt' && !isOpenPgp && (
+                <fieldset className="space-y-3 p-4 border rounded-lg bg-secondary-50/50">
+                    <legend className="text-sm font-medium text-secondary-700 px-2">Payload Size</legend>
+                    <div>
+                        <label className="flex items-center text-sm"><input type="checkbox" checked={compressPayload} onChange={(e) => setCompressPayload(e.target.checked)} className="mr-2 h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"/>Compress before encryption (deflate)</label>
+                        <p className="text-xs text-secondary-500 mt-1">Shrinks text and uncompressed files. Already compressed files, such as images and archives, can grow slightly.</p>
+                    </div>
+                    <div>
+                        <label className="flex items-center text-sm"><input type="checkbox" checked={binaryPayload} onChange={(e) => setBinaryPayload(e.target.checked)} className="mr-2 h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"/>Embed raw ciphertext bytes</label>
+                        <p className="text-xs text-secondary-500 mt-1">Stores the salt, IV and ciphertext as bytes instead of base64 text, about a quarter smaller. The encrypted text shown after encoding is still base64.</p>
+                    </div>
+                    <p className="text-xs text-secondary-500">Both choices are flagged in the container header, so decoding needs no settings. Older versions of this tool cannot decode them.</p>
+                </fieldset>
+            )}
+
+            {action === 'encrypt' && keyMode === 'password' && !isOpenPgp && (
+                <fieldset className="space-y-3 p-4 border rounded-lg bg-secondary-50/50">
+                    <legend className="text-sm font-medium text-secondary-700 px-2">Key Derivation</legend>
+                    <div>
+                        <InputModeToggle
+                            options={[
+                                { value: KdfAlgorithm.Argon2id, label: 'Argon2id', icon: <MemoryStick className="w-4 h-4 mr-2" /> },
+                                { value: KdfAlgorithm.Scrypt, label: 'scrypt', icon: <Cpu className="w-4 h-4 mr-2" /> },
+                                { value: KdfAlgorithm.PBKDF2, label: 'PBKDF2', icon: <Timer className="w-4 h-4 mr-2" /> }
+                            ]}
+                            currentValue={kdfAlgorithm}
+                            onSwitch={(v) => handleKdfAlgorithmChange(v as KdfAlgorithm)}
+                            size="sm"
+                        />
+                        <p className="text-xs text-secondary-500 mt-1">
+                            {kdfAlgorithm === KdfAlgorithm.PBKDF2
+                                ? 'Compatible with older versions of this tool, but cheap to attack with GPUs.'
+                                : 'Memory-hard: every password guess needs the chosen amount of RAM, which makes GPU and ASIC cracking expensive.'}
+                        </p>
+                    </div>
+                    <div className="flex flex-wrap gap-4">
+                        {kdfAlgorithm === KdfAlgorithm.Argon2id && (
+                            <div>
+                                <label htmlFor="kdf-memory" className="block text-xs font-medium text-secondary-600 mb-1">Memory (MiB):</label>
+                                <input id="kdf-memory" type="number" min="1" max="1024" value={kdfMemoryMiB} onChange={e => setKdfMemoryMiB(parseInt(e.target.value, 10) || 0)} className="w-24 p-2 border border-secondary-300 rounded-md text-sm bg-white"/>
+                            </div>
+                        )}
+                        {kdfAlgorithm === KdfAlgorithm.Scrypt && (
+                            <div>
+                                <label htmlFor="kdf-memory" className="block text-xs font-medium text-secondary-600 mb-1">Memory (MiB):</label>
+                                <select id="kdf-memory" value={kdfMemoryMiB} onChange={e => setKdfMemoryMiB(parseInt(e.target.value, 10))} className="w-24 p-2 border border-secondary-300 rounded-md text-sm bg-white">
+                                    {[16, 32, 64, 128, 256, 512, 1024].map(mib => <option key={mib} value={mib}>{mib}</option>)}
+                                </select>
+                            </div>
+                        )}
+                        <div>
+                            <label htmlFor="kdf-time" className="block text-xs font-medium text-secondary-600 mb-1">
+                                {kdfAlgorithm === KdfAlgorithm.Argon2id ? 'Passes:' : kdfAlgorithm === KdfAlgorithm.Scrypt ? 'Parallel cost (p):' : 'Iterations (×1000):'}
+                            </label>
+                            <input id="kdf-time" type="number" min="1" value={kdfTimeCost} onChange={e => setKdfTimeCost(parseInt(e.target.value, 10) || 0)} className="w-24 p-2 border border-secondary-300 rounded-md text-sm bg-white"/>
+                        </div>
+                    </div>
+                    <p className="text-xs text-secondary-500">Higher costs slow down password guessing, and encoding and decoding too. The algorithm and its costs are stored in the payload, so decoding needs only the password.</p>
+                </fieldset>
+            )}
+
+            {action === 'encrypt' && !isOpenPgp && (
+                <fieldset className="space-y-3 p-4 border rounded-lg bg-secondary-50/50">
+                    <legend className="text-sm font-medium text-secondary-700 px-2">Signature</legend>
+                    <div>
+                        <label className="flex items-center text-sm"><input type="checkbox" checked={signMessage} onChange={(e) => setSignMessage(e.target.checked)} className="mr-2 h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"/>Sign the message</label>
+                        <p className="text-xs text-secondary-500 mt-1">Signs the secret with your ECDSA P-256 or Ed25519 key before encryption. Readers see who signed it once they decrypt, and any change to the message breaks the signature.</p>
+                    </div>
+                    {signMessage && <PrivateKeyInput id={`signing-key-${mode}`} value={signingKey} onChange={setSigningKey} purpose="signing" keyring={keyring} />}
+                </fieldset>
+            )}
+
+            {(keyMode === 'public_key' || (action === 'encrypt' && signMessage)) && <KeyPairGenerator setError={setError} setSuccessMessage={setSuccessMessage} />}
+
             <button onClick={handleProcess} disabled={isProcessButtonDisabled()} className="w-full flex items-center justify-center px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:bg-secondary-300 disabled:cursor-not-allowed transition-colors">
                 {isLoading ? 'Processing...' : (action === 'encrypt' ? 'Encrypt & Hide' : 'Extract & Decrypt')}
             </button>
@@ -320,13 +825,24 @@ const SteganographyMode: React.FC<SteganographyModeProps> = ({ mode, isLoading,
              <h3 className="text-lg font-medium text-secondary-700">Results</h3>
              {action === 'encrypt' && (
                  <div className="space-y-4">
-                    {(encodedDataUrl || finalEncryptedPayload) ? (
+                    {(encodedDataUrl || shareImages || finalEncryptedPayload) ? (
                         <>
+                        {shareImages && shareImages.map((share, i) => (
+                             <div key={i} className="p-3 border rounded-md bg-green-50 border-green-200">
+                                <h4 className="text-sm font-medium text-green-700 mb-2 flex items-center"><Split className="w-5 h-5 mr-1 text-green-600"/> Share {i + 1} of {shareImages.length}: {shareCovers[i]?.name}</h4>
+                                <ImagePreview dataUrl={share.dataUrl} altText={`Share ${i + 1}`} />
+                                <p className="text-xs text-secondary-600 mt-2">Modified {mode === HubMode.JpegDct ? 'coefficients' : 'channel values'}: <strong>{share.changedValues.toLocaleString()}</strong></p>
+                                <a href={share.dataUrl} download={`share_${i + 1}_of_${shareImages.length}_${shareCovers[i]?.name.replace(/\.[^.]+$/, '') || 'image'}.${mode === HubMode.JpegDct ? 'jpg' : 'png'}`} className="mt-4 w-full flex items-center justify-center px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700">
+                                    <Download className="w-5 h-5 mr-2" /> Download Share {i + 1}
+                                </a>
+                            </div>
+                        ))}
                         {encodedDataUrl && (
                              <div className="p-3 border rounded-md bg-green-50 border-green-200">
                                 <h4 className="text-sm font-medium text-green-700 mb-2 flex items-center"><CheckCircle className="w-5 h-5 mr-1 text-green-600"/> Encoded Image:</h4>
                                 <ImagePreview dataUrl={encodedDataUrl} altText="Encoded output" />
-                                <a href={encodedDataUrl} download={`encoded_${mode}_${imageFile?.name || 'image'}.png`} className="mt-4 w-full flex items-center justify-center px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700">
+                                {changedValues !== null && <p className="text-xs text-secondary-600 mt-2">Modified channel values: <strong>{changedValues.toLocaleString()}</strong></p>}
+                                <a href={encodedDataUrl} download={`encoded_${mode}_${imageFile?.name.replace(/\.[^.]+$/, '') || 'image'}.${mode === HubMode.JpegDct ? 'jpg' : 'png'}`} className="mt-4 w-full flex items-center justify-center px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700">
                                     <Download className="w-5 h-5 mr-2" /> Download Image
                                 </a>
                             </div>
@@ -347,11 +863,19 @@ const SteganographyMode: React.FC<SteganographyModeProps> = ({ mode, isLoading,
              )}
              {action === 'decrypt' && (
                  <>
-                    {decryptedMessage !== null ? (
-                        <div className="p-4 border rounded-md bg-green-50 border-green-200">
-                            <h4 className="text-sm font-medium text-green-700 mb-2 flex items-center"><CheckCircle className="w-5 h-5 mr-1 text-green-600"/>Decrypted Message:</h4>
-                            <textarea readOnly value={decryptedMessage} rows={8} className="w-full p-3 border border-secondary-300 rounded-md bg-white text-secondary-700 focus:outline-none" />
-                        </div>
+                    {decodedPayload !== null ? (
+                        <TextOutput
+                            label={decodedPayload.kind === 'file' ? 'Recovered File' : 'Decrypted Message'}
+                            icon={decodedPayload.kind === 'file' ? <Paperclip className="w-4 h-4 mr-1" /> : <CheckCircle className="w-5 h-5 mr-1 text-green-600" />}
+                            text={decodedPayload.text}
+                            file={decodedPayload.file}
+                            signature={decodedPayload.signature}
+                            fileName={`decrypted_message_${mode}.txt`}
+                            onCopySuccess={setSuccessMessage}
+                            onCopyError={setError}
+                            onDownloadSuccess={setSuccessMessage}
+                            textAreaRows={decodedPayload.kind === 'file' ? 2 : 8}
+                        />
                     ) : (
                         <div className="flex flex-col items-center justify-center h-full p-8 min-h-96 border-2 border-secondary-200 border-dashed rounded-lg bg-secondary-50 text-center">
                             <KeyRound className="w-16 h-16 text-secondary-300 mb-4" />
@@ -1,7 +1,9 @@
 
 import React from 'react';
-import { Copy, Download } from 'lucide-react';
-import { copyToClipboard, downloadTextFile } from '../utils.ts';
+import { Copy, Download, File as FileIcon } from 'lucide-react';
+import { copyToClipboard, downloadTextFile, downloadBinaryFile, formatBytes } from '../utils.ts';
+import SignatureBadge from './SignatureBadge.tsx';
+import type { HiddenFile, SignatureInfo } from '../types.ts';
 
 interface TextOutputProps {
   label: string;
@@ -12,6 +14,8 @@ interface TextOutputProps {
   onCopyError: (message: string) => void;
   onDownloadSuccess: (message: string) => void;
   textAreaRows?: number;
+  file?: HiddenFile | null; // When set, the download button saves this file instead of the text
+  signature?: SignatureInfo | null; // When set, shows whether the decoded message was signed
 }
 
 const TextOutput: React.FC<TextOutputProps> = ({
@@ -23,6 +27,8 @@ const TextOutput: React.FC<TextOutputProps> = ({
   onCopyError,
   onDownloadSuccess,
   textAreaRows = 5,
+  file = null,
+  signature = null,
 }) => {
   if (!text) {
     return null;
@@ -40,7 +46,10 @@ const TextOutput: React.FC<TextOutputProps> = ({
   };
 
   const handleDownload = () => {
-    if (text) {
+    if (file) {
+      downloadBinaryFile(file.data, file.name, file.mimeType);
+      onDownloadSuccess(`Download of "${file.name}" started.`);
+    } else if (text) {
       downloadTextFile(text, fileName);
       onDownloadSuccess(`${label} download started.`);
     }
@@ -48,9 +57,20 @@ const TextOutput: React.FC<TextOutputProps> = ({
 
   return (
     <div className="p-3 border rounded-lg bg-blue-50/70 border-blue-200 space-y-2">
-      <h4 className="text-sm font-medium text-blue-800 mb-1 flex items-center">
-        {icon} {label}:
-      </h4>
+      <div className="flex items-center justify-between mb-1">
+        <h4 className="text-sm font-medium text-blue-800 flex items-center">
+          {icon} {label}:
+        </h4>
+        {signature && <SignatureBadge signature={signature} />}
+      </div>
+      {signature?.status === 'invalid' && <p className="text-xs text-red-600">{signature.reason}</p>}
+      {file && (
+        <div className="flex items-center p-2 text-xs border border-blue-200 rounded-md bg-white text-secondary-700">
+          <FileIcon className="w-4 h-4 mr-2 text-blue-600 flex-shrink-0" />
+          <span className="font-semibold truncate">{file.name}</span>
+          <span className="ml-2 text-secondary-500 flex-shrink-0">{file.mimeType} · {formatBytes(file.data.length)}</span>
+        </div>
+      )}
       <textarea
         readOnly
         value={text}
@@ -69,9 +89,9 @@ const TextOutput: React.FC<TextOutputProps> = ({
         <button
           onClick={handleDownload}
           className="flex items-center justify-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md shadow-sm text-white bg-green-500 hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-green-400"
-          title={`Download ${label.toLowerCase()} as TXT`}
+          title={file ? `Download ${file.name}` : `Download ${label.toLowerCase()} as TXT`}
         >
-          <Download className="w-3 h-3 mr-1.5" /> Download
+          <Download className="w-3 h-3 mr-1.5" /> {file ? 'Download File' : 'Download'}
         </button>
       </div>
     </div>
@@ -6,7 +6,9 @@ import HashingMode from './HashingMode.tsx';
 import MD5CrackerMode from './MD5CrackerMode.tsx';
 import UtilityMode from './UtilityMode.tsx';
 import UniversalDecoderMode from './UniversalDecoderMode.tsx';
-import type { SetLoadingFunction, SetErrorFunction, SetSuccessMessageFunction } from '../types.ts';
+import BitPlaneViewerMode from './BitPlaneViewerMode.tsx';
+import KeyringMode from './KeyringMode.tsx';
+import type { SetLoadingFunction, SetErrorFunction, SetSuccessMessageFunction, UnlockedKeyring, SetKeyringFunction } from '../types.ts';
 
 interface UnifiedHubProps {
   mode: HubMode;
@@ -14,12 +16,14 @@ interface UnifiedHubProps {
   setLoading: SetLoadingFunction;
   setError: SetErrorFunction;
   setSuccessMessage: SetSuccessMessageFunction;
+  keyring: UnlockedKeyring | null;
+  setKeyring: SetKeyringFunction;
 }
 
-const UnifiedHub: React.FC<UnifiedHubProps> = ({ mode, isLoading, setLoading, setError, setSuccessMessage }) => {
+const UnifiedHub: React.FC<UnifiedHubProps> = ({ mode, isLoading, setLoading, setError, setSuccessMessage, keyring, setKeyring }) => {
   
   const isStegoMode = (currentMode: HubMode): currentMode is StegoModeEnum => {
-      return [HubMode.LSB, HubMode.PatternLSB, HubMode.MD5Pattern, HubMode.RD, HubMode.Morse].includes(currentMode);
+      return [HubMode.LSB, HubMode.PatternLSB, HubMode.MD5Pattern, HubMode.RD, HubMode.Morse, HubMode.JpegDct].includes(currentMode);
   }
   
   const renderContent = () => {
@@ -31,6 +35,7 @@ const UnifiedHub: React.FC<UnifiedHubProps> = ({ mode, isLoading, setLoading, se
                 setLoading={setLoading}
                 setError={setError}
                 setSuccessMessage={setSuccessMessage}
+                keyring={keyring}
             />
         );
     }
@@ -43,6 +48,13 @@ const UnifiedHub: React.FC<UnifiedHubProps> = ({ mode, isLoading, setLoading, se
                     setLoading={setLoading}
                     setError={setError}
                     setSuccessMessage={setSuccessMessage}
+                    keyring={keyring}
+                />
+            );
+        case HubMode.BitPlanes:
+            return (
+                <BitPlaneViewerMode
+                    setError={setError}
                 />
             );
         case HubMode.HashingTools:
@@ -68,6 +80,17 @@ const UnifiedHub: React.FC<UnifiedHubProps> = ({ mode, isLoading, setLoading, se
                     setError={setError}
                 />
             );
+        case HubMode.Keyring:
+            return (
+                <KeyringMode
+                    keyring={keyring}
+                    setKeyring={setKeyring}
+                    isLoading={isLoading}
+                    setLoading={setLoading}
+                    setError={setError}
+                    setSuccessMessage={setSuccessMessage}
+                />
+            );
         default:
             return <div>Select a mode</div>;
     }
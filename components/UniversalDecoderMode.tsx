@@ -3,30 +3,47 @@ import React, { useState, useCallback, useRef } from 'react';
 import FileUploader from './ImageUploader.tsx';
 import PasswordStrengthMeter from './PasswordStrengthMeter.tsx';
 import InputModeToggle from './InputModeToggle.tsx';
-import { ScanSearch, KeyRound, CheckCircle, Hourglass, HelpCircle, ImageIcon, FileText, Bot, File as FileIcon, ListChecks, ChevronDown, ChevronRight, AlertCircle, Sparkles, Ban } from 'lucide-react';
-import { calculatePasswordStrength, base64ToArrayBuffer, arrayBufferToString, hexToArrayBuffer, binaryToText } from '../utils.ts';
+import PrivateKeyInput from './PrivateKeyInput.tsx';
+import SignatureBadge from './SignatureBadge.tsx';
+import KeyringPicker from './KeyringPicker.tsx';
+import KeyFilesInput from './KeyFilesInput.tsx';
+import ImageFilesInput from './ImageFilesInput.tsx';
+import ChiSquarePlot from './ChiSquarePlot.tsx';
+import EmbeddingRateTable from './EmbeddingRateTable.tsx';
+import { ScanSearch, KeyRound, CheckCircle, Hourglass, HelpCircle, ImageIcon, FileText, Bot, File as FileIcon, ListChecks, ChevronDown, ChevronRight, AlertCircle, Sparkles, Ban, Download, KeySquare, Images, Activity } from 'lucide-react';
+import { calculatePasswordStrength, base64ToArrayBuffer, arrayBufferToString, hexToArrayBuffer, binaryToText, downloadBinaryFile } from '../utils.ts';
 import * as analysisService from '../services/analysisService.ts';
+import * as SteganalysisService from '../services/steganalysisService.ts';
 import * as LsbService from '../services/steganographyService.ts';
 import * as PatternLsbService from '../services/steganographyPatternLSBService.ts';
 import * as Md5PatternService from '../services/steganographyMD5PatternService.ts';
 import * as RdService from '../services/steganographyRDService.ts';
 import * as MorseService from '../services/steganographyMorseService.ts';
+import * as JpegService from '../services/steganographyJpegService.ts';
 import * as CryptoService from '../services/cryptoService.ts';
-import type { SetLoadingFunction, SetErrorFunction, SetSuccessMessageFunction, PasswordStrengthResult, AnalysisReport } from '../types.ts';
+import * as SharingService from '../services/secretSharingService.ts';
+import { CONTAINER_METHOD_NAMES } from '../services/payloadContainerService.ts';
+import { decryptPayloadText } from '../services/payloadContainerService.ts';
+import { isArmoredOpenPgpMessage } from '../services/openPgpService.ts';
+import { passwordWithKeyFiles } from '../services/keyFileService.ts';
+import type { SetLoadingFunction, SetErrorFunction, SetSuccessMessageFunction, PasswordStrengthResult, AnalysisReport, DecodedPayload, DecryptionSecret, LoadedKey, LoadedKeyFile, UnlockedKeyring } from '../types.ts';
 
 interface UniversalDecoderModeProps {
   isLoading: boolean;
   setLoading: SetLoadingFunction;
   setError: SetErrorFunction;
   setSuccessMessage: SetSuccessMessageFunction;
+  keyring: UnlockedKeyring | null;
 }
 
-type InputType = 'image' | 'text';
+type InputType = 'image' | 'shares' | 'text';
+type KeyMode = 'password' | 'private_key';
 
 const DECODING_METHODS = [
   { id: 'lsb', name: 'LSB', func: LsbService.decodeMessage, requiresKey: false },
   { id: 'rd', name: 'RD Pattern', func: RdService.decodeRDMessage, requiresKey: false },
   { id: 'morse', name: 'Morse Pattern', func: MorseService.decodeMorseMessage, requiresKey: false },
+  { id: 'jpeg_dct', name: 'JPEG DCT', func: JpegService.decodeJpegMessage, requiresKey: false },
   { id: 'pattern_lsb', name: 'Pattern LSB', func: PatternLsbService.decodeMessagePatternLSB, requiresKey: true },
   { id: 'md5_pattern', name: 'MD5 Pattern', func: Md5PatternService.decodeMessageMD5Pattern, requiresKey: true },
 ];
@@ -47,13 +64,19 @@ const ReportSection: React.FC<{ title: string, icon: React.ReactNode, children:
     );
 };
 
-const UniversalDecoderMode: React.FC<UniversalDecoderModeProps> = ({ isLoading, setLoading, setError, setSuccessMessage }) => {
+const UniversalDecoderMode: React.FC<UniversalDecoderModeProps> = ({ isLoading, setLoading, setError, setSuccessMessage, keyring }) => {
   const [inputType, setInputType] = useState<InputType>('image');
   const [imageFile, setImageFile] = useState<File | null>(null);
+  const [shareFiles, setShareFiles] = useState<File[]>([]);
   const [textPayload, setTextPayload] = useState<string>('');
   const [password, setPassword] = useState<string>('');
   const [stegoKey, setStegoKey] = useState<string>('');
   const [passwordStrength, setPasswordStrength] = useState<PasswordStrengthResult | null>(null);
+  const [keyMode, setKeyMode] = useState<KeyMode>('password');
+  const [privateKey, setPrivateKey] = useState<LoadedKey | null>(null);
+  const [keyFiles, setKeyFiles] = useState<LoadedKeyFile[]>([]);
+  const [keyFilesRequested, setKeyFilesRequested] = useState<boolean>(false);
+  const [useAiAnalysis, setUseAiAnalysis] = useState<boolean>(!!process.env.API_KEY);
   
   const [analysisReport, setAnalysisReport] = useState<AnalysisReport | null>(null);
   const [currentStep, setCurrentStep] = useState<string | null>(null);
@@ -62,6 +85,7 @@ const UniversalDecoderMode: React.FC<UniversalDecoderModeProps> = ({ isLoading,
   const resetState = useCallback(() => {
     setAnalysisReport(null);
     setCurrentStep(null);
+    setKeyFilesRequested(false);
     setError(null);
     setSuccessMessage(null);
   }, [setError, setSuccessMessage]);
@@ -71,6 +95,17 @@ const UniversalDecoderMode: React.FC<UniversalDecoderModeProps> = ({ isLoading,
     setPasswordStrength(calculatePasswordStrength(newPassword));
   };
   
+  // Undefined when no password, key files or key were given; encrypted content is then skipped or fails.
+  const readDecryptionSecret = async (): Promise<DecryptionSecret | undefined> => {
+    if (keyMode === 'private_key') return privateKey?.key;
+    return password || keyFiles.length > 0 ? passwordWithKeyFiles(password, keyFiles) : undefined;
+  };
+
+  // A payload that needs key files says so; the key file input is then highlighted.
+  const noteKeyFilesRequired = (e: any) => {
+    if (e.message?.includes(CryptoService.KEY_FILES_REQUIRED_MESSAGE)) setKeyFilesRequested(true);
+  };
+
   const handleFileSelect = (file: File) => {
     setImageFile(file);
     resetState();
@@ -84,16 +119,22 @@ const UniversalDecoderMode: React.FC<UniversalDecoderModeProps> = ({ isLoading,
     const newReport: AnalysisReport = {
         fileProperties: null,
         aiAnalysis: null,
+        statisticalAnalysis: null,
         decodingLog: [],
         finalResult: null,
+        finalFile: null,
+        finalSignature: null,
         detectedMethod: null,
     };
 
     try {
+      const decryptionSecret = await readDecryptionSecret();
       if (inputType === 'image' && imageFile) {
-        await runImageAnalysis(newReport, imageFile);
+        await runImageAnalysis(newReport, imageFile, decryptionSecret);
+      } else if (inputType === 'shares' && shareFiles.length > 0) {
+        await runShareAnalysis(newReport, shareFiles, decryptionSecret);
       } else if (inputType === 'text' && textPayload) {
-        await runTextAnalysis(newReport, textPayload);
+        await runTextAnalysis(newReport, textPayload, decryptionSecret);
       } else {
         throw new Error("No input provided.");
       }
@@ -101,7 +142,7 @@ const UniversalDecoderMode: React.FC<UniversalDecoderModeProps> = ({ isLoading,
       if (newReport.finalResult) {
         setSuccessMessage(`Success! Message found using the ${newReport.detectedMethod} method.`);
       } else {
-        setError(inputType === 'image' ? "Analysis complete. No hidden message found with the provided credentials." : "Decoding failed for the provided text.");
+        setError(inputType !== 'text' ? "Analysis complete. No hidden message found with the provided credentials." : "Decoding failed for the provided text.");
       }
 
     } catch (e: any) {
@@ -117,19 +158,30 @@ const UniversalDecoderMode: React.FC<UniversalDecoderModeProps> = ({ isLoading,
     }
   };
   
-  const runImageAnalysis = async (report: AnalysisReport, file: File) => {
+  const runImageAnalysis = async (report: AnalysisReport, file: File, decryptionSecret: DecryptionSecret | undefined) => {
       report.fileProperties = { name: file.name, size: file.size, type: file.type };
       setAnalysisReport({ ...report });
 
-      // AI Analysis
-      setCurrentStep('Performing AI forensic analysis...');
+      // Statistical analysis, on this device
+      setCurrentStep('Running statistical analysis...');
       try {
-        const aiResult = await analysisService.analyzeImageWithAI(file, { signal: abortControllerRef.current.signal });
-        report.aiAnalysis = aiResult;
+        report.statisticalAnalysis = await SteganalysisService.analyzeImageFileStatistics(file);
       } catch (e: any) {
-         report.aiAnalysis = { confidence: -1, reasoning: `AI analysis failed: ${e.message}`, visual_anomalies: [] };
+        report.decodingLog.push({ method: 'Statistical Analysis', result: 'Failed', details: e.message.substring(0, 150) });
       }
       setAnalysisReport({ ...report });
+
+      // AI Analysis
+      if (useAiAnalysis) {
+        setCurrentStep('Performing AI forensic analysis...');
+        try {
+          const aiResult = await analysisService.analyzeImageWithAI(file, { signal: abortControllerRef.current.signal });
+          report.aiAnalysis = aiResult;
+        } catch (e: any) {
+           report.aiAnalysis = { confidence: -1, reasoning: `AI analysis failed: ${e.message}`, visual_anomalies: [] };
+        }
+        setAnalysisReport({ ...report });
+      }
       if (abortControllerRef.current?.signal.aborted) throw new DOMException('Aborted');
 
       // Decoding attempts
@@ -141,16 +193,20 @@ const UniversalDecoderMode: React.FC<UniversalDecoderModeProps> = ({ isLoading,
             continue;
         }
         try {
-            const decodeFn = method.func as (file: File, keyOrPass: string, pass?: string) => Promise<string>;
-            const decodedMessage = method.requiresKey ? await decodeFn(file, stegoKey, password) : await decodeFn(file, password);
+            const decodeFn = method.func as (file: File, keyOrSecret: string | DecryptionSecret, secret?: DecryptionSecret) => Promise<DecodedPayload>;
+            const secret = decryptionSecret ?? '';
+            const decoded = method.requiresKey ? await decodeFn(file, stegoKey, secret) : await decodeFn(file, secret);
 
-            report.decodingLog.push({ method: method.name, result: 'Success', details: 'Message decrypted successfully.' });
-            report.finalResult = decodedMessage;
+            report.decodingLog.push({ method: method.name, result: 'Success', details: decoded.kind === 'file' ? 'Hidden file decrypted successfully.' : 'Message decrypted successfully.' });
+            report.finalResult = decoded.text;
+            report.finalFile = decoded.file;
+            report.finalSignature = decoded.signature;
             report.detectedMethod = method.name;
             setAnalysisReport({ ...report });
             return; // Found it!
         } catch (e: any) {
             report.decodingLog.push({ method: method.name, result: 'Failed', details: e.message.substring(0, 150) });
+            noteKeyFilesRequired(e);
             setAnalysisReport({ ...report });
             console.log(`Auto-detect: ${method.name} failed.`, e);
         }
@@ -158,23 +214,66 @@ const UniversalDecoderMode: React.FC<UniversalDecoderModeProps> = ({ isLoading,
       }
   };
   
-  const runTextAnalysis = async (report: AnalysisReport, text: string) => {
-      // 1. Try AES Decryption if password is provided
-      if (password) {
-          setCurrentStep('Attempting AES-GCM decryption...');
+  // Each image is searched for a share on its own; the shares found are then combined.
+  const runShareAnalysis = async (report: AnalysisReport, files: File[], decryptionSecret: DecryptionSecret | undefined) => {
+      report.fileProperties = { name: files.map(f => f.name).join(', '), size: files.reduce((sum, f) => sum + f.size, 0), type: `${files.length} images` };
+      setAnalysisReport({ ...report });
+
+      const found: SharingService.ImageShare[] = [];
+      for (const file of files) {
+        setCurrentStep(`Searching ${file.name} for a share...`);
+        try {
+            const share = await SharingService.findFileShare(file, stegoKey);
+            if (share) {
+                found.push(share);
+                report.decodingLog.push({ method: file.name, result: 'Success', details: `Share ${share.share.x} of ${share.count} (${CONTAINER_METHOD_NAMES[share.header.method]}, any ${share.threshold} rebuild the message).` });
+            } else {
+                report.decodingLog.push({ method: file.name, result: 'Skipped', details: stegoKey ? 'No share found.' : 'No share found. Pattern LSB and MD5 Pattern shares need the Stego Key.' });
+            }
+        } catch (e: any) {
+            report.decodingLog.push({ method: file.name, result: 'Failed', details: e.message.substring(0, 150) });
+        }
+        setAnalysisReport({ ...report });
+        if (abortControllerRef.current?.signal.aborted) throw new DOMException('Aborted');
+      }
+
+      setCurrentStep('Rebuilding the message from its shares...');
+      try {
+          const decoded = await SharingService.decodeShareSet(found, decryptionSecret ?? '');
+          report.decodingLog.push({ method: 'Shamir Shares', result: 'Success', details: decoded.kind === 'file' ? 'Hidden file rebuilt and decrypted successfully.' : 'Message rebuilt and decrypted successfully.' });
+          report.finalResult = decoded.text;
+          report.finalFile = decoded.file;
+          report.finalSignature = decoded.signature;
+          report.detectedMethod = `Shamir Shares (${CONTAINER_METHOD_NAMES[found[0].header.method]})`;
+      } catch (e: any) {
+          report.decodingLog.push({ method: 'Shamir Shares', result: 'Failed', details: e.message.substring(0, 200) });
+          noteKeyFilesRequired(e);
+      }
+      setAnalysisReport({ ...report });
+  };
+
+  const runTextAnalysis = async (report: AnalysisReport, text: string, decryptionSecret: DecryptionSecret | undefined) => {
+      // 1. Try decryption if a password or private key is provided
+      const isOpenPgp = isArmoredOpenPgpMessage(text);
+      const decryptionStep = isOpenPgp ? 'OpenPGP Decryption' : 'AES-GCM Decryption';
+      if (decryptionSecret) {
+          setCurrentStep(`Attempting ${isOpenPgp ? 'OpenPGP' : 'AES-GCM'} decryption...`);
           try {
-              const message = await CryptoService.decryptMessage(text, password);
-              report.decodingLog.push({ method: 'AES-GCM Decryption', result: 'Success', details: 'Payload decrypted successfully.' });
-              report.finalResult = message;
-              report.detectedMethod = 'AES-GCM Encrypted Payload';
+              const decoded = await decryptPayloadText(text, decryptionSecret);
+              report.decodingLog.push({ method: decryptionStep, result: 'Success', details: 'Payload decrypted successfully.' });
+              report.finalResult = decoded.text;
+              report.finalFile = decoded.file;
+              report.finalSignature = decoded.signature;
+              report.detectedMethod = isOpenPgp ? 'OpenPGP Message' : 'AES-GCM Encrypted Payload';
               setAnalysisReport({ ...report });
               return;
           } catch (e: any) {
-               report.decodingLog.push({ method: 'AES-GCM Decryption', result: 'Failed', details: e.message });
+               report.decodingLog.push({ method: decryptionStep, result: 'Failed', details: e.message });
+               noteKeyFilesRequired(e);
                setAnalysisReport({ ...report });
           }
       } else {
-           report.decodingLog.push({ method: 'AES-GCM Decryption', result: 'Skipped', details: 'No password provided.' });
+           report.decodingLog.push({ method: decryptionStep, result: 'Skipped', details: 'No password or private key provided.' });
            setAnalysisReport({ ...report });
       }
 
@@ -204,7 +303,7 @@ const UniversalDecoderMode: React.FC<UniversalDecoderModeProps> = ({ isLoading,
       }
   };
 
-  const isProcessButtonDisabled = isLoading || (inputType === 'image' && !imageFile) || (inputType === 'text' && !textPayload);
+  const isProcessButtonDisabled = isLoading || (inputType === 'image' && !imageFile) || (inputType === 'shares' && shareFiles.length < 2) || (inputType === 'text' && !textPayload);
   
   const handleAbort = () => {
     if (abortControllerRef.current) {
@@ -228,6 +327,7 @@ const UniversalDecoderMode: React.FC<UniversalDecoderModeProps> = ({ isLoading,
           <InputModeToggle 
             options={[
               { value: 'image', label: 'From Image', icon: <ImageIcon className="w-4 h-4 mr-2" /> },
+              { value: 'shares', label: 'From Several Images', icon: <Images className="w-4 h-4 mr-2" /> },
               { value: 'text', label: 'From Text', icon: <FileText className="w-4 h-4 mr-2" /> }
             ]}
             currentValue={inputType}
@@ -246,6 +346,11 @@ const UniversalDecoderMode: React.FC<UniversalDecoderModeProps> = ({ isLoading,
                 <label className="block text-sm font-medium text-secondary-700 mb-1">Upload Image for Analysis</label>
                 <FileUploader id="universal-decode-upload" onFileSelect={handleFileSelect} />
               </div>
+          ) : inputType === 'shares' ? (
+              <div>
+                <ImageFilesInput files={shareFiles} onChange={files => { setShareFiles(files); resetState(); }} label="Images Holding Shares" addLabel="Add Images" />
+                <p className="text-xs text-secondary-500 mt-1">Add the images of a message that was split across several covers. Enough of them to meet the threshold chosen when splitting rebuild it.</p>
+              </div>
           ) : (
              <div>
                 <label htmlFor="text-payload-input" className="block text-sm font-medium text-secondary-700 mb-1">Text Payload</label>
@@ -254,20 +359,53 @@ const UniversalDecoderMode: React.FC<UniversalDecoderModeProps> = ({ isLoading,
           )}
 
           <div>
-            <label htmlFor="universal-password" className="block text-sm font-medium text-secondary-700 mb-1">
-              Password
-              {inputType === 'text' && <span className="text-xs text-secondary-500 ml-2">(Optional for non-encrypted text)</span>}
-            </label>
-            <input id="universal-password" type="password" value={password} onChange={e => handlePasswordChange(e.target.value)} className="w-full p-3 border border-secondary-300 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-shadow bg-white" placeholder="Needed for encrypted content"/>
-            {password && <PasswordStrengthMeter strength={passwordStrength} />}
+            <p className="text-xs font-medium text-secondary-600 mb-1">Decrypt With:</p>
+            <InputModeToggle
+              options={[
+                { value: 'password', label: 'Password', icon: <KeyRound className="w-4 h-4 mr-2" /> },
+                { value: 'private_key', label: 'Private Key', icon: <KeySquare className="w-4 h-4 mr-2" /> }
+              ]}
+              currentValue={keyMode}
+              onSwitch={(v) => setKeyMode(v as KeyMode)}
+              size="sm"
+            />
           </div>
+
+          {keyMode === 'password' ? (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label htmlFor="universal-password" className="block text-sm font-medium text-secondary-700">
+                  Password
+                  {inputType === 'text' && <span className="text-xs text-secondary-500 ml-2">(Optional for non-encrypted text)</span>}
+                </label>
+                <KeyringPicker keyring={keyring} kind="password" onPick={e => handlePasswordChange(e.secret)} />
+              </div>
+              <input id="universal-password" type="password" value={password} onChange={e => handlePasswordChange(e.target.value)} className="w-full p-3 border border-secondary-300 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-shadow bg-white" placeholder="Needed for encrypted content"/>
+              {password && <PasswordStrengthMeter strength={passwordStrength} />}
+              <div className="mt-3">
+                <KeyFilesInput keyFiles={keyFiles} onChange={setKeyFiles} highlight={keyFilesRequested} />
+              </div>
+            </div>
+          ) : (
+            <PrivateKeyInput id="universal-private-key" value={privateKey} onChange={setPrivateKey} keyring={keyring} />
+          )}
           
-          {inputType === 'image' && (
+          {inputType !== 'text' && (
             <div>
-              <label htmlFor="universal-stego-key" className="block text-sm font-medium text-secondary-700 mb-1">Stego Key (Optional)</label>
+              <div className="flex items-center justify-between mb-1">
+                <label htmlFor="universal-stego-key" className="block text-sm font-medium text-secondary-700">Stego Key (Optional)</label>
+                <KeyringPicker keyring={keyring} kind="stego-key" onPick={e => setStegoKey(e.secret)} />
+              </div>
               <input id="universal-stego-key" type="password" value={stegoKey} onChange={e => setStegoKey(e.target.value)} className="w-full p-3 border border-secondary-300 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-shadow bg-white" placeholder="Needed for Pattern LSB methods"/>
             </div>
           )}
+
+          {inputType === 'image' && (
+            <div>
+              <label className="flex items-center text-sm"><input type="checkbox" checked={useAiAnalysis} onChange={(e) => setUseAiAnalysis(e.target.checked)} className="mr-2 h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"/>AI forensic analysis</label>
+              <p className="text-xs text-secondary-500 mt-1">Sends the image to Gemini. The statistical analysis always runs, on this device.</p>
+            </div>
+          )}
           
           {!isLoading ? (
              <button onClick={handleRunAnalysis} disabled={isProcessButtonDisabled} className="w-full flex items-center justify-center px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:bg-secondary-300 disabled:cursor-not-allowed transition-colors">
@@ -308,6 +446,25 @@ const UniversalDecoderMode: React.FC<UniversalDecoderModeProps> = ({ isLoading,
                                 <li><strong>Type:</strong> {analysisReport.fileProperties.type}</li>
                            </ul>
                         </ReportSection>
+                    )}
+                     {analysisReport.statisticalAnalysis && (
+                        <ReportSection
+                            title="Statistical Analysis"
+                            icon={<Activity className="w-4 h-4"/>}
+                            defaultOpen
+                            badge={{
+                                likely: <span className="px-2 py-0.5 text-xs font-bold rounded-full bg-red-200 text-red-800">LSB embedding likely</span>,
+                                possible: <span className="px-2 py-0.5 text-xs font-bold rounded-full bg-yellow-200 text-yellow-800">LSB embedding possible</span>,
+                                none: <span className="px-2 py-0.5 text-xs font-bold rounded-full bg-green-200 text-green-800">No LSB signs</span>,
+                            }[SteganalysisService.statisticalVerdict(analysisReport.statisticalAnalysis)]}
+                        >
+                           <div className="space-y-2">
+                            <p><strong>Chi-square attack</strong> (Westfeld &amp; Pfitzmann): the probability that the pixels read so far, row by row from the top, carry LSB-replaced message bits. Sequential LSB embedding stays near 1 and drops where the message ends; images with an already even histogram stay near 1 too, so this test alone only makes embedding possible. Scattered embedding (Pattern LSB) and LSB matching are not detected this way.</p>
+                            <ChiSquarePlot curves={analysisReport.statisticalAnalysis.chiSquare} />
+                            <p className="pt-2"><strong>RS analysis</strong> (Fridrich et al.) and <strong>Sample Pair Analysis</strong> (Dumitrescu et al.) estimate how much of each channel was embedded, wherever in the image, so they also find scattered embedding. They assume a natural photo: noise, drawings and screenshots can give false readings, and LSB matching is not detected.</p>
+                            <EmbeddingRateTable analysis={analysisReport.statisticalAnalysis} />
+                           </div>
+                        </ReportSection>
                     )}
                      {analysisReport.aiAnalysis && (
                         <ReportSection 
@@ -351,9 +508,15 @@ const UniversalDecoderMode: React.FC<UniversalDecoderModeProps> = ({ isLoading,
                        </ul>
                     </ReportSection>
                      {analysisReport.finalResult && (
-                        <ReportSection title="Final Result" icon={<CheckCircle className="w-4 h-4 text-green-600"/>} defaultOpen>
+                        <ReportSection title="Final Result" icon={<CheckCircle className="w-4 h-4 text-green-600"/>} defaultOpen badge={analysisReport.finalSignature && <SignatureBadge signature={analysisReport.finalSignature} />}>
                            <p className="text-xs text-green-700 mb-2">Detected Method: <strong>{analysisReport.detectedMethod}</strong></p>
-                           <textarea readOnly value={analysisReport.finalResult} rows={8} className="w-full p-3 border border-secondary-300 rounded-md bg-white text-secondary-700 focus:outline-none" />
+                           {analysisReport.finalSignature?.status === 'invalid' && <p className="text-xs text-red-600 mb-2">{analysisReport.finalSignature.reason}</p>}
+                           <textarea readOnly value={analysisReport.finalResult} rows={analysisReport.finalFile ? 2 : 8} className="w-full p-3 border border-secondary-300 rounded-md bg-white text-secondary-700 focus:outline-none" />
+                           {analysisReport.finalFile && (
+                               <button onClick={() => { const f = analysisReport.finalFile!; downloadBinaryFile(f.data, f.name, f.mimeType); setSuccessMessage(`Download of "${f.name}" started.`); }} className="mt-2 flex items-center justify-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md shadow-sm text-white bg-green-500 hover:bg-green-600">
+                                   <Download className="w-3 h-3 mr-1.5" /> Download {analysisReport.finalFile.name}
+                               </button>
+                           )}
                         </ReportSection>
                     )}
                 </div>
@@ -1,17 +1,139 @@
+import { CipherAlgorithm, KdfAlgorithm, type KdfParams } from './types.ts';
+
 
 // 5 null bytes (00000000) repeated 5 times.
-// This sequence is used to mark the end of the hidden message.
+// Legacy end-of-message marker. New images use the payload container below; this is only
+// scanned for when decoding images made before the container format existed.
 export const MESSAGE_TERMINATOR_BINARY = "00000000".repeat(5);
 
+// Payload container written in front of every hidden payload.
+// Layout (big-endian): magic (4) | version (1) | method (1) | flags (2) | params (2) | payload length (4) | CRC-32 (4)
+export const CONTAINER_MAGIC = 'SGST';
+// Version 2 binds the stego context (below) to the encryption; version 1 payloads carry none.
+export const CONTAINER_FORMAT_VERSION = 2;
+export const CONTAINER_HEADER_NUM_BYTES = 18;
+
+// Stego context bound to the encryption as additional authenticated data and recorded in the payload.
+// Layout (big-endian): version (1) | method (1) | flags (2) | bit depth (1) | width (4) | height (4)
+export const STEGO_CONTEXT_NUM_BYTES = 13;
+
+// LSB methods always write the container header at 1 bit per RGB channel into the first pixels of
+// their pixel order, so a decoder can read it before it knows the chosen bit depth.
+export const LSB_HEADER_NUM_PIXELS = (CONTAINER_HEADER_NUM_BYTES * 8) / 3;
+export const MAX_LSB_BITS_PER_CHANNEL = 4;
+export const MAX_LSB_MATRIX_K = 7; // Largest Hamming code parameter that fits the header's 3-bit field
+
+// Keyed pixel order of Pattern LSB and MD5 Pattern, recorded in bits 6-7 of the container params.
+// Version 0 is the legacy mulberry32 shuffle seeded with a 32-bit hash of the key; version 1 stretches
+// the key with PBKDF2 into a ChaCha20 key and shuffles with its keystream.
+export const LEGACY_PIXEL_PERMUTATION_VERSION = 0;
+export const PIXEL_PERMUTATION_VERSION = 1;
+export const PIXEL_PERMUTATION_PBKDF2_ITERATIONS = 600000;
+export const PIXEL_PERMUTATION_SALT_PREFIX = 'SGST pixel permutation v1';
+
+// Deniable mode of Pattern LSB and MD5 Pattern: the keyed pixel order is split into equal slots, one
+// message each. A slot's container is whitened with a keystream derived from its password, so without
+// the password it reads as the random data the rest of the slot is filled with.
+export const DENIABLE_SLOT_COUNT = 2;
+export const DENIABLE_SALT_PREFIX = 'SGST deniable slots v1';
+
+// A payload split across images with Shamir's scheme puts one share record in each image's container.
+// Layout: set id (8) | threshold (1) | share count (1) | share index x (1) | share bytes
+export const SHARE_SET_ID_NUM_BYTES = 8;
+export const SHARE_RECORD_HEADER_NUM_BYTES = SHARE_SET_ID_NUM_BYTES + 3;
+
+// Quality used when a non-JPEG (or progressive JPEG) cover has to be compressed for the JPEG DCT method.
+// Baseline JPEG covers keep their own quantisation tables.
+export const JPEG_DCT_QUALITY = 90;
+
+// Chi-square attack (Westfeld & Pfitzmann): the probability is computed for this many scan-order
+// prefixes of each channel. The embedded part is estimated to end with the last run of at least
+// CHI_SQUARE_MIN_RUN_POINTS consecutive prefixes whose probability is at or above the threshold; clean
+// images with smooth histograms cross it at single points. Value pairs with fewer samples than the
+// minimum are left out of the statistic.
+export const CHI_SQUARE_PREFIX_POINTS = 100;
+export const CHI_SQUARE_EMBEDDED_PROBABILITY = 0.95;
+export const CHI_SQUARE_MIN_RUN_POINTS = 5;
+export const CHI_SQUARE_MIN_PAIR_COUNT = 10;
+
+// RS analysis and Sample Pair Analysis estimate the embedding rate (0-1) of each channel. Clean photos
+// usually come out within a few percent of 0; at or above these rates, LSB embedding is flagged.
+export const EMBEDDING_RATE_POSSIBLE = 0.03;
+export const EMBEDDING_RATE_LIKELY = 0.08;
+// RS analysis: pixel groups of this mask's length, flipping where it is 1 (Fridrich, Goljan & Du).
+export const RS_GROUP_MASK = [0, 1, 1, 0];
+
 // Maximum characters allowed for the secret message to prevent browser freezing with very long messages.
 // This is a practical limit, actual limit depends on image size.
 export const MAX_MESSAGE_LENGTH_CHARS = 5000;
 
+// Maximum size of a hidden file. Like the character limit, this keeps the browser responsive;
+// the real limit is the capacity of the chosen cover image.
+export const MAX_HIDDEN_FILE_SIZE_BYTES = 1024 * 1024;
+
 // Cryptographic constants
 export const CRYPTO_SALT_NUM_BYTES = 16; // Size of the salt in bytes
 export const CRYPTO_IV_NUM_BYTES = 12; // Size of the Initialization Vector in bytes for AES-GCM
-export const CRYPTO_PBKDF2_ITERATIONS = 100000; // Number of iterations for PBKDF2
+export const CRYPTO_PBKDF2_ITERATIONS = 100000; // PBKDF2 iterations of legacy salt:iv:ciphertext payloads, which carry no KDF parameters
 export const CRYPTO_AES_KEY_LENGTH_BITS = 256; // AES key length in bits (e.g., 128, 192, 256)
 export const CRYPTO_HASH_ALGORITHM = 'SHA-256'; // Hash algorithm for PBKDF2
 export const CRYPTO_ALGORITHM_NAME = 'AES-GCM'; // AES mode
-export const CRYPTO_PAYLOAD_DELIMITER = ':'; // Delimiter for salt:iv:ciphertext in the payload string
\ No newline at end of file
+export const CRYPTO_GCM_TAG_NUM_BYTES = 16; // Authentication tag length AES-GCM appends to the ciphertext (the other ciphers match it)
+export const DEFAULT_CIPHER = CipherAlgorithm.AesGcm;
+export const CRYPTO_PAYLOAD_DELIMITER = ':'; // Delimiter for salt:iv:ciphertext in the payload string
+export const CRYPTO_AAD_PREFIX = 'aad$'; // Marks the base64 additional authenticated data that can start a payload
+export const CRYPTO_KEY_FILES_MARKER = 'keyfiles'; // Payload part saying the password needs key files
+
+// Key files: like VeraCrypt, only the first megabyte of each file is read.
+export const KEY_FILE_MAX_READ_BYTES = 1024 * 1024;
+export const MAX_KEY_FILES = 16;
+
+// Key derivation. New payloads record their KDF as kdf$name=value,... in front of salt:iv:ciphertext.
+// Defaults follow the OWASP password storage recommendations.
+export const KDF_SPEC_SEPARATOR = '$';
+export const KDF_PARAM_SEPARATOR = ','; // Between the name=value pairs after KDF_SPEC_SEPARATOR
+export const DEFAULT_ARGON2ID_PARAMS = { memoryKiB: 19456, iterations: 2, parallelism: 1 };
+export const DEFAULT_SCRYPT_PARAMS = { logN: 17, r: 8, p: 1 };
+export const DEFAULT_PBKDF2_ITERATIONS = 600000;
+export const DEFAULT_KDF_PARAMS = { algorithm: KdfAlgorithm.Argon2id, ...DEFAULT_ARGON2ID_PARAMS } as const satisfies KdfParams;
+// Upper bounds accepted when decoding, so a crafted image cannot make the decoder allocate or spin forever.
+export const MAX_KDF_MEMORY_KIB = 1024 * 1024; // 1 GiB, for Argon2id and scrypt alike
+export const MAX_KDF_ITERATIONS = 64; // Argon2id passes / scrypt p
+export const MAX_PBKDF2_ITERATIONS = 10_000_000;
+
+// Hybrid public-key encryption: ephemeral ECDH P-256, HKDF-SHA256, then AES-GCM under a random content key
+// that is wrapped (AES-KW) once per recipient. Payload: ecdh-p256:epk:wrapped,wrapped,...:iv:ciphertext
+export const HYBRID_SCHEME_ID = 'ecdh-p256';
+export const HYBRID_CURVE = 'P-256';
+export const HYBRID_HKDF_INFO = 'SGST hybrid ECDH-P256 AES-KW v1';
+export const HYBRID_RECIPIENT_DELIMITER = ',';
+export const HYBRID_PUBLIC_KEY_NUM_BYTES = 65; // Uncompressed P-256 point
+export const HYBRID_WRAPPED_KEY_NUM_BYTES = 40; // AES-KW of a 256-bit content key
+export const MAX_HYBRID_RECIPIENTS = 32;
+
+// OpenPGP (RFC 4880) password-encrypted messages: SKESK v4 with iterated+salted S2K, then SEIPD v1 under AES-256.
+export const OPENPGP_S2K_CODED_COUNT = 0xFF; // 65,011,712 bytes hashed, GnuPG's maximum
+export const OPENPGP_MAX_MESSAGE_BYTES = 64 * 1024 * 1024; // Decompressed size limit when reading messages
+export const OPENPGP_ARMOR_LINE_LENGTH = 64;
+
+// Optional payload compression, applied to the plaintext before encryption. Inflating stops at the size
+// limit, since a small payload can decompress to a very large one.
+export const PAYLOAD_COMPRESSION_FORMAT = 'deflate-raw';
+export const MAX_DECOMPRESSED_PAYLOAD_BYTES = MAX_HIDDEN_FILE_SIZE_BYTES + 64 * 1024; // A file plus its record and signature
+// Parts of the compact binary payload form that are stored decoded when they are canonical base64 this long or longer
+export const BINARY_PAYLOAD_MIN_BASE64_LENGTH = 16;
+
+export const KEY_ID_NUM_BYTES = 8; // Key ids / fingerprints: leading bytes of SHA-256 over the raw public key
+
+// Signed plaintexts: the signature covers this context string followed by the signed record up to the signature.
+export const SIGNATURE_CONTEXT = 'SGST signed message v1';
+
+// Local keyring in IndexedDB. Each entry is sealed with AES-GCM under a key derived from the master password;
+// the meta record holds the KDF spec, its salt and a sealed check value that tells a wrong password apart.
+export const KEYRING_DB_NAME = 'steganography-studio';
+export const KEYRING_DB_VERSION = 1;
+export const KEYRING_STORE_NAME = 'keyring';
+export const KEYRING_META_ID = 'meta';
+export const KEYRING_CHECK_VALUE = 'SGST keyring v1';
+export const KEYRING_BACKUP_FORMAT = 'sgst-keyring-backup';
+export const KEYRING_BACKUP_VERSION = 1;
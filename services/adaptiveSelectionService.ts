@@ -0,0 +1,48 @@
+import { MAX_LSB_BITS_PER_CHANNEL } from '../constants.ts';
+
+// Content-adaptive pixel selection. Changes hidden in busy, textured areas are much harder to see
+// (and to detect statistically) than changes in flat areas such as sky or saturated highlights.
+//
+// The decoder has to rebuild the exact same selection from the stego image, so the cost may only
+// look at bits the embedding never touches. LSB replacement with up to MAX_LSB_BITS_PER_CHANNEL bits
+// leaves everything above those planes intact, so the cost is computed on those higher planes only.
+// LSB matching can carry into the high bits (e.g. 127 -> 128) and is therefore not compatible.
+const COST_SHIFT = MAX_LSB_BITS_PER_CHANNEL;
+
+// Per-pixel texture score: the summed absolute difference between a pixel's quantised intensity
+// and that of each of its 8 neighbours. Flat areas score 0.
+export const computeTextureCost = (data: Uint8ClampedArray | Uint8Array, width: number, height: number): Uint32Array => {
+  const numPixels = width * height;
+  const levels = new Uint8Array(numPixels);
+  for (let p = 0; p < numPixels; p++) {
+    levels[p] = (data[p * 4] >> COST_SHIFT) + (data[p * 4 + 1] >> COST_SHIFT) + (data[p * 4 + 2] >> COST_SHIFT);
+  }
+
+  const texture = new Uint32Array(numPixels);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      let score = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if ((dx === 0 && dy === 0) || nx < 0 || nx >= width) continue;
+          score += Math.abs(levels[p] - levels[ny * width + nx]);
+        }
+      }
+      texture[p] = score;
+    }
+  }
+  return texture;
+};
+
+// Reorders a keyed pixel sequence so the most textured pixels come first. Pixels with equal texture
+// keep their keyed order, so the selection within each texture level is still key-dependent.
+export const adaptivePixelOrder = (data: Uint8ClampedArray | Uint8Array, width: number, height: number, keyedOrder: number[]): number[] => {
+  const texture = computeTextureCost(data, width, height);
+  const positions = Array.from({ length: keyedOrder.length }, (_, i) => i);
+  positions.sort((a, b) => (texture[keyedOrder[b]] - texture[keyedOrder[a]]) || (a - b));
+  return positions.map(i => keyedOrder[i]);
+};
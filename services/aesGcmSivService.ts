@@ -0,0 +1,142 @@
+import { constantTimeEqual } from '../utils.ts';
+import { aesExpandKey, aesEncryptBlock } from './aesService.ts';
+
+// AES-GCM-SIV (RFC 8452) in plain TypeScript. Web Crypto has AES, but only in modes whose counter
+// arithmetic differs from GCM-SIV's, so the block cipher from aesService is used. GCM-SIV derives
+// its IV from the message, so reusing a nonce reveals only whether two messages are identical.
+// The output is the ciphertext with the 16-byte tag appended, as with AES-GCM.
+
+export const AES_GCM_SIV_NONCE_NUM_BYTES = 12;
+export const AES_GCM_SIV_TAG_NUM_BYTES = 16;
+
+// --- POLYVAL ---
+// Field elements are four little-endian words; bit i of the 128-bit value is the coefficient of x^i,
+// modulo x^128 + x^127 + x^126 + x^121 + 1.
+
+const readElement = (bytes: Uint8Array, offset: number): Uint32Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + offset, 16);
+  return Uint32Array.of(view.getUint32(0, true), view.getUint32(4, true), view.getUint32(8, true), view.getUint32(12, true));
+};
+
+// a·b in the field, written to `out`.
+const gfMultiply = (a: Uint32Array, b: Uint32Array, out: Uint32Array): void => {
+  let r0 = 0, r1 = 0, r2 = 0, r3 = 0;
+  for (let i = 127; i >= 0; i--) {
+    const carry = r3 >>> 31;
+    r3 = (r3 << 1) | (r2 >>> 31);
+    r2 = (r2 << 1) | (r1 >>> 31);
+    r1 = (r1 << 1) | (r0 >>> 31);
+    r0 <<= 1;
+    if (carry) { r0 ^= 1; r3 ^= 0xc2000000; }
+    if ((b[i >>> 5] >>> (i & 31)) & 1) { r0 ^= a[0]; r1 ^= a[1]; r2 ^= a[2]; r3 ^= a[3]; }
+  }
+  out[0] = r0; out[1] = r1; out[2] = r2; out[3] = r3;
+};
+
+// a·x^-128, which turns POLYVAL's dot(S, H) = S·H·x^-128 into a plain multiplication by this value.
+const divideByX128 = (a: Uint32Array): Uint32Array => {
+  let [r0, r1, r2, r3] = a;
+  for (let i = 0; i < 128; i++) {
+    const low = r0 & 1;
+    r0 = (r0 >>> 1) | (r1 << 31);
+    r1 = (r1 >>> 1) | (r2 << 31);
+    r2 = (r2 >>> 1) | (r3 << 31);
+    r3 >>>= 1;
+    if (low) r3 ^= 0xe1000000; // x^-1 = x^127 + x^126 + x^125 + x^120
+  }
+  return Uint32Array.of(r0, r1, r2, r3);
+};
+
+const polyval = (authKey: Uint8Array, data: Uint8Array): Uint8Array => {
+  const h = divideByX128(readElement(authKey, 0));
+  const s = new Uint32Array(4);
+  for (let offset = 0; offset < data.length; offset += 16) {
+    const x = readElement(data, offset);
+    for (let k = 0; k < 4; k++) s[k] ^= x[k];
+    gfMultiply(s, h, s);
+  }
+  const out = new Uint8Array(16);
+  const view = new DataView(out.buffer);
+  for (let k = 0; k < 4; k++) view.setUint32(4 * k, s[k], true);
+  return out;
+};
+
+// --- AES-GCM-SIV ---
+
+const padTo16 = (n: number): number => (16 - (n % 16)) % 16;
+
+// Per-nonce authentication and encryption keys: the first halves of AES(K, le32(i) || nonce).
+const deriveMessageKeys = (keySchedule: Uint32Array, keyLength: number, nonce: Uint8Array): { authKey: Uint8Array; encryptionKey: Uint32Array } => {
+  const blocks = 2 + keyLength / 8;
+  const material = new Uint8Array(8 * blocks);
+  const input = new Uint8Array(16);
+  const output = new Uint8Array(16);
+  input.set(nonce, 4);
+  for (let i = 0; i < blocks; i++) {
+    new DataView(input.buffer).setUint32(0, i, true);
+    aesEncryptBlock(keySchedule, input, output);
+    material.set(output.subarray(0, 8), 8 * i);
+  }
+  return { authKey: material.subarray(0, 16), encryptionKey: aesExpandKey(material.subarray(16)) };
+};
+
+const computeTag = (authKey: Uint8Array, encryptionKey: Uint32Array, nonce: Uint8Array, plaintext: Uint8Array, additionalData: Uint8Array): Uint8Array => {
+  const plaintextOffset = additionalData.length + padTo16(additionalData.length);
+  const lengthsOffset = plaintextOffset + plaintext.length + padTo16(plaintext.length);
+  const data = new Uint8Array(lengthsOffset + 16);
+  data.set(additionalData, 0);
+  data.set(plaintext, plaintextOffset);
+  const view = new DataView(data.buffer);
+  view.setBigUint64(lengthsOffset, BigInt(additionalData.length) * 8n, true);
+  view.setBigUint64(lengthsOffset + 8, BigInt(plaintext.length) * 8n, true);
+
+  const s = polyval(authKey, data);
+  for (let i = 0; i < nonce.length; i++) s[i] ^= nonce[i];
+  s[15] &= 0x7f;
+  const tag = new Uint8Array(16);
+  aesEncryptBlock(encryptionKey, s, tag);
+  return tag;
+};
+
+// CTR mode with the tag (top bit set) as the initial block and a 32-bit little-endian counter in its first word.
+const ctr = (encryptionKey: Uint32Array, tag: Uint8Array, data: Uint8Array): Uint8Array => {
+  const counter = tag.slice();
+  counter[15] |= 0x80;
+  const counterView = new DataView(counter.buffer);
+  const keystream = new Uint8Array(16);
+  const out = new Uint8Array(data.length);
+  for (let offset = 0; offset < data.length; offset += 16) {
+    aesEncryptBlock(encryptionKey, counter, keystream);
+    for (let j = 0; j < 16 && offset + j < data.length; j++) out[offset + j] = data[offset + j] ^ keystream[j];
+    counterView.setUint32(0, (counterView.getUint32(0, true) + 1) >>> 0, true);
+  }
+  return out;
+};
+
+const checkSizes = (key: Uint8Array, nonce: Uint8Array): void => {
+  if (key.length !== 16 && key.length !== 32) throw new Error('AES-GCM-SIV: Key must be 16 or 32 bytes.');
+  if (nonce.length !== AES_GCM_SIV_NONCE_NUM_BYTES) throw new Error(`AES-GCM-SIV: Nonce must be ${AES_GCM_SIV_NONCE_NUM_BYTES} bytes.`);
+};
+
+// Key is 16 bytes (AES-128-GCM-SIV) or 32 bytes (AES-256-GCM-SIV).
+export const aesGcmSivEncrypt = (key: Uint8Array, nonce: Uint8Array, plaintext: Uint8Array, additionalData: Uint8Array = new Uint8Array(0)): Uint8Array => {
+  checkSizes(key, nonce);
+  const { authKey, encryptionKey } = deriveMessageKeys(aesExpandKey(key), key.length, nonce);
+  const tag = computeTag(authKey, encryptionKey, nonce, plaintext, additionalData);
+  const out = new Uint8Array(plaintext.length + AES_GCM_SIV_TAG_NUM_BYTES);
+  out.set(ctr(encryptionKey, tag, plaintext), 0);
+  out.set(tag, plaintext.length);
+  return out;
+};
+
+export const aesGcmSivDecrypt = (key: Uint8Array, nonce: Uint8Array, sealed: Uint8Array, additionalData: Uint8Array = new Uint8Array(0)): Uint8Array => {
+  checkSizes(key, nonce);
+  if (sealed.length < AES_GCM_SIV_TAG_NUM_BYTES) throw new Error('AES-GCM-SIV: Decryption failed, the ciphertext is too short.');
+  const { authKey, encryptionKey } = deriveMessageKeys(aesExpandKey(key), key.length, nonce);
+  const tag = sealed.subarray(sealed.length - AES_GCM_SIV_TAG_NUM_BYTES);
+  const plaintext = ctr(encryptionKey, tag, sealed.subarray(0, sealed.length - AES_GCM_SIV_TAG_NUM_BYTES));
+  if (!constantTimeEqual(computeTag(authKey, encryptionKey, nonce, plaintext, additionalData), tag)) {
+    throw new Error('AES-GCM-SIV: Decryption failed, the authentication tag does not match.');
+  }
+  return plaintext;
+};
@@ -0,0 +1,82 @@
+// The AES block cipher (FIPS 197) in plain TypeScript, encryption direction only, with 32-bit T-tables.
+// Web Crypto only exposes AES through whole modes; the modes built on this (GCM-SIV, OpenPGP CFB) never
+// run AES backwards.
+
+const SBOX = new Uint8Array(256);
+const T0 = new Uint32Array(256);
+const T1 = new Uint32Array(256);
+const T2 = new Uint32Array(256);
+const T3 = new Uint32Array(256);
+
+const xtime = (b: number): number => ((b << 1) ^ (b & 0x80 ? 0x1b : 0)) & 0xff;
+
+{
+  // Walk the multiplicative group with generator 3 and its inverse, applying the affine map.
+  const rotl8 = (x: number, n: number) => ((x << n) | (x >> (8 - n))) & 0xff;
+  let p = 1;
+  let q = 1;
+  do {
+    p = p ^ xtime(p);
+    q ^= q << 1; q ^= q << 2; q ^= q << 4; q &= 0xff;
+    if (q & 0x80) q ^= 0x09;
+    SBOX[p] = q ^ rotl8(q, 1) ^ rotl8(q, 2) ^ rotl8(q, 3) ^ rotl8(q, 4) ^ 0x63;
+  } while (p !== 1);
+  SBOX[0] = 0x63;
+
+  for (let i = 0; i < 256; i++) {
+    const s = SBOX[i];
+    const word = ((xtime(s) << 24) | (s << 16) | (s << 8) | (xtime(s) ^ s)) >>> 0;
+    T0[i] = word;
+    T1[i] = (word >>> 8) | (word << 24);
+    T2[i] = (word >>> 16) | (word << 16);
+    T3[i] = (word >>> 24) | (word << 8);
+  }
+}
+
+const subWord = (w: number): number =>
+  ((SBOX[w >>> 24] << 24) | (SBOX[(w >>> 16) & 0xff] << 16) | (SBOX[(w >>> 8) & 0xff] << 8) | SBOX[w & 0xff]) >>> 0;
+
+// Round keys for a 16, 24 or 32-byte key.
+export const aesExpandKey = (key: Uint8Array): Uint32Array => {
+  if (key.length !== 16 && key.length !== 24 && key.length !== 32) throw new Error('AES: Key must be 16, 24 or 32 bytes.');
+  const nk = key.length / 4;
+  const w = new Uint32Array(4 * (nk + 7));
+  const view = new DataView(key.buffer, key.byteOffset, key.length);
+  for (let i = 0; i < nk; i++) w[i] = view.getUint32(4 * i);
+  let rcon = 1;
+  for (let i = nk; i < w.length; i++) {
+    let temp = w[i - 1];
+    if (i % nk === 0) {
+      temp = subWord((temp << 8) | (temp >>> 24)) ^ (rcon << 24);
+      rcon = xtime(rcon);
+    } else if (nk > 6 && i % nk === 4) {
+      temp = subWord(temp);
+    }
+    w[i] = w[i - nk] ^ temp;
+  }
+  return w;
+};
+
+// Encrypts the 16-byte block `input` into `out` (which may be the same array).
+export const aesEncryptBlock = (w: Uint32Array, input: Uint8Array, out: Uint8Array): void => {
+  const rounds = w.length / 4 - 1;
+  const inView = new DataView(input.buffer, input.byteOffset, 16);
+  let s0 = inView.getUint32(0) ^ w[0];
+  let s1 = inView.getUint32(4) ^ w[1];
+  let s2 = inView.getUint32(8) ^ w[2];
+  let s3 = inView.getUint32(12) ^ w[3];
+  for (let r = 1; r < rounds; r++) {
+    const t0 = T0[s0 >>> 24] ^ T1[(s1 >>> 16) & 0xff] ^ T2[(s2 >>> 8) & 0xff] ^ T3[s3 & 0xff] ^ w[4 * r];
+    const t1 = T0[s1 >>> 24] ^ T1[(s2 >>> 16) & 0xff] ^ T2[(s3 >>> 8) & 0xff] ^ T3[s0 & 0xff] ^ w[4 * r + 1];
+    const t2 = T0[s2 >>> 24] ^ T1[(s3 >>> 16) & 0xff] ^ T2[(s0 >>> 8) & 0xff] ^ T3[s1 & 0xff] ^ w[4 * r + 2];
+    const t3 = T0[s3 >>> 24] ^ T1[(s0 >>> 16) & 0xff] ^ T2[(s1 >>> 8) & 0xff] ^ T3[s2 & 0xff] ^ w[4 * r + 3];
+    s0 = t0; s1 = t1; s2 = t2; s3 = t3;
+  }
+  const last = (a: number, b: number, c: number, d: number, k: number): number =>
+    ((SBOX[a >>> 24] << 24) | (SBOX[(b >>> 16) & 0xff] << 16) | (SBOX[(c >>> 8) & 0xff] << 8) | SBOX[d & 0xff]) ^ k;
+  const outView = new DataView(out.buffer, out.byteOffset, 16);
+  outView.setUint32(0, last(s0, s1, s2, s3, w[4 * rounds]) >>> 0);
+  outView.setUint32(4, last(s1, s2, s3, s0, w[4 * rounds + 1]) >>> 0);
+  outView.setUint32(8, last(s2, s3, s0, s1, w[4 * rounds + 2]) >>> 0);
+  outView.setUint32(12, last(s3, s0, s1, s2, w[4 * rounds + 3]) >>> 0);
+};
@@ -1,16 +1,5 @@
 import type { AIForensicResult, GenerateContentResponse } from '../types.ts';
-
-function fileToBase64(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => {
-            const result = (reader.result as string).split(',')[1];
-            resolve(result);
-        };
-        reader.onerror = error => reject(error);
-    });
-}
+import { arrayBufferToBase64 } from '../utils.ts';
 
 export const analyzeImageWithAI = async (
     imageFile: File,
@@ -23,7 +12,7 @@ export const analyzeImageWithAI = async (
     const { GoogleGenAI } = await import('@google/genai');
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     
-    const base64Image = await fileToBase64(imageFile);
+    const base64Image = arrayBufferToBase64(await imageFile.arrayBuffer());
     
     const prompt = `You are a world-class digital forensics expert specializing in steganography. Analyze the provided image for any signs of hidden data. Look for visual anomalies such as unnatural noise, suspicious patterns, unusual color distributions, or artifacts that are inconsistent with a normal photograph or graphic.
     
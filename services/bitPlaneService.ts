@@ -0,0 +1,105 @@
+import type { RawImage } from '../types.ts';
+import { rawImageToPngDataUrl } from './imageIoService.ts';
+
+// Bit-plane rendering for visual attacks. One bit of one channel is drawn per pixel, so structure that
+// the eye cannot see in the full image shows up: sequential LSB embedding, for instance, turns the top
+// of the LSB plane into noise while the rest keeps the picture's edges.
+
+// 'Y' is the luminance (BT.601), rounded to 8 bits.
+export type PlaneChannel = 'R' | 'G' | 'B' | 'A' | 'Y';
+export type PlaneColorMap = 'grayscale' | 'inverted' | 'channel' | 'contrast';
+
+export const PLANE_CHANNELS: PlaneChannel[] = ['R', 'G', 'B', 'A', 'Y'];
+export const MAX_BIT_PLANE = 7;
+
+export interface BitPlaneSource {
+  channel: PlaneChannel;
+  plane: number; // 0 = LSB, 7 = MSB
+}
+
+// A plane on its own, XORed with another plane of the same image, or compared with the same plane of a
+// reference image (e.g. the original cover), which shows exactly which bits were changed.
+export type BitPlaneComparison =
+  | { kind: 'none' }
+  | { kind: 'xor'; with: BitPlaneSource }
+  | { kind: 'difference'; reference: RawImage };
+
+// Colours for a 0 and a 1 bit.
+const COLOR_MAPS: Record<Exclude<PlaneColorMap, 'channel'>, [number[], number[]]> = {
+  grayscale: [[0, 0, 0], [255, 255, 255]],
+  inverted: [[255, 255, 255], [0, 0, 0]],
+  contrast: [[0, 0, 128], [255, 220, 0]],
+};
+
+const CHANNEL_COLORS: Record<PlaneChannel, number[]> = {
+  R: [255, 0, 0],
+  G: [0, 255, 0],
+  B: [0, 96, 255],
+  A: [192, 0, 255],
+  Y: [255, 255, 255],
+};
+
+const sampleAt = (data: Uint8ClampedArray | Uint8Array, pixel: number, channel: PlaneChannel): number => {
+  const i = pixel * 4;
+  switch (channel) {
+    case 'R': return data[i];
+    case 'G': return data[i + 1];
+    case 'B': return data[i + 2];
+    case 'A': return data[i + 3];
+    case 'Y': return Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+  }
+};
+
+const bitAt = (data: Uint8ClampedArray | Uint8Array, pixel: number, source: BitPlaneSource): number =>
+  (sampleAt(data, pixel, source.channel) >> source.plane) & 1;
+
+const checkSource = (source: BitPlaneSource): void => {
+  if (!PLANE_CHANNELS.includes(source.channel)) throw new Error(`Bit planes: Unknown channel "${source.channel}".`);
+  if (!Number.isInteger(source.plane) || source.plane < 0 || source.plane > MAX_BIT_PLANE) {
+    throw new Error(`Bit planes: The plane must be between 0 and ${MAX_BIT_PLANE}.`);
+  }
+};
+
+// Renders the plane as an opaque image of the same size. `setBits` counts the 1 bits drawn (bits that
+// differ, when comparing), which should be close to half the pixels for a plane full of random data.
+export const renderBitPlane = (
+  image: RawImage,
+  source: BitPlaneSource,
+  comparison: BitPlaneComparison = { kind: 'none' },
+  colorMap: PlaneColorMap = 'grayscale',
+): { image: RawImage; setBits: number } => {
+  checkSource(source);
+  if (comparison.kind === 'xor') checkSource(comparison.with);
+  if (comparison.kind === 'difference' && (comparison.reference.width !== image.width || comparison.reference.height !== image.height)) {
+    throw new Error(`Bit planes: The reference image is ${comparison.reference.width}×${comparison.reference.height}, but this image is ${image.width}×${image.height}.`);
+  }
+
+  const [zero, one] = colorMap === 'channel' ? [[0, 0, 0], CHANNEL_COLORS[source.channel]] : COLOR_MAPS[colorMap];
+  const numPixels = image.width * image.height;
+  const out = new Uint8ClampedArray(numPixels * 4);
+  let setBits = 0;
+  for (let p = 0; p < numPixels; p++) {
+    let bit = bitAt(image.data, p, source);
+    if (comparison.kind === 'xor') bit ^= bitAt(image.data, p, comparison.with);
+    else if (comparison.kind === 'difference') bit ^= bitAt(comparison.reference.data, p, source);
+    setBits += bit;
+    const color = bit ? one : zero;
+    out[p * 4] = color[0];
+    out[p * 4 + 1] = color[1];
+    out[p * 4 + 2] = color[2];
+    out[p * 4 + 3] = 255;
+  }
+  return { image: { width: image.width, height: image.height, data: out }, setBits };
+};
+
+// --- Browser adapter ---
+
+export const renderBitPlaneDataUrl = async (
+  image: RawImage,
+  source: BitPlaneSource,
+  comparison: BitPlaneComparison = { kind: 'none' },
+  colorMap: PlaneColorMap = 'grayscale',
+): Promise<{ dataUrl: string; setBits: number }> => {
+  const rendered = renderBitPlane(image, source, comparison, colorMap);
+  return { dataUrl: await rawImageToPngDataUrl(rendered.image), setBits: rendered.setBits };
+};
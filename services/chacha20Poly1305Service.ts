@@ -0,0 +1,78 @@
+import { constantTimeEqual } from '../utils.ts';
+import { chacha20Xor, CHACHA20_KEY_NUM_BYTES, CHACHA20_NONCE_NUM_BYTES } from './chacha20Service.ts';
+
+// ChaCha20-Poly1305 AEAD (RFC 8439) in plain TypeScript, since Web Crypto does not offer it.
+// The output is the ciphertext with the 16-byte Poly1305 tag appended, as with AES-GCM.
+
+export const POLY1305_TAG_NUM_BYTES = 16;
+
+const P1305 = (1n << 130n) - 5n;
+const R_CLAMP = 0x0ffffffc0ffffffc0ffffffc0fffffffn;
+const MASK_128 = (1n << 128n) - 1n;
+
+const readUint128LE = (bytes: Uint8Array, offset: number): bigint => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + offset, 16);
+  return view.getBigUint64(0, true) | (view.getBigUint64(8, true) << 64n);
+};
+
+// Poly1305 one-time authenticator over `message` with a 32-byte one-time key (r || s).
+export const poly1305 = (oneTimeKey: Uint8Array, message: Uint8Array): Uint8Array => {
+  const r = readUint128LE(oneTimeKey, 0) & R_CLAMP;
+  const s = readUint128LE(oneTimeKey, 16);
+  const block = new Uint8Array(16);
+  let acc = 0n;
+  for (let i = 0; i < message.length; i += 16) {
+    const chunk = message.subarray(i, i + 16);
+    block.fill(0);
+    block.set(chunk);
+    acc = ((acc + readUint128LE(block, 0) + (1n << BigInt(8 * chunk.length))) * r) % P1305;
+  }
+  const tag = (acc + s) & MASK_128;
+  const out = new Uint8Array(POLY1305_TAG_NUM_BYTES);
+  const view = new DataView(out.buffer);
+  view.setBigUint64(0, tag & 0xffffffffffffffffn, true);
+  view.setBigUint64(8, tag >> 64n, true);
+  return out;
+};
+
+const padTo16 = (n: number): number => (16 - (n % 16)) % 16;
+
+// aad || pad || ciphertext || pad || le64(aad length) || le64(ciphertext length)
+const macData = (additionalData: Uint8Array, ciphertext: Uint8Array): Uint8Array => {
+  const ciphertextOffset = additionalData.length + padTo16(additionalData.length);
+  const lengthsOffset = ciphertextOffset + ciphertext.length + padTo16(ciphertext.length);
+  const out = new Uint8Array(lengthsOffset + 16);
+  out.set(additionalData, 0);
+  out.set(ciphertext, ciphertextOffset);
+  const view = new DataView(out.buffer);
+  view.setBigUint64(lengthsOffset, BigInt(additionalData.length), true);
+  view.setBigUint64(lengthsOffset + 8, BigInt(ciphertext.length), true);
+  return out;
+};
+
+const checkSizes = (key: Uint8Array, nonce: Uint8Array): void => {
+  if (key.length !== CHACHA20_KEY_NUM_BYTES) throw new Error(`ChaCha20-Poly1305: Key must be ${CHACHA20_KEY_NUM_BYTES} bytes.`);
+  if (nonce.length !== CHACHA20_NONCE_NUM_BYTES) throw new Error(`ChaCha20-Poly1305: Nonce must be ${CHACHA20_NONCE_NUM_BYTES} bytes.`);
+};
+
+const tagFor = (key: Uint8Array, nonce: Uint8Array, additionalData: Uint8Array, ciphertext: Uint8Array): Uint8Array =>
+  poly1305(chacha20Xor(key, nonce, 0, new Uint8Array(32)), macData(additionalData, ciphertext));
+
+export const chacha20Poly1305Encrypt = (key: Uint8Array, nonce: Uint8Array, plaintext: Uint8Array, additionalData: Uint8Array = new Uint8Array(0)): Uint8Array => {
+  checkSizes(key, nonce);
+  const ciphertext = chacha20Xor(key, nonce, 1, plaintext);
+  const out = new Uint8Array(ciphertext.length + POLY1305_TAG_NUM_BYTES);
+  out.set(ciphertext, 0);
+  out.set(tagFor(key, nonce, additionalData, ciphertext), ciphertext.length);
+  return out;
+};
+
+export const chacha20Poly1305Decrypt = (key: Uint8Array, nonce: Uint8Array, sealed: Uint8Array, additionalData: Uint8Array = new Uint8Array(0)): Uint8Array => {
+  checkSizes(key, nonce);
+  if (sealed.length < POLY1305_TAG_NUM_BYTES) throw new Error('ChaCha20-Poly1305: Decryption failed, the ciphertext is too short.');
+  const ciphertext = sealed.subarray(0, sealed.length - POLY1305_TAG_NUM_BYTES);
+  if (!constantTimeEqual(tagFor(key, nonce, additionalData, ciphertext), sealed.subarray(ciphertext.length))) {
+    throw new Error('ChaCha20-Poly1305: Decryption failed, the authentication tag does not match.');
+  }
+  return chacha20Xor(key, nonce, 1, ciphertext);
+};
@@ -0,0 +1,78 @@
+// ChaCha20 (RFC 8439) in plain TypeScript. Web Crypto has no ChaCha20; the keyed pixel permutation
+// needs a synchronous stream of random words, and ChaCha20-Poly1305 needs the keystream itself.
+
+const SIGMA = new Uint32Array([0x61707865, 0x3320646e, 0x79622d32, 0x6b206574]); // "expand 32-byte k"
+
+export const CHACHA20_KEY_NUM_BYTES = 32;
+export const CHACHA20_NONCE_NUM_BYTES = 12;
+
+const rotl = (x: number, n: number): number => (x << n) | (x >>> (32 - n));
+
+const quarterRound = (s: Uint32Array, a: number, b: number, c: number, d: number): void => {
+  s[a] += s[b]; s[d] = rotl(s[d] ^ s[a], 16);
+  s[c] += s[d]; s[b] = rotl(s[b] ^ s[c], 12);
+  s[a] += s[b]; s[d] = rotl(s[d] ^ s[a], 8);
+  s[c] += s[d]; s[b] = rotl(s[b] ^ s[c], 7);
+};
+
+const readWordsLE = (bytes: Uint8Array): Uint32Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return Uint32Array.from({ length: bytes.length / 4 }, (_, i) => view.getUint32(i * 4, true));
+};
+
+// Initial state for a key and nonce, with the block counter at word 12.
+const initialState = (key: Uint8Array, nonce: Uint8Array): Uint32Array => {
+  if (key.length !== CHACHA20_KEY_NUM_BYTES) throw new Error(`ChaCha20: Key must be ${CHACHA20_KEY_NUM_BYTES} bytes.`);
+  if (nonce.length !== CHACHA20_NONCE_NUM_BYTES) throw new Error(`ChaCha20: Nonce must be ${CHACHA20_NONCE_NUM_BYTES} bytes.`);
+  const state = new Uint32Array(16);
+  state.set(SIGMA, 0);
+  state.set(readWordsLE(key), 4);
+  state.set(readWordsLE(nonce), 13);
+  return state;
+};
+
+// Writes the 16 keystream words of one block into `out`.
+const chacha20Block = (state: Uint32Array, working: Uint32Array, out: Uint32Array): void => {
+  working.set(state);
+  for (let round = 0; round < 10; round++) {
+    quarterRound(working, 0, 4, 8, 12);
+    quarterRound(working, 1, 5, 9, 13);
+    quarterRound(working, 2, 6, 10, 14);
+    quarterRound(working, 3, 7, 11, 15);
+    quarterRound(working, 0, 5, 10, 15);
+    quarterRound(working, 1, 6, 11, 12);
+    quarterRound(working, 2, 7, 8, 13);
+    quarterRound(working, 3, 4, 9, 14);
+  }
+  for (let i = 0; i < 16; i++) out[i] = (working[i] + state[i]) >>> 0;
+};
+
+// Returns a generator of successive 32-bit keystream words (little-endian, as the bytes would be read),
+// starting at the given block counter.
+export const chacha20Words = (key: Uint8Array, nonce: Uint8Array = new Uint8Array(CHACHA20_NONCE_NUM_BYTES), counter = 0): () => number => {
+  const state = initialState(key, nonce);
+  state[12] = counter;
+  const working = new Uint32Array(16);
+  const block = new Uint32Array(16);
+  let position = 16;
+  return () => {
+    if (position === 16) {
+      chacha20Block(state, working, block);
+      state[12]++;
+      if (state[12] === 0) throw new Error('ChaCha20: Block counter overflow.');
+      position = 0;
+    }
+    return block[position++];
+  };
+};
+
+// Encrypts or decrypts `data` by XOR with the keystream, starting at the given block counter.
+export const chacha20Xor = (key: Uint8Array, nonce: Uint8Array, counter: number, data: Uint8Array): Uint8Array => {
+  const next = chacha20Words(key, nonce, counter);
+  const out = new Uint8Array(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const word = next();
+    for (let j = 0; j < 4 && i + j < data.length; j++) out[i + j] = data[i + j] ^ (word >>> (8 * j));
+  }
+  return out;
+};
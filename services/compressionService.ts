@@ -0,0 +1,40 @@
+import { PAYLOAD_COMPRESSION_FORMAT, MAX_DECOMPRESSED_PAYLOAD_BYTES } from '../constants.ts';
+
+// Deflate compression through the browser's CompressionStream. Browsers only offer gzip and deflate
+// there; Brotli would need a bundled encoder, and for payloads of this size it gains little over deflate.
+
+const readAll = async (stream: ReadableStream<Uint8Array>, maxBytes: number, label: string): Promise<Uint8Array> => {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new Error(`${label}: The decompressed data is too large.`);
+    }
+    chunks.push(value);
+  }
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
+
+export const deflate = (data: Uint8Array, format: CompressionFormat = PAYLOAD_COMPRESSION_FORMAT): Promise<Uint8Array> =>
+  readAll(new Blob([data]).stream().pipeThrough(new CompressionStream(format)), Infinity, 'Compression');
+
+// Throws once the output passes maxBytes, and on corrupt input.
+export const inflate = async (data: Uint8Array, format: CompressionFormat = PAYLOAD_COMPRESSION_FORMAT, maxBytes = MAX_DECOMPRESSED_PAYLOAD_BYTES, label = 'Compression'): Promise<Uint8Array> => {
+  try {
+    return await readAll(new Blob([data]).stream().pipeThrough(new DecompressionStream(format)), maxBytes, label);
+  } catch (e: any) {
+    if (e instanceof Error && e.message.startsWith(`${label}:`)) throw e;
+    throw new Error(`${label}: The compressed data is corrupted.`);
+  }
+};
@@ -2,97 +2,357 @@
 import {
   CRYPTO_SALT_NUM_BYTES,
   CRYPTO_IV_NUM_BYTES,
-  CRYPTO_PBKDF2_ITERATIONS,
   CRYPTO_AES_KEY_LENGTH_BITS,
   CRYPTO_HASH_ALGORITHM,
   CRYPTO_ALGORITHM_NAME,
-  CRYPTO_PAYLOAD_DELIMITER
+  CRYPTO_PAYLOAD_DELIMITER,
+  CRYPTO_AAD_PREFIX,
+  CRYPTO_KEY_FILES_MARKER,
+  CRYPTO_GCM_TAG_NUM_BYTES,
+  DEFAULT_KDF_PARAMS,
+  DEFAULT_CIPHER,
+  HYBRID_SCHEME_ID,
+  HYBRID_CURVE,
+  HYBRID_HKDF_INFO,
+  HYBRID_RECIPIENT_DELIMITER,
+  KDF_PARAM_SEPARATOR,
+  HYBRID_PUBLIC_KEY_NUM_BYTES,
+  HYBRID_WRAPPED_KEY_NUM_BYTES,
+  MAX_HYBRID_RECIPIENTS,
+  BINARY_PAYLOAD_MIN_BASE64_LENGTH
 } from '../constants.ts';
+import { CipherAlgorithm, PayloadFormat, type EncryptionOptions, type EncryptionSecret, type DecryptionSecret, type PasswordWithKeyFiles } from '../types.ts';
 import { arrayBufferToBase64, base64ToArrayBuffer, stringToArrayBuffer, arrayBufferToString } from '../utils.ts';
+import { signPlaintext, signedRecordOverheadBytes } from './signatureService.ts';
+import { chacha20Poly1305Encrypt, chacha20Poly1305Decrypt } from './chacha20Poly1305Service.ts';
+import { aesGcmSivEncrypt, aesGcmSivDecrypt } from './aesGcmSivService.ts';
+import { deriveKeyBytes, formatKdfSpec, parseKdfSpec, validateKdfParams, LEGACY_KDF_PARAMS } from './kdfService.ts';
+import { hasKeyFiles, mixKeyFilesIntoPassword } from './keyFileService.ts';
 
-// Derive a key from a password and salt using PBKDF2
-async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
-  const passwordBuffer = stringToArrayBuffer(password);
-  
-  const importedKey = await crypto.subtle.importKey(
-    'raw',
-    passwordBuffer,
-    { name: 'PBKDF2' },
-    false,
-    ['deriveKey']
-  );
+// --- Ciphers ---
+// Every cipher takes a 256-bit key and a 96-bit IV and appends a 16-byte tag, so the choice does not
+// change the payload size beyond its id. Web Crypto only has AES-GCM; the others are plain TypeScript.
+
+interface PayloadCipher {
+  encrypt: (key: Uint8Array, iv: Uint8Array, data: Uint8Array, additionalData: Uint8Array) => Promise<Uint8Array>;
+  decrypt: (key: Uint8Array, iv: Uint8Array, data: Uint8Array, additionalData: Uint8Array) => Promise<Uint8Array>;
+}
+
+const importAesGcmKey = (key: Uint8Array, usage: 'encrypt' | 'decrypt'): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', key, { name: CRYPTO_ALGORITHM_NAME }, false, [usage]);
+
+const CIPHERS: Record<CipherAlgorithm, PayloadCipher> = {
+  [CipherAlgorithm.AesGcm]: {
+    encrypt: async (key, iv, data, additionalData) => new Uint8Array(await crypto.subtle.encrypt({ name: CRYPTO_ALGORITHM_NAME, iv, additionalData }, await importAesGcmKey(key, 'encrypt'), data)),
+    decrypt: async (key, iv, data, additionalData) => new Uint8Array(await crypto.subtle.decrypt({ name: CRYPTO_ALGORITHM_NAME, iv, additionalData }, await importAesGcmKey(key, 'decrypt'), data)),
+  },
+  [CipherAlgorithm.ChaCha20Poly1305]: {
+    encrypt: async (key, iv, data, additionalData) => chacha20Poly1305Encrypt(key, iv, data, additionalData),
+    decrypt: async (key, iv, data, additionalData) => chacha20Poly1305Decrypt(key, iv, data, additionalData),
+  },
+  [CipherAlgorithm.AesGcmSiv]: {
+    encrypt: async (key, iv, data, additionalData) => aesGcmSivEncrypt(key, iv, data, additionalData),
+    decrypt: async (key, iv, data, additionalData) => aesGcmSivDecrypt(key, iv, data, additionalData),
+  },
+};
+
+export const CIPHER_NAMES: Record<CipherAlgorithm, string> = {
+  [CipherAlgorithm.AesGcm]: 'AES-256-GCM',
+  [CipherAlgorithm.ChaCha20Poly1305]: 'ChaCha20-Poly1305',
+  [CipherAlgorithm.AesGcmSiv]: 'AES-256-GCM-SIV',
+};
+
+const isCipherId = (id: string): id is CipherAlgorithm => Object.values(CipherAlgorithm).includes(id as CipherAlgorithm);
+
+// The cipher id that starts a payload, or nothing for the default cipher.
+const cipherPrefix = (cipher: CipherAlgorithm): string[] => cipher === DEFAULT_CIPHER ? [] : [cipher];
+
+// Removes a leading cipher id from the payload parts. Payloads without one use the default cipher.
+const takeCipher = (parts: string[]): CipherAlgorithm => isCipherId(parts[0]) ? parts.shift() as CipherAlgorithm : DEFAULT_CIPHER;
+
+// The additional authenticated data, base64 after its prefix, leads the payload when there is any. An
+// empty value authenticates the same as none, so payloads without it decrypt exactly as before.
+const additionalDataPrefix = (additionalData: Uint8Array): string[] =>
+  additionalData.length === 0 ? [] : [CRYPTO_AAD_PREFIX + arrayBufferToBase64(additionalData.slice().buffer)];
+
+const takeAdditionalData = (parts: string[]): Uint8Array => parts[0]?.startsWith(CRYPTO_AAD_PREFIX)
+  ? new Uint8Array(base64ToArrayBuffer(parts.shift()!.slice(CRYPTO_AAD_PREFIX.length)))
+  : new Uint8Array(0);
+
+// The additional authenticated data recorded in a payload, so callers can check it before decrypting.
+export const readPayloadAdditionalData = (encryptedPayload: string): Uint8Array | null => {
+  const parts = encryptedPayload.split(CRYPTO_PAYLOAD_DELIMITER);
+  try {
+    const additionalData = takeAdditionalData(parts);
+    return additionalData.length > 0 ? additionalData : null;
+  } catch {
+    return null; // Not valid base64: decryption reports the broken payload
+  }
+};
 
+const CONTENT_KEY_NUM_BYTES = CRYPTO_AES_KEY_LENGTH_BITS / 8;
+
+// --- Passwords and key files ---
+
+export const isPasswordSecret = (secret: EncryptionSecret | DecryptionSecret): secret is string | PasswordWithKeyFiles =>
+  typeof secret === 'string' || hasKeyFiles(secret);
+
+// What the KDF is given: the password alone, or the password with the key file pool mixed in.
+export const passwordKeyMaterial = (secret: string | PasswordWithKeyFiles): string | Uint8Array =>
+  typeof secret === 'string' ? secret : mixKeyFilesIntoPassword(secret.password, secret.keyFileDigest);
+
+// Payloads whose password needs key files say so after the cipher id, so decoders can ask for them.
+const keyFilesMarker = (secret: string | PasswordWithKeyFiles): string[] => hasKeyFiles(secret) ? [CRYPTO_KEY_FILES_MARKER] : [];
+
+export const KEY_FILES_REQUIRED_MESSAGE = 'This message needs key files as well as the password. Choose the key files it was encrypted with.';
+
+// --- Hybrid public-key encryption (ECDH P-256 + HKDF + AES-GCM) ---
+
+const isEcdhKey = (key: CryptoKey, type: KeyType): boolean =>
+  key.type === type && key.algorithm.name === 'ECDH' && (key.algorithm as EcKeyAlgorithm).namedCurve === HYBRID_CURVE;
+
+// Key-encryption key for one recipient, from the ECDH shared secret. The ephemeral public key is the salt.
+async function deriveWrappingKey(privateKey: CryptoKey, publicKey: CryptoKey, ephemeralPublicKey: Uint8Array, usage: 'wrapKey' | 'unwrapKey'): Promise<CryptoKey> {
+  const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  const ikm = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
   return crypto.subtle.deriveKey(
-    {
-      name: 'PBKDF2',
-      salt: salt,
-      iterations: CRYPTO_PBKDF2_ITERATIONS,
-      hash: CRYPTO_HASH_ALGORITHM,
-    },
-    importedKey,
-    { name: CRYPTO_ALGORITHM_NAME, length: CRYPTO_AES_KEY_LENGTH_BITS },
-    true, // exportable, set to false if not needed
-    ['encrypt', 'decrypt']
+    { name: 'HKDF', hash: CRYPTO_HASH_ALGORITHM, salt: ephemeralPublicKey, info: stringToArrayBuffer(HYBRID_HKDF_INFO) },
+    ikm,
+    { name: 'AES-KW', length: CRYPTO_AES_KEY_LENGTH_BITS },
+    false,
+    [usage]
   );
 }
 
-// Encrypt a message using AES-GCM
-export async function encryptMessage(message: string, password: string): Promise<string> {
+// A random content key encrypts the data once; it is wrapped separately for every recipient.
+// One ephemeral key pair serves all recipients, since each recipient's shared secret differs.
+async function encryptForRecipients(data: Uint8Array, recipients: CryptoKey[], cipher: CipherAlgorithm, additionalData: Uint8Array): Promise<string> {
+  if (recipients.length === 0) throw new Error('Crypto: At least one recipient public key is required.');
+  if (recipients.length > MAX_HYBRID_RECIPIENTS) throw new Error(`Crypto: At most ${MAX_HYBRID_RECIPIENTS} recipients are supported.`);
+  if (!recipients.every(key => isEcdhKey(key, 'public'))) throw new Error(`Crypto: Recipients must be ECDH ${HYBRID_CURVE} public keys.`);
+
+  const ephemeral = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: HYBRID_CURVE }, false, ['deriveBits']) as CryptoKeyPair;
+  const ephemeralPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+  const contentKeyBytes = crypto.getRandomValues(new Uint8Array(CONTENT_KEY_NUM_BYTES));
+  // AES-KW only wraps CryptoKeys; the raw bytes are the content key whichever cipher uses them.
+  const contentKey = await crypto.subtle.importKey('raw', contentKeyBytes, { name: CRYPTO_ALGORITHM_NAME }, true, ['encrypt']);
+  const wrappedKeys = await Promise.all(recipients.map(async recipient => {
+    const wrappingKey = await deriveWrappingKey(ephemeral.privateKey, recipient, ephemeralPublicKey, 'wrapKey');
+    return arrayBufferToBase64(await crypto.subtle.wrapKey('raw', contentKey, wrappingKey, 'AES-KW'));
+  }));
+
+  const iv = crypto.getRandomValues(new Uint8Array(CRYPTO_IV_NUM_BYTES));
+  const ciphertext = await CIPHERS[cipher].encrypt(contentKeyBytes, iv, data, additionalData);
+
+  // Format: [aad$data:][cipher:]ecdh-p256:base64(ephemeral public key):base64(wrapped key),...:base64(iv):base64(ciphertext)
+  return [...additionalDataPrefix(additionalData), ...cipherPrefix(cipher), HYBRID_SCHEME_ID, arrayBufferToBase64(ephemeralPublicKey), wrappedKeys.join(HYBRID_RECIPIENT_DELIMITER), arrayBufferToBase64(iv), arrayBufferToBase64(ciphertext.buffer as ArrayBuffer)].join(CRYPTO_PAYLOAD_DELIMITER);
+}
+
+// Recipients are not named in the payload; every wrapped key is tried with the private key.
+async function decryptForRecipient(parts: string[], privateKey: CryptoKey, cipher: CipherAlgorithm, additionalData: Uint8Array): Promise<Uint8Array> {
+  if (parts.length !== 5) throw new Error('Invalid public-key payload format. Expected ecdh-p256:key:recipients:iv:ciphertext.');
+  if (!isEcdhKey(privateKey, 'private')) throw new Error(`Crypto: Decryption needs an ECDH ${HYBRID_CURVE} private key.`);
+
+  const ephemeralPublicKey = new Uint8Array(base64ToArrayBuffer(parts[1]));
+  const ephemeralKey = await crypto.subtle.importKey('raw', ephemeralPublicKey, { name: 'ECDH', namedCurve: HYBRID_CURVE }, false, []);
+  const wrappingKey = await deriveWrappingKey(privateKey, ephemeralKey, ephemeralPublicKey, 'unwrapKey');
+
+  let contentKey: CryptoKey | null = null;
+  for (const wrapped of parts[2].split(HYBRID_RECIPIENT_DELIMITER)) {
+    try {
+      contentKey = await crypto.subtle.unwrapKey('raw', base64ToArrayBuffer(wrapped), wrappingKey, 'AES-KW', CRYPTO_ALGORITHM_NAME, true, ['decrypt']);
+      break;
+    } catch {
+      // AES-KW has a built-in integrity check: this wrapped key belongs to another recipient.
+    }
+  }
+  if (!contentKey) throw new Error('This private key is not one of the message\'s recipients.');
+
+  const contentKeyBytes = new Uint8Array(await crypto.subtle.exportKey('raw', contentKey));
+  return CIPHERS[cipher].decrypt(contentKeyBytes, new Uint8Array(base64ToArrayBuffer(parts[3])), new Uint8Array(base64ToArrayBuffer(parts[4])), additionalData);
+}
+
+// --- Public API ---
+
+// Encrypt a message with the chosen cipher (AES-GCM by default)
+export async function encryptMessage(message: string, password: EncryptionSecret, options: EncryptionOptions = {}): Promise<string> {
+  return encryptBytes(new Uint8Array(stringToArrayBuffer(message)), password, options);
+}
+
+// Encrypt arbitrary bytes with the chosen cipher, under a password-derived key ([cipher:][keyfiles:]kdf:salt:iv:ciphertext)
+// or for the public keys of one or more recipients ([cipher:]ecdh-p256:...). The KDF options only apply to passwords,
+// which may come with key files (see keyFileService).
+// Additional authenticated data is recorded in front (aad$data:...) and checked by the cipher's tag.
+// With a signing key, the signed record (see signatureService) is what gets encrypted.
+export async function encryptBytes(data: Uint8Array, password: EncryptionSecret, options: EncryptionOptions = {}): Promise<string> {
+  if (options.format === PayloadFormat.OpenPgp) throw new Error('Crypto: OpenPGP messages are made by openPgpService, not encryptBytes.');
+  if (options.signingKey) data = await signPlaintext(data, options.signingKey);
+  const cipher = options.cipher ?? DEFAULT_CIPHER;
+  if (!isCipherId(cipher)) throw new Error(`Crypto: Unknown cipher "${cipher}".`);
+  const additionalData = options.additionalData ?? new Uint8Array(0);
+  if (!isPasswordSecret(password)) return encryptForRecipients(data, password.recipients, cipher, additionalData);
+
+  const kdf = options.kdf ?? DEFAULT_KDF_PARAMS;
+  validateKdfParams(kdf);
   try {
     const salt = crypto.getRandomValues(new Uint8Array(CRYPTO_SALT_NUM_BYTES));
     const iv = crypto.getRandomValues(new Uint8Array(CRYPTO_IV_NUM_BYTES));
     
-    const key = await deriveKey(password, salt);
-    const messageBuffer = stringToArrayBuffer(message);
-
-    const ciphertextBuffer = await crypto.subtle.encrypt(
-      {
-        name: CRYPTO_ALGORITHM_NAME,
-        iv: iv,
-      },
-      key,
-      messageBuffer
-    );
-
-    // Combine salt, IV, and ciphertext into a single string
-    // Format: base64(salt):base64(iv):base64(ciphertext)
-    return `${arrayBufferToBase64(salt)}${CRYPTO_PAYLOAD_DELIMITER}${arrayBufferToBase64(iv)}${CRYPTO_PAYLOAD_DELIMITER}${arrayBufferToBase64(ciphertextBuffer)}`;
+    const key = await deriveKeyBytes(passwordKeyMaterial(password), salt, kdf, CONTENT_KEY_NUM_BYTES);
+    const ciphertext = await CIPHERS[cipher].encrypt(key, iv, data, additionalData);
+
+    // Combine the additional data, cipher id, key file marker, KDF spec, salt, IV, and ciphertext into a single string
+    // Format: [aad$data:][cipher:][keyfiles:]kdf$params:base64(salt):base64(iv):base64(ciphertext)
+    return [...additionalDataPrefix(additionalData), ...cipherPrefix(cipher), ...keyFilesMarker(password), formatKdfSpec(kdf), arrayBufferToBase64(salt), arrayBufferToBase64(iv), arrayBufferToBase64(ciphertext.buffer as ArrayBuffer)].join(CRYPTO_PAYLOAD_DELIMITER);
   } catch (error) {
     console.error('Encryption error:', error);
     throw new Error('Encryption failed. Please check console for details.');
   }
 }
 
-// Decrypt a message using AES-GCM
-export async function decryptMessage(encryptedPayload: string, password: string): Promise<string> {
+// Length in bytes of the string encryptBytes produces for `plaintextLength` bytes, with a password
+// (recipientCount 0, optionally with key files) or for that many public keys, or of its compact binary
+// form when options.binaryPayload is set. Every cipher appends a 16-byte tag.
+export const estimateEncryptedPayloadBytes = (plaintextLength: number, options: EncryptionOptions = {}, recipientCount = 0, withKeyFiles = false): number => {
+  const cipher = options.cipher ?? DEFAULT_CIPHER;
+  if (options.signingKey) plaintextLength += signedRecordOverheadBytes(options.signingKey);
+  // The payload's delimited parts: identifiers as text, binary fields by their length
+  const parts: (string | number)[] = [];
+  if (options.additionalData?.length) parts.push(CRYPTO_AAD_PREFIX + 'A'.repeat(base64Length(options.additionalData.length)));
+  if (cipher !== DEFAULT_CIPHER) parts.push(cipher);
+  if (recipientCount > 0) {
+    parts.push(HYBRID_SCHEME_ID, HYBRID_PUBLIC_KEY_NUM_BYTES, ...Array<number>(recipientCount).fill(HYBRID_WRAPPED_KEY_NUM_BYTES));
+  } else {
+    if (withKeyFiles) parts.push(CRYPTO_KEY_FILES_MARKER);
+    parts.push(...formatKdfSpec(options.kdf ?? DEFAULT_KDF_PARAMS).split(KDF_PARAM_SEPARATOR), CRYPTO_SALT_NUM_BYTES);
+  }
+  parts.push(CRYPTO_IV_NUM_BYTES, plaintextLength + CRYPTO_GCM_TAG_NUM_BYTES);
+  // Both forms spend one byte per delimiter or part header; binary parts are decoded in the compact form.
+  return parts.reduce<number>((sum, part) => sum + 1 + (typeof part === 'string'
+    ? (options.binaryPayload ? varintLength(part.length) : 0) + part.length
+    : (options.binaryPayload ? varintLength(part) + part : base64Length(part))), options.binaryPayload ? 0 : -1);
+};
+
+// --- Compact binary form ---
+// Stego containers can hold a payload string as bytes instead of text, saving the base64 overhead. The
+// string is split at its delimiters, and each part is stored as a header byte (bit 0: stored decoded
+// from base64, bits 1-2: the delimiter that follows, an index into BINARY_PART_DELIMITERS), its length as
+// a LEB128 varint and its bytes. Only long parts that are canonical base64 are decoded, so the string is restored exactly.
+
+const BINARY_PART_BASE64 = 1;
+// Every delimiter a payload string can contain. The KDF parameter separator is the recipient delimiter
+// today; should they ever differ, it has its own index and the existing encodings stay the same.
+const BINARY_PART_DELIMITERS = ['', CRYPTO_PAYLOAD_DELIMITER, HYBRID_RECIPIENT_DELIMITER, KDF_PARAM_SEPARATOR];
+const BINARY_PART_SPLIT = new RegExp(`([${BINARY_PART_DELIMITERS.join('').replace(/[\\\]^-]/g, '\\$&')}])`);
+
+const base64Length = (n: number): number => 4 * Math.ceil(n / 3);
+const varintLength = (n: number): number => n < 0x80 ? 1 : 1 + varintLength(Math.floor(n / 0x80));
+
+const decodeCanonicalBase64 = (part: string): Uint8Array | null => {
+  if (part.length < BINARY_PAYLOAD_MIN_BASE64_LENGTH || part.length % 4 !== 0 || !/^[A-Za-z0-9+/]+={0,2}$/.test(part)) return null;
+  const bytes = new Uint8Array(base64ToArrayBuffer(part));
+  return arrayBufferToBase64(bytes.buffer) === part ? bytes : null;
+};
+
+export const encodeBinaryPayload = (payload: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  const tokens = payload.split(BINARY_PART_SPLIT);
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < tokens.length; i += 2) {
+    const decoded = decodeCanonicalBase64(tokens[i]);
+    const bytes = decoded ?? encoder.encode(tokens[i]);
+    const header = [(decoded ? BINARY_PART_BASE64 : 0) | (BINARY_PART_DELIMITERS.indexOf(tokens[i + 1] ?? '') << 1)];
+    for (let n = bytes.length; ; n = Math.floor(n / 0x80)) {
+      header.push(n < 0x80 ? n : (n & 0x7f) | 0x80);
+      if (n < 0x80) break;
+    }
+    chunks.push(new Uint8Array(header), bytes);
+  }
+  const out = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
+
+export const decodeBinaryPayload = (bytes: Uint8Array, label: string): string => {
+  const corrupted = () => new Error(`${label}: The binary payload is corrupted.`);
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  let payload = '';
+  let offset = 0;
+  while (offset < bytes.length) {
+    const header = bytes[offset++];
+    const delimiter = BINARY_PART_DELIMITERS[header >> 1];
+    if (delimiter === undefined) throw corrupted();
+    let length = 0;
+    for (let scale = 1; ; scale *= 0x80) {
+      if (offset >= bytes.length || scale > 2 ** 28) throw corrupted();
+      const b = bytes[offset++];
+      length += (b & 0x7f) * scale;
+      if (!(b & 0x80)) break;
+    }
+    if (offset + length > bytes.length) throw corrupted();
+    const part = bytes.subarray(offset, offset + length);
+    offset += length;
+    try {
+      payload += (header & BINARY_PART_BASE64 ? arrayBufferToBase64(part.slice().buffer) : decoder.decode(part)) + delimiter;
+    } catch {
+      throw corrupted();
+    }
+    if (!delimiter && offset < bytes.length) throw corrupted();
+  }
+  return payload;
+};
+
+// Decrypt a message with the cipher named in its payload
+export async function decryptMessage(encryptedPayload: string, password: DecryptionSecret): Promise<string> {
+  return arrayBufferToString(await decryptBytes(encryptedPayload, password));
+}
+
+// Decrypt a [cipher:][keyfiles:]kdf:salt:iv:ciphertext (or legacy salt:iv:ciphertext) payload with its password
+// (and key files, when marked as needing them), or an
+// ecdh-p256 payload with a recipient's private key, back to the raw plaintext bytes. Recorded additional
+// data is authenticated along with the ciphertext.
+export async function decryptBytes(encryptedPayload: string, password: DecryptionSecret): Promise<Uint8Array> {
   try {
     const parts = encryptedPayload.split(CRYPTO_PAYLOAD_DELIMITER);
-    if (parts.length !== 3) {
-      throw new Error('Invalid encrypted payload format. Expected salt:iv:ciphertext.');
+    const additionalData = takeAdditionalData(parts);
+    const cipher = takeCipher(parts);
+    if (parts[0] === HYBRID_SCHEME_ID) {
+      if (isPasswordSecret(password)) throw new Error('This message was encrypted for a public key. Decrypt it with the matching private key.');
+      return await decryptForRecipient(parts, password, cipher, additionalData);
     }
+    if (!isPasswordSecret(password)) throw new Error('This message was encrypted with a password, not for a public key.');
+    // Key files given for a payload that does not need them are ignored.
+    const needsKeyFiles = parts[0] === CRYPTO_KEY_FILES_MARKER;
+    if (needsKeyFiles) {
+      parts.shift();
+      if (!hasKeyFiles(password)) throw new Error(KEY_FILES_REQUIRED_MESSAGE);
+    }
+    if (parts.length !== 3 && parts.length !== 4) {
+      throw new Error('Invalid encrypted payload format. Expected kdf:salt:iv:ciphertext.');
+    }
+    // Payloads from before the KDF was recorded have no spec and used PBKDF2 at 100,000 iterations.
+    const kdf = parts.length === 4 ? parseKdfSpec(parts.shift()!) : LEGACY_KDF_PARAMS;
 
-    const salt = base64ToArrayBuffer(parts[0]);
-    const iv = base64ToArrayBuffer(parts[1]);
-    const ciphertext = base64ToArrayBuffer(parts[2]);
+    const salt = new Uint8Array(base64ToArrayBuffer(parts[0]));
+    const iv = new Uint8Array(base64ToArrayBuffer(parts[1]));
+    const ciphertext = new Uint8Array(base64ToArrayBuffer(parts[2]));
 
-    // Ensure salt and IV are Uint8Array for deriveKey
-    const key = await deriveKey(password, new Uint8Array(salt));
-    
-    const decryptedBuffer = await crypto.subtle.decrypt(
-      {
-        name: CRYPTO_ALGORITHM_NAME,
-        iv: new Uint8Array(iv), // Ensure IV is Uint8Array
-      },
-      key,
-      ciphertext
-    );
-
-    return arrayBufferToString(decryptedBuffer);
+    const key = await deriveKeyBytes(needsKeyFiles ? passwordKeyMaterial(password) : hasKeyFiles(password) ? password.password : password, salt, kdf, CONTENT_KEY_NUM_BYTES);
+    return await CIPHERS[cipher].decrypt(key, iv, ciphertext, additionalData);
   } catch (error: any) {
-    console.error('Decryption error:', error);
+    // Not logged: callers that try several methods expect most attempts to fail. The original error
+    // stays available as the cause.
     if (error.name === 'OperationError' || (error.message && error.message.toLowerCase().includes('decryption failed'))) {
-        throw new Error('Decryption failed. This usually means an incorrect password or corrupted data.');
+        throw new Error(hasKeyFiles(password)
+          ? 'Decryption failed. This usually means an incorrect password, the wrong key files or corrupted data.'
+          : isPasswordSecret(password)
+          ? 'Decryption failed. This usually means an incorrect password or corrupted data.'
+          : 'Decryption failed. The payload is corrupted.', { cause: error });
     }
-    throw new Error(error.message || 'Decryption failed. Please check console for details.');
+    throw new Error(error.message || `Decryption failed (${error.name ?? 'unknown error'}).`, { cause: error });
   }
 }
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { CONTAINER_HEADER_NUM_BYTES, DENIABLE_SLOT_COUNT, DENIABLE_SALT_PREFIX, DEFAULT_KDF_PARAMS, LSB_HEADER_NUM_PIXELS, PIXEL_PERMUTATION_VERSION } from '../constants.ts';
+import type { ContainerMethod, ContainerHeader, DecoyMessage, HiddenFile, LsbEncodeOptions, RawImage, EncryptionOptions, EncryptionSecret, DecryptionSecret } from '../types.ts';
+import { deriveKeyBytes } from './kdfService.ts';
+import { chacha20Xor, CHACHA20_KEY_NUM_BYTES, CHACHA20_NONCE_NUM_BYTES } from './chacha20Service.ts';
+import { isPasswordSecret, passwordKeyMaterial } from './cryptoService.ts';
+import { lsbLayoutFromOptions, encodeLsbParams, lsbOptionsContainerFlags, lsbPayloadCapacityBits, embedLsbContainer, extractLsbContainer, lsbStegoContext } from './lsbEmbeddingService.ts';
+import { encodePermutationVersion, type PermutationMethod } from './pixelPermutationService.ts';
+import { buildContainer, encodeContainerPayload, validateSecret, secretContainerFlags, encryptSecretForContainer } from './payloadContainerService.ts';
+
+// Deniable mode for the keyed LSB methods. The stego key's pixel order is split into disjoint slots and
+// each message goes into one of them, in random order: the real message and, optionally, a decoy, each
+// encrypted under its own password. A slot's container is XOR-ed with a ChaCha20 keystream whose key is
+// derived from that password (Argon2id, salted with the method, image size and stego key), and every LSB
+// after it is filled with random bytes; a slot without a message is fill only. Without a slot's password
+// its container cannot be told apart from the fill, and the headers carry nothing that marks the image as
+// deniable, so handing over the stego key and one password does not show whether another message exists.
+
+const slotNonce = (slot: number): Uint8Array => {
+  const nonce = new Uint8Array(CHACHA20_NONCE_NUM_BYTES);
+  nonce[0] = slot;
+  return nonce;
+};
+
+const deriveWhiteningKey = (password: string | Uint8Array, method: PermutationMethod, numPixels: number, stegoKey: string): Promise<Uint8Array> =>
+  deriveKeyBytes(password, new TextEncoder().encode(`${DENIABLE_SALT_PREFIX}|${method}|${numPixels}|${stegoKey}`), DEFAULT_KDF_PARAMS, CHACHA20_KEY_NUM_BYTES);
+
+// XORs `bytes`, found at `offset` in a slot, with that slot's keystream.
+const whiten = (key: Uint8Array, slot: number, bytes: Uint8Array, offset = 0): Uint8Array => {
+  const padded = new Uint8Array(offset + bytes.length);
+  padded.set(bytes, offset);
+  return chacha20Xor(key, slotNonce(slot), 0, padded).subarray(offset);
+};
+
+const slotOrders = (order: number[]): number[][] => {
+  const slotPixels = Math.floor(order.length / DENIABLE_SLOT_COUNT);
+  return Array.from({ length: DENIABLE_SLOT_COUNT }, (_, slot) => order.slice(slot * slotPixels, (slot + 1) * slotPixels));
+};
+
+const randomBytes = (length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  for (let offset = 0; offset < length; offset += 65536) crypto.getRandomValues(bytes.subarray(offset, offset + 65536)); // getRandomValues' limit
+  return bytes;
+};
+
+const whiteningPassword = (password: EncryptionSecret | DecryptionSecret, label: string): string | Uint8Array => {
+  if (!isPasswordSecret(password)) throw new Error(`${label}: Deniable mode needs a password for each message, not public keys.`);
+  return passwordKeyMaterial(password);
+};
+
+const sameBytes = (a: string | Uint8Array, b: string | Uint8Array): boolean => {
+  const [x, y] = [a, b].map(v => typeof v === 'string' ? new TextEncoder().encode(v) : v);
+  return x.length === y.length && x.every((v, i) => v === y[i]);
+};
+
+// Encrypts the real message and the decoy, if any, and embeds them in the image's slots, filling the rest
+// of every slot with random data. Matrix embedding and adaptive selection do not apply: the whole order is
+// written. The decoy is encrypted with the same options, but never signed.
+export const embedDeniableMessages = async (
+  image: RawImage,
+  order: number[],
+  method: ContainerMethod,
+  permutationMethod: PermutationMethod,
+  stegoKey: string,
+  secret: string | HiddenFile,
+  password: EncryptionSecret,
+  decoy: DecoyMessage | undefined,
+  options: LsbEncodeOptions,
+  encryption: EncryptionOptions,
+  label: string,
+): Promise<{ encryptedPayloads: string[]; changedValues: number }> => {
+  if (options.matrixEmbedding || options.adaptive) {
+    throw new Error(`${label}: Deniable mode fills every pixel of the pattern, so matrix embedding and adaptive selection do not apply.`);
+  }
+  const realPassword = whiteningPassword(password, label);
+  const messages: { secret: string | HiddenFile; password: EncryptionSecret; whitening: string | Uint8Array }[] = [{ secret, password, whitening: realPassword }];
+  if (decoy) {
+    validateSecret(decoy.secret);
+    const decoyPassword = whiteningPassword(decoy.password, label);
+    if (sameBytes(realPassword, decoyPassword)) throw new Error(`${label}: The decoy password must differ from the real one.`);
+    messages.push({ ...decoy, whitening: decoyPassword });
+  }
+
+  const numPixels = image.width * image.height;
+  const slots = slotOrders(order);
+  const layout = lsbLayoutFromOptions(options, slots[0].length, 0);
+  const slotCapacityBytes = Math.floor(lsbPayloadCapacityBits(slots[0].length, layout) / 8);
+  // Which slot holds the real message is random, so the slot order gives nothing away either.
+  const realSlot = crypto.getRandomValues(new Uint8Array(1))[0] & 1;
+
+  const encryptedPayloads: string[] = [];
+  let changedValues = 0;
+  for (const [i, message] of messages.entries()) {
+    // No flag marks the slot as deniable: whoever opens one must not learn that the image has others.
+    const flags = secretContainerFlags(message.secret, message.password, encryption) | lsbOptionsContainerFlags(options);
+    const messageEncryption = i === 0 ? encryption : { ...encryption, signingKey: undefined };
+    const encryptedPayload = await encryptSecretForContainer(message.secret, message.password, messageEncryption, lsbStegoContext(method, flags, options, image.width, image.height));
+    const payloadBytes = encodeContainerPayload(encryptedPayload, flags);
+    if (payloadBytes.length > slotCapacityBytes) {
+      throw new Error(`${label}: The encrypted ${i === 0 ? 'real message' : 'decoy'} is too long for deniable mode, where each message gets 1/${DENIABLE_SLOT_COUNT} of the image. Try a larger image, more bits per channel, or shorter messages.`);
+    }
+    const container = buildContainer(payloadBytes, method, flags, encodeLsbParams(layout) | encodePermutationVersion(PIXEL_PERMUTATION_VERSION));
+    const slot = i === 0 ? realSlot : 1 - realSlot;
+    const key = await deriveWhiteningKey(message.whitening, permutationMethod, numPixels, stegoKey);
+    const filled = randomBytes(CONTAINER_HEADER_NUM_BYTES + slotCapacityBytes);
+    filled.set(whiten(key, slot, container));
+    changedValues += embedLsbContainer(image.data, slots[slot], filled, layout, options.embeddingMode);
+    encryptedPayloads.push(encryptedPayload);
+  }
+  if (!decoy) {
+    changedValues += embedLsbContainer(image.data, slots[1 - realSlot], randomBytes(CONTAINER_HEADER_NUM_BYTES + slotCapacityBytes), layout, options.embeddingMode);
+  }
+  return { encryptedPayloads, changedValues };
+};
+
+// Looks for a container the password unlocks in the slots of a deniable image: a slot counts only when its
+// whitened header and CRC check out. Returns null when there is none, which is also what every image that
+// is not deniable gives.
+export const extractDeniableContainer = async (
+  image: RawImage,
+  order: number[],
+  method: ContainerMethod,
+  permutationMethod: PermutationMethod,
+  stegoKey: string,
+  password: DecryptionSecret,
+  label: string,
+): Promise<{ header: ContainerHeader; payload: Uint8Array } | null> => {
+  if (!isPasswordSecret(password) || order.length < DENIABLE_SLOT_COUNT * LSB_HEADER_NUM_PIXELS) return null;
+  const key = await deriveWhiteningKey(passwordKeyMaterial(password), permutationMethod, image.width * image.height, stegoKey);
+  for (const [slot, slotOrder] of slotOrders(order).entries()) {
+    try {
+      const container = extractLsbContainer(image.data, slotOrder, method, label, (bytes, offset) => whiten(key, slot, bytes, offset));
+      if (container) return container;
+    } catch {
+      // Fill that happened to unmask to the magic bytes; keep looking.
+    }
+  }
+  return null;
+};
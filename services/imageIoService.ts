@@ -0,0 +1,58 @@
+import type { RawImage } from '../types.ts';
+import { arrayBufferToBase64, loadImageToCanvas } from '../utils.ts';
+import { isPng, decodePng, encodePng } from './pngCodecService.ts';
+
+// Image I/O for the stego services. PNGs are decoded and encoded byte-exactly by pngCodecService.
+// Other formats (JPEG, WebP, GIF, ...) still go through the browser's decoder; their pixels are only
+// ever read once, as a cover, so they are never written back through a canvas.
+export const loadImage = async (file: File): Promise<RawImage> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (isPng(bytes)) return decodePng(bytes);
+
+  const { canvas, ctx } = await loadImageToCanvas(file);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return { width: canvas.width, height: canvas.height, data: imageData.data };
+};
+
+export const rawImageToPngDataUrl = async (image: RawImage): Promise<string> => {
+  const png = await encodePng(image);
+  return `data:image/png;base64,${arrayBufferToBase64(png.buffer as ArrayBuffer)}`;
+};
+
+// --- Headless I/O (no DOM), for Node scripts, workers and the stego core ---
+
+export const decodeImageBytes = async (bytes: Uint8Array): Promise<RawImage> => {
+  if (!isPng(bytes)) throw new Error('Image: Only PNG images can be decoded without a browser.');
+  return decodePng(bytes);
+};
+
+export const encodeImagePng = (image: RawImage): Promise<Uint8Array> => encodePng(image);
+
+// Core functions never modify the caller's pixels; they embed into a copy.
+export const cloneRawImage = (image: RawImage): RawImage => ({
+  width: image.width,
+  height: image.height,
+  data: new Uint8ClampedArray(image.data),
+});
+
+// --- Drawing helpers for the methods that generate their own images ---
+
+export const createRawImage = (width: number, height: number, color: { r: number; g: number; b: number }): RawImage => {
+  const image: RawImage = { width, height, data: new Uint8ClampedArray(width * height * 4) };
+  fillRect(image, 0, 0, width, height, color);
+  return image;
+};
+
+export const fillRect = (image: RawImage, x: number, y: number, width: number, height: number, color: { r: number; g: number; b: number }): void => {
+  const x1 = Math.min(image.width, x + width);
+  const y1 = Math.min(image.height, y + height);
+  for (let py = Math.max(0, y); py < y1; py++) {
+    for (let px = Math.max(0, x); px < x1; px++) {
+      const i = (py * image.width + px) * 4;
+      image.data[i] = color.r;
+      image.data[i + 1] = color.g;
+      image.data[i + 2] = color.b;
+      image.data[i + 3] = 255;
+    }
+  }
+};
@@ -0,0 +1,689 @@
+import type { JpegComponent, JpegImage } from '../types.ts';
+
+// Minimal baseline JPEG codec working on quantised DCT coefficients.
+//
+// Decoding stops after entropy decoding: no dequantisation, IDCT or colour conversion, so hidden
+// coefficient bits survive exactly. Encoding writes the coefficients back with the standard Huffman
+// tables (ITU T.81 Annex K). Pixels are only ever converted in one direction, when a non-JPEG cover
+// has to be turned into coefficients in the first place.
+
+// Zigzag position -> natural (row-major) index within an 8x8 block.
+const ZIGZAG_TO_NATURAL = new Uint8Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+]);
+
+// Annex K.1 quantisation tables for quality 50, natural order.
+const STANDARD_LUMINANCE_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+const STANDARD_CHROMINANCE_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+];
+
+// Annex K.3 Huffman tables: code counts per length (1-16) and symbols.
+interface HuffmanSpec { counts: number[]; symbols: number[] }
+const STANDARD_DC_LUMINANCE: HuffmanSpec = {
+  counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+  symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+const STANDARD_DC_CHROMINANCE: HuffmanSpec = {
+  counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+  symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+const STANDARD_AC_LUMINANCE: HuffmanSpec = {
+  counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+  symbols: [
+    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+    0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+    0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+    0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+    0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+    0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+    0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+    0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+    0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+    0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+    0xf9, 0xfa,
+  ],
+};
+const STANDARD_AC_CHROMINANCE: HuffmanSpec = {
+  counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+  symbols: [
+    0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+    0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0,
+    0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+    0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48,
+    0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+    0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+    0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5,
+    0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3,
+    0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+    0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+    0xf9, 0xfa,
+  ],
+};
+
+// Coefficient limits for 8-bit baseline JPEG: magnitude categories up to 11 (DC) and 10 (AC).
+const MAX_DC_COEFFICIENT = 2047;
+const MAX_AC_COEFFICIENT = 1023;
+// Interleaved scans may hold at most 10 blocks per MCU (T.81 B.2.3).
+const MAX_BLOCKS_PER_MCU = 10;
+
+const MARKER_SOI = 0xffd8;
+const MARKER_EOI = 0xffd9;
+
+export const isJpeg = (bytes: Uint8Array): boolean => bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+
+// --- Layout helpers ---
+
+const buildLayout = (width: number, height: number, specs: { id: number; h: number; v: number; quantTableIndex: number }[]) => {
+  const hMax = Math.max(...specs.map(c => c.h));
+  const vMax = Math.max(...specs.map(c => c.v));
+  const mcusPerLine = Math.ceil(width / (8 * hMax));
+  const mcusPerColumn = Math.ceil(height / (8 * vMax));
+  let blockOffset = 0;
+  const components: JpegComponent[] = specs.map(spec => {
+    const component: JpegComponent = {
+      ...spec,
+      blocksPerLine: Math.ceil(Math.ceil((width * spec.h) / hMax) / 8),
+      blocksPerColumn: Math.ceil(Math.ceil((height * spec.v) / vMax) / 8),
+      blocksPerLineForMcu: mcusPerLine * spec.h,
+      blocksPerColumnForMcu: mcusPerColumn * spec.v,
+      blockOffset,
+    };
+    blockOffset += component.blocksPerLineForMcu * component.blocksPerColumnForMcu;
+    return component;
+  });
+  return { components, mcusPerLine, mcusPerColumn, totalBlocks: blockOffset };
+};
+
+// Single-component images and oversized MCUs are written one scan per component, which only codes
+// the blocks covering the image; everything else goes into one interleaved scan.
+const usesInterleavedScan = (jpeg: JpegImage): boolean => {
+  return jpeg.components.length > 1 && jpeg.components.reduce((sum, c) => sum + c.h * c.v, 0) <= MAX_BLOCKS_PER_MCU;
+};
+
+// Calls `fn` with the coefficient offset of every block the encoder writes, in a fixed order.
+// Blocks that exist only as MCU padding in non-interleaved output are skipped.
+export const forEachCodedBlock = (jpeg: JpegImage, fn: (blockStart: number, component: JpegComponent) => void): void => {
+  const interleaved = usesInterleavedScan(jpeg);
+  for (const component of jpeg.components) {
+    const rows = interleaved ? component.blocksPerColumnForMcu : component.blocksPerColumn;
+    const cols = interleaved ? component.blocksPerLineForMcu : component.blocksPerLine;
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        fn((component.blockOffset + row * component.blocksPerLineForMcu + col) * 64, component);
+      }
+    }
+  }
+};
+
+// --- Decoding ---
+
+interface HuffmanDecodeTable { maxCode: Int32Array; valPtr: Int32Array; minCode: Int32Array; symbols: Uint8Array }
+
+const buildDecodeTable = (counts: Uint8Array, symbols: Uint8Array): HuffmanDecodeTable => {
+  const maxCode = new Int32Array(17).fill(-1);
+  const valPtr = new Int32Array(17);
+  const minCode = new Int32Array(17);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1];
+    if (count > 0) {
+      valPtr[length] = k;
+      minCode[length] = code;
+      code += count;
+      k += count;
+      maxCode[length] = code - 1;
+    }
+    code <<= 1;
+  }
+  return { maxCode, valPtr, minCode, symbols };
+};
+
+class ScanReader {
+  private bitBuffer = 0;
+  private bitsLeft = 0;
+  constructor(private readonly data: Uint8Array, public position: number) {}
+
+  readBit(): number {
+    if (this.bitsLeft === 0) {
+      if (this.position >= this.data.length) throw new Error('JPEG: Unexpected end of data inside a scan.');
+      let byte = this.data[this.position];
+      if (byte === 0xff) {
+        const next = this.data[this.position + 1];
+        if (next === 0x00) {
+          this.position += 2;
+        } else {
+          // A marker ends the entropy-coded data. Feed zeros without consuming it.
+          byte = 0;
+        }
+      } else {
+        this.position++;
+      }
+      this.bitBuffer = byte;
+      this.bitsLeft = 8;
+    }
+    this.bitsLeft--;
+    return (this.bitBuffer >> this.bitsLeft) & 1;
+  }
+
+  receive(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) value = (value << 1) | this.readBit();
+    return value;
+  }
+
+  receiveExtend(length: number): number {
+    if (length === 0) return 0;
+    const value = this.receive(length);
+    return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+  }
+
+  decodeHuffman(table: HuffmanDecodeTable): number {
+    let code = this.readBit();
+    for (let length = 1; length <= 16; length++) {
+      if (table.maxCode[length] >= code && table.maxCode[length] !== -1) {
+        return table.symbols[table.valPtr[length] + code - table.minCode[length]];
+      }
+      code = (code << 1) | this.readBit();
+    }
+    throw new Error('JPEG: Invalid Huffman code. The file is corrupted.');
+  }
+
+  // Skips to the next RSTn marker and resets the bit buffer.
+  restart(): void {
+    this.bitsLeft = 0;
+    while (this.position + 1 < this.data.length && !(this.data[this.position] === 0xff && this.data[this.position + 1] >= 0xd0 && this.data[this.position + 1] <= 0xd7)) {
+      this.position++;
+    }
+    this.position += 2;
+  }
+}
+
+// Finds the first marker at or after `position` that ends a scan (anything but stuffing or RSTn).
+const findScanEnd = (data: Uint8Array, position: number): number => {
+  while (position + 1 < data.length) {
+    if (data[position] === 0xff) {
+      const next = data[position + 1];
+      if (next !== 0x00 && next !== 0xff && !(next >= 0xd0 && next <= 0xd7)) return position;
+    }
+    position++;
+  }
+  return data.length;
+};
+
+// Parses a baseline (or extended sequential, Huffman coded) JPEG down to its quantised coefficients.
+export const decodeJpegCoefficients = (bytes: Uint8Array): JpegImage => {
+  if (!isJpeg(bytes)) throw new Error('JPEG: Not a JPEG file.');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const quantTables: Uint16Array[] = [];
+  const dcTables: HuffmanDecodeTable[] = [];
+  const acTables: HuffmanDecodeTable[] = [];
+  let restartInterval = 0;
+  let adobeSegment: Uint8Array | null = null;
+  let frame: (JpegImage & { totalBlocks: number }) | null = null;
+
+  let position = 2;
+  while (position < bytes.length) {
+    if (bytes[position] !== 0xff) throw new Error('JPEG: Invalid marker structure. The file is corrupted.');
+    const marker = view.getUint16(position);
+    position += 2;
+    if (marker === 0xffff) { position--; continue; } // fill byte
+    if (marker === MARKER_EOI) break;
+    if (marker >= 0xffd0 && marker <= 0xffd7) continue;
+    if (position + 2 > bytes.length) throw new Error('JPEG: Unexpected end of file.');
+    const length = view.getUint16(position);
+    const segmentEnd = position + length;
+    if (segmentEnd > bytes.length) throw new Error('JPEG: Unexpected end of file.');
+    let p = position + 2;
+
+    switch (marker) {
+      case 0xffdb: // DQT
+        while (p < segmentEnd) {
+          const precision = bytes[p] >> 4;
+          const index = bytes[p] & 15;
+          p++;
+          const table = new Uint16Array(64);
+          for (let i = 0; i < 64; i++) {
+            table[i] = precision ? view.getUint16(p + i * 2) : bytes[p + i];
+          }
+          p += precision ? 128 : 64;
+          quantTables[index] = table;
+        }
+        break;
+      case 0xffc4: // DHT
+        while (p < segmentEnd) {
+          const tableClass = bytes[p] >> 4;
+          const index = bytes[p] & 15;
+          const counts = bytes.subarray(p + 1, p + 17);
+          const total = counts.reduce((sum, c) => sum + c, 0);
+          const table = buildDecodeTable(counts, bytes.slice(p + 17, p + 17 + total));
+          (tableClass === 0 ? dcTables : acTables)[index] = table;
+          p += 17 + total;
+        }
+        break;
+      case 0xffdd: // DRI
+        restartInterval = view.getUint16(p);
+        break;
+      case 0xffee: // APP14 (Adobe)
+        adobeSegment = bytes.slice(position - 2, segmentEnd);
+        break;
+      case 0xffc0: // SOF0 baseline
+      case 0xffc1: { // SOF1 extended sequential, Huffman
+        if (bytes[p] !== 8) throw new Error(`JPEG: ${bytes[p]}-bit samples are not supported.`);
+        const height = view.getUint16(p + 1);
+        const width = view.getUint16(p + 3);
+        const count = bytes[p + 5];
+        if (width === 0 || height === 0) throw new Error('JPEG: Images with a deferred height (DNL) are not supported.');
+        const specs = [];
+        for (let i = 0; i < count; i++) {
+          const q = p + 6 + i * 3;
+          specs.push({ id: bytes[q], h: bytes[q + 1] >> 4, v: bytes[q + 1] & 15, quantTableIndex: bytes[q + 2] });
+        }
+        const layout = buildLayout(width, height, specs);
+        frame = { width, height, quantTables, adobeSegment: null, coefficients: new Int16Array(layout.totalBlocks * 64), ...layout };
+        break;
+      }
+      case 0xffc2: case 0xffc6: case 0xffca: case 0xffce:
+        throw new Error('JPEG: Progressive JPEGs are not supported.');
+      case 0xffc3: case 0xffc5: case 0xffc7: case 0xffc9: case 0xffcb: case 0xffcd: case 0xffcf:
+        throw new Error('JPEG: This JPEG uses an unsupported coding process (lossless, hierarchical or arithmetic).');
+      case 0xffda: { // SOS
+        if (!frame) throw new Error('JPEG: Scan found before the frame header.');
+        const count = bytes[p];
+        const scanComponents: { component: JpegComponent; dc: HuffmanDecodeTable; ac: HuffmanDecodeTable }[] = [];
+        for (let i = 0; i < count; i++) {
+          const id = bytes[p + 1 + i * 2];
+          const tables = bytes[p + 2 + i * 2];
+          const component = frame.components.find(c => c.id === id);
+          const dc = dcTables[tables >> 4];
+          const ac = acTables[tables & 15];
+          if (!component || !dc || !ac) throw new Error('JPEG: Scan refers to a missing component or Huffman table.');
+          scanComponents.push({ component, dc, ac });
+        }
+        decodeScan(bytes, segmentEnd, frame, scanComponents, restartInterval);
+        position = findScanEnd(bytes, segmentEnd);
+        continue;
+      }
+    }
+    position = segmentEnd;
+  }
+
+  if (!frame) throw new Error('JPEG: No frame header found.');
+  for (const component of frame.components) {
+    if (!quantTables[component.quantTableIndex]) throw new Error('JPEG: Missing quantisation table.');
+  }
+  const { totalBlocks: _, ...jpeg } = frame;
+  return { ...jpeg, adobeSegment };
+};
+
+const decodeScan = (
+  bytes: Uint8Array,
+  start: number,
+  frame: JpegImage,
+  scanComponents: { component: JpegComponent; dc: HuffmanDecodeTable; ac: HuffmanDecodeTable }[],
+  restartInterval: number,
+): void => {
+  const reader = new ScanReader(bytes, start);
+  const coefficients = frame.coefficients;
+  const predictors = new Int32Array(scanComponents.length);
+
+  const decodeBlock = (index: number, blockStart: number): void => {
+    const { dc, ac } = scanComponents[index];
+    predictors[index] += reader.receiveExtend(reader.decodeHuffman(dc));
+    coefficients[blockStart] = predictors[index];
+    for (let k = 1; k < 64;) {
+      const rs = reader.decodeHuffman(ac);
+      const run = rs >> 4;
+      const size = rs & 15;
+      if (size === 0) {
+        if (run !== 15) break; // EOB
+        k += 16;
+        continue;
+      }
+      k += run;
+      if (k > 63) throw new Error('JPEG: Coefficient index out of range. The file is corrupted.');
+      coefficients[blockStart + k] = reader.receiveExtend(size);
+      k++;
+    }
+  };
+
+  const blockStartOf = (component: JpegComponent, row: number, col: number) => (component.blockOffset + row * component.blocksPerLineForMcu + col) * 64;
+
+  let mcu = 0;
+  const beforeUnit = (): void => {
+    if (restartInterval > 0 && mcu > 0 && mcu % restartInterval === 0) {
+      reader.restart();
+      predictors.fill(0);
+    }
+    mcu++;
+  };
+
+  if (scanComponents.length === 1) {
+    const component = scanComponents[0].component;
+    for (let row = 0; row < component.blocksPerColumn; row++) {
+      for (let col = 0; col < component.blocksPerLine; col++) {
+        beforeUnit();
+        decodeBlock(0, blockStartOf(component, row, col));
+      }
+    }
+    return;
+  }
+
+  for (let mcuRow = 0; mcuRow < frame.mcusPerColumn; mcuRow++) {
+    for (let mcuCol = 0; mcuCol < frame.mcusPerLine; mcuCol++) {
+      beforeUnit();
+      scanComponents.forEach(({ component }, index) => {
+        for (let y = 0; y < component.v; y++) {
+          for (let x = 0; x < component.h; x++) {
+            decodeBlock(index, blockStartOf(component, mcuRow * component.v + y, mcuCol * component.h + x));
+          }
+        }
+      });
+    }
+  }
+};
+
+// --- Encoding ---
+
+interface HuffmanEncodeTable { codes: Uint16Array; lengths: Uint8Array }
+
+const buildEncodeTable = (spec: HuffmanSpec): HuffmanEncodeTable => {
+  const codes = new Uint16Array(256);
+  const lengths = new Uint8Array(256);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < spec.counts[length - 1]; i++) {
+      codes[spec.symbols[k]] = code;
+      lengths[spec.symbols[k]] = length;
+      code++;
+      k++;
+    }
+    code <<= 1;
+  }
+  return { codes, lengths };
+};
+
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  length = 0;
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.buffer.subarray(0, this.length));
+    this.buffer = grown;
+  }
+
+  byte(value: number): void { this.ensure(1); this.buffer[this.length++] = value; }
+  u16(value: number): void { this.byte(value >> 8); this.byte(value & 0xff); }
+  bytes(values: ArrayLike<number>): void { this.ensure(values.length); this.buffer.set(values, this.length); this.length += values.length; }
+  result(): Uint8Array { return this.buffer.slice(0, this.length); }
+}
+
+class BitWriter {
+  private accumulator = 0;
+  private count = 0;
+  constructor(private readonly out: ByteWriter) {}
+
+  write(value: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.accumulator = (this.accumulator << 1) | ((value >> i) & 1);
+      if (++this.count === 8) {
+        this.out.byte(this.accumulator);
+        if (this.accumulator === 0xff) this.out.byte(0x00); // byte stuffing
+        this.accumulator = 0;
+        this.count = 0;
+      }
+    }
+  }
+
+  // Pads the final byte with 1-bits, as T.81 requires.
+  flush(): void {
+    if (this.count > 0) this.write((1 << (8 - this.count)) - 1, 8 - this.count);
+  }
+}
+
+const magnitudeCategory = (value: number): number => {
+  let magnitude = Math.abs(value);
+  let category = 0;
+  while (magnitude > 0) { category++; magnitude >>= 1; }
+  return category;
+};
+
+const writeHuffmanSegment = (out: ByteWriter, tableClass: number, index: number, spec: HuffmanSpec): void => {
+  out.u16(0xffc4);
+  out.u16(2 + 17 + spec.symbols.length);
+  out.byte((tableClass << 4) | index);
+  out.bytes(spec.counts);
+  out.bytes(spec.symbols);
+};
+
+// Writes coefficients back out as a sequential JPEG using the standard Huffman tables.
+export const encodeJpegCoefficients = (jpeg: JpegImage): Uint8Array => {
+  const out = new ByteWriter();
+  out.u16(MARKER_SOI);
+  if (jpeg.adobeSegment) {
+    out.bytes(jpeg.adobeSegment);
+  } else {
+    // JFIF APP0: version 1.01, no density units, 1:1 aspect, no thumbnail.
+    out.bytes([0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00]);
+  }
+
+  const usedTables = [...new Set(jpeg.components.map(c => c.quantTableIndex))];
+  let extended = false;
+  for (const index of usedTables) {
+    const table = jpeg.quantTables[index];
+    const precision = table.some(q => q > 255) ? 1 : 0;
+    extended ||= precision === 1;
+    out.u16(0xffdb);
+    out.u16(2 + 1 + 64 * (precision + 1));
+    out.byte((precision << 4) | index);
+    for (let i = 0; i < 64; i++) {
+      if (precision) out.u16(table[i]); else out.byte(table[i]);
+    }
+  }
+
+  // 16-bit quantisation tables are only allowed in extended sequential frames.
+  out.u16(extended ? 0xffc1 : 0xffc0);
+  out.u16(8 + jpeg.components.length * 3);
+  out.byte(8);
+  out.u16(jpeg.height);
+  out.u16(jpeg.width);
+  out.byte(jpeg.components.length);
+  for (const component of jpeg.components) {
+    out.byte(component.id);
+    out.byte((component.h << 4) | component.v);
+    out.byte(component.quantTableIndex);
+  }
+
+  writeHuffmanSegment(out, 0, 0, STANDARD_DC_LUMINANCE);
+  writeHuffmanSegment(out, 1, 0, STANDARD_AC_LUMINANCE);
+  const hasChroma = jpeg.components.length > 1;
+  if (hasChroma) {
+    writeHuffmanSegment(out, 0, 1, STANDARD_DC_CHROMINANCE);
+    writeHuffmanSegment(out, 1, 1, STANDARD_AC_CHROMINANCE);
+  }
+  const luminance = { dc: buildEncodeTable(STANDARD_DC_LUMINANCE), ac: buildEncodeTable(STANDARD_AC_LUMINANCE) };
+  const chrominance = hasChroma ? { dc: buildEncodeTable(STANDARD_DC_CHROMINANCE), ac: buildEncodeTable(STANDARD_AC_CHROMINANCE) } : luminance;
+  const tablesFor = (componentIndex: number) => componentIndex === 0 ? luminance : chrominance;
+
+  const writeScanHeader = (componentIndices: number[]): void => {
+    out.u16(0xffda);
+    out.u16(6 + componentIndices.length * 2);
+    out.byte(componentIndices.length);
+    for (const index of componentIndices) {
+      out.byte(jpeg.components[index].id);
+      out.byte(index === 0 ? 0x00 : 0x11);
+    }
+    out.bytes([0, 63, 0]); // Ss, Se, Ah/Al
+  };
+
+  const coefficients = jpeg.coefficients;
+  const writeBlock = (bits: BitWriter, blockStart: number, componentIndex: number, predictors: Int32Array): void => {
+    const { dc, ac } = tablesFor(componentIndex);
+    const dcValue = Math.max(-MAX_DC_COEFFICIENT, Math.min(MAX_DC_COEFFICIENT, coefficients[blockStart]));
+    const diff = dcValue - predictors[componentIndex];
+    predictors[componentIndex] = dcValue;
+    const dcCategory = magnitudeCategory(diff);
+    bits.write(dc.codes[dcCategory], dc.lengths[dcCategory]);
+    if (dcCategory) bits.write(diff < 0 ? diff + (1 << dcCategory) - 1 : diff, dcCategory);
+
+    let run = 0;
+    for (let k = 1; k < 64; k++) {
+      const value = Math.max(-MAX_AC_COEFFICIENT, Math.min(MAX_AC_COEFFICIENT, coefficients[blockStart + k]));
+      if (value === 0) { run++; continue; }
+      while (run > 15) {
+        bits.write(ac.codes[0xf0], ac.lengths[0xf0]); // ZRL
+        run -= 16;
+      }
+      const category = magnitudeCategory(value);
+      const symbol = (run << 4) | category;
+      bits.write(ac.codes[symbol], ac.lengths[symbol]);
+      bits.write(value < 0 ? value + (1 << category) - 1 : value, category);
+      run = 0;
+    }
+    if (run > 0) bits.write(ac.codes[0x00], ac.lengths[0x00]); // EOB
+  };
+
+  if (usesInterleavedScan(jpeg)) {
+    writeScanHeader(jpeg.components.map((_, i) => i));
+    const bits = new BitWriter(out);
+    const predictors = new Int32Array(jpeg.components.length);
+    for (let mcuRow = 0; mcuRow < jpeg.mcusPerColumn; mcuRow++) {
+      for (let mcuCol = 0; mcuCol < jpeg.mcusPerLine; mcuCol++) {
+        jpeg.components.forEach((component, index) => {
+          for (let y = 0; y < component.v; y++) {
+            for (let x = 0; x < component.h; x++) {
+              const row = mcuRow * component.v + y;
+              const col = mcuCol * component.h + x;
+              writeBlock(bits, (component.blockOffset + row * component.blocksPerLineForMcu + col) * 64, index, predictors);
+            }
+          }
+        });
+      }
+    }
+    bits.flush();
+  } else {
+    jpeg.components.forEach((component, index) => {
+      writeScanHeader([index]);
+      const bits = new BitWriter(out);
+      const predictors = new Int32Array(jpeg.components.length);
+      for (let row = 0; row < component.blocksPerColumn; row++) {
+        for (let col = 0; col < component.blocksPerLine; col++) {
+          writeBlock(bits, (component.blockOffset + row * component.blocksPerLineForMcu + col) * 64, index, predictors);
+        }
+      }
+      bits.flush();
+    });
+  }
+
+  out.u16(MARKER_EOI);
+  return out.result();
+};
+
+// --- Pixels to coefficients ---
+
+// IJG quality scaling of a standard table, returned in zigzag order.
+const scaleQuantTable = (table: number[], quality: number): Uint16Array => {
+  const q = Math.max(1, Math.min(100, Math.round(quality)));
+  const scale = q < 50 ? 5000 / q : 200 - q * 2;
+  const scaled = new Uint16Array(64);
+  for (let i = 0; i < 64; i++) {
+    scaled[i] = Math.max(1, Math.min(255, Math.floor((table[ZIGZAG_TO_NATURAL[i]] * scale + 50) / 100)));
+  }
+  return scaled;
+};
+
+// cos((2x + 1) u pi / 16) scaled by C(u) / 2, so a 2-D forward DCT is two passes of 8x8 products.
+const DCT_MATRIX = (() => {
+  const m = new Float64Array(64);
+  for (let u = 0; u < 8; u++) {
+    const c = u === 0 ? Math.SQRT1_2 : 1;
+    for (let x = 0; x < 8; x++) m[u * 8 + x] = (c / 2) * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+  }
+  return m;
+})();
+
+const forwardDct = (input: Float64Array, output: Float64Array, temp: Float64Array): void => {
+  for (let y = 0; y < 8; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let x = 0; x < 8; x++) sum += DCT_MATRIX[u * 8 + x] * input[y * 8 + x];
+      temp[y * 8 + u] = sum;
+    }
+  }
+  for (let u = 0; u < 8; u++) {
+    for (let v = 0; v < 8; v++) {
+      let sum = 0;
+      for (let y = 0; y < 8; y++) sum += DCT_MATRIX[v * 8 + y] * temp[y * 8 + u];
+      output[v * 8 + u] = sum;
+    }
+  }
+};
+
+// Compresses RGBA pixels into YCbCr 4:4:4 coefficients at the given quality (1-100).
+export const pixelsToJpegCoefficients = (rgba: Uint8ClampedArray | Uint8Array, width: number, height: number, quality: number): JpegImage => {
+  const specs = [
+    { id: 1, h: 1, v: 1, quantTableIndex: 0 },
+    { id: 2, h: 1, v: 1, quantTableIndex: 1 },
+    { id: 3, h: 1, v: 1, quantTableIndex: 1 },
+  ];
+  const layout = buildLayout(width, height, specs);
+  const quantTables = [scaleQuantTable(STANDARD_LUMINANCE_QUANT, quality), scaleQuantTable(STANDARD_CHROMINANCE_QUANT, quality)];
+  const coefficients = new Int16Array(layout.totalBlocks * 64);
+  const blocks = [new Float64Array(64), new Float64Array(64), new Float64Array(64)];
+  const transformed = new Float64Array(64);
+  const temp = new Float64Array(64);
+
+  for (let blockRow = 0; blockRow < layout.mcusPerColumn; blockRow++) {
+    for (let blockCol = 0; blockCol < layout.mcusPerLine; blockCol++) {
+      for (let y = 0; y < 8; y++) {
+        // Edge blocks repeat the last row/column of pixels.
+        const py = Math.min(height - 1, blockRow * 8 + y);
+        for (let x = 0; x < 8; x++) {
+          const px = Math.min(width - 1, blockCol * 8 + x);
+          const i = (py * width + px) * 4;
+          const r = rgba[i], g = rgba[i + 1], b = rgba[i + 2];
+          blocks[0][y * 8 + x] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+          blocks[1][y * 8 + x] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+          blocks[2][y * 8 + x] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+        }
+      }
+      layout.components.forEach((component, c) => {
+        forwardDct(blocks[c], transformed, temp);
+        const table = quantTables[component.quantTableIndex];
+        const blockStart = (component.blockOffset + blockRow * component.blocksPerLineForMcu + blockCol) * 64;
+        for (let k = 0; k < 64; k++) {
+          const limit = k === 0 ? MAX_DC_COEFFICIENT : MAX_AC_COEFFICIENT;
+          coefficients[blockStart + k] = Math.max(-limit, Math.min(limit, Math.round(transformed[ZIGZAG_TO_NATURAL[k]] / table[k])));
+        }
+      });
+    }
+  }
+
+  return {
+    width,
+    height,
+    components: layout.components,
+    quantTables,
+    coefficients,
+    mcusPerLine: layout.mcusPerLine,
+    mcusPerColumn: layout.mcusPerColumn,
+    adobeSegment: null,
+  };
+};
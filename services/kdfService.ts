@@ -0,0 +1,539 @@
+import {
+  CRYPTO_PBKDF2_ITERATIONS,
+  CRYPTO_HASH_ALGORITHM,
+  KDF_SPEC_SEPARATOR,
+  KDF_PARAM_SEPARATOR,
+  DEFAULT_ARGON2ID_PARAMS,
+  DEFAULT_SCRYPT_PARAMS,
+  DEFAULT_PBKDF2_ITERATIONS,
+  MAX_KDF_MEMORY_KIB,
+  MAX_KDF_ITERATIONS,
+  MAX_PBKDF2_ITERATIONS
+} from '../constants.ts';
+import { KdfAlgorithm, type KdfParams } from '../types.ts';
+
+// Password-based key derivation: PBKDF2 (Web Crypto), scrypt (RFC 7914) and Argon2id (RFC 9106).
+// scrypt and Argon2id are implemented here in plain TypeScript, so they run in browsers, workers and
+// Node without WASM or native modules. 64-bit words are handled as pairs of 32-bit halves
+// (low word first), the same layout the algorithms use on the wire.
+
+// --- BLAKE2b (RFC 7693), needed by Argon2 ---
+
+const BLAKE2B_IV = new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372, 0x5f1d36f1, 0xa54ff53a,
+  0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c, 0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19,
+]);
+
+const BLAKE2B_SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+];
+
+// v[a] += v[b] + (m[x] if given); 64-bit words at even indices of Uint32Arrays.
+const add64 = (v: Uint32Array, a: number, b: number): void => {
+  const lo = v[a] + v[b];
+  v[a + 1] = v[a + 1] + v[b + 1] + (lo > 0xffffffff ? 1 : 0);
+  v[a] = lo;
+};
+
+const add64m = (v: Uint32Array, a: number, m: Uint32Array, x: number): void => {
+  const lo = v[a] + m[x];
+  v[a + 1] = v[a + 1] + m[x + 1] + (lo > 0xffffffff ? 1 : 0);
+  v[a] = lo;
+};
+
+// v[d] = rotr64(v[d] ^ v[a], n) for n in {16, 24, 32, 63}
+const xorRotr64 = (v: Uint32Array, d: number, a: number, n: number): void => {
+  const lo = v[d] ^ v[a];
+  const hi = v[d + 1] ^ v[a + 1];
+  if (n === 32) {
+    v[d] = hi;
+    v[d + 1] = lo;
+  } else if (n < 32) {
+    v[d] = (lo >>> n) | (hi << (32 - n));
+    v[d + 1] = (hi >>> n) | (lo << (32 - n));
+  } else { // 63 == rotl 1
+    v[d] = (lo << 1) | (hi >>> 31);
+    v[d + 1] = (hi << 1) | (lo >>> 31);
+  }
+};
+
+const blake2bCompress = (h: Uint32Array, block: Uint8Array, counter: number, last: boolean): void => {
+  const m = new Uint32Array(32);
+  for (let i = 0; i < 32; i++) {
+    m[i] = block[i * 4] | (block[i * 4 + 1] << 8) | (block[i * 4 + 2] << 16) | (block[i * 4 + 3] << 24);
+  }
+  const v = new Uint32Array(32);
+  v.set(h, 0);
+  v.set(BLAKE2B_IV, 16);
+  v[24] ^= counter >>> 0;
+  v[25] ^= Math.floor(counter / 0x100000000);
+  if (last) {
+    v[28] = ~v[28];
+    v[29] = ~v[29];
+  }
+  const mix = (a: number, b: number, c: number, d: number, x: number, y: number) => {
+    add64(v, a, b); add64m(v, a, m, x); xorRotr64(v, d, a, 32);
+    add64(v, c, d); xorRotr64(v, b, c, 24);
+    add64(v, a, b); add64m(v, a, m, y); xorRotr64(v, d, a, 16);
+    add64(v, c, d); xorRotr64(v, b, c, 63);
+  };
+  for (const s of BLAKE2B_SIGMA) {
+    mix(0, 8, 16, 24, s[0] * 2, s[1] * 2);
+    mix(2, 10, 18, 26, s[2] * 2, s[3] * 2);
+    mix(4, 12, 20, 28, s[4] * 2, s[5] * 2);
+    mix(6, 14, 22, 30, s[6] * 2, s[7] * 2);
+    mix(0, 10, 20, 30, s[8] * 2, s[9] * 2);
+    mix(2, 12, 22, 24, s[10] * 2, s[11] * 2);
+    mix(4, 14, 16, 26, s[12] * 2, s[13] * 2);
+    mix(6, 8, 18, 28, s[14] * 2, s[15] * 2);
+  }
+  for (let i = 0; i < 16; i++) h[i] ^= v[i] ^ v[i + 16];
+};
+
+// Unkeyed BLAKE2b with a 1-64 byte digest.
+export const blake2b = (input: Uint8Array, outLength: number): Uint8Array => {
+  const h = new Uint32Array(BLAKE2B_IV);
+  h[0] ^= 0x01010000 ^ outLength;
+  const block = new Uint8Array(128);
+  let offset = 0;
+  while (input.length - offset > 128) {
+    blake2bCompress(h, input.subarray(offset, offset + 128), offset + 128, false);
+    offset += 128;
+  }
+  block.set(input.subarray(offset));
+  blake2bCompress(h, block, input.length, true);
+  const out = new Uint8Array(64);
+  for (let i = 0; i < 16; i++) {
+    out[i * 4] = h[i];
+    out[i * 4 + 1] = h[i] >>> 8;
+    out[i * 4 + 2] = h[i] >>> 16;
+    out[i * 4 + 3] = h[i] >>> 24;
+  }
+  return out.slice(0, outLength);
+};
+
+// --- Argon2id (RFC 9106, version 0x13) ---
+
+const ARGON2_VERSION = 0x13;
+const ARGON2_TYPE_ID = 2;
+const ARGON2_SYNC_POINTS = 4;
+const ARGON2_BLOCK_WORDS = 256; // 1024-byte blocks as 32-bit words
+const ARGON2_ADDRESSES_IN_BLOCK = 128;
+
+const le32 = (value: number): Uint8Array => new Uint8Array([value, value >>> 8, value >>> 16, value >>> 24]);
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+// H' variable-length hash built from BLAKE2b.
+const argon2Hash = (input: Uint8Array, outLength: number): Uint8Array => {
+  const prefixed = concatBytes(le32(outLength), input);
+  if (outLength <= 64) return blake2b(prefixed, outLength);
+  const out = new Uint8Array(outLength);
+  let v = blake2b(prefixed, 64);
+  out.set(v.subarray(0, 32), 0);
+  let offset = 32;
+  while (outLength - offset > 64) {
+    v = blake2b(v, 64);
+    out.set(v.subarray(0, 32), offset);
+    offset += 32;
+  }
+  out.set(blake2b(v, outLength - offset), offset);
+  return out;
+};
+
+// High 32 bits of the 64-bit product of two uint32 values.
+const mulHi32 = (a: number, b: number): number => {
+  const a0 = a & 0xffff, a1 = a >>> 16, b0 = b & 0xffff, b1 = b >>> 16;
+  const t = a1 * b0 + ((a0 * b0) >>> 16);
+  const u = a0 * b1 + (t & 0xffff);
+  return (a1 * b1 + (t >>> 16) + (u >>> 16)) >>> 0;
+};
+
+// BlaMka: a = a + b + 2 * lo32(a) * lo32(b), on the 64-bit words at r[a], r[b].
+const blaMka = (r: Uint32Array, a: number, b: number): void => {
+  const al = r[a], bl = r[b];
+  const pl = Math.imul(al, bl) >>> 0;
+  const ph = mulHi32(al, bl);
+  const ml = (pl << 1) >>> 0;
+  const mh = ((ph << 1) | (pl >>> 31)) >>> 0;
+  let lo = al + bl;
+  let hi = r[a + 1] + r[b + 1] + (lo > 0xffffffff ? 1 : 0);
+  lo >>>= 0;
+  lo += ml;
+  hi += mh + (lo > 0xffffffff ? 1 : 0);
+  r[a] = lo;
+  r[a + 1] = hi;
+};
+
+const argon2Mix = (r: Uint32Array, a: number, b: number, c: number, d: number): void => {
+  blaMka(r, a, b); xorRotr64(r, d, a, 32);
+  blaMka(r, c, d); xorRotr64(r, b, c, 24);
+  blaMka(r, a, b); xorRotr64(r, d, a, 16);
+  blaMka(r, c, d); xorRotr64(r, b, c, 63);
+};
+
+// Permutation P over eight 16-byte registers; w lists their word offsets in r.
+const argon2Permute = (r: Uint32Array, w: number[]): void => {
+  argon2Mix(r, w[0], w[4], w[8], w[12]);
+  argon2Mix(r, w[1], w[5], w[9], w[13]);
+  argon2Mix(r, w[2], w[6], w[10], w[14]);
+  argon2Mix(r, w[3], w[7], w[11], w[15]);
+  argon2Mix(r, w[0], w[5], w[10], w[15]);
+  argon2Mix(r, w[1], w[6], w[11], w[12]);
+  argon2Mix(r, w[2], w[7], w[8], w[13]);
+  argon2Mix(r, w[3], w[4], w[9], w[14]);
+};
+
+// Word offsets of the 64-bit words P works on, for each row and each column of the 8x8 register matrix.
+const ARGON2_ROWS = Array.from({ length: 8 }, (_, i) => Array.from({ length: 16 }, (_, k) => (16 * i + k) * 2));
+const ARGON2_COLUMNS = Array.from({ length: 8 }, (_, i) => Array.from({ length: 16 }, (_, k) => (2 * i + (k & 1) + 16 * (k >> 1)) * 2));
+
+const argon2R = new Uint32Array(ARGON2_BLOCK_WORDS);
+const argon2Tmp = new Uint32Array(ARGON2_BLOCK_WORDS);
+
+// Compression G: out = P(x ^ y) ^ x ^ y (^ out when xorInto, for passes after the first).
+const argon2Compress = (
+  memory: Uint32Array, x: number, y: number, out: number, xorInto: boolean,
+): void => {
+  const r = argon2R, tmp = argon2Tmp;
+  for (let i = 0; i < ARGON2_BLOCK_WORDS; i++) r[i] = memory[x + i] ^ memory[y + i];
+  tmp.set(r);
+  if (xorInto) for (let i = 0; i < ARGON2_BLOCK_WORDS; i++) tmp[i] ^= memory[out + i];
+  for (const row of ARGON2_ROWS) argon2Permute(r, row);
+  for (const column of ARGON2_COLUMNS) argon2Permute(r, column);
+  for (let i = 0; i < ARGON2_BLOCK_WORDS; i++) memory[out + i] = tmp[i] ^ r[i];
+};
+
+// `secret` (K) and `associatedData` (X) are the optional RFC 9106 inputs; payloads use neither.
+export const argon2id = (
+  password: Uint8Array,
+  salt: Uint8Array,
+  params: { memoryKiB: number; iterations: number; parallelism: number },
+  outLength: number,
+  secret: Uint8Array = new Uint8Array(0),
+  associatedData: Uint8Array = new Uint8Array(0),
+): Uint8Array => {
+  const { iterations, parallelism: lanes } = params;
+  const memoryBlocks = Math.max(2 * ARGON2_SYNC_POINTS * lanes, params.memoryKiB);
+  const segmentLength = Math.floor(memoryBlocks / (ARGON2_SYNC_POINTS * lanes));
+  const laneLength = segmentLength * ARGON2_SYNC_POINTS;
+  const blockCount = laneLength * lanes;
+
+  const h0 = blake2b(concatBytes(
+    le32(lanes), le32(outLength), le32(params.memoryKiB), le32(iterations), le32(ARGON2_VERSION), le32(ARGON2_TYPE_ID),
+    le32(password.length), password, le32(salt.length), salt, le32(secret.length), secret, le32(associatedData.length), associatedData,
+  ), 64);
+
+  // Block memory plus, at the end, three scratch blocks for Argon2i address generation.
+  const memory = new Uint32Array((blockCount + 3) * ARGON2_BLOCK_WORDS);
+  const zeroBlock = blockCount * ARGON2_BLOCK_WORDS;
+  const inputBlock = zeroBlock + ARGON2_BLOCK_WORDS;
+  const addressBlock = inputBlock + ARGON2_BLOCK_WORDS;
+  const loadBlock = (bytes: Uint8Array, offset: number) => {
+    for (let i = 0; i < ARGON2_BLOCK_WORDS; i++) {
+      memory[offset + i] = bytes[i * 4] | (bytes[i * 4 + 1] << 8) | (bytes[i * 4 + 2] << 16) | (bytes[i * 4 + 3] << 24);
+    }
+  };
+  for (let lane = 0; lane < lanes; lane++) {
+    loadBlock(argon2Hash(concatBytes(h0, le32(0), le32(lane)), 1024), lane * laneLength * ARGON2_BLOCK_WORDS);
+    loadBlock(argon2Hash(concatBytes(h0, le32(1), le32(lane)), 1024), (lane * laneLength + 1) * ARGON2_BLOCK_WORDS);
+  }
+
+  for (let pass = 0; pass < iterations; pass++) {
+    for (let slice = 0; slice < ARGON2_SYNC_POINTS; slice++) {
+      for (let lane = 0; lane < lanes; lane++) {
+        const dataIndependent = pass === 0 && slice < ARGON2_SYNC_POINTS / 2;
+        if (dataIndependent) {
+          memory.fill(0, zeroBlock, addressBlock + ARGON2_BLOCK_WORDS);
+          memory[inputBlock] = pass;
+          memory[inputBlock + 2] = lane;
+          memory[inputBlock + 4] = slice;
+          memory[inputBlock + 6] = blockCount;
+          memory[inputBlock + 8] = iterations;
+          memory[inputBlock + 10] = ARGON2_TYPE_ID;
+        }
+        const nextAddresses = () => {
+          memory[inputBlock + 12]++;
+          argon2Compress(memory, zeroBlock, inputBlock, addressBlock, false);
+          argon2Compress(memory, zeroBlock, addressBlock, addressBlock, false);
+        };
+
+        let startIndex = 0;
+        if (pass === 0 && slice === 0) {
+          startIndex = 2;
+          if (dataIndependent) nextAddresses();
+        }
+        let current = lane * laneLength + slice * segmentLength + startIndex;
+        let previous = current % laneLength === 0 ? current + laneLength - 1 : current - 1;
+
+        for (let index = startIndex; index < segmentLength; index++, current++, previous++) {
+          if (current % laneLength === 1) previous = current - 1;
+          let j1: number, j2: number;
+          if (dataIndependent) {
+            if (index % ARGON2_ADDRESSES_IN_BLOCK === 0) nextAddresses();
+            const word = addressBlock + (index % ARGON2_ADDRESSES_IN_BLOCK) * 2;
+            j1 = memory[word];
+            j2 = memory[word + 1];
+          } else {
+            j1 = memory[previous * ARGON2_BLOCK_WORDS];
+            j2 = memory[previous * ARGON2_BLOCK_WORDS + 1];
+          }
+
+          const refLane = pass === 0 && slice === 0 ? lane : j2 % lanes;
+          const sameLane = refLane === lane;
+          let areaSize: number;
+          if (pass === 0) {
+            areaSize = slice === 0 ? index - 1
+              : sameLane ? slice * segmentLength + index - 1
+              : slice * segmentLength + (index === 0 ? -1 : 0);
+          } else {
+            areaSize = sameLane ? laneLength - segmentLength + index - 1
+              : laneLength - segmentLength + (index === 0 ? -1 : 0);
+          }
+          const relative = areaSize - 1 - mulHi32(areaSize, mulHi32(j1, j1));
+          const start = pass !== 0 && slice !== ARGON2_SYNC_POINTS - 1 ? (slice + 1) * segmentLength : 0;
+          const refIndex = (start + relative) % laneLength;
+
+          argon2Compress(
+            memory,
+            previous * ARGON2_BLOCK_WORDS,
+            (refLane * laneLength + refIndex) * ARGON2_BLOCK_WORDS,
+            current * ARGON2_BLOCK_WORDS,
+            pass !== 0,
+          );
+        }
+      }
+    }
+  }
+
+  const final = new Uint32Array(ARGON2_BLOCK_WORDS);
+  for (let lane = 0; lane < lanes; lane++) {
+    const last = (lane * laneLength + laneLength - 1) * ARGON2_BLOCK_WORDS;
+    for (let i = 0; i < ARGON2_BLOCK_WORDS; i++) final[i] ^= memory[last + i];
+  }
+  const finalBytes = new Uint8Array(1024);
+  for (let i = 0; i < ARGON2_BLOCK_WORDS; i++) {
+    finalBytes[i * 4] = final[i];
+    finalBytes[i * 4 + 1] = final[i] >>> 8;
+    finalBytes[i * 4 + 2] = final[i] >>> 16;
+    finalBytes[i * 4 + 3] = final[i] >>> 24;
+  }
+  return argon2Hash(finalBytes, outLength);
+};
+
+// --- scrypt (RFC 7914) ---
+
+const pbkdf2Sha256 = async (password: Uint8Array, salt: Uint8Array, iterations: number, outLength: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', password, { name: 'PBKDF2' }, false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: CRYPTO_HASH_ALGORITHM }, key, outLength * 8);
+  return new Uint8Array(bits);
+};
+
+const rotl32 = (x: number, n: number): number => (x << n) | (x >>> (32 - n));
+
+// Salsa20/8 core on the 16 words at b[offset], in place.
+const salsa20_8 = (b: Uint32Array, offset: number, x: Uint32Array): void => {
+  for (let i = 0; i < 16; i++) x[i] = b[offset + i];
+  for (let i = 0; i < 8; i += 2) {
+    x[4] ^= rotl32(x[0] + x[12], 7); x[8] ^= rotl32(x[4] + x[0], 9);
+    x[12] ^= rotl32(x[8] + x[4], 13); x[0] ^= rotl32(x[12] + x[8], 18);
+    x[9] ^= rotl32(x[5] + x[1], 7); x[13] ^= rotl32(x[9] + x[5], 9);
+    x[1] ^= rotl32(x[13] + x[9], 13); x[5] ^= rotl32(x[1] + x[13], 18);
+    x[14] ^= rotl32(x[10] + x[6], 7); x[2] ^= rotl32(x[14] + x[10], 9);
+    x[6] ^= rotl32(x[2] + x[14], 13); x[10] ^= rotl32(x[6] + x[2], 18);
+    x[3] ^= rotl32(x[15] + x[11], 7); x[7] ^= rotl32(x[3] + x[15], 9);
+    x[11] ^= rotl32(x[7] + x[3], 13); x[15] ^= rotl32(x[11] + x[7], 18);
+    x[1] ^= rotl32(x[0] + x[3], 7); x[2] ^= rotl32(x[1] + x[0], 9);
+    x[3] ^= rotl32(x[2] + x[1], 13); x[0] ^= rotl32(x[3] + x[2], 18);
+    x[6] ^= rotl32(x[5] + x[4], 7); x[7] ^= rotl32(x[6] + x[5], 9);
+    x[4] ^= rotl32(x[7] + x[6], 13); x[5] ^= rotl32(x[4] + x[7], 18);
+    x[11] ^= rotl32(x[10] + x[9], 7); x[8] ^= rotl32(x[11] + x[10], 9);
+    x[9] ^= rotl32(x[8] + x[11], 13); x[10] ^= rotl32(x[9] + x[8], 18);
+    x[12] ^= rotl32(x[15] + x[14], 7); x[13] ^= rotl32(x[12] + x[15], 9);
+    x[14] ^= rotl32(x[13] + x[12], 13); x[15] ^= rotl32(x[14] + x[13], 18);
+  }
+  for (let i = 0; i < 16; i++) b[offset + i] += x[i];
+};
+
+// BlockMix over the 2r 64-byte blocks of `input`, written to `output`.
+const scryptBlockMix = (input: Uint32Array, output: Uint32Array, r: number, x: Uint32Array, t: Uint32Array): void => {
+  t.set(input.subarray((2 * r - 1) * 16, 2 * r * 16));
+  for (let i = 0; i < 2 * r; i++) {
+    for (let k = 0; k < 16; k++) t[k] ^= input[i * 16 + k];
+    salsa20_8(t, 0, x);
+    // Even blocks go to the first half of the output, odd blocks to the second.
+    output.set(t.subarray(0, 16), ((i >> 1) + (i & 1) * r) * 16);
+  }
+};
+
+const scryptROMix = (block: Uint32Array, r: number, n: number): void => {
+  const words = 32 * r;
+  const v = new Uint32Array(n * words);
+  const y = new Uint32Array(words);
+  const x = new Uint32Array(16), t = new Uint32Array(16);
+  for (let i = 0; i < n; i++) {
+    v.set(block, i * words);
+    scryptBlockMix(block, y, r, x, t);
+    block.set(y);
+  }
+  for (let i = 0; i < n; i++) {
+    const j = block[(2 * r - 1) * 16] & (n - 1);
+    for (let k = 0; k < words; k++) block[k] ^= v[j * words + k];
+    scryptBlockMix(block, y, r, x, t);
+    block.set(y);
+  }
+};
+
+export const scrypt = async (
+  password: Uint8Array,
+  salt: Uint8Array,
+  params: { logN: number; r: number; p: number },
+  outLength: number,
+): Promise<Uint8Array> => {
+  const { r, p } = params;
+  const n = 2 ** params.logN;
+  const blockBytes = 128 * r;
+  const b = await pbkdf2Sha256(password, salt, 1, p * blockBytes);
+  for (let i = 0; i < p; i++) {
+    // Blocks are little-endian 32-bit words.
+    const block = new Uint32Array(32 * r);
+    const view = new DataView(b.buffer, b.byteOffset + i * blockBytes, blockBytes);
+    for (let k = 0; k < block.length; k++) block[k] = view.getUint32(k * 4, true);
+    scryptROMix(block, r, n);
+    for (let k = 0; k < block.length; k++) view.setUint32(k * 4, block[k], true);
+  }
+  return pbkdf2Sha256(password, b, 1, outLength);
+};
+
+// --- KDF selection and payload encoding ---
+
+// Legacy payloads (salt:iv:ciphertext, no KDF spec) were always PBKDF2-SHA256 with 100,000 iterations.
+export const LEGACY_KDF_PARAMS: KdfParams = { algorithm: KdfAlgorithm.PBKDF2, iterations: CRYPTO_PBKDF2_ITERATIONS };
+
+// The password is UTF-8 encoded when given as a string; bytes are used as they are.
+export const deriveKeyBytes = async (password: string | Uint8Array, salt: Uint8Array, kdf: KdfParams, outLength: number): Promise<Uint8Array> => {
+  const passwordBytes = typeof password === 'string' ? new TextEncoder().encode(password) : password;
+  switch (kdf.algorithm) {
+    case KdfAlgorithm.PBKDF2: return pbkdf2Sha256(passwordBytes, salt, kdf.iterations, outLength);
+    case KdfAlgorithm.Scrypt: return scrypt(passwordBytes, salt, kdf, outLength);
+    case KdfAlgorithm.Argon2id: return argon2id(passwordBytes, salt, kdf, outLength);
+  }
+};
+
+// Memory a KDF needs, in KiB (0 for PBKDF2).
+export const kdfMemoryKiB = (kdf: KdfParams): number => {
+  switch (kdf.algorithm) {
+    case KdfAlgorithm.PBKDF2: return 0;
+    case KdfAlgorithm.Scrypt: return (2 ** kdf.logN * 128 * kdf.r * kdf.p) / 1024;
+    case KdfAlgorithm.Argon2id: return kdf.memoryKiB;
+  }
+};
+
+// The settings control exposes two knobs for every KDF. Memory is in MiB (Argon2id m, scrypt N·r·128
+// rounded to a power of two; unused by PBKDF2). Time is Argon2id passes, scrypt p, or PBKDF2
+// iterations in thousands.
+export const kdfParamsFromCosts = (algorithm: KdfAlgorithm, memoryMiB: number, timeCost: number): KdfParams => {
+  switch (algorithm) {
+    case KdfAlgorithm.PBKDF2:
+      return { algorithm, iterations: timeCost * 1000 };
+    case KdfAlgorithm.Scrypt:
+      return { algorithm, logN: Math.round(Math.log2(memoryMiB * 1024 * 1024 / (128 * DEFAULT_SCRYPT_PARAMS.r))), r: DEFAULT_SCRYPT_PARAMS.r, p: timeCost };
+    case KdfAlgorithm.Argon2id:
+      return { algorithm, memoryKiB: memoryMiB * 1024, iterations: timeCost, parallelism: DEFAULT_ARGON2ID_PARAMS.parallelism };
+  }
+};
+
+export const defaultKdfCosts = (algorithm: KdfAlgorithm): { memoryMiB: number; timeCost: number } => {
+  switch (algorithm) {
+    case KdfAlgorithm.PBKDF2: return { memoryMiB: 0, timeCost: DEFAULT_PBKDF2_ITERATIONS / 1000 };
+    case KdfAlgorithm.Scrypt: return { memoryMiB: (2 ** DEFAULT_SCRYPT_PARAMS.logN * 128 * DEFAULT_SCRYPT_PARAMS.r) / (1024 * 1024), timeCost: DEFAULT_SCRYPT_PARAMS.p };
+    case KdfAlgorithm.Argon2id: return { memoryMiB: DEFAULT_ARGON2ID_PARAMS.memoryKiB / 1024, timeCost: DEFAULT_ARGON2ID_PARAMS.iterations };
+  }
+};
+
+const isInRange = (value: number, min: number, max: number): boolean => Number.isInteger(value) && value >= min && value <= max;
+
+// Throws if the parameters are malformed or outside what this app is willing to compute.
+export const validateKdfParams = (kdf: KdfParams): void => {
+  let valid: boolean;
+  switch (kdf.algorithm) {
+    case KdfAlgorithm.PBKDF2:
+      valid = isInRange(kdf.iterations, 1, MAX_PBKDF2_ITERATIONS);
+      break;
+    case KdfAlgorithm.Scrypt:
+      valid = isInRange(kdf.logN, 1, 30) && isInRange(kdf.r, 1, 64) && isInRange(kdf.p, 1, MAX_KDF_ITERATIONS);
+      break;
+    case KdfAlgorithm.Argon2id:
+      valid = isInRange(kdf.iterations, 1, MAX_KDF_ITERATIONS) && isInRange(kdf.parallelism, 1, 16) && isInRange(kdf.memoryKiB, 8 * kdf.parallelism, MAX_KDF_MEMORY_KIB);
+      break;
+    default:
+      throw new Error('KDF: Unknown key derivation function.');
+  }
+  if (!valid || kdfMemoryKiB(kdf) > MAX_KDF_MEMORY_KIB) {
+    throw new Error(`KDF: Unsupported ${kdf.algorithm} parameters.`);
+  }
+};
+
+const KDF_PARAM_NAMES: Record<KdfAlgorithm, string[]> = {
+  [KdfAlgorithm.PBKDF2]: ['i'],
+  [KdfAlgorithm.Scrypt]: ['ln', 'r', 'p'],
+  [KdfAlgorithm.Argon2id]: ['m', 't', 'p'],
+};
+
+const kdfParamValues = (kdf: KdfParams): number[] => {
+  switch (kdf.algorithm) {
+    case KdfAlgorithm.PBKDF2: return [kdf.iterations];
+    case KdfAlgorithm.Scrypt: return [kdf.logN, kdf.r, kdf.p];
+    case KdfAlgorithm.Argon2id: return [kdf.memoryKiB, kdf.iterations, kdf.parallelism];
+  }
+};
+
+// e.g. "argon2id$m=19456,t=2,p=1", in the style of PHC strings.
+export const formatKdfSpec = (kdf: KdfParams): string => {
+  const values = kdfParamValues(kdf);
+  return `${kdf.algorithm}${KDF_SPEC_SEPARATOR}${KDF_PARAM_NAMES[kdf.algorithm].map((name, i) => `${name}=${values[i]}`).join(KDF_PARAM_SEPARATOR)}`;
+};
+
+export const parseKdfSpec = (spec: string): KdfParams => {
+  const [algorithm, paramList, ...rest] = spec.split(KDF_SPEC_SEPARATOR);
+  const names = KDF_PARAM_NAMES[algorithm as KdfAlgorithm];
+  if (!names || paramList === undefined || rest.length > 0) throw new Error('KDF: Unknown key derivation function in payload.');
+
+  const values = new Map(paramList.split(KDF_PARAM_SEPARATOR).map(pair => {
+    const [name, value] = pair.split('=');
+    return [name, /^\d+$/.test(value ?? '') ? Number(value) : NaN] as const;
+  }));
+  const get = (name: string): number => {
+    const value = values.get(name);
+    if (value === undefined || Number.isNaN(value)) throw new Error(`KDF: Missing or invalid ${algorithm} parameter "${name}".`);
+    return value;
+  };
+
+  let kdf: KdfParams;
+  switch (algorithm as KdfAlgorithm) {
+    case KdfAlgorithm.PBKDF2: kdf = { algorithm: KdfAlgorithm.PBKDF2, iterations: get('i') }; break;
+    case KdfAlgorithm.Scrypt: kdf = { algorithm: KdfAlgorithm.Scrypt, logN: get('ln'), r: get('r'), p: get('p') }; break;
+    case KdfAlgorithm.Argon2id: kdf = { algorithm: KdfAlgorithm.Argon2id, memoryKiB: get('m'), iterations: get('t'), parallelism: get('p') }; break;
+  }
+  validateKdfParams(kdf!);
+  return kdf!;
+};
@@ -0,0 +1,54 @@
+import { KEY_FILE_MAX_READ_BYTES, MAX_KEY_FILES } from '../constants.ts';
+import type { PasswordWithKeyFiles, EncryptionSecret, DecryptionSecret, LoadedKeyFile } from '../types.ts';
+
+// Key files as a second factor for password encryption, in the style of VeraCrypt keyfiles. Any file
+// can be a key file; only its first megabyte is read. The SHA-256 digests of the chosen files are
+// combined into one pool, which is added byte-wise to the password before key derivation.
+
+const sha256 = async (data: Uint8Array): Promise<Uint8Array> => new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+
+// SHA-256 of one key file's contents (at most the first KEY_FILE_MAX_READ_BYTES).
+export const digestKeyFile = async (data: Uint8Array): Promise<Uint8Array> => {
+  if (data.length === 0) throw new Error('Key Files: A key file cannot be empty.');
+  return sha256(data.subarray(0, KEY_FILE_MAX_READ_BYTES));
+};
+
+// Combines per-file digests into the key file pool. The digests are sorted first, so the order the
+// files are chosen in does not matter.
+export const combineKeyFileDigests = async (digests: Uint8Array[]): Promise<Uint8Array> => {
+  if (digests.length === 0) throw new Error('Key Files: At least one key file is required.');
+  if (digests.length > MAX_KEY_FILES) throw new Error(`Key Files: At most ${MAX_KEY_FILES} key files are supported.`);
+  const sorted = [...digests].sort((a, b) => {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return a.length - b.length;
+  });
+  const pool = new Uint8Array(sorted.reduce((sum, d) => sum + d.length, 0));
+  let offset = 0;
+  for (const digest of sorted) {
+    pool.set(digest, offset);
+    offset += digest.length;
+  }
+  return sha256(pool);
+};
+
+export const digestKeyFiles = async (files: Uint8Array[]): Promise<Uint8Array> =>
+  combineKeyFileDigests(await Promise.all(files.map(digestKeyFile)));
+
+export const hasKeyFiles = (secret: EncryptionSecret | DecryptionSecret): secret is PasswordWithKeyFiles =>
+  typeof secret === 'object' && 'keyFileDigest' in secret;
+
+// The password with the key file pool mixed in: the UTF-8 password, zero-padded to the pool length if
+// shorter, with each pool byte added (mod 256) to the password byte at the same position.
+export const mixKeyFilesIntoPassword = (password: string, keyFileDigest: Uint8Array): Uint8Array => {
+  const passwordBytes = new TextEncoder().encode(password);
+  const mixed = new Uint8Array(Math.max(passwordBytes.length, keyFileDigest.length));
+  mixed.set(passwordBytes);
+  for (let i = 0; i < keyFileDigest.length; i++) mixed[i] = (mixed[i] + keyFileDigest[i]) & 0xff;
+  return mixed;
+};
+
+// The password secret for the UI's chosen key files: the password alone when none are chosen.
+export const passwordWithKeyFiles = async (password: string, keyFiles: LoadedKeyFile[]): Promise<string | PasswordWithKeyFiles> =>
+  keyFiles.length === 0 ? password : { password, keyFileDigest: await combineKeyFileDigests(keyFiles.map(f => f.digest)) };
@@ -0,0 +1,155 @@
+import { HYBRID_CURVE, KEY_ID_NUM_BYTES } from '../constants.ts';
+import { SignatureAlgorithm, type KeyFormat } from '../types.ts';
+import { arrayBufferToBase64, base64ToArrayBuffer, arrayBufferToHex } from '../utils.ts';
+
+// Key pairs for public-key (hybrid) encryption (ECDH P-256) and for signatures (ECDSA P-256, Ed25519):
+// generation, fingerprints, and import/export as JWK or PEM (SPKI public keys, unencrypted PKCS#8
+// private keys).
+
+const EC_PARAMS: EcKeyImportParams = { name: 'ECDH', namedCurve: HYBRID_CURVE };
+const SIGNING_PARAMS: Record<SignatureAlgorithm, EcKeyImportParams | Algorithm> = {
+  [SignatureAlgorithm.EcdsaP256]: { name: 'ECDSA', namedCurve: HYBRID_CURVE },
+  [SignatureAlgorithm.Ed25519]: { name: 'Ed25519' },
+};
+const PEM_LINE_LENGTH = 64;
+
+export const generateKeyPair = (): Promise<CryptoKeyPair> =>
+  crypto.subtle.generateKey(EC_PARAMS, true, ['deriveBits']) as Promise<CryptoKeyPair>;
+
+export const generateSigningKeyPair = (algorithm: SignatureAlgorithm): Promise<CryptoKeyPair> =>
+  crypto.subtle.generateKey(SIGNING_PARAMS[algorithm], true, ['sign', 'verify']) as Promise<CryptoKeyPair>;
+
+// The signature algorithm a signing key belongs to, or null for keys that cannot sign.
+export const signatureAlgorithmOf = (key: CryptoKey): SignatureAlgorithm | null => {
+  if (key.algorithm.name === 'Ed25519') return SignatureAlgorithm.Ed25519;
+  if (key.algorithm.name === 'ECDSA' && (key.algorithm as EcKeyAlgorithm).namedCurve === HYBRID_CURVE) return SignatureAlgorithm.EcdsaP256;
+  return null;
+};
+
+export const signingKeyParams = (algorithm: SignatureAlgorithm): EcKeyImportParams | Algorithm => SIGNING_PARAMS[algorithm];
+
+const toPem = (label: string, der: ArrayBuffer): string => {
+  const lines = arrayBufferToBase64(der).match(new RegExp(`.{1,${PEM_LINE_LENGTH}}`, 'g')) ?? [];
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`;
+};
+
+// Only the key material; alg/use/key_ops are dropped so a key is not tied to one WebCrypto usage.
+const keyFields = ({ kty, crv, x, y, d }: JsonWebKey): JsonWebKey =>
+  Object.fromEntries(Object.entries({ kty, crv, x, y, d }).filter(([, value]) => value !== undefined));
+
+export const exportKey = async (key: CryptoKey, format: KeyFormat): Promise<string> => {
+  if (format === 'jwk') return JSON.stringify(keyFields(await crypto.subtle.exportKey('jwk', key)), null, 2);
+  return key.type === 'private'
+    ? toPem('PRIVATE KEY', await crypto.subtle.exportKey('pkcs8', key))
+    : toPem('PUBLIC KEY', await crypto.subtle.exportKey('spki', key));
+};
+
+type ParsedKey = { kind: 'public' | 'private'; format: 'jwk'; jwk: JsonWebKey } | { kind: 'public' | 'private'; format: 'spki' | 'pkcs8'; der: ArrayBuffer };
+
+const parseKeyText = (text: string): ParsedKey => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    let jwk: JsonWebKey;
+    try {
+      jwk = JSON.parse(trimmed);
+    } catch {
+      throw new Error('Keys: The JWK is not valid JSON.');
+    }
+    const isP256 = jwk.kty === 'EC' && jwk.crv === HYBRID_CURVE;
+    const isEd25519 = jwk.kty === 'OKP' && jwk.crv === 'Ed25519';
+    if (!isP256 && !isEd25519) throw new Error(`Keys: Only EC ${HYBRID_CURVE} and Ed25519 keys are supported.`);
+    return { kind: jwk.d ? 'private' : 'public', format: 'jwk', jwk: keyFields(jwk) };
+  }
+
+  const pem = trimmed.match(/-----BEGIN ([A-Z ]+)-----([\s\S]*?)-----END \1-----/);
+  if (!pem) throw new Error('Keys: Expected a PEM block or a JWK.');
+  const der = base64ToArrayBuffer(pem[2].replace(/\s+/g, ''));
+  switch (pem[1]) {
+    case 'PUBLIC KEY': return { kind: 'public', format: 'spki', der };
+    case 'PRIVATE KEY': return { kind: 'private', format: 'pkcs8', der };
+    case 'EC PRIVATE KEY':
+      throw new Error('Keys: SEC1 "EC PRIVATE KEY" files are not supported. Convert with: openssl pkcs8 -topk8 -nocrypt -in key.pem');
+    case 'ENCRYPTED PRIVATE KEY':
+      throw new Error('Keys: Password-protected private keys are not supported. Export the key without a passphrase.');
+    default:
+      throw new Error(`Keys: Unsupported PEM block "${pem[1]}".`);
+  }
+};
+
+const importParsedKey = (parsed: ParsedKey, params: EcKeyImportParams | Algorithm, usages: KeyUsage[]): Promise<CryptoKey> =>
+  parsed.format === 'jwk'
+    ? crypto.subtle.importKey('jwk', parsed.jwk, params, true, usages)
+    : crypto.subtle.importKey(parsed.format, parsed.der, params, true, usages);
+
+const importEcdhKey = async (parsed: ParsedKey): Promise<CryptoKey> => {
+  try {
+    return await importParsedKey(parsed, EC_PARAMS, parsed.kind === 'private' ? ['deriveBits'] : []);
+  } catch {
+    throw new Error(`Keys: Could not read the key. Encryption keys must be EC ${HYBRID_CURVE}.`);
+  }
+};
+
+export const importPublicKey = async (text: string): Promise<CryptoKey> => {
+  const parsed = parseKeyText(text);
+  if (parsed.kind !== 'public') throw new Error('Keys: This is a private key. Use the recipient\'s public key instead.');
+  return importEcdhKey(parsed);
+};
+
+export const importPrivateKey = async (text: string): Promise<CryptoKey> => {
+  const parsed = parseKeyText(text);
+  if (parsed.kind !== 'private') throw new Error('Keys: This is a public key. Decryption needs the matching private key.');
+  return importEcdhKey(parsed);
+};
+
+// A PKCS#8 key does not say which of the two algorithms it is for, so each is tried in turn.
+export const importSigningKey = async (text: string): Promise<CryptoKey> => {
+  const parsed = parseKeyText(text);
+  if (parsed.kind !== 'private') throw new Error('Keys: This is a public key. Signing needs the private key.');
+  for (const algorithm of Object.values(SignatureAlgorithm)) {
+    try {
+      return await importParsedKey(parsed, SIGNING_PARAMS[algorithm], ['sign']);
+    } catch {
+      // Not this algorithm.
+    }
+  }
+  throw new Error(`Keys: Could not read the signing key. Supported: ECDSA ${HYBRID_CURVE} and Ed25519.`);
+};
+
+export const publicKeyFromPrivateKey = async (privateKey: CryptoKey): Promise<CryptoKey> => {
+  const { d: _, ...publicJwk } = keyFields(await crypto.subtle.exportKey('jwk', privateKey));
+  const usages: KeyUsage[] = privateKey.algorithm.name === 'ECDH' ? [] : ['verify'];
+  return crypto.subtle.importKey('jwk', publicJwk, privateKey.algorithm as EcKeyImportParams, true, usages);
+};
+
+// Key ids are the leading bytes of SHA-256 over the raw public key (the uncompressed point for P-256).
+export const publicKeyId = async (rawPublicKey: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.digest('SHA-256', rawPublicKey)).slice(0, KEY_ID_NUM_BYTES);
+
+// e.g. "3f2a 91c0 7be1 44d2"
+export const formatKeyId = (keyId: Uint8Array): string => arrayBufferToHex(keyId.slice().buffer).match(/.{4}/g)!.join(' ');
+
+export const publicKeyFingerprint = async (publicKey: CryptoKey): Promise<string> =>
+  formatKeyId(await publicKeyId(new Uint8Array(await crypto.subtle.exportKey('raw', publicKey))));
+
+// The public half and fingerprint of a key pair given as either half (PEM or JWK), for storing it in the
+// keyring. Works for encryption and signing keys alike; a derived public key uses the input's format.
+export const summarizeKeyPair = async (privateKeyText: string, publicKeyText: string): Promise<{ publicKey: string; fingerprint: string }> => {
+  if (publicKeyText.trim()) {
+    const parsed = parseKeyText(publicKeyText);
+    if (parsed.kind !== 'public') throw new Error('Keys: The public key field holds a private key.');
+    for (const [params, usages] of [[EC_PARAMS, []], [SIGNING_PARAMS[SignatureAlgorithm.Ed25519], ['verify']]] as const) {
+      try {
+        const key = await importParsedKey(parsed, params, [...usages]);
+        return { publicKey: publicKeyText.trim(), fingerprint: await publicKeyFingerprint(key) };
+      } catch {
+        // Not this algorithm.
+      }
+    }
+    throw new Error(`Keys: Could not read the public key. Supported: EC ${HYBRID_CURVE} and Ed25519.`);
+  }
+  const publicKey = await publicKeyFromPrivateKey(await importSigningKey(privateKeyText));
+  return {
+    publicKey: await exportKey(publicKey, privateKeyText.trim().startsWith('{') ? 'jwk' : 'pem'),
+    fingerprint: await publicKeyFingerprint(publicKey),
+  };
+};
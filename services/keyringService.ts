@@ -0,0 +1,213 @@
+import {
+  CRYPTO_ALGORITHM_NAME,
+  CRYPTO_AES_KEY_LENGTH_BITS,
+  CRYPTO_IV_NUM_BYTES,
+  CRYPTO_SALT_NUM_BYTES,
+  DEFAULT_KDF_PARAMS,
+  KEYRING_DB_NAME,
+  KEYRING_DB_VERSION,
+  KEYRING_STORE_NAME,
+  KEYRING_META_ID,
+  KEYRING_CHECK_VALUE,
+  KEYRING_BACKUP_FORMAT,
+  KEYRING_BACKUP_VERSION
+} from '../constants.ts';
+import type { KdfParams, KeyringEntry, UnlockedKeyring } from '../types.ts';
+import { arrayBufferToBase64, base64ToArrayBuffer } from '../utils.ts';
+import { deriveKeyBytes, formatKdfSpec, parseKdfSpec, validateKdfParams } from './kdfService.ts';
+
+// Encrypted keyring kept in IndexedDB. One object store holds a meta record (KDF spec, salt and a sealed
+// check value) and one record per entry, each sealed with AES-GCM under the key derived from the master
+// password. The record id is bound as additional data, so sealed entries cannot be swapped around.
+// Names are sealed along with the secrets: nothing but the number of entries is readable without the
+// master password. A backup file is the same records as JSON.
+
+interface SealedValue {
+  iv: string;
+  ciphertext: string;
+}
+
+interface MetaRecord {
+  id: typeof KEYRING_META_ID;
+  kdf: string;
+  salt: string;
+  check: SealedValue;
+}
+
+interface EntryRecord extends SealedValue {
+  id: string;
+}
+
+type KeyringRecord = MetaRecord | EntryRecord;
+
+interface KeyringBackup {
+  format: typeof KEYRING_BACKUP_FORMAT;
+  version: number;
+  records: KeyringRecord[];
+}
+
+// --- IndexedDB plumbing ---
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error('Keyring: IndexedDB is not available in this browser.'));
+  const request = indexedDB.open(KEYRING_DB_NAME, KEYRING_DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(KEYRING_STORE_NAME)) {
+      request.result.createObjectStore(KEYRING_STORE_NAME, { keyPath: 'id' });
+    }
+  };
+  return requestResult(request);
+};
+
+// Runs one operation against the keyring store and closes the database afterwards.
+const withStore = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction(KEYRING_STORE_NAME, mode);
+    const committed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('Keyring: Transaction aborted.'));
+    });
+    committed.catch(() => undefined); // A failed request aborts the transaction too; its error is the one reported.
+    const result = await requestResult(operation(transaction.objectStore(KEYRING_STORE_NAME)));
+    await committed;
+    return result;
+  } finally {
+    db.close();
+  }
+};
+
+const readAllRecords = (): Promise<KeyringRecord[]> => withStore('readonly', store => store.getAll() as IDBRequest<KeyringRecord[]>);
+const putRecord = (record: KeyringRecord): Promise<IDBValidKey> => withStore('readwrite', store => store.put(record));
+
+const isMetaRecord = (record: KeyringRecord): record is MetaRecord => record.id === KEYRING_META_ID;
+
+// --- Sealing ---
+
+const deriveKeyringKey = async (masterPassword: string, salt: Uint8Array, kdf: KdfParams): Promise<CryptoKey> => {
+  const keyBytes = await deriveKeyBytes(masterPassword, salt, kdf, CRYPTO_AES_KEY_LENGTH_BITS / 8);
+  return crypto.subtle.importKey('raw', keyBytes, { name: CRYPTO_ALGORITHM_NAME }, false, ['encrypt', 'decrypt']);
+};
+
+const seal = async (key: CryptoKey, id: string, plaintext: string): Promise<SealedValue> => {
+  const iv = crypto.getRandomValues(new Uint8Array(CRYPTO_IV_NUM_BYTES));
+  const additionalData = new TextEncoder().encode(id);
+  const ciphertext = await crypto.subtle.encrypt({ name: CRYPTO_ALGORITHM_NAME, iv, additionalData }, key, new TextEncoder().encode(plaintext));
+  return { iv: arrayBufferToBase64(iv.buffer), ciphertext: arrayBufferToBase64(ciphertext) };
+};
+
+const unseal = async (key: CryptoKey, id: string, sealed: SealedValue): Promise<string> => {
+  const iv = new Uint8Array(base64ToArrayBuffer(sealed.iv));
+  const additionalData = new TextEncoder().encode(id);
+  const plaintext = await crypto.subtle.decrypt({ name: CRYPTO_ALGORITHM_NAME, iv, additionalData }, key, base64ToArrayBuffer(sealed.ciphertext));
+  return new TextDecoder().decode(plaintext);
+};
+
+// Derives the key for a meta record and checks the master password against it.
+const openWithMeta = async (meta: MetaRecord, masterPassword: string): Promise<CryptoKey> => {
+  const kdf = parseKdfSpec(meta.kdf);
+  validateKdfParams(kdf);
+  const key = await deriveKeyringKey(masterPassword, new Uint8Array(base64ToArrayBuffer(meta.salt)), kdf);
+  try {
+    if (await unseal(key, KEYRING_META_ID, meta.check) === KEYRING_CHECK_VALUE) return key;
+  } catch {
+    // AES-GCM rejects a wrong key.
+  }
+  throw new Error('Keyring: Wrong master password.');
+};
+
+const unsealEntries = async (key: CryptoKey, records: KeyringRecord[]): Promise<KeyringEntry[]> => {
+  const entries: KeyringEntry[] = [];
+  for (const record of records) {
+    if (isMetaRecord(record)) continue;
+    try {
+      entries.push({ ...JSON.parse(await unseal(key, record.id, record)), id: record.id });
+    } catch {
+      throw new Error('Keyring: An entry could not be decrypted. The keyring data has been modified or corrupted.');
+    }
+  }
+  return entries.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// --- Public API ---
+
+export const keyringExists = async (): Promise<boolean> =>
+  (await withStore('readonly', store => store.get(KEYRING_META_ID))) !== undefined;
+
+export const createKeyring = async (masterPassword: string, kdf: KdfParams = DEFAULT_KDF_PARAMS): Promise<UnlockedKeyring> => {
+  if (!masterPassword) throw new Error('Keyring: A master password is required.');
+  if (await keyringExists()) throw new Error('Keyring: A keyring already exists. Unlock it, or delete it first.');
+  validateKdfParams(kdf);
+  const salt = crypto.getRandomValues(new Uint8Array(CRYPTO_SALT_NUM_BYTES));
+  const key = await deriveKeyringKey(masterPassword, salt, kdf);
+  await putRecord({ id: KEYRING_META_ID, kdf: formatKdfSpec(kdf), salt: arrayBufferToBase64(salt.buffer), check: await seal(key, KEYRING_META_ID, KEYRING_CHECK_VALUE) });
+  return { key, entries: [] };
+};
+
+export const unlockKeyring = async (masterPassword: string): Promise<UnlockedKeyring> => {
+  const records = await readAllRecords();
+  const meta = records.find(isMetaRecord);
+  if (!meta) throw new Error('Keyring: No keyring has been created in this browser yet.');
+  const key = await openWithMeta(meta, masterPassword);
+  return { key, entries: await unsealEntries(key, records) };
+};
+
+// Adds an entry, or replaces the one with the same id. Returns the updated keyring.
+export const saveKeyringEntry = async (keyring: UnlockedKeyring, entry: Omit<KeyringEntry, 'id' | 'createdAt'> & Partial<Pick<KeyringEntry, 'id' | 'createdAt'>>): Promise<UnlockedKeyring> => {
+  if (!entry.name.trim()) throw new Error('Keyring: Entries need a name.');
+  if (!entry.secret && !entry.publicKey) throw new Error('Keyring: The entry is empty.');
+  const saved: KeyringEntry = { ...entry, id: entry.id ?? crypto.randomUUID(), createdAt: entry.createdAt ?? Date.now() };
+  const { id, ...content } = saved;
+  await putRecord({ id, ...await seal(keyring.key, id, JSON.stringify(content)) });
+  const entries = [...keyring.entries.filter(e => e.id !== id), saved].sort((a, b) => a.name.localeCompare(b.name));
+  return { ...keyring, entries };
+};
+
+export const deleteKeyringEntry = async (keyring: UnlockedKeyring, id: string): Promise<UnlockedKeyring> => {
+  await withStore('readwrite', store => store.delete(id));
+  return { ...keyring, entries: keyring.entries.filter(e => e.id !== id) };
+};
+
+// Removes the keyring and every entry in it. There is no way to recover them afterwards.
+export const deleteKeyring = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear());
+};
+
+// The sealed records as a JSON backup file. Restoring it needs the master password it was made with.
+export const exportKeyringBackup = async (): Promise<string> => {
+  const backup: KeyringBackup = { format: KEYRING_BACKUP_FORMAT, version: KEYRING_BACKUP_VERSION, records: await readAllRecords() };
+  return JSON.stringify(backup, null, 2);
+};
+
+// Decrypts a backup with its master password and re-seals its entries into the unlocked keyring.
+// Entries that are already present (same kind, name and contents) are skipped.
+export const importKeyringBackup = async (keyring: UnlockedKeyring, backupText: string, backupPassword: string): Promise<{ keyring: UnlockedKeyring; imported: number }> => {
+  let backup: KeyringBackup;
+  try {
+    backup = JSON.parse(backupText);
+  } catch {
+    throw new Error('Keyring: The backup file is not valid JSON.');
+  }
+  if (backup?.format !== KEYRING_BACKUP_FORMAT || !Array.isArray(backup.records)) throw new Error('Keyring: This is not a keyring backup file.');
+  if (backup.version > KEYRING_BACKUP_VERSION) throw new Error(`Keyring: Backup version ${backup.version} is newer than this app supports (max ${KEYRING_BACKUP_VERSION}).`);
+  const meta = backup.records.find(isMetaRecord);
+  if (!meta) throw new Error('Keyring: The backup file has no keyring header.');
+
+  const entries = await unsealEntries(await openWithMeta(meta, backupPassword), backup.records);
+  const sameEntry = (a: KeyringEntry, b: KeyringEntry) => a.kind === b.kind && a.name === b.name && a.secret === b.secret && a.publicKey === b.publicKey;
+  let updated = keyring;
+  let imported = 0;
+  for (const { id: _, ...entry } of entries) {
+    if (updated.entries.some(existing => sameEntry(existing, { ...entry, id: '' }))) continue;
+    updated = await saveKeyringEntry(updated, entry);
+    imported++;
+  }
+  return { keyring: updated, imported };
+};
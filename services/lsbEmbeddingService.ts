@@ -0,0 +1,285 @@
+import { CONTAINER_HEADER_NUM_BYTES, LSB_HEADER_NUM_PIXELS, MAX_LSB_BITS_PER_CHANNEL, MAX_LSB_MATRIX_K } from '../constants.ts';
+import { ContainerFlag, type ContainerMethod, type ContainerHeader, type LsbEmbeddingMode, type LsbEncodeOptions, type LsbLayout, type StegoContext } from '../types.ts';
+import { bytesToBinary, binaryToBytes } from '../utils.ts';
+import { hasContainerMagic, parseContainerHeader, assertContainerMethod, verifyContainerChecksum, stegoContext, headerStegoContext } from './payloadContainerService.ts';
+
+const RANDOM_POOL_SIZE = 4096;
+const HEADER_NUM_BITS = CONTAINER_HEADER_NUM_BYTES * 8;
+
+// Pixel visiting order: an array of pixel indices, or null for plain raster order.
+export type PixelOrder = ArrayLike<number> | null;
+
+// Returns a function that writes `bitCount` low bits (the value `target`) into a channel value.
+//
+// LSB replacement overwrites the low bits, which only ever moves values within the pairs (2k, 2k+1)
+// and equalises their histogram counts: exactly what the chi-square and sample pairs attacks look for.
+// LSB matching instead picks whichever value with the wanted low bits is closest to the original,
+// breaking ties at random. For one bit that is the classic ±1 embedding; for more bits it also
+// minimises distortion. The low bits read back are identical either way, so decoders don't care.
+export const createLsbWriter = (mode: LsbEmbeddingMode = 'replacement'): ((value: number, target: number, bitCount: number) => number) => {
+  if (mode === 'replacement') {
+    return (value, target, bitCount) => (value & ~((1 << bitCount) - 1)) | target;
+  }
+
+  const pool = new Uint8Array(RANDOM_POOL_SIZE);
+  let poolIndex = RANDOM_POOL_SIZE;
+  const randomBit = (): number => {
+    if (poolIndex >= RANDOM_POOL_SIZE) {
+      crypto.getRandomValues(pool);
+      poolIndex = 0;
+    }
+    return pool[poolIndex++] & 1;
+  };
+
+  return (value, target, bitCount) => {
+    const step = 1 << bitCount;
+    const base = (value & ~(step - 1)) | target;
+    if (base === value) return value;
+    const below = base - step;
+    const above = base + step;
+    let best = base;
+    let bestDistance = Math.abs(base - value);
+    for (const candidate of [below, above]) {
+      if (candidate < 0 || candidate > 255) continue;
+      const distance = Math.abs(candidate - value);
+      if (distance < bestDistance || (distance === bestDistance && randomBit())) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  };
+};
+
+// --- Layout (bit depth / alpha / matrix code) ---
+
+// Resolves the encoder options into a layout for a cover of `numPixels` pixels and a payload of
+// `payloadBytes` bytes. With matrix embedding, k is chosen as large as the payload allows: a larger
+// k changes fewer LSBs per embedded bit but needs more cover per bit.
+export const lsbLayoutFromOptions = (options: LsbEncodeOptions, numPixels: number, payloadBytes: number): LsbLayout => {
+  const bitsPerChannel = options.bitsPerChannel ?? 1;
+  if (!Number.isInteger(bitsPerChannel) || bitsPerChannel < 1 || bitsPerChannel > MAX_LSB_BITS_PER_CHANNEL) {
+    throw new Error(`Bits per channel must be between 1 and ${MAX_LSB_BITS_PER_CHANNEL}.`);
+  }
+  const layout: LsbLayout = { bitsPerChannel, useAlpha: !!options.useAlpha, matrixK: 0 };
+  if (!options.matrixEmbedding) return layout;
+  if (bitsPerChannel !== 1) {
+    throw new Error('Matrix embedding only works with 1 bit per channel.');
+  }
+
+  layout.matrixK = 1;
+  for (let k = MAX_LSB_MATRIX_K; k > 1; k--) {
+    if (payloadBytes * 8 <= lsbPayloadCapacityBits(numPixels, { ...layout, matrixK: k })) {
+      layout.matrixK = k;
+      break;
+    }
+  }
+  return layout;
+};
+
+// `params` layout: bits 0-1 = bits per channel - 1, bit 2 = alpha channel used, bits 3-5 = matrix k.
+// Bits 6-7 hold the pixel permutation version of the keyed methods (see pixelPermutationService).
+export const encodeLsbParams = (layout: LsbLayout): number => {
+  return (layout.bitsPerChannel - 1) | (layout.useAlpha ? 1 << 2 : 0) | (layout.matrixK << 3);
+};
+
+export const decodeLsbParams = (params: number): LsbLayout => {
+  return { bitsPerChannel: (params & 0b11) + 1, useAlpha: (params & 0b100) !== 0, matrixK: (params >> 3) & 0b111 };
+};
+
+// Container flags describing how the LSB encoders were configured.
+export const lsbOptionsContainerFlags = (options: LsbEncodeOptions): number => {
+  return (options.embeddingMode === 'matching' ? ContainerFlag.LsbMatching : 0)
+    | (options.adaptive ? ContainerFlag.AdaptiveSelection : 0);
+};
+
+// Stego contexts of LSB containers (see payloadContainerService), with the bits per channel as bit depth.
+export const lsbStegoContext = (method: ContainerMethod, flags: number, options: LsbEncodeOptions, width: number, height: number): StegoContext =>
+  stegoContext(method, flags, options.bitsPerChannel ?? 1, width, height);
+
+export const lsbContainerStegoContext = (header: ContainerHeader, width: number, height: number): StegoContext =>
+  headerStegoContext(header, decodeLsbParams(header.params).bitsPerChannel, width, height);
+
+const channelsPerPixel = (layout: LsbLayout): number => layout.useAlpha ? 4 : 3;
+
+const matrixGroupSize = (k: number): number => (1 << k) - 1;
+
+// Number of payload bits that fit after the header for a given number of pixels.
+export const lsbPayloadCapacityBits = (numPixels: number, layout: LsbLayout): number => {
+  const bodySlots = Math.max(0, numPixels - LSB_HEADER_NUM_PIXELS) * channelsPerPixel(layout);
+  if (layout.matrixK > 0) return Math.floor(bodySlots / matrixGroupSize(layout.matrixK)) * layout.matrixK;
+  return bodySlots * layout.bitsPerChannel;
+};
+
+// Expected squared error of one channel value that receives `bitCount` random payload bits.
+const expectedSquaredErrorPerValue = (bitCount: number, mode: LsbEmbeddingMode): number => {
+  const step = 1 << bitCount;
+  let total = 0;
+  for (let low = 0; low < step; low++) {
+    for (let target = 0; target < step; target++) {
+      const diff = Math.abs(target - low);
+      const error = mode === 'matching' ? Math.min(diff, step - diff) : diff;
+      total += error * error;
+    }
+  }
+  return total / (step * step);
+};
+
+// Estimates the distortion caused by embedding `payloadBytes` (container payload, excluding header)
+// into an image of `numPixels` pixels. PSNR is over all RGB(A) samples of the image.
+export const estimateLsbDistortion = (
+  numPixels: number,
+  payloadBytes: number,
+  layout: LsbLayout,
+  mode: LsbEmbeddingMode,
+): { capacityBytes: number; usedFraction: number; expectedChanges: number; meanSquaredError: number; psnr: number } => {
+  const capacityBytes = Math.floor(lsbPayloadCapacityBits(numPixels, layout) / 8);
+  const usedFraction = capacityBytes > 0 ? payloadBytes / capacityBytes : Infinity;
+  const payloadBits = payloadBytes * 8;
+
+  // Each header bit changes its value with probability 1/2, by exactly 1.
+  let expectedChanges = HEADER_NUM_BITS / 2;
+  let squaredError = HEADER_NUM_BITS * expectedSquaredErrorPerValue(1, mode);
+  if (layout.matrixK > 0) {
+    // A Hamming group leaves the cover untouched only when its syndrome already matches: 1 in 2^k.
+    const groupChanges = Math.ceil(payloadBits / layout.matrixK) * (1 - 1 / (1 << layout.matrixK));
+    expectedChanges += groupChanges;
+    squaredError += groupChanges;
+  } else {
+    const modifiedValues = Math.ceil(payloadBits / layout.bitsPerChannel);
+    expectedChanges += modifiedValues * (1 - 1 / (1 << layout.bitsPerChannel));
+    squaredError += modifiedValues * expectedSquaredErrorPerValue(layout.bitsPerChannel, mode);
+  }
+
+  const totalSamples = Math.max(1, numPixels * channelsPerPixel(layout));
+  const meanSquaredError = squaredError / totalSamples;
+  const psnr = meanSquaredError > 0 ? 10 * Math.log10((255 * 255) / meanSquaredError) : Infinity;
+  return { capacityBytes, usedFraction, expectedChanges, meanSquaredError, psnr };
+};
+
+// --- Embedding / extraction ---
+
+const pixelAt = (order: PixelOrder, i: number): number => order ? order[i] : i;
+
+// Index into RGBA data of the header's i-th bit: R, G, B of the first header pixels.
+const headerSlotIndex = (order: PixelOrder, i: number): number => pixelAt(order, Math.floor(i / 3)) * 4 + (i % 3);
+
+// Index into RGBA data of the channel value holding the slot-th group of payload bits.
+const bodySlotIndex = (order: PixelOrder, slot: number, channels: number): number => {
+  return pixelAt(order, LSB_HEADER_NUM_PIXELS + Math.floor(slot / channels)) * 4 + (slot % channels);
+};
+
+// Writes a complete container (from buildContainer) into RGBA pixel data along the given pixel order.
+// The caller must have built the container with encodeLsbParams(layout) so decoders can find the layout.
+// Returns the number of channel values that were actually modified.
+export const embedLsbContainer = (
+  data: Uint8ClampedArray | Uint8Array,
+  order: PixelOrder,
+  container: Uint8Array,
+  layout: LsbLayout,
+  mode: LsbEmbeddingMode = 'replacement',
+): number => {
+  const numPixels = order ? order.length : Math.floor(data.length / 4);
+  const bodyBits = (container.length - CONTAINER_HEADER_NUM_BYTES) * 8;
+  if (numPixels < LSB_HEADER_NUM_PIXELS || bodyBits > lsbPayloadCapacityBits(numPixels, layout)) {
+    throw new Error('Image data exhausted before the payload was fully encoded.');
+  }
+
+  const write = createLsbWriter(mode);
+  const bits = bytesToBinary(container);
+  let changes = 0;
+  const writeAt = (index: number, target: number, bitCount: number): void => {
+    const value = write(data[index], target, bitCount);
+    if (value !== data[index]) changes++;
+    data[index] = value;
+  };
+
+  for (let i = 0; i < HEADER_NUM_BITS; i++) {
+    writeAt(headerSlotIndex(order, i), bits[i] === '1' ? 1 : 0, 1);
+  }
+
+  const channels = channelsPerPixel(layout);
+  if (layout.matrixK > 0) {
+    // Hamming syndrome coding: the k message bits of each group select the syndrome of its 2^k - 1
+    // LSBs (the XOR of the 1-based positions holding a 1). Flipping the LSB at position
+    // syndrome ^ message makes them equal, so at most one value per group changes.
+    const k = layout.matrixK;
+    const groupSize = matrixGroupSize(k);
+    for (let i = HEADER_NUM_BITS, group = 0; i < bits.length; i += k, group++) {
+      const message = parseInt(bits.substring(i, i + k).padEnd(k, '0'), 2);
+      let syndrome = 0;
+      for (let j = 0; j < groupSize; j++) {
+        if (data[bodySlotIndex(order, group * groupSize + j, channels)] & 1) syndrome ^= j + 1;
+      }
+      const position = syndrome ^ message;
+      if (position !== 0) {
+        const index = bodySlotIndex(order, group * groupSize + position - 1, channels);
+        writeAt(index, (data[index] & 1) ^ 1, 1);
+      }
+    }
+    return changes;
+  }
+
+  const bitCount = layout.bitsPerChannel;
+  const mask = (1 << bitCount) - 1;
+  for (let i = HEADER_NUM_BITS, slot = 0; i < bits.length; i += bitCount, slot++) {
+    const index = bodySlotIndex(order, slot, channels);
+    let chunk = bits.substring(i, i + bitCount);
+    if (chunk.length < bitCount) {
+      // Last group is partial: keep the value's own remaining low bits.
+      chunk += (data[index] & mask).toString(2).padStart(bitCount, '0').substring(chunk.length);
+    }
+    writeAt(index, parseInt(chunk, 2), bitCount);
+  }
+  return changes;
+};
+
+// Reads a container from RGBA pixel data along the given pixel order. Returns null when no container
+// header is present, so callers can fall back to the legacy terminator format. `unmask` undoes a
+// whitening the encoder applied to the container, given bytes read and their offset in the container.
+export const extractLsbContainer = (
+  data: Uint8ClampedArray | Uint8Array,
+  order: PixelOrder,
+  expectedMethod: ContainerMethod,
+  label: string,
+  unmask: (bytes: Uint8Array, offset: number) => Uint8Array = bytes => bytes,
+): { header: ContainerHeader; payload: Uint8Array } | null => {
+  const numPixels = order ? order.length : Math.floor(data.length / 4);
+  if (numPixels < LSB_HEADER_NUM_PIXELS) return null;
+
+  let headerBits = '';
+  for (let i = 0; i < HEADER_NUM_BITS; i++) {
+    headerBits += (data[headerSlotIndex(order, i)] & 1).toString();
+  }
+  const headerBytes = unmask(binaryToBytes(headerBits), 0);
+  if (!hasContainerMagic(headerBytes)) return null;
+
+  const header = parseContainerHeader(headerBytes, label);
+  assertContainerMethod(header, expectedMethod, label);
+  const layout = decodeLsbParams(header.params);
+  const payloadBits = header.payloadLength * 8;
+  if (payloadBits > lsbPayloadCapacityBits(numPixels, layout)) {
+    throw new Error(`${label}: Container header declares a ${header.payloadLength}-byte payload, which exceeds the image capacity. Data is likely corrupted.`);
+  }
+
+  const channels = channelsPerPixel(layout);
+  let bodyBits = '';
+  if (layout.matrixK > 0) {
+    const groupSize = matrixGroupSize(layout.matrixK);
+    for (let group = 0; bodyBits.length < payloadBits; group++) {
+      let syndrome = 0;
+      for (let j = 0; j < groupSize; j++) {
+        if (data[bodySlotIndex(order, group * groupSize + j, channels)] & 1) syndrome ^= j + 1;
+      }
+      bodyBits += syndrome.toString(2).padStart(layout.matrixK, '0');
+    }
+  }
+  const bitCount = layout.bitsPerChannel;
+  const mask = (1 << bitCount) - 1;
+  for (let slot = 0; bodyBits.length < payloadBits; slot++) {
+    bodyBits += (data[bodySlotIndex(order, slot, channels)] & mask).toString(2).padStart(bitCount, '0');
+  }
+  const payload = unmask(binaryToBytes(bodyBits.substring(0, payloadBits)), CONTAINER_HEADER_NUM_BYTES);
+  verifyContainerChecksum(headerBytes, header, payload, label);
+  return { header, payload };
+};
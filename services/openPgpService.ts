@@ -0,0 +1,324 @@
+import { OPENPGP_S2K_CODED_COUNT, OPENPGP_MAX_MESSAGE_BYTES, OPENPGP_ARMOR_LINE_LENGTH } from '../constants.ts';
+import { arrayBufferToBase64, base64ToArrayBuffer, constantTimeEqual } from '../utils.ts';
+import { aesExpandKey, aesEncryptBlock } from './aesService.ts';
+import { inflate } from './compressionService.ts';
+
+// ASCII-armored OpenPGP messages encrypted with a password (RFC 4880), so payloads can be opened with
+// standard tools such as `gpg --decrypt`, and messages made by them can be read here. Writing produces
+// SKESK v4 (iterated+salted S2K, SHA-256) followed by SEIPD v1 (AES-256 in OpenPGP CFB mode, with the
+// SHA-1 modification detection code). Reading also accepts AES-128/192, SHA-1/384/512, simple and
+// salted S2K, encrypted session keys and ZIP/ZLIB compression.
+
+// What an OpenPGP message carries: a literal data packet.
+export interface OpenPgpLiteral {
+  data: Uint8Array;
+  fileName: string; // Empty for messages that are not a file
+  binary: boolean; // 'b' literal; text literals ('t', 'u') are UTF-8
+}
+
+const TAG_SIGNATURE = 2;
+const TAG_SKESK = 3;
+const TAG_ONE_PASS_SIGNATURE = 4;
+const TAG_COMPRESSED = 8;
+const TAG_SYMMETRIC_DATA = 9;
+const TAG_MARKER = 10;
+const TAG_LITERAL = 11;
+const TAG_SEIPD = 18;
+const TAG_OCB_DATA = 20;
+
+const SYMMETRIC_KEY_LENGTHS: Record<number, number> = { 7: 16, 8: 24, 9: 32 }; // AES-128, AES-192, AES-256
+const SYMMETRIC_AES_256 = 9;
+const HASH_ALGORITHMS: Record<number, string> = { 2: 'SHA-1', 8: 'SHA-256', 9: 'SHA-384', 10: 'SHA-512' };
+const HASH_SHA_256 = 8;
+const S2K_SIMPLE = 0;
+const S2K_SALTED = 1;
+const S2K_ITERATED_SALTED = 3;
+const S2K_SALT_NUM_BYTES = 8;
+const BLOCK_NUM_BYTES = 16;
+const MDC_NUM_BYTES = 22; // 0xD3 0x14 followed by a SHA-1 digest
+const MDC_HEADER = new Uint8Array([0xd3, 0x14]);
+
+const ARMOR_BEGIN = '-----BEGIN PGP MESSAGE-----';
+const ARMOR_END = '-----END PGP MESSAGE-----';
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+const digest = async (algorithm: string, data: Uint8Array): Promise<Uint8Array> => new Uint8Array(await crypto.subtle.digest(algorithm, data));
+
+// --- ASCII armor ---
+
+const crc24 = (data: Uint8Array): number => {
+  let crc = 0xb704ce;
+  for (const byte of data) {
+    crc ^= byte << 16;
+    for (let i = 0; i < 8; i++) {
+      crc <<= 1;
+      if (crc & 0x1000000) crc ^= 0x1864cfb;
+    }
+  }
+  return crc & 0xffffff;
+};
+
+const armor = (data: Uint8Array): string => {
+  const base64 = arrayBufferToBase64(data.slice().buffer);
+  const lines = [];
+  for (let i = 0; i < base64.length; i += OPENPGP_ARMOR_LINE_LENGTH) lines.push(base64.slice(i, i + OPENPGP_ARMOR_LINE_LENGTH));
+  const crc = crc24(data);
+  const checksum = arrayBufferToBase64(new Uint8Array([crc >>> 16, crc >>> 8, crc]).buffer);
+  return [ARMOR_BEGIN, '', ...lines, `=${checksum}`, ARMOR_END, ''].join('\n');
+};
+
+export const isArmoredOpenPgpMessage = (text: string): boolean => text.trimStart().startsWith(ARMOR_BEGIN);
+
+const dearmor = (text: string): Uint8Array => {
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+  let i = lines.indexOf(ARMOR_BEGIN);
+  if (i === -1) throw new Error('OpenPGP: No "BEGIN PGP MESSAGE" armor found.');
+  i++;
+  while (i < lines.length && lines[i].includes(': ')) i++; // Armor headers (Version, Comment, ...)
+  if (lines[i] === '') i++;
+  let base64 = '';
+  let checksum: string | null = null;
+  for (; i < lines.length && lines[i] !== ARMOR_END; i++) {
+    if (lines[i].startsWith('=') && lines[i].length === 5) checksum = lines[i].slice(1);
+    else base64 += lines[i];
+  }
+  if (i === lines.length) throw new Error('OpenPGP: The armor has no "END PGP MESSAGE" line.');
+  let data: Uint8Array;
+  try {
+    data = new Uint8Array(base64ToArrayBuffer(base64));
+  } catch {
+    throw new Error('OpenPGP: The armored message is not valid base64.');
+  }
+  if (checksum !== null) {
+    const expected = new Uint8Array(base64ToArrayBuffer(checksum));
+    if (((expected[0] << 16) | (expected[1] << 8) | expected[2]) !== crc24(data)) {
+      throw new Error('OpenPGP: Armor checksum mismatch. The message is corrupted.');
+    }
+  }
+  return data;
+};
+
+// --- Packets ---
+
+interface Packet {
+  tag: number;
+  body: Uint8Array;
+}
+
+// New-format packet header: tag, then a one, two or five-octet length.
+const packetHeaderLength = (bodyLength: number): number => 1 + (bodyLength < 192 ? 1 : bodyLength < 8384 ? 2 : 5);
+
+const writePacket = (tag: number, body: Uint8Array): Uint8Array => {
+  const n = body.length;
+  const length = n < 192 ? [n]
+    : n < 8384 ? [((n - 192) >> 8) + 192, (n - 192) & 0xff]
+    : [0xff, n >>> 24, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+  return concatBytes(new Uint8Array([0xc0 | tag, ...length]), body);
+};
+
+// Reads old and new-format packets, including new-format partial body lengths.
+const readPackets = (bytes: Uint8Array): Packet[] => {
+  const packets: Packet[] = [];
+  let offset = 0;
+  const take = (n: number): Uint8Array => {
+    if (offset + n > bytes.length) throw new Error('OpenPGP: A packet is truncated.');
+    offset += n;
+    return bytes.subarray(offset - n, offset);
+  };
+  const readNumber = (n: number): number => take(n).reduce((value, b) => value * 256 + b, 0);
+  while (offset < bytes.length) {
+    const first = take(1)[0];
+    if (!(first & 0x80)) throw new Error('OpenPGP: Invalid packet header.');
+    if (!(first & 0x40)) {
+      const lengthType = first & 0x03;
+      const length = lengthType === 3 ? bytes.length - offset : readNumber([1, 2, 4][lengthType]);
+      packets.push({ tag: (first >> 2) & 0x0f, body: take(length) });
+      continue;
+    }
+    const chunks: Uint8Array[] = [];
+    for (;;) {
+      const l1 = take(1)[0];
+      if (l1 < 192) { chunks.push(take(l1)); break; }
+      if (l1 < 224) { chunks.push(take(((l1 - 192) << 8) + take(1)[0] + 192)); break; }
+      if (l1 === 255) { chunks.push(take(readNumber(4))); break; }
+      chunks.push(take(1 << (l1 & 0x1f))); // Partial body length: more follows
+    }
+    packets.push({ tag: first & 0x3f, body: chunks.length === 1 ? chunks[0] : concatBytes(...chunks) });
+  }
+  return packets;
+};
+
+// --- S2K and CFB ---
+
+interface S2kSpecifier {
+  type: number;
+  hash: number;
+  salt: Uint8Array;
+  codedCount: number;
+}
+
+const s2kByteCount = (coded: number): number => (16 + (coded & 15)) << ((coded >> 4) + 6);
+
+// Hashes (salt || password) repeated up to the byte count. Keys longer than the digest use further
+// hash contexts, each preloaded with one more zero byte.
+const deriveS2kKey = async (s2k: S2kSpecifier, password: string, keyLength: number): Promise<Uint8Array> => {
+  const hash = HASH_ALGORITHMS[s2k.hash];
+  if (!hash) throw new Error(`OpenPGP: Unsupported S2K hash algorithm ${s2k.hash}.`);
+  const input = concatBytes(s2k.type === S2K_SIMPLE ? new Uint8Array(0) : s2k.salt, new TextEncoder().encode(password));
+  const count = s2k.type === S2K_ITERATED_SALTED ? Math.max(s2kByteCount(s2k.codedCount), input.length) : input.length;
+  const key = new Uint8Array(keyLength);
+  for (let filled = 0, preload = 0; filled < keyLength; preload++) {
+    const buffer = new Uint8Array(preload + count);
+    buffer.set(input, preload);
+    for (let length = input.length; length < count && input.length > 0;) {
+      const copy = Math.min(length, count - length);
+      buffer.copyWithin(preload + length, preload, preload + copy);
+      length += copy;
+    }
+    const part = await digest(hash, buffer);
+    key.set(part.subarray(0, keyLength - filled), filled);
+    filled += part.length;
+  }
+  return key;
+};
+
+// CFB mode with a zero IV and full-block feedback, as OpenPGP uses it for SEIPD and session keys.
+const cfb = (key: Uint8Array, data: Uint8Array, decrypt: boolean): Uint8Array => {
+  const schedule = aesExpandKey(key);
+  const out = new Uint8Array(data.length);
+  const register = new Uint8Array(BLOCK_NUM_BYTES);
+  const keystream = new Uint8Array(BLOCK_NUM_BYTES);
+  for (let offset = 0; offset < data.length; offset += BLOCK_NUM_BYTES) {
+    aesEncryptBlock(schedule, register, keystream);
+    const n = Math.min(BLOCK_NUM_BYTES, data.length - offset);
+    for (let j = 0; j < n; j++) out[offset + j] = data[offset + j] ^ keystream[j];
+    register.set((decrypt ? data : out).subarray(offset, offset + n));
+  }
+  return out;
+};
+
+// --- Literal data and compression ---
+
+const encodeLiteral = (literal: OpenPgpLiteral): Uint8Array => {
+  const encoder = new TextEncoder();
+  let name = encoder.encode(literal.fileName);
+  for (let chars = [...literal.fileName]; name.length > 255; chars = chars.slice(0, -1)) name = encoder.encode(chars.join(''));
+  // Format, name length, name, a zero modification date (so none leaks), then the data
+  return concatBytes(new Uint8Array([literal.binary ? 0x62 : 0x75, name.length]), name, new Uint8Array(4), literal.data);
+};
+
+const decodeLiteral = (body: Uint8Array): OpenPgpLiteral => {
+  if (body.length < 6 || body.length < 6 + body[1]) throw new Error('OpenPGP: The literal data packet is truncated.');
+  const format = String.fromCharCode(body[0]);
+  return {
+    binary: format !== 't' && format !== 'u',
+    fileName: new TextDecoder().decode(body.subarray(2, 2 + body[1])),
+    data: body.slice(6 + body[1]),
+  };
+};
+
+// Finds the literal data among the decrypted packets, unwrapping compression. Signature packets are
+// skipped: signed messages decrypt, but their signatures are not checked here.
+const findLiteral = async (packets: Packet[]): Promise<OpenPgpLiteral> => {
+  for (const { tag, body } of packets) {
+    if (tag === TAG_LITERAL) return decodeLiteral(body);
+    if (tag === TAG_COMPRESSED) {
+      const algorithm = body[0];
+      const compressed = body.subarray(1);
+      if (algorithm === 0) return findLiteral(readPackets(compressed));
+      if (algorithm === 1) return findLiteral(readPackets(await inflate(compressed, 'deflate-raw', OPENPGP_MAX_MESSAGE_BYTES, 'OpenPGP')));
+      if (algorithm === 2) return findLiteral(readPackets(await inflate(compressed, 'deflate', OPENPGP_MAX_MESSAGE_BYTES, 'OpenPGP')));
+      throw new Error(`OpenPGP: Compression algorithm ${algorithm} is not supported (only ZIP and ZLIB).`);
+    }
+    if (tag !== TAG_ONE_PASS_SIGNATURE && tag !== TAG_SIGNATURE && tag !== TAG_MARKER) {
+      throw new Error(`OpenPGP: Unexpected packet (tag ${tag}) in the decrypted message.`);
+    }
+  }
+  throw new Error('OpenPGP: The message contains no literal data.');
+};
+
+// --- Public API ---
+
+// Encrypts a literal under the password and returns the ASCII-armored message.
+export const encryptOpenPgpMessage = async (literal: OpenPgpLiteral, password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(S2K_SALT_NUM_BYTES));
+  const s2k: S2kSpecifier = { type: S2K_ITERATED_SALTED, hash: HASH_SHA_256, salt, codedCount: OPENPGP_S2K_CODED_COUNT };
+  const key = await deriveS2kKey(s2k, password, SYMMETRIC_KEY_LENGTHS[SYMMETRIC_AES_256]);
+  const skesk = writePacket(TAG_SKESK, new Uint8Array([4, SYMMETRIC_AES_256, s2k.type, s2k.hash, ...salt, s2k.codedCount]));
+
+  // Random block with its last two bytes repeated (the password quick check), the literal, then the MDC
+  const prefix = crypto.getRandomValues(new Uint8Array(BLOCK_NUM_BYTES + 2));
+  prefix.copyWithin(BLOCK_NUM_BYTES, BLOCK_NUM_BYTES - 2, BLOCK_NUM_BYTES);
+  const hashed = concatBytes(prefix, writePacket(TAG_LITERAL, encodeLiteral(literal)), MDC_HEADER);
+  const plaintext = concatBytes(hashed, await digest('SHA-1', hashed));
+  const seipd = writePacket(TAG_SEIPD, concatBytes(new Uint8Array([1]), cfb(key, plaintext, false)));
+  return armor(concatBytes(skesk, seipd));
+};
+
+// Length of the armored message encryptOpenPgpMessage produces for a literal of this size.
+export const estimateOpenPgpMessageLength = (dataLength: number, fileNameLength = 0): number => {
+  const literalBody = 6 + Math.min(fileNameLength, 255) + dataLength;
+  const seipdBody = 1 + BLOCK_NUM_BYTES + 2 + packetHeaderLength(literalBody) + literalBody + MDC_NUM_BYTES;
+  const skeskBody = 4 + S2K_SALT_NUM_BYTES + 1;
+  const binaryLength = packetHeaderLength(skeskBody) + skeskBody + packetHeaderLength(seipdBody) + seipdBody;
+  const base64Length = 4 * Math.ceil(binaryLength / 3);
+  const lineBreaks = Math.ceil(base64Length / OPENPGP_ARMOR_LINE_LENGTH);
+  return ARMOR_BEGIN.length + 2 + base64Length + lineBreaks + 6 + ARMOR_END.length + 1;
+};
+
+// Decrypts an ASCII-armored, password-encrypted OpenPGP message back to its literal data.
+export const decryptOpenPgpMessage = async (armored: string, password: string): Promise<OpenPgpLiteral> => {
+  const packets = readPackets(dearmor(armored));
+  const encrypted = packets.find(p => p.tag === TAG_SEIPD || p.tag === TAG_SYMMETRIC_DATA || p.tag === TAG_OCB_DATA);
+  if (!encrypted) throw new Error('OpenPGP: The message has no encrypted data packet.');
+  if (encrypted.tag === TAG_SYMMETRIC_DATA) throw new Error('OpenPGP: The message uses the obsolete encryption without integrity protection, which is not supported.');
+  if (encrypted.tag === TAG_OCB_DATA || encrypted.body[0] !== 1) {
+    throw new Error('OpenPGP: AEAD-encrypted messages are not supported. Encrypt with SEIPD v1 (for GnuPG, --rfc4880).');
+  }
+  const skesks = packets.filter(p => p.tag === TAG_SKESK);
+  if (skesks.length === 0) throw new Error('OpenPGP: The message is encrypted for a public key, not with a password.');
+
+  for (const { body } of skesks) {
+    if (body[0] !== 4) continue; // v5/v6 SKESK belong to AEAD messages
+    const algorithm = body[1];
+    const s2kType = body[2];
+    if (!SYMMETRIC_KEY_LENGTHS[algorithm]) throw new Error(`OpenPGP: Cipher algorithm ${algorithm} is not supported (only AES).`);
+    if (s2kType !== S2K_SIMPLE && s2kType !== S2K_SALTED && s2kType !== S2K_ITERATED_SALTED) throw new Error(`OpenPGP: S2K type ${s2kType} is not supported.`);
+    const saltEnd = 4 + (s2kType === S2K_SIMPLE ? 0 : S2K_SALT_NUM_BYTES);
+    const s2k: S2kSpecifier = { type: s2kType, hash: body[3], salt: body.subarray(4, saltEnd), codedCount: body[saltEnd] };
+    const specifierEnd = saltEnd + (s2kType === S2K_ITERATED_SALTED ? 1 : 0);
+    if (body.length < specifierEnd) throw new Error('OpenPGP: The password packet is truncated.');
+
+    let sessionAlgorithm = algorithm;
+    let sessionKey = await deriveS2kKey(s2k, password, SYMMETRIC_KEY_LENGTHS[algorithm]);
+    if (body.length > specifierEnd) {
+      // The S2K key encrypts a session key: algorithm octet, then the key
+      const decrypted = cfb(sessionKey, body.subarray(specifierEnd), true);
+      sessionAlgorithm = decrypted[0];
+      if (SYMMETRIC_KEY_LENGTHS[sessionAlgorithm] !== decrypted.length - 1) continue; // Wrong password
+      sessionKey = decrypted.slice(1);
+    }
+
+    const plaintext = cfb(sessionKey, encrypted.body.subarray(1), true);
+    if (plaintext.length < BLOCK_NUM_BYTES + 2 + MDC_NUM_BYTES) throw new Error('OpenPGP: The encrypted data packet is truncated.');
+    if (plaintext[BLOCK_NUM_BYTES - 2] !== plaintext[BLOCK_NUM_BYTES] || plaintext[BLOCK_NUM_BYTES - 1] !== plaintext[BLOCK_NUM_BYTES + 1]) continue;
+
+    const mdcStart = plaintext.length - MDC_NUM_BYTES;
+    const hashed = plaintext.subarray(0, mdcStart + 2);
+    if (plaintext[mdcStart] !== MDC_HEADER[0] || plaintext[mdcStart + 1] !== MDC_HEADER[1]
+      || !constantTimeEqual(await digest('SHA-1', hashed), plaintext.subarray(mdcStart + 2))) {
+      throw new Error('OpenPGP: Modification detected. The message has been altered or is corrupted.');
+    }
+    return findLiteral(readPackets(plaintext.subarray(BLOCK_NUM_BYTES + 2, mdcStart)));
+  }
+  throw new Error('OpenPGP: Decryption failed. This usually means an incorrect password or corrupted data.');
+};
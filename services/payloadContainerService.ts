@@ -0,0 +1,330 @@
+import { CONTAINER_MAGIC, CONTAINER_FORMAT_VERSION, CONTAINER_HEADER_NUM_BYTES, STEGO_CONTEXT_NUM_BYTES, MAX_MESSAGE_LENGTH_CHARS, MAX_HIDDEN_FILE_SIZE_BYTES } from '../constants.ts';
+import { ContainerMethod, ContainerFlag, PayloadFormat, type ContainerHeader, type HiddenFile, type DecodedPayload, type StegoContext, type EncryptionOptions, type EncryptionSecret, type DecryptionSecret } from '../types.ts';
+import { crc32, binaryToBytes, formatBytes } from '../utils.ts';
+import { openSignedPlaintext, UNSIGNED } from './signatureService.ts';
+import { encryptBytes, decryptBytes, readPayloadAdditionalData, encodeBinaryPayload, decodeBinaryPayload, KEY_FILES_REQUIRED_MESSAGE } from './cryptoService.ts';
+import { deflate, inflate } from './compressionService.ts';
+import { hasKeyFiles } from './keyFileService.ts';
+import { encryptOpenPgpMessage, decryptOpenPgpMessage, isArmoredOpenPgpMessage } from './openPgpService.ts';
+
+export const CONTAINER_METHOD_NAMES: Record<ContainerMethod, string> = {
+  [ContainerMethod.LSB]: 'LSB',
+  [ContainerMethod.PatternLSB]: 'Pattern LSB',
+  [ContainerMethod.MD5Pattern]: 'MD5 Pattern',
+  [ContainerMethod.RD]: 'RD Pattern',
+  [ContainerMethod.Morse]: 'Morse Pattern',
+  [ContainerMethod.JpegDct]: 'JPEG DCT',
+};
+
+const MAGIC_BYTES = new TextEncoder().encode(CONTAINER_MAGIC);
+// The CRC covers everything in the header before the CRC field itself, followed by the payload.
+const CHECKSUM_OFFSET = CONTAINER_HEADER_NUM_BYTES - 4;
+
+// Wraps a payload in the container header. The result is what gets embedded in the image.
+export const buildContainer = (payload: Uint8Array, method: ContainerMethod, flags: number = 0, params: number = 0): Uint8Array => {
+  if (payload.length > 0xFFFFFFFF) {
+    throw new Error('Payload is too large for the container format.');
+  }
+  const container = new Uint8Array(CONTAINER_HEADER_NUM_BYTES + payload.length);
+  const view = new DataView(container.buffer);
+  container.set(MAGIC_BYTES, 0);
+  view.setUint8(4, CONTAINER_FORMAT_VERSION);
+  view.setUint8(5, method);
+  view.setUint16(6, flags);
+  view.setUint16(8, params);
+  view.setUint32(10, payload.length);
+  container.set(payload, CONTAINER_HEADER_NUM_BYTES);
+  view.setUint32(CHECKSUM_OFFSET, crc32(payload, crc32(container.subarray(0, CHECKSUM_OFFSET))));
+  return container;
+};
+
+export const hasContainerMagic = (bytes: Uint8Array): boolean => {
+  if (bytes.length < MAGIC_BYTES.length) return false;
+  return MAGIC_BYTES.every((b, i) => bytes[i] === b);
+};
+
+// Parses the fixed-size header. Throws if the magic is missing or the version is unknown.
+export const parseContainerHeader = (headerBytes: Uint8Array, label: string = 'Container'): ContainerHeader => {
+  if (headerBytes.length < CONTAINER_HEADER_NUM_BYTES || !hasContainerMagic(headerBytes)) {
+    throw new Error(`${label}: No payload container header found.`);
+  }
+  const view = new DataView(headerBytes.buffer, headerBytes.byteOffset, CONTAINER_HEADER_NUM_BYTES);
+  const version = view.getUint8(4);
+  if (version > CONTAINER_FORMAT_VERSION) {
+    throw new Error(`${label}: Payload container version ${version} is newer than this app supports (max ${CONTAINER_FORMAT_VERSION}).`);
+  }
+  const method = view.getUint8(5);
+  if (!(method in CONTAINER_METHOD_NAMES)) {
+    throw new Error(`${label}: Payload container names an unknown method (id ${method}). Data might be corrupted.`);
+  }
+  return {
+    version,
+    method: method as ContainerMethod,
+    flags: view.getUint16(6),
+    params: view.getUint16(8),
+    payloadLength: view.getUint32(10),
+    checksum: view.getUint32(CHECKSUM_OFFSET),
+  };
+};
+
+// Verifies the CRC of an extracted payload against the header it came with.
+export const verifyContainerChecksum = (headerBytes: Uint8Array, header: ContainerHeader, payload: Uint8Array, label: string = 'Container'): void => {
+  const actual = crc32(payload, crc32(headerBytes.subarray(0, CHECKSUM_OFFSET)));
+  if (actual !== header.checksum) {
+    throw new Error(`${label}: Payload checksum mismatch. The image data has been modified or corrupted.`);
+  }
+};
+
+export const assertContainerMethod = (header: ContainerHeader, expectedMethod: ContainerMethod, label: string): void => {
+  if (header.method !== expectedMethod) {
+    throw new Error(`${label}: This image was encoded with the ${CONTAINER_METHOD_NAMES[header.method]} method, not ${CONTAINER_METHOD_NAMES[expectedMethod]}.`);
+  }
+};
+
+// Splits a complete container (header followed by payload) into its parts, validating everything.
+export const parseContainer = (bytes: Uint8Array, label: string = 'Container'): { header: ContainerHeader; payload: Uint8Array } => {
+  const header = parseContainerHeader(bytes, label);
+  const end = CONTAINER_HEADER_NUM_BYTES + header.payloadLength;
+  if (bytes.length < end) {
+    throw new Error(`${label}: Payload is truncated. Expected ${header.payloadLength} bytes but only ${Math.max(0, bytes.length - CONTAINER_HEADER_NUM_BYTES)} are present.`);
+  }
+  const payload = bytes.slice(CONTAINER_HEADER_NUM_BYTES, end);
+  verifyContainerChecksum(bytes, header, payload, label);
+  return { header, payload };
+};
+
+// Reads a container from a bit source such as the LSBs of an image, pulling only as many bits
+// as the header declares. Returns null when the source does not start with the container magic,
+// so callers can fall back to the legacy terminator format.
+export const readContainerFromBits = (
+  readBits: (offset: number, count: number) => string,
+  availableBits: number,
+  expectedMethod: ContainerMethod,
+  label: string,
+): { header: ContainerHeader; payload: Uint8Array } | null => {
+  const headerBits = CONTAINER_HEADER_NUM_BYTES * 8;
+  if (availableBits < headerBits) return null;
+
+  const headerBytes = binaryToBytes(readBits(0, headerBits));
+  if (!hasContainerMagic(headerBytes)) return null;
+
+  const header = parseContainerHeader(headerBytes, label);
+  assertContainerMethod(header, expectedMethod, label);
+  const payloadBits = header.payloadLength * 8;
+  if (headerBits + payloadBits > availableBits) {
+    throw new Error(`${label}: Container header declares a ${header.payloadLength}-byte payload, which exceeds the image capacity. Data is likely corrupted.`);
+  }
+
+  const payload = binaryToBytes(readBits(headerBits, payloadBits));
+  verifyContainerChecksum(headerBytes, header, payload, label);
+  return { header, payload };
+};
+
+// Decodes a container payload that holds text (e.g. an encrypted payload string).
+export const containerPayloadToText = (payload: Uint8Array, label: string): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(payload);
+  } catch {
+    throw new Error(`${label}: Extracted payload is not valid text. Data might be corrupted.`);
+  }
+};
+
+// The bytes an encrypted payload string is stored as in a container with these flags.
+export const encodeContainerPayload = (encryptedPayload: string, flags: number): Uint8Array =>
+  flags & ContainerFlag.BinaryPayload ? encodeBinaryPayload(encryptedPayload) : new TextEncoder().encode(encryptedPayload);
+
+// The encrypted payload string stored in a container. A share of a split payload is not one on its own.
+export const decodeContainerPayload = (payload: Uint8Array, header: ContainerHeader, label: string): string => {
+  if (header.flags & ContainerFlag.ShamirShare) {
+    throw new Error(`${label}: This image holds one share of a message split across several images. Decode the images together, in the Universal Decoder or with decode --shares.`);
+  }
+  return header.flags & ContainerFlag.BinaryPayload ? decodeBinaryPayload(payload, label) : containerPayloadToText(payload, label);
+};
+
+// --- Stego context ---
+// Encoders bind the context a payload is hidden in to its encryption, and decoders rebuild it from the
+// header and carrier they actually found. The context is also recorded in the payload, so a mismatch is
+// reported as such rather than as a failed decryption; editing the recorded copy breaks the tag instead.
+
+// Context of a container this app is about to write.
+export const stegoContext = (method: ContainerMethod, flags: number, bitDepth = 0, width = 0, height = 0): StegoContext =>
+  ({ version: CONTAINER_FORMAT_VERSION, method, flags, bitDepth, width, height });
+
+// Context of a container that was found, from its header and carrier.
+export const headerStegoContext = (header: ContainerHeader, bitDepth = 0, width = 0, height = 0): StegoContext =>
+  ({ version: header.version, method: header.method, flags: header.flags, bitDepth, width, height });
+
+export const encodeStegoContext = (context: StegoContext): Uint8Array => {
+  const bytes = new Uint8Array(STEGO_CONTEXT_NUM_BYTES);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, context.version);
+  view.setUint8(1, context.method);
+  view.setUint16(2, context.flags);
+  view.setUint8(4, context.bitDepth);
+  view.setUint32(5, context.width);
+  view.setUint32(9, context.height);
+  return bytes;
+};
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean => a.length === b.length && a.every((v, i) => v === b[i]);
+
+const decodeStegoContext = (bytes: Uint8Array): StegoContext | null => {
+  if (bytes.length !== STEGO_CONTEXT_NUM_BYTES) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { version: view.getUint8(0), method: view.getUint8(1), flags: view.getUint16(2), bitDepth: view.getUint8(4), width: view.getUint32(5), height: view.getUint32(9) };
+};
+
+// e.g. "LSB container v2, flags 0x0000, 512×512 carrier, 1 bit per value"
+const describeStegoContext = (context: StegoContext): string => [
+  `${CONTAINER_METHOD_NAMES[context.method] ?? `unknown method ${context.method}`} container v${context.version}`,
+  `flags 0x${context.flags.toString(16).padStart(4, '0')}`,
+  ...(context.width || context.height ? [`${context.width}×${context.height} carrier`] : []),
+  ...(context.bitDepth ? [`${context.bitDepth} bit${context.bitDepth === 1 ? '' : 's'} per value`] : []),
+].join(', ');
+
+// Encrypts a secret for the container it will be hidden in. Returns the encrypted payload string.
+// OpenPGP messages cannot carry additional data, so they are not bound to the context.
+export const encryptSecretForContainer = async (secret: string | HiddenFile, password: EncryptionSecret, encryption: EncryptionOptions, context: StegoContext): Promise<string> => {
+  if (encryption.format === PayloadFormat.OpenPgp) return encryptSecretAsOpenPgp(secret, password, encryption);
+  const plaintext = serializeSecret(secret);
+  return encryptBytes(context.flags & ContainerFlag.Compressed ? await deflate(plaintext) : plaintext, password, { ...encryption, additionalData: encodeStegoContext(context) });
+};
+
+// Decrypts a container payload found in the given context. Payloads from version 1 containers carry no
+// context and decrypt as before.
+export const decryptContainerSecret = async (encryptedPayload: string, password: DecryptionSecret, context: StegoContext, label: string): Promise<DecodedPayload> => {
+  if ((context.flags & ContainerFlag.KeyFilesRequired) && !hasKeyFiles(password)) {
+    throw new Error(`${label}: ${KEY_FILES_REQUIRED_MESSAGE}`);
+  }
+  if (isArmoredOpenPgpMessage(encryptedPayload)) return decryptOpenPgpSecret(encryptedPayload, password);
+  const recorded = readPayloadAdditionalData(encryptedPayload);
+  if (recorded && !bytesEqual(recorded, encodeStegoContext(context))) {
+    const original = decodeStegoContext(recorded);
+    throw new Error(
+      `${label}: Stego context mismatch. The payload was encrypted for ${original ? describeStegoContext(original) : 'another context'}, but was found in ${describeStegoContext(context)}. ` +
+      'It has been moved from another image or method, or its container header has been modified.'
+    );
+  }
+  return deserializeSecret(await decryptBytes(encryptedPayload, password), (context.flags & ContainerFlag.Compressed) !== 0);
+};
+
+// Decrypts an encrypted payload given as text: one of ours, or an ASCII-armored OpenPGP message.
+// A payload copied out of a container is decompressed if its recorded context says so.
+export const decryptPayloadText = async (encryptedPayload: string, password: DecryptionSecret): Promise<DecodedPayload> => {
+  if (isArmoredOpenPgpMessage(encryptedPayload)) return decryptOpenPgpSecret(encryptedPayload, password);
+  const recorded = readPayloadAdditionalData(encryptedPayload);
+  const compressed = ((recorded && decodeStegoContext(recorded)?.flags) ?? 0) & ContainerFlag.Compressed;
+  return deserializeSecret(await decryptBytes(encryptedPayload, password), compressed !== 0);
+};
+
+// --- OpenPGP payloads ---
+// Text goes into a UTF-8 literal and files into a binary literal under their name. OpenPGP has no MIME
+// type, and this app only makes and reads password-encrypted messages.
+
+const encryptSecretAsOpenPgp = (secret: string | HiddenFile, password: EncryptionSecret, encryption: EncryptionOptions): Promise<string> => {
+  if (typeof password !== 'string') throw new Error('OpenPGP: Messages can only be protected by a password, without key files or public keys.');
+  if (encryption.signingKey) throw new Error('OpenPGP: Signing is not supported for OpenPGP messages.');
+  return encryptOpenPgpMessage(isHiddenFile(secret)
+    ? { data: secret.data, fileName: secret.name, binary: true }
+    : { data: new TextEncoder().encode(secret), fileName: '', binary: false }, password);
+};
+
+const decryptOpenPgpSecret = async (armored: string, password: DecryptionSecret): Promise<DecodedPayload> => {
+  if (typeof password !== 'string' && !hasKeyFiles(password)) throw new Error('This message was encrypted with a password, not for a public key.');
+  const literal = await decryptOpenPgpMessage(armored, typeof password === 'string' ? password : password.password);
+  // GnuPG names literals from stdin "" (or "_CONSOLE" for its for-your-eyes-only mode)
+  const hasName = literal.fileName !== '' && literal.fileName !== '_CONSOLE';
+  if (!hasName) {
+    try {
+      return { kind: 'text', text: new TextDecoder('utf-8', { fatal: true }).decode(literal.data), file: null, signature: UNSIGNED };
+    } catch {
+      // Binary data without a name: offer it as a file
+    }
+  }
+  const file: HiddenFile = { name: hasName ? literal.fileName : 'message.bin', mimeType: 'application/octet-stream', data: literal.data };
+  return { kind: 'file', text: `Hidden file "${file.name}" (${file.mimeType}, ${formatBytes(file.data.length)})`, file, signature: UNSIGNED };
+};
+
+// --- Secret (plaintext) records ---
+// Text messages are encrypted as plain UTF-8. Files are encrypted as a record:
+// FILE_RECORD_MAGIC | name length (u16) | name (UTF-8) | MIME length (u16) | MIME (UTF-8) | file bytes
+// The name and MIME type live inside the encryption so they are never visible in the image.
+const FILE_RECORD_MAGIC = new Uint8Array([0x00, 0x53, 0x46, 0x01]);
+
+export const isHiddenFile = (secret: string | HiddenFile): secret is HiddenFile => typeof secret !== 'string';
+
+// Throws if a message or file is empty or over the size limits.
+export const validateSecret = (secret: string | HiddenFile): void => {
+  if (!isHiddenFile(secret)) {
+    if (!secret) throw new Error('No message provided.');
+    if (secret.length > MAX_MESSAGE_LENGTH_CHARS) {
+      throw new Error(`Message is too long. Maximum ${MAX_MESSAGE_LENGTH_CHARS} characters allowed.`);
+    }
+    return;
+  }
+  if (secret.data.length === 0) throw new Error('The selected file is empty.');
+  if (secret.data.length > MAX_HIDDEN_FILE_SIZE_BYTES) {
+    throw new Error(`File is too large. Maximum ${formatBytes(MAX_HIDDEN_FILE_SIZE_BYTES)} allowed.`);
+  }
+};
+
+// Container flags describing a secret and how it is encrypted, to be OR-ed into the header flags.
+// Compression and the binary form only apply to native payloads.
+export const secretContainerFlags = (secret: string | HiddenFile, password: EncryptionSecret, encryption: EncryptionOptions): number => {
+  const native = encryption.format !== PayloadFormat.OpenPgp;
+  return (isHiddenFile(secret) ? ContainerFlag.FilePayload : 0)
+    | (hasKeyFiles(password) ? ContainerFlag.KeyFilesRequired : 0)
+    | (native && encryption.compress ? ContainerFlag.Compressed : 0)
+    | (native && encryption.binaryPayload ? ContainerFlag.BinaryPayload : 0);
+};
+
+export const serializeSecret = (secret: string | HiddenFile): Uint8Array => {
+  const encoder = new TextEncoder();
+  if (!isHiddenFile(secret)) return encoder.encode(secret);
+
+  const name = encoder.encode(secret.name).slice(0, 0xFFFF);
+  const mimeType = encoder.encode(secret.mimeType).slice(0, 0xFFFF);
+  const record = new Uint8Array(FILE_RECORD_MAGIC.length + 2 + name.length + 2 + mimeType.length + secret.data.length);
+  const view = new DataView(record.buffer);
+  let offset = 0;
+  record.set(FILE_RECORD_MAGIC, offset); offset += FILE_RECORD_MAGIC.length;
+  view.setUint16(offset, name.length); offset += 2;
+  record.set(name, offset); offset += name.length;
+  view.setUint16(offset, mimeType.length); offset += 2;
+  record.set(mimeType, offset); offset += mimeType.length;
+  record.set(secret.data, offset);
+  return record;
+};
+
+// Also checks the signature when the plaintext is a signed record. Signatures cover the plaintext as
+// encrypted, so a compressed secret is inflated after its signature is checked.
+export const deserializeSecret = async (decrypted: Uint8Array, compressed = false): Promise<DecodedPayload> => {
+  const opened = await openSignedPlaintext(decrypted);
+  const signature = opened.signature;
+  const plaintext = compressed ? await inflate(opened.plaintext, undefined, undefined, 'Decode') : opened.plaintext;
+  const isFileRecord = plaintext.length >= FILE_RECORD_MAGIC.length && FILE_RECORD_MAGIC.every((b, i) => plaintext[i] === b);
+  if (!isFileRecord) {
+    const text = containerPayloadToText(plaintext, 'Decode');
+    return { kind: 'text', text, file: null, signature };
+  }
+
+  const decoder = new TextDecoder();
+  const view = new DataView(plaintext.buffer, plaintext.byteOffset, plaintext.byteLength);
+  let offset = FILE_RECORD_MAGIC.length;
+  const readField = (): string => {
+    if (offset + 2 > plaintext.length) throw new Error('Decode: Hidden file record is truncated.');
+    const length = view.getUint16(offset); offset += 2;
+    if (offset + length > plaintext.length) throw new Error('Decode: Hidden file record is truncated.');
+    const value = decoder.decode(plaintext.subarray(offset, offset + length)); offset += length;
+    return value;
+  };
+  const name = readField() || 'hidden_file';
+  const mimeType = readField() || 'application/octet-stream';
+  const data = plaintext.slice(offset);
+  return {
+    kind: 'file',
+    text: `Hidden file "${name}" (${mimeType}, ${formatBytes(data.length)})`,
+    file: { name, mimeType, data },
+    signature,
+  };
+};
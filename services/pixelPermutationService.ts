@@ -0,0 +1,61 @@
+import { LEGACY_PIXEL_PERMUTATION_VERSION, PIXEL_PERMUTATION_VERSION, PIXEL_PERMUTATION_PBKDF2_ITERATIONS, PIXEL_PERMUTATION_SALT_PREFIX } from '../constants.ts';
+import { KdfAlgorithm, type ContainerHeader } from '../types.ts';
+import { stringToSeed, md5KeyToSeed, seededShuffle, md5 } from '../utils.ts';
+import { deriveKeyBytes } from './kdfService.ts';
+import { chacha20Words, CHACHA20_KEY_NUM_BYTES } from './chacha20Service.ts';
+
+// Stego-key-driven pixel orders for Pattern LSB and MD5 Pattern.
+//
+// The legacy order seeds mulberry32 with a 31-bit string hash (Pattern LSB) or the first 32 bits of
+// MD5 (MD5 Pattern), so every key maps to one of at most 2^32 orders and the key space can be searched
+// in minutes. The current order derives a 256-bit ChaCha20 key from the stego key with PBKDF2, salted
+// with the method and pixel count, and runs an unbiased Fisher-Yates shuffle on its keystream. MD5 Pattern
+// feeds the MD5 hex digest of the key to PBKDF2, so the two methods still read a key differently.
+
+export type PermutationMethod = 'pattern-lsb' | 'md5-pattern';
+
+const PERMUTATION_VERSION_SHIFT = 6;
+const PERMUTATION_VERSION_MASK = 0b11;
+
+// Container params bits used by the permutation version; the LSB layout uses the bits below them.
+export const encodePermutationVersion = (version: number): number => (version & PERMUTATION_VERSION_MASK) << PERMUTATION_VERSION_SHIFT;
+export const decodePermutationVersion = (params: number): number => (params >> PERMUTATION_VERSION_SHIFT) & PERMUTATION_VERSION_MASK;
+
+export const assertPermutationVersion = (header: ContainerHeader, expected: number, label: string): void => {
+  const version = decodePermutationVersion(header.params);
+  if (version !== expected) {
+    throw new Error(`${label}: Container records pixel permutation version ${version}, but it was found with version ${expected}. Data might be corrupted.`);
+  }
+};
+
+// Uniform integer in [0, bound) without modulo bias: words from the incomplete last range are redrawn.
+const uniformBelow = (next: () => number, bound: number): number => {
+  const limit = 0x100000000 - (0x100000000 % bound);
+  let word = next();
+  while (word >= limit) word = next();
+  return word % bound;
+};
+
+const identityOrder = (numPixels: number): number[] => Array.from({ length: numPixels }, (_, i) => i);
+
+export const legacyPixelOrder = (method: PermutationMethod, stegoKey: string, numPixels: number): number[] =>
+  seededShuffle(identityOrder(numPixels), method === 'md5-pattern' ? md5KeyToSeed(stegoKey) : stringToSeed(stegoKey));
+
+export const keyedPixelOrder = async (method: PermutationMethod, stegoKey: string, numPixels: number): Promise<number[]> => {
+  const salt = new TextEncoder().encode(`${PIXEL_PERMUTATION_SALT_PREFIX}|${method}|${numPixels}`);
+  const password = method === 'md5-pattern' ? md5(stegoKey) : stegoKey;
+  const key = await deriveKeyBytes(password, salt, { algorithm: KdfAlgorithm.PBKDF2, iterations: PIXEL_PERMUTATION_PBKDF2_ITERATIONS }, CHACHA20_KEY_NUM_BYTES);
+  const next = chacha20Words(key);
+  const order = identityOrder(numPixels);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = uniformBelow(next, i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+// Pixel orders a decoder should try, newest first.
+export const candidatePixelOrders = async (method: PermutationMethod, stegoKey: string, numPixels: number): Promise<{ version: number; order: number[] }[]> => [
+  { version: PIXEL_PERMUTATION_VERSION, order: await keyedPixelOrder(method, stegoKey, numPixels) },
+  { version: LEGACY_PIXEL_PERMUTATION_VERSION, order: legacyPixelOrder(method, stegoKey, numPixels) },
+];
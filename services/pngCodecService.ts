@@ -0,0 +1,287 @@
+import type { RawImage } from '../types.ts';
+import { crc32 } from '../utils.ts';
+
+// PNG codec working directly on bytes, so pixel values never pass through a canvas.
+//
+// Canvas 2D contexts store premultiplied alpha and may apply colour management, which silently
+// rewrites the low bits of semi-transparent or colour-profiled pixels. Decoding here ignores
+// gAMA/iCCP/cHRM on purpose: stego data lives in the stored sample values, not in what they look like.
+//
+// Everything is decoded to 8-bit RGBA. 16-bit samples keep their high byte; lower bit depths and
+// palettes are expanded. Output is always 8-bit RGB or RGBA, so decoding our own output gives back
+// exactly the pixels that were encoded. Compression uses the platform's (De)CompressionStream.
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const COLOR_TYPE_GRAY = 0;
+const COLOR_TYPE_RGB = 2;
+const COLOR_TYPE_PALETTE = 3;
+const COLOR_TYPE_GRAY_ALPHA = 4;
+const COLOR_TYPE_RGBA = 6;
+
+const SAMPLES_PER_PIXEL: Record<number, number> = {
+  [COLOR_TYPE_GRAY]: 1,
+  [COLOR_TYPE_RGB]: 3,
+  [COLOR_TYPE_PALETTE]: 1,
+  [COLOR_TYPE_GRAY_ALPHA]: 2,
+  [COLOR_TYPE_RGBA]: 4,
+};
+const ALLOWED_BIT_DEPTHS: Record<number, number[]> = {
+  [COLOR_TYPE_GRAY]: [1, 2, 4, 8, 16],
+  [COLOR_TYPE_RGB]: [8, 16],
+  [COLOR_TYPE_PALETTE]: [1, 2, 4, 8],
+  [COLOR_TYPE_GRAY_ALPHA]: [8, 16],
+  [COLOR_TYPE_RGBA]: [8, 16],
+};
+
+// Adam7 passes: x start, y start, x step, y step.
+const ADAM7_PASSES = [
+  [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2],
+];
+
+export const isPng = (bytes: Uint8Array): boolean => bytes.length >= PNG_SIGNATURE.length && PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+
+const runStream = async (data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const output = new Blob([data as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+// --- Decoding ---
+
+const paeth = (a: number, b: number, c: number): number => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+};
+
+// Reverses the per-scanline filters of one (sub)image in place and returns the raw scanlines.
+const unfilter = (data: Uint8Array, offset: number, rowBytes: number, rows: number, bytesPerPixel: number): Uint8Array => {
+  const out = new Uint8Array(rowBytes * rows);
+  for (let y = 0; y < rows; y++) {
+    const filter = data[offset + y * (rowBytes + 1)];
+    const src = offset + y * (rowBytes + 1) + 1;
+    const row = y * rowBytes;
+    const prev = row - rowBytes;
+    for (let x = 0; x < rowBytes; x++) {
+      const raw = data[src + x];
+      const a = x >= bytesPerPixel ? out[row + x - bytesPerPixel] : 0;
+      const b = y > 0 ? out[prev + x] : 0;
+      const c = x >= bytesPerPixel && y > 0 ? out[prev + x - bytesPerPixel] : 0;
+      switch (filter) {
+        case 0: out[row + x] = raw; break;
+        case 1: out[row + x] = raw + a; break;
+        case 2: out[row + x] = raw + b; break;
+        case 3: out[row + x] = raw + ((a + b) >> 1); break;
+        case 4: out[row + x] = raw + paeth(a, b, c); break;
+        default: throw new Error(`PNG: Unknown filter type ${filter}. The file is corrupted.`);
+      }
+    }
+  }
+  return out;
+};
+
+export const decodePng = async (bytes: Uint8Array): Promise<RawImage> => {
+  if (!isPng(bytes)) throw new Error('PNG: Not a PNG file.');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let width = 0, height = 0, bitDepth = 0, colorType = -1, interlace = 0;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idatChunks: Uint8Array[] = [];
+
+  let position = PNG_SIGNATURE.length;
+  while (position + 12 <= bytes.length) {
+    const length = view.getUint32(position);
+    const typeBytes = bytes.subarray(position + 4, position + 8);
+    const type = String.fromCharCode(...typeBytes);
+    const dataStart = position + 8;
+    if (dataStart + length + 4 > bytes.length) throw new Error(`PNG: Chunk ${type} is truncated.`);
+    const chunk = bytes.subarray(dataStart, dataStart + length);
+    if (crc32(chunk, crc32(typeBytes)) !== view.getUint32(dataStart + length)) {
+      throw new Error(`PNG: Checksum mismatch in chunk ${type}. The file is corrupted.`);
+    }
+    position = dataStart + length + 4;
+
+    if (type === 'IHDR') {
+      width = view.getUint32(dataStart);
+      height = view.getUint32(dataStart + 4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      interlace = chunk[12];
+      if (!(colorType in SAMPLES_PER_PIXEL) || !ALLOWED_BIT_DEPTHS[colorType].includes(bitDepth)) {
+        throw new Error(`PNG: Invalid colour type ${colorType} / bit depth ${bitDepth}.`);
+      }
+      if (chunk[10] !== 0 || chunk[11] !== 0 || interlace > 1) throw new Error('PNG: Unsupported compression, filter or interlace method.');
+    } else if (type === 'PLTE') {
+      palette = chunk.slice();
+    } else if (type === 'tRNS') {
+      transparency = chunk.slice();
+    } else if (type === 'IDAT') {
+      idatChunks.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    } else if ((typeBytes[0] & 0x20) === 0) {
+      throw new Error(`PNG: Unknown critical chunk ${type}.`);
+    }
+  }
+
+  if (width === 0 || height === 0) throw new Error('PNG: Missing or empty image header.');
+  if (colorType === COLOR_TYPE_PALETTE && !palette) throw new Error('PNG: Palette image without a PLTE chunk.');
+  if (idatChunks.length === 0) throw new Error('PNG: No image data.');
+
+  const compressed = new Uint8Array(idatChunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  for (const chunk of idatChunks) { compressed.set(chunk, offset); offset += chunk.length; }
+  let inflated: Uint8Array;
+  try {
+    inflated = await runStream(compressed, new DecompressionStream('deflate'));
+  } catch {
+    throw new Error('PNG: Image data could not be decompressed. The file is corrupted.');
+  }
+
+  const samples = SAMPLES_PER_PIXEL[colorType];
+  const bitsPerPixel = samples * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const maxSample = (1 << bitDepth) - 1;
+  const rgba = new Uint8ClampedArray(width * height * 4);
+
+  // Sample `index` of a scanline, reduced to 8 bits (palette indices are returned as-is).
+  const readSample = (row: Uint8Array, rowStart: number, index: number): number => {
+    if (bitDepth === 8) return row[rowStart + index];
+    if (bitDepth === 16) return row[rowStart + index * 2];
+    const bit = index * bitDepth;
+    const value = (row[rowStart + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+    return colorType === COLOR_TYPE_PALETTE ? value : Math.round((value * 255) / maxSample);
+  };
+  // Full-precision sample, needed to compare against tRNS keys.
+  const readRawSample = (row: Uint8Array, rowStart: number, index: number): number => {
+    if (bitDepth === 16) return (row[rowStart + index * 2] << 8) | row[rowStart + index * 2 + 1];
+    if (bitDepth === 8) return row[rowStart + index];
+    const bit = index * bitDepth;
+    return (row[rowStart + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  const transparentKey = (i: number) => transparency && transparency.length >= (i + 1) * 2 ? (transparency[i * 2] << 8) | transparency[i * 2 + 1] : -1;
+
+  const writePixel = (row: Uint8Array, rowStart: number, x: number, target: number): void => {
+    const s = x * samples;
+    let r: number, g: number, b: number, a = 255;
+    switch (colorType) {
+      case COLOR_TYPE_GRAY:
+        r = g = b = readSample(row, rowStart, s);
+        if (readRawSample(row, rowStart, s) === transparentKey(0)) a = 0;
+        break;
+      case COLOR_TYPE_RGB:
+        r = readSample(row, rowStart, s); g = readSample(row, rowStart, s + 1); b = readSample(row, rowStart, s + 2);
+        if (readRawSample(row, rowStart, s) === transparentKey(0) && readRawSample(row, rowStart, s + 1) === transparentKey(1) && readRawSample(row, rowStart, s + 2) === transparentKey(2)) a = 0;
+        break;
+      case COLOR_TYPE_PALETTE: {
+        const index = readSample(row, rowStart, s);
+        if (index * 3 + 2 >= palette!.length) throw new Error('PNG: Palette index out of range. The file is corrupted.');
+        r = palette![index * 3]; g = palette![index * 3 + 1]; b = palette![index * 3 + 2];
+        if (transparency && index < transparency.length) a = transparency[index];
+        break;
+      }
+      case COLOR_TYPE_GRAY_ALPHA:
+        r = g = b = readSample(row, rowStart, s); a = readSample(row, rowStart, s + 1);
+        break;
+      default:
+        r = readSample(row, rowStart, s); g = readSample(row, rowStart, s + 1); b = readSample(row, rowStart, s + 2); a = readSample(row, rowStart, s + 3);
+    }
+    rgba[target] = r; rgba[target + 1] = g; rgba[target + 2] = b; rgba[target + 3] = a;
+  };
+
+  const passes = interlace ? ADAM7_PASSES : [[0, 0, 1, 1]];
+  let dataOffset = 0;
+  for (const [x0, y0, dx, dy] of passes) {
+    const passWidth = Math.ceil((width - x0) / dx);
+    const passHeight = Math.ceil((height - y0) / dy);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    if (dataOffset + (rowBytes + 1) * passHeight > inflated.length) throw new Error('PNG: Image data is truncated.');
+    const rows = unfilter(inflated, dataOffset, rowBytes, passHeight, bytesPerPixel);
+    dataOffset += (rowBytes + 1) * passHeight;
+    for (let y = 0; y < passHeight; y++) {
+      for (let x = 0; x < passWidth; x++) {
+        writePixel(rows, y * rowBytes, x, ((y0 + y * dy) * width + x0 + x * dx) * 4);
+      }
+    }
+  }
+
+  return { width, height, data: rgba };
+};
+
+// --- Encoding ---
+
+const writeChunk = (parts: Uint8Array[], type: string, data: Uint8Array): void => {
+  const header = new Uint8Array(8);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, data.length);
+  const typeBytes = new TextEncoder().encode(type);
+  header.set(typeBytes, 4);
+  const footer = new Uint8Array(4);
+  new DataView(footer.buffer).setUint32(0, crc32(data, crc32(typeBytes)));
+  parts.push(header, data, footer);
+};
+
+// Encodes 8-bit RGBA pixels. Fully opaque images are written as RGB.
+export const encodePng = async (image: RawImage): Promise<Uint8Array> => {
+  const { width, height, data } = image;
+  let opaque = true;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 255) { opaque = false; break; }
+  }
+  const bytesPerPixel = opaque ? 3 : 4;
+  const rowBytes = width * bytesPerPixel;
+
+  const raw = new Uint8Array(rowBytes * height);
+  for (let p = 0, o = 0; p < width * height; p++) {
+    raw[o++] = data[p * 4]; raw[o++] = data[p * 4 + 1]; raw[o++] = data[p * 4 + 2];
+    if (!opaque) raw[o++] = data[p * 4 + 3];
+  }
+
+  // Pick the filter per scanline with the smallest sum of absolute values (the usual heuristic).
+  const filtered = new Uint8Array((rowBytes + 1) * height);
+  const candidate = new Uint8Array(rowBytes);
+  for (let y = 0; y < height; y++) {
+    const row = y * rowBytes;
+    const prev = row - rowBytes;
+    let bestScore = Infinity;
+    for (let filter = 0; filter <= 4; filter++) {
+      let score = 0;
+      for (let x = 0; x < rowBytes; x++) {
+        const a = x >= bytesPerPixel ? raw[row + x - bytesPerPixel] : 0;
+        const b = y > 0 ? raw[prev + x] : 0;
+        const c = x >= bytesPerPixel && y > 0 ? raw[prev + x - bytesPerPixel] : 0;
+        const predictor = filter === 0 ? 0 : filter === 1 ? a : filter === 2 ? b : filter === 3 ? (a + b) >> 1 : paeth(a, b, c);
+        const value = (raw[row + x] - predictor) & 0xff;
+        candidate[x] = value;
+        score += value < 128 ? value : 256 - value;
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        filtered[y * (rowBytes + 1)] = filter;
+        filtered.set(candidate, y * (rowBytes + 1) + 1);
+      }
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8;
+  header[9] = opaque ? COLOR_TYPE_RGB : COLOR_TYPE_RGBA;
+
+  const parts: Uint8Array[] = [PNG_SIGNATURE];
+  writeChunk(parts, 'IHDR', header);
+  writeChunk(parts, 'IDAT', await runStream(filtered, new CompressionStream('deflate')));
+  writeChunk(parts, 'IEND', new Uint8Array(0));
+
+  const png = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) { png.set(part, offset); offset += part.length; }
+  return png;
+};
@@ -0,0 +1,209 @@
+import { SHARE_SET_ID_NUM_BYTES, SHARE_RECORD_HEADER_NUM_BYTES } from '../constants.ts';
+import { ContainerMethod, ContainerFlag, type ContainerHeader, type HiddenFile, type DecodedPayload, type LsbEncodeOptions, type RawImage, type StegoContext, type EncryptionOptions, type EncryptionSecret, type DecryptionSecret } from '../types.ts';
+import { arrayBufferToBase64, arrayBufferToHex } from '../utils.ts';
+import { loadImage, decodeImageBytes, encodeImagePng } from './imageIoService.ts';
+import { isJpeg } from './jpegCodecService.ts';
+import { splitSecret, combineShares, MAX_SHARES, type Share } from './shamirService.ts';
+import { lsbOptionsContainerFlags, lsbStegoContext, lsbContainerStegoContext, extractLsbContainer } from './lsbEmbeddingService.ts';
+import { candidatePixelOrders } from './pixelPermutationService.ts';
+import { embedLsbPayloadPixels } from './steganographyService.ts';
+import { embedPatternLSBPayloadPixels, findPatternLSBContainer } from './steganographyPatternLSBService.ts';
+import { embedMD5PatternPayloadPixels, findMD5PatternContainer } from './steganographyMD5PatternService.ts';
+import { type JpegCover, embedJpegPayloadBytes, readJpegCoefficients, findJpegContainer, loadJpegCoverFile } from './steganographyJpegService.ts';
+import { CONTAINER_METHOD_NAMES, encodeContainerPayload, decodeContainerPayload, validateSecret, secretContainerFlags, stegoContext, headerStegoContext, encryptSecretForContainer, decryptContainerSecret } from './payloadContainerService.ts';
+
+// A message split across several images (k of n): the encrypted container payload is split with
+// Shamir's scheme and each cover hides one share record, flagged ContainerFlag.ShamirShare, with the
+// method chosen for the set. Any `threshold` of the images rebuild the payload; fewer reveal nothing
+// but its length. The payload is encrypted once for all covers, so its stego context has no carrier size.
+
+// The methods that hide in a cover. RD and Morse draw their own images.
+export type ShareMethod = ContainerMethod.LSB | ContainerMethod.PatternLSB | ContainerMethod.MD5Pattern | ContainerMethod.JpegDct;
+export const SHARE_METHODS: ShareMethod[] = [ContainerMethod.LSB, ContainerMethod.PatternLSB, ContainerMethod.MD5Pattern, ContainerMethod.JpegDct];
+
+// One encoded image of a share set: a PNG, or a JPEG for the JPEG DCT method.
+export interface ShareImageFile {
+  bytes: Uint8Array;
+  mimeType: 'image/png' | 'image/jpeg';
+  changedValues: number;
+}
+
+// A share found in an image, with the set it belongs to.
+export interface ImageShare {
+  setId: string; // Hex, random per set
+  threshold: number;
+  count: number;
+  share: Share;
+  header: ContainerHeader;
+}
+
+const encodeShareRecord = (setId: Uint8Array, threshold: number, count: number, share: Share): Uint8Array => {
+  const record = new Uint8Array(SHARE_RECORD_HEADER_NUM_BYTES + share.y.length);
+  record.set(setId, 0);
+  record[SHARE_SET_ID_NUM_BYTES] = threshold;
+  record[SHARE_SET_ID_NUM_BYTES + 1] = count;
+  record[SHARE_SET_ID_NUM_BYTES + 2] = share.x;
+  record.set(share.y, SHARE_RECORD_HEADER_NUM_BYTES);
+  return record;
+};
+
+const decodeShareRecord = (record: Uint8Array, header: ContainerHeader): ImageShare => {
+  const threshold = record[SHARE_SET_ID_NUM_BYTES];
+  const count = record[SHARE_SET_ID_NUM_BYTES + 1];
+  const x = record[SHARE_SET_ID_NUM_BYTES + 2];
+  if (record.length <= SHARE_RECORD_HEADER_NUM_BYTES || threshold < 2 || count < threshold || x < 1 || x > count) {
+    throw new Error('Shares: The share record is damaged.');
+  }
+  const setId = record.slice(0, SHARE_SET_ID_NUM_BYTES);
+  return { setId: arrayBufferToHex(setId.buffer), threshold, count, share: { x, y: record.slice(SHARE_RECORD_HEADER_NUM_BYTES) }, header };
+};
+
+// Context of the shared payload: the LSB methods' bit depth is bits per channel, JPEG DCT's is 1.
+const shareStegoContext = (method: ShareMethod, flags: number, options: LsbEncodeOptions): StegoContext =>
+  method === ContainerMethod.JpegDct ? stegoContext(method, flags, 1) : lsbStegoContext(method, flags, options, 0, 0);
+
+const foundShareStegoContext = (header: ContainerHeader): StegoContext =>
+  header.method === ContainerMethod.JpegDct ? headerStegoContext(header, 1) : lsbContainerStegoContext(header, 0, 0);
+
+const embedShare = async (cover: JpegCover, method: ShareMethod, record: Uint8Array, flags: number, stegoKey: string, options: LsbEncodeOptions): Promise<ShareImageFile> => {
+  if (method === ContainerMethod.JpegDct) {
+    const { jpegBytes, changedValues } = await embedJpegPayloadBytes(cover, record, flags);
+    return { bytes: jpegBytes, mimeType: 'image/jpeg', changedValues };
+  }
+  const pixels = cover instanceof Uint8Array ? await decodeImageBytes(cover) : cover;
+  const { image, changedValues } = method === ContainerMethod.LSB
+    ? embedLsbPayloadPixels(pixels, record, flags, options)
+    : method === ContainerMethod.PatternLSB
+      ? await embedPatternLSBPayloadPixels(pixels, record, flags, stegoKey, options)
+      : await embedMD5PatternPayloadPixels(pixels, record, flags, stegoKey, options);
+  return { bytes: await encodeImagePng(image), mimeType: 'image/png', changedValues };
+};
+
+// --- Headless core: works on bytes and pixels, no DOM needed ---
+
+// Encrypts the secret once and hides one share in each cover, in order. Covers are PNG bytes or pixels,
+// and for JPEG DCT also JPEG bytes (see JpegCover).
+export const encodeShareSet = async (covers: JpegCover[], method: ShareMethod, threshold: number, secret: string | HiddenFile, password: EncryptionSecret, stegoKey: string = '', options: LsbEncodeOptions = {}, encryption: EncryptionOptions = {}): Promise<{ images: ShareImageFile[]; encryptedPayload: string }> => {
+  validateSecret(secret);
+  if (!password) throw new Error('Shares: A password is required for encryption.');
+  if (!SHARE_METHODS.includes(method)) throw new Error(`Shares: The ${CONTAINER_METHOD_NAMES[method]} method draws its own image, so it cannot hide shares in covers.`);
+  if (covers.length < 2 || covers.length > MAX_SHARES) throw new Error(`Shares: Choose between 2 and ${MAX_SHARES} cover images.`);
+  if (!Number.isInteger(threshold) || threshold < 2 || threshold > covers.length) {
+    throw new Error(`Shares: The number of images needed must be between 2 and the number of covers (${covers.length}).`);
+  }
+  if ((method === ContainerMethod.PatternLSB || method === ContainerMethod.MD5Pattern) && !stegoKey) {
+    throw new Error(`Shares: A Stego Key is required for ${CONTAINER_METHOD_NAMES[method]}.`);
+  }
+  if (method === ContainerMethod.PatternLSB && options.adaptive && options.embeddingMode === 'matching') {
+    throw new Error('Adaptive embedding requires LSB replacement: LSB matching can change the higher bit planes the pixel selection is based on.');
+  }
+
+  // 1. Encrypt the message or file record once, bound to the method and flags every share carries
+  const flags = secretContainerFlags(secret, password, encryption) | (method === ContainerMethod.JpegDct ? 0 : lsbOptionsContainerFlags(options)) | ContainerFlag.ShamirShare;
+  const encryptedPayload = await encryptSecretForContainer(secret, password, encryption, shareStegoContext(method, flags, options));
+
+  // 2. Split the container payload, and hide each share with the set's id in its own cover
+  const setId = crypto.getRandomValues(new Uint8Array(SHARE_SET_ID_NUM_BYTES));
+  const shares = splitSecret(encodeContainerPayload(encryptedPayload, flags), threshold, covers.length);
+  const images: ShareImageFile[] = [];
+  for (let i = 0; i < covers.length; i++) {
+    try {
+      images.push(await embedShare(covers[i], method, encodeShareRecord(setId, threshold, covers.length, shares[i]), flags, stegoKey, options));
+    } catch (e: any) {
+      throw new Error(`Shares: Cover ${i + 1}: ${e.message}`);
+    }
+  }
+  return { images, encryptedPayload };
+};
+
+// Looks for a share in one image with every cover method: JPEG DCT in JPEG bytes, and the LSB methods
+// in the decoded pixels, if any. Pattern LSB and MD5 Pattern are only tried with a stego key.
+// Returns null when no method finds a container, and throws when the image holds a whole message.
+export const findImageShare = async (bytes: Uint8Array, image: RawImage | null, stegoKey: string = ''): Promise<ImageShare | null> => {
+  const finders: (() => Promise<{ header: ContainerHeader; payload: Uint8Array } | null>)[] = [];
+  if (isJpeg(bytes)) {
+    finders.push(async () => {
+      try {
+        return findJpegContainer(readJpegCoefficients(bytes));
+      } catch {
+        return null; // Not a baseline JPEG, so not one of the JPEG DCT method's
+      }
+    });
+  }
+  if (image) {
+    const numPixels = image.width * image.height;
+    finders.push(async () => extractLsbContainer(image.data, null, ContainerMethod.LSB, 'Shares'));
+    if (stegoKey) {
+      finders.push(async () => findPatternLSBContainer(image, await candidatePixelOrders('pattern-lsb', stegoKey, numPixels)));
+      finders.push(async () => findMD5PatternContainer(image, await candidatePixelOrders('md5-pattern', stegoKey, numPixels)));
+    }
+  }
+
+  // A damaged container for one method does not stop the others
+  let firstError: Error | null = null;
+  for (const find of finders) {
+    let container;
+    try {
+      container = await find();
+    } catch (e: any) {
+      firstError ??= e;
+      continue;
+    }
+    if (!container) continue;
+    if (!(container.header.flags & ContainerFlag.ShamirShare)) {
+      throw new Error(`Shares: This image holds a whole ${CONTAINER_METHOD_NAMES[container.header.method]} message, not a share. Decode it on its own.`);
+    }
+    return decodeShareRecord(container.payload, container.header);
+  }
+  if (firstError) throw firstError;
+  return null;
+};
+
+// Rebuilds the payload from shares found in several images and decrypts it. Repeated shares and
+// shares of other sets are left out.
+export const decodeShareSet = async (found: ImageShare[], password: DecryptionSecret): Promise<DecodedPayload> => {
+  if (found.length === 0) throw new Error('Shares: No shares were found in the images.');
+  const sets = new Map<string, ImageShare[]>();
+  for (const share of found) {
+    const set = sets.get(share.setId) ?? [];
+    if (!set.some(s => s.share.x === share.share.x)) set.push(share);
+    sets.set(share.setId, set);
+  }
+  const candidates = [...sets.values()].sort((a, b) => b.length / b[0].threshold - a.length / a[0].threshold);
+  const set = candidates[0];
+  const first = set[0];
+  if (set.length < first.threshold) {
+    throw new Error(
+      `Shares: Found ${set.length} of the ${first.threshold} shares needed to rebuild the message.` +
+      (sets.size > 1 ? ` The images hold shares of ${sets.size} different messages.` : '')
+    );
+  }
+  if (set.some(s => s.threshold !== first.threshold || s.count !== first.count || s.header.method !== first.header.method || s.header.flags !== first.header.flags || s.share.y.length !== first.share.y.length)) {
+    throw new Error('Shares: The shares of this message do not match each other. They have been modified.');
+  }
+
+  const payload = combineShares(set.slice(0, first.threshold).map(s => s.share));
+  const header = { ...first.header, flags: first.header.flags & ~ContainerFlag.ShamirShare };
+  return decryptContainerSecret(decodeContainerPayload(payload, header, 'Shares'), password, foundShareStegoContext(first.header), 'Shares');
+};
+
+// --- Browser adapters: Files in, data URLs out ---
+
+export const encodeShareSetFiles = async (files: File[], method: ShareMethod, threshold: number, secret: string | HiddenFile, password: EncryptionSecret, stegoKey: string = '', options: LsbEncodeOptions = {}, encryption: EncryptionOptions = {}): Promise<{ images: { dataUrl: string; changedValues: number }[]; encryptedPayload: string }> => {
+  const covers = await Promise.all(files.map(file => method === ContainerMethod.JpegDct ? loadJpegCoverFile(file) : loadImage(file)));
+  const { images, encryptedPayload } = await encodeShareSet(covers, method, threshold, secret, password, stegoKey, options, encryption);
+  return {
+    images: images.map(({ bytes, mimeType, changedValues }) => ({ dataUrl: `data:${mimeType};base64,${arrayBufferToBase64(bytes.buffer as ArrayBuffer)}`, changedValues })),
+    encryptedPayload,
+  };
+};
+
+export const findFileShare = async (file: File, stegoKey: string = ''): Promise<ImageShare | null> => {
+  let image: RawImage | null = null;
+  try {
+    image = await loadImage(file);
+  } catch {
+    // JPEG DCT only needs the bytes
+  }
+  return findImageShare(new Uint8Array(await file.arrayBuffer()), image, stegoKey);
+};
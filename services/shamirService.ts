@@ -0,0 +1,66 @@
+// Shamir secret sharing over GF(256), byte by byte. Each byte of the secret is the constant term of a
+// random polynomial of degree threshold - 1, and share x holds the polynomials evaluated at x (1-255).
+// Any `threshold` shares rebuild the secret by Lagrange interpolation at 0; fewer reveal nothing about it.
+
+export const MAX_SHARES = 255;
+
+// GF(2^8) with the AES polynomial x^8 + x^4 + x^3 + x + 1, through log/exp tables with generator 3.
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = EXP[i + 255] = x;
+  LOG[x] = i;
+  x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0); // x · 3
+}
+
+const gfMultiply = (a: number, b: number): number => a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+const gfDivide = (a: number, b: number): number => a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+
+export interface Share {
+  x: number; // 1-255
+  y: Uint8Array; // As long as the secret
+}
+
+// Splits a secret into `count` shares, any `threshold` of which recover it.
+export const splitSecret = (secret: Uint8Array, threshold: number, count: number): Share[] => {
+  if (!Number.isInteger(threshold) || !Number.isInteger(count) || threshold < 2 || threshold > count || count > MAX_SHARES) {
+    throw new Error(`Shamir: Need 2 ≤ threshold ≤ shares ≤ ${MAX_SHARES}.`);
+  }
+  // coefficients[j] holds the degree-j coefficients for every byte; degree 0 is the secret itself.
+  const coefficients = [secret];
+  for (let j = 1; j < threshold; j++) {
+    const random = new Uint8Array(secret.length);
+    for (let offset = 0; offset < random.length; offset += 65536) crypto.getRandomValues(random.subarray(offset, offset + 65536));
+    coefficients.push(random);
+  }
+  return Array.from({ length: count }, (_, i) => {
+    const x = i + 1;
+    const y = new Uint8Array(secret.length);
+    for (let b = 0; b < secret.length; b++) {
+      let value = 0;
+      for (let j = threshold - 1; j >= 0; j--) value = gfMultiply(value, x) ^ coefficients[j][b]; // Horner
+      y[b] = value;
+    }
+    return { x, y };
+  });
+};
+
+// Rebuilds the secret from shares with distinct x. Given fewer shares than the threshold used to split,
+// the result is unrelated random bytes, which is why callers check it (the payload's tag does).
+export const combineShares = (shares: Share[]): Uint8Array => {
+  if (shares.length === 0) throw new Error('Shamir: No shares given.');
+  const length = shares[0].y.length;
+  if (shares.some(s => s.y.length !== length)) throw new Error('Shamir: Shares have different lengths.');
+  if (new Set(shares.map(s => s.x)).size !== shares.length || shares.some(s => s.x < 1 || s.x > MAX_SHARES)) {
+    throw new Error('Shamir: Shares must have distinct indices from 1 to 255.');
+  }
+  // Lagrange basis at 0: l_i(0) = Π_{j≠i} x_j / (x_j - x_i), with subtraction being XOR.
+  const weights = shares.map((si, i) => shares.reduce((w, sj, j) => j === i ? w : gfMultiply(w, gfDivide(sj.x, sj.x ^ si.x)), 1));
+  const secret = new Uint8Array(length);
+  for (let b = 0; b < length; b++) {
+    let value = 0;
+    for (let i = 0; i < shares.length; i++) value ^= gfMultiply(weights[i], shares[i].y[b]);
+    secret[b] = value;
+  }
+  return secret;
+};
@@ -0,0 +1,100 @@
+import { SIGNATURE_CONTEXT, KEY_ID_NUM_BYTES } from '../constants.ts';
+import { SignatureAlgorithm, type SignatureInfo } from '../types.ts';
+import { publicKeyFromPrivateKey, publicKeyId, formatKeyId, signatureAlgorithmOf, signingKeyParams } from './keyPairService.ts';
+
+// Signed plaintexts. A signed record wraps the serialized secret and is encrypted as a whole, so neither
+// the signature nor the signer is visible in the image:
+// SIGNED_RECORD_MAGIC | algorithm (u8) | key id | public key length (u8) | public key (raw) |
+// signature length (u8) | signature | serialized secret
+// The signature covers SIGNATURE_CONTEXT followed by the record without the signature fields.
+const SIGNED_RECORD_MAGIC = new Uint8Array([0x00, 0x53, 0x53, 0x01]);
+
+// Stored in the record; never renumber.
+const ALGORITHM_IDS: Record<SignatureAlgorithm, number> = {
+  [SignatureAlgorithm.EcdsaP256]: 1,
+  [SignatureAlgorithm.Ed25519]: 2,
+};
+
+const SIGN_PARAMS: Record<SignatureAlgorithm, AlgorithmIdentifier | EcdsaParams> = {
+  [SignatureAlgorithm.EcdsaP256]: { name: 'ECDSA', hash: 'SHA-256' },
+  [SignatureAlgorithm.Ed25519]: { name: 'Ed25519' },
+};
+
+export const SIGNATURE_ALGORITHM_NAMES: Record<SignatureAlgorithm, string> = {
+  [SignatureAlgorithm.EcdsaP256]: 'ECDSA P-256',
+  [SignatureAlgorithm.Ed25519]: 'Ed25519',
+};
+
+// Raw public key and signature sizes, for payload size estimates.
+const KEY_AND_SIGNATURE_NUM_BYTES: Record<SignatureAlgorithm, number> = {
+  [SignatureAlgorithm.EcdsaP256]: 65 + 64,
+  [SignatureAlgorithm.Ed25519]: 32 + 64,
+};
+
+export const UNSIGNED: SignatureInfo = { status: 'unsigned', algorithm: null, keyId: null };
+
+const concatBytes = (...parts: ArrayLike<number>[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+const signedData = (header: Uint8Array, plaintext: Uint8Array): Uint8Array =>
+  concatBytes(new TextEncoder().encode(SIGNATURE_CONTEXT), header, plaintext);
+
+export const signPlaintext = async (plaintext: Uint8Array, signingKey: CryptoKey): Promise<Uint8Array> => {
+  const algorithm = signatureAlgorithmOf(signingKey);
+  if (!algorithm || signingKey.type !== 'private') throw new Error('Signature: The signing key must be an ECDSA P-256 or Ed25519 private key.');
+
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', await publicKeyFromPrivateKey(signingKey)));
+  const header = concatBytes(SIGNED_RECORD_MAGIC, [ALGORITHM_IDS[algorithm]], await publicKeyId(publicKey), [publicKey.length], publicKey);
+  const signature = new Uint8Array(await crypto.subtle.sign(SIGN_PARAMS[algorithm], signingKey, signedData(header, plaintext)));
+  return concatBytes(header, [signature.length], signature, plaintext);
+};
+
+// Bytes a signed record adds in front of the plaintext.
+export const signedRecordOverheadBytes = (signingKey: CryptoKey): number => {
+  const algorithm = signatureAlgorithmOf(signingKey);
+  return algorithm ? SIGNED_RECORD_MAGIC.length + 1 + KEY_ID_NUM_BYTES + 1 + 1 + KEY_AND_SIGNATURE_NUM_BYTES[algorithm] : 0;
+};
+
+// Splits a decrypted plaintext into the serialized secret and the result of checking its signature.
+// Plaintexts without a signed record are returned unchanged as unsigned.
+export const openSignedPlaintext = async (record: Uint8Array): Promise<{ plaintext: Uint8Array; signature: SignatureInfo }> => {
+  const isSigned = record.length >= SIGNED_RECORD_MAGIC.length && SIGNED_RECORD_MAGIC.every((b, i) => record[i] === b);
+  if (!isSigned) return { plaintext: record, signature: UNSIGNED };
+
+  let offset = SIGNED_RECORD_MAGIC.length;
+  const read = (length: number): Uint8Array => {
+    if (offset + length > record.length) throw new Error('Decode: Signed record is truncated.');
+    const bytes = record.subarray(offset, offset + length);
+    offset += length;
+    return bytes;
+  };
+  const algorithmId = read(1)[0];
+  const keyId = read(KEY_ID_NUM_BYTES);
+  const publicKey = read(read(1)[0]);
+  const header = record.subarray(0, offset);
+  const signature = read(read(1)[0]);
+  const plaintext = record.slice(offset);
+
+  const algorithm = (Object.keys(ALGORITHM_IDS) as SignatureAlgorithm[]).find(a => ALGORITHM_IDS[a] === algorithmId) ?? null;
+  const result = (status: SignatureInfo['status'], reason?: string) =>
+    ({ plaintext, signature: { status, algorithm, keyId: formatKeyId(keyId), ...(reason && { reason }) } });
+
+  if (!algorithm) return result('invalid', `Unknown signature algorithm ${algorithmId}.`);
+  if (formatKeyId(await publicKeyId(publicKey)) !== formatKeyId(keyId)) return result('invalid', 'The key id does not match the signer\'s public key.');
+
+  let verifyKey: CryptoKey;
+  try {
+    verifyKey = await crypto.subtle.importKey('raw', publicKey, signingKeyParams(algorithm), false, ['verify']);
+  } catch {
+    return result('invalid', `The signer's ${SIGNATURE_ALGORITHM_NAMES[algorithm]} key could not be read, or this browser does not support it.`);
+  }
+  const valid = await crypto.subtle.verify(SIGN_PARAMS[algorithm], verifyKey, signature, signedData(header, plaintext));
+  return valid ? result('verified') : result('invalid', 'The signature does not match the message.');
+};
@@ -0,0 +1,292 @@
+import { CHI_SQUARE_PREFIX_POINTS, CHI_SQUARE_EMBEDDED_PROBABILITY, CHI_SQUARE_MIN_PAIR_COUNT, CHI_SQUARE_MIN_RUN_POINTS, RS_GROUP_MASK, EMBEDDING_RATE_POSSIBLE, EMBEDDING_RATE_LIKELY } from '../constants.ts';
+import type { RawImage, AnalysisChannel, ChiSquareCurve, EmbeddingRateEstimate, ChannelEmbeddingEstimate, StatisticalAnalysis } from '../types.ts';
+import { loadImage } from './imageIoService.ts';
+
+// Offline statistical steganalysis. Unlike the AI analysis, it runs on the device and its numbers can be
+// checked: each test is a published attack on LSB embedding, computed from the pixel values alone.
+
+// Offsets into an RGBA pixel. 'RGB' reads the colour channels interleaved, the order LSB embeds in.
+const CHANNEL_OFFSETS: Record<AnalysisChannel, number[]> = { R: [0], G: [1], B: [2], A: [3], RGB: [0, 1, 2] };
+
+// The alpha channel is only analysed when it is used, i.e. the image is not fully opaque.
+const analysedChannels = (image: RawImage): AnalysisChannel[] => {
+  const numPixels = image.width * image.height;
+  if (numPixels === 0) throw new Error('Steganalysis: The image is empty.');
+  for (let p = 0; p < numPixels; p++) {
+    if (image.data[p * 4 + 3] !== 255) return ['R', 'G', 'B', 'A'];
+  }
+  return ['R', 'G', 'B'];
+};
+
+// The root of a·z² + b·z + c = 0 closest to 0; the vertex when there is no real root.
+const smallestRoot = (a: number, b: number, c: number): number => {
+  if (Math.abs(a) < 1e-12) return Math.abs(b) < 1e-12 ? 0 : -c / b;
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return -b / (2 * a);
+  const root1 = (-b + Math.sqrt(discriminant)) / (2 * a);
+  const root2 = (-b - Math.sqrt(discriminant)) / (2 * a);
+  return Math.abs(root1) < Math.abs(root2) ? root1 : root2;
+};
+
+// --- Chi-square distribution ---
+
+// ln Γ(x) for x > 0 (Lanczos, g = 7).
+const LANCZOS = [0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7];
+const logGamma = (x: number): number => {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  x -= 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (x + i);
+  const t = x + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+// Regularised upper incomplete gamma function Q(a, x): a series below a + 1, a continued fraction above.
+const gammaQ = (a: number, x: number): number => {
+  if (x <= 0) return 1;
+  const logPrefix = a * Math.log(x) - x - logGamma(a);
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 1000 && Math.abs(term) > Math.abs(sum) * 1e-15; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return Math.max(0, 1 - sum * Math.exp(logPrefix));
+  }
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < 1000; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return Math.min(1, h * Math.exp(logPrefix));
+};
+
+// --- Chi-square attack (Westfeld & Pfitzmann, "Attacks on Steganographic Systems", 1999) ---
+
+// LSB replacement moves values only within the pairs (2k, 2k+1) and, where it has written random bits,
+// equalises the two counts of each pair. The statistic compares each even count with its pair's mean;
+// the result is the probability of a fit this close if the counts were equal, i.e. of embedding.
+const pairsOfValuesProbability = (histogram: Uint32Array): number => {
+  let chiSquare = 0;
+  let categories = 0;
+  for (let k = 0; k < 256; k += 2) {
+    const sum = histogram[k] + histogram[k + 1];
+    if (sum < CHI_SQUARE_MIN_PAIR_COUNT) continue;
+    const expected = sum / 2;
+    const diff = histogram[k] - expected;
+    chiSquare += (diff * diff) / expected;
+    categories++;
+  }
+  if (categories < 2) return 0;
+  return gammaQ((categories - 1) / 2, chiSquare / 2);
+};
+
+// Probability of embedding for growing prefixes of one channel, in raster order. Sequential LSB fills
+// the image from the top, so the curve stays near 1 over the embedded part and falls where it ends.
+const chiSquareCurve = (image: RawImage, channel: AnalysisChannel, pointCount: number): ChiSquareCurve => {
+  const offsets = CHANNEL_OFFSETS[channel];
+  const numPixels = image.width * image.height;
+  const histogram = new Uint32Array(256);
+  const points: ChiSquareCurve['points'] = [];
+  let pixel = 0;
+  for (let i = 1; i <= pointCount; i++) {
+    const end = Math.round((i * numPixels) / pointCount);
+    for (; pixel < end; pixel++) {
+      for (const offset of offsets) histogram[image.data[pixel * 4 + offset]]++;
+    }
+    points.push({ fraction: end / numPixels, probability: pairsOfValuesProbability(histogram) });
+  }
+
+  // The first prefixes hold too few samples per pair to be reliable, so the embedded part ends with the
+  // last run of prefixes that look embedded rather than at the first that does not. A lone point above
+  // the threshold is a chance fit, not embedding.
+  const minRun = Math.min(CHI_SQUARE_MIN_RUN_POINTS, points.length);
+  let embeddedFraction = 0;
+  let run = 0;
+  for (const point of points) {
+    run = point.probability >= CHI_SQUARE_EMBEDDED_PROBABILITY ? run + 1 : 0;
+    if (run >= minRun) embeddedFraction = point.fraction;
+  }
+  return { channel, points, embeddedFraction };
+};
+
+// Curves for R, G, B and all colour channels together, plus alpha when the image is not fully opaque.
+export const chiSquareAttack = (image: RawImage, pointCount: number = CHI_SQUARE_PREFIX_POINTS): ChiSquareCurve[] => {
+  const channels: AnalysisChannel[] = ['RGB', ...analysedChannels(image)];
+  return channels.map(channel => chiSquareCurve(image, channel, Math.min(pointCount, image.width * image.height)));
+};
+
+// --- RS analysis (Fridrich, Goljan & Du, "Reliable Detection of LSB Steganography", 2001) ---
+
+// Noise of a group of samples: the sum of the differences between neighbours.
+const groupNoise = (group: Int16Array): number => {
+  let sum = 0;
+  for (let i = 1; i < group.length; i++) sum += Math.abs(group[i] - group[i - 1]);
+  return sum;
+};
+
+// Flipping F1 swaps 2k and 2k+1, which is what LSB replacement does; the shifted flipping F-1 swaps
+// 2k-1 and 2k. Values may leave 0-255 here; only the noise is measured.
+const flip = (value: number): number => value ^ 1;
+const shiftedFlip = (value: number): number => ((value + 1) ^ 1) - 1;
+
+// Regular minus singular groups, as fractions of all groups, under the mask M and its negation -M,
+// for the samples as they are (invert false) or with every LSB flipped.
+const regularMinusSingular = (samples: Uint8Array, width: number, height: number, invert: boolean): { m: number; negM: number } => {
+  const size = RS_GROUP_MASK.length;
+  const group = new Int16Array(size);
+  const flipped = new Int16Array(size);
+  let m = 0, negM = 0, groups = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x + size <= width; x += size) {
+      for (let i = 0; i < size; i++) group[i] = invert ? samples[y * width + x + i] ^ 1 : samples[y * width + x + i];
+      const noise = groupNoise(group);
+      for (let i = 0; i < size; i++) flipped[i] = RS_GROUP_MASK[i] ? flip(group[i]) : group[i];
+      m += Math.sign(groupNoise(flipped) - noise);
+      for (let i = 0; i < size; i++) flipped[i] = RS_GROUP_MASK[i] ? shiftedFlip(group[i]) : group[i];
+      negM += Math.sign(groupNoise(flipped) - noise);
+      groups++;
+    }
+  }
+  return groups > 0 ? { m: m / groups, negM: negM / groups } : { m: 0, negM: 0 };
+};
+
+// In a clean image R-M - S-M equals RM - SM. Embedding at rate p moves RM - SM towards 0 and R-M - S-M
+// away from it, along curves fixed by the measurements at p/2 (the image) and 1 - p/2 (every LSB
+// flipped). Where they would meet gives a quadratic whose root z closest to 0 yields p = z / (z - 1/2).
+const rsEmbeddingRate = (samples: Uint8Array, width: number, height: number): number => {
+  const measured = regularMinusSingular(samples, width, height, false);
+  const inverted = regularMinusSingular(samples, width, height, true);
+  const d0 = measured.m, dNeg0 = measured.negM;
+  const d1 = inverted.m, dNeg1 = inverted.negM;
+  const z = smallestRoot(2 * (d1 + d0), dNeg0 - dNeg1 - d1 - 3 * d0, d0 - dNeg0);
+  return z / (z - 0.5);
+};
+
+// --- Sample Pair Analysis (Dumitrescu, Wu & Wang, "Detection of LSB Steganography via Sample Pair Analysis", 2003) ---
+
+// Pairs of neighbouring samples are grouped by their high bits (the trace set m = |⌊v/2⌋ - ⌊u/2⌋|),
+// which embedding never changes, with u the sample with the smaller high part. Within a set, the four
+// LSB patterns of (u, v) mix as each LSB is flipped with probability q = p/2. In clean images, pairs
+// differing by an odd amount are as often larger-even as larger-odd; undoing the mixing for the q
+// that restores that balance gives the estimate. That condition is a quadratic in q.
+const spaEmbeddingRate = (samples: Uint8Array, width: number, height: number): number => {
+  // counts[m * 4 + (lsb(u) << 1 | lsb(v))]
+  const counts = new Float64Array(128 * 4);
+  const addPair = (a: number, b: number) => {
+    const [u, v] = (a >> 1) <= (b >> 1) ? [a, b] : [b, a];
+    counts[((v >> 1) - (u >> 1)) * 4 + (((u & 1) << 1) | (v & 1))]++;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (x + 1 < width) addPair(samples[i], samples[i + 1]);
+      if (y + 1 < height) addPair(samples[i], samples[i + width]);
+    }
+  }
+
+  // Clean count of pattern `target` from the observed ones, times (1 - 2q)²: each LSB contributes
+  // (1 - q) where it matches and -q where it differs, a linear term [constant, slope].
+  let c0 = 0, c1 = 0, c2 = 0;
+  const addCleanCount = (m: number, target: number, sign: number) => {
+    for (let observed = 0; observed < 4; observed++) {
+      const count = counts[m * 4 + observed] * sign;
+      if (count === 0) continue;
+      const [a0, a1] = (target >> 1) === (observed >> 1) ? [1, -1] : [0, -1];
+      const [b0, b1] = (target & 1) === (observed & 1) ? [1, -1] : [0, -1];
+      c0 += count * a0 * b0;
+      c1 += count * (a0 * b1 + a1 * b0);
+      c2 += count * a1 * b1;
+    }
+  };
+  // Larger odd: pattern 01 of every set (difference 2m + 1), and 10 of set 0 ({2k, 2k+1} either way round).
+  // Larger even: pattern 10 of sets m >= 1 (difference 2m - 1).
+  addCleanCount(0, 0b01, 1);
+  addCleanCount(0, 0b10, 1);
+  for (let m = 1; m < 128; m++) {
+    addCleanCount(m, 0b01, 1);
+    addCleanCount(m, 0b10, -1);
+  }
+  return 2 * smallestRoot(c2, c1, c0);
+};
+
+// --- Embedding rate per channel ---
+
+const channelSamples = (image: RawImage, offset: number): Uint8Array => {
+  const numPixels = image.width * image.height;
+  const samples = new Uint8Array(numPixels);
+  for (let p = 0; p < numPixels; p++) samples[p] = image.data[p * 4 + offset];
+  return samples;
+};
+
+// Near full embedding, or in flat images with no usable groups, the quadratics degenerate; the rate is
+// then kept within ±1 (0 when there is no estimate at all).
+const rateEstimate = (rate: number, numSamples: number): EmbeddingRateEstimate => {
+  const clamped = Number.isFinite(rate) ? Math.max(-1, Math.min(1, rate)) : 0;
+  return { rate: clamped, messageBytes: Math.max(0, Math.round((clamped * numSamples) / 8)) };
+};
+
+// The verdict on a channel uses the mean of the two estimates, which is steadier than either.
+export const meanEmbeddingRate = (estimate: ChannelEmbeddingEstimate): number => (estimate.rs.rate + estimate.spa.rate) / 2;
+
+// RS and SPA estimates for each channel, with the message length at one bit per sample.
+export const estimateEmbeddingRates = (image: RawImage): ChannelEmbeddingEstimate[] => {
+  const numPixels = image.width * image.height;
+  return analysedChannels(image).map(channel => {
+    const samples = channelSamples(image, CHANNEL_OFFSETS[channel][0]);
+    return {
+      channel,
+      rs: rateEstimate(rsEmbeddingRate(samples, image.width, image.height), numPixels),
+      spa: rateEstimate(spaEmbeddingRate(samples, image.width, image.height), numPixels),
+    };
+  });
+};
+
+export type EmbeddingVerdict = 'likely' | 'possible' | 'none';
+
+export const embeddingRateVerdict = (rate: number): EmbeddingVerdict =>
+  rate >= EMBEDDING_RATE_LIKELY ? 'likely' : rate >= EMBEDDING_RATE_POSSIBLE ? 'possible' : 'none';
+
+// Overall verdict from the strongest channel estimate. Images whose histogram is already even give the
+// chi-square attack a fit without any embedding, so a chi-square hit only raises a clean verdict to
+// possible; likely always needs the RS and SPA rate to reach EMBEDDING_RATE_LIKELY.
+export const statisticalVerdict = (analysis: StatisticalAnalysis): EmbeddingVerdict => {
+  const rateVerdict = embeddingRateVerdict(Math.max(0, ...analysis.embeddingRates.map(meanEmbeddingRate)));
+  const chiSquareHit = analysis.chiSquare.some(c => c.embeddedFraction > 0);
+  return chiSquareHit && rateVerdict === 'none' ? 'possible' : rateVerdict;
+};
+
+// Message length in one channel, from its mean rate, at one bit per sample. Rates below the 'possible'
+// threshold are within the estimators' noise on clean images, so they count as no message at all.
+export const channelMessageBytes = (estimate: ChannelEmbeddingEstimate, numPixels: number): number => {
+  const rate = meanEmbeddingRate(estimate);
+  return rate < EMBEDDING_RATE_POSSIBLE ? 0 : Math.round(Math.min(1, rate) * numPixels / 8);
+};
+
+// Estimated message length over all channels.
+export const estimatedMessageBytes = (analysis: StatisticalAnalysis): number =>
+  analysis.embeddingRates.reduce((sum, e) => sum + channelMessageBytes(e, analysis.width * analysis.height), 0);
+
+export const analyzeImageStatistics = (image: RawImage): StatisticalAnalysis => ({
+  width: image.width,
+  height: image.height,
+  chiSquare: chiSquareAttack(image),
+  embeddingRates: estimateEmbeddingRates(image),
+});
+
+// --- Browser adapter ---
+
+export const analyzeImageFileStatistics = async (file: File): Promise<StatisticalAnalysis> => analyzeImageStatistics(await loadImage(file));
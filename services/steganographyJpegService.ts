@@ -0,0 +1,177 @@
+import { CONTAINER_HEADER_NUM_BYTES, JPEG_DCT_QUALITY } from '../constants.ts';
+import { ContainerMethod, type ContainerHeader, type HiddenFile, type DecodedPayload, type JpegImage, type RawImage, type EncryptionOptions, type EncryptionSecret, type DecryptionSecret } from '../types.ts';
+import { arrayBufferToBase64, bytesToBinary } from '../utils.ts';
+import { loadImage, decodeImageBytes } from './imageIoService.ts';
+import { isPng } from './pngCodecService.ts';
+import { isJpeg, decodeJpegCoefficients, encodeJpegCoefficients, pixelsToJpegCoefficients, forEachCodedBlock } from './jpegCodecService.ts';
+import { buildContainer, readContainerFromBits, encodeContainerPayload, decodeContainerPayload, validateSecret, secretContainerFlags, stegoContext, headerStegoContext, encryptSecretForContainer, decryptContainerSecret } from './payloadContainerService.ts';
+
+// JSteg-style embedding: payload bits replace the LSBs of quantised AC coefficients, in scan order.
+// DC coefficients are never touched. Coefficients equal to 0 or 1 are skipped: changing them would
+// create or remove zeros (visible in the run-length coding and detectable) and would make the set of
+// usable coefficients different after embedding. Every other value stays within its {2n, 2n+1} pair,
+// so the decoder finds exactly the same coefficients. -1023 is skipped as well because its pair
+// partner -1024 falls outside the range of 8-bit baseline JPEG.
+const isUsableCoefficient = (value: number): boolean => value !== 0 && value !== 1 && value > -1023;
+
+// Positions (in JpegImage.coefficients) of all usable coefficients, in embedding order.
+const usableCoefficientPositions = (jpeg: JpegImage): Int32Array => {
+  const positions = new Int32Array(jpeg.coefficients.length);
+  let count = 0;
+  forEachCodedBlock(jpeg, blockStart => {
+    for (let k = 1; k < 64; k++) {
+      if (isUsableCoefficient(jpeg.coefficients[blockStart + k])) positions[count++] = blockStart + k;
+    }
+  });
+  return positions.subarray(0, count);
+};
+
+// A cover is either encoded image bytes (baseline JPEG or PNG) or already decoded pixels.
+export type JpegCover = Uint8Array | RawImage;
+
+// Baseline JPEG covers are used as-is, coefficient for coefficient. Anything else is decoded to pixels
+// and compressed at JPEG_DCT_QUALITY first.
+const loadCoverCoefficients = async (cover: JpegCover): Promise<{ jpeg: JpegImage; recompressed: boolean }> => {
+  if (cover instanceof Uint8Array) {
+    if (isJpeg(cover)) return { jpeg: decodeJpegCoefficients(cover), recompressed: false };
+    cover = await decodeImageBytes(cover);
+  }
+  return { jpeg: pixelsToJpegCoefficients(cover.data, cover.width, cover.height, JPEG_DCT_QUALITY), recompressed: true };
+};
+
+// --- Headless core: works on bytes and pixels, no DOM needed ---
+
+// Payload capacity of a cover, in bytes, after the container header.
+export const estimateJpegCapacityBytes = async (cover: JpegCover): Promise<{ capacityBytes: number; recompressed: boolean }> => {
+  const { jpeg, recompressed } = await loadCoverCoefficients(cover);
+  const capacityBytes = Math.max(0, Math.floor(usableCoefficientPositions(jpeg).length / 8) - CONTAINER_HEADER_NUM_BYTES);
+  return { capacityBytes, recompressed };
+};
+
+export const encodeJpegMessageBytes = async (cover: JpegCover, secret: string | HiddenFile, password: EncryptionSecret, encryption: EncryptionOptions = {}): Promise<{ jpegBytes: Uint8Array; encryptedPayload: string; changedValues: number; recompressed: boolean }> => {
+  validateSecret(secret);
+  if (!password) throw new Error('Password is required for JPEG DCT encoding.');
+
+  // 1. Read the cover's coefficients first, so unsupported covers fail before any encryption work
+  const { jpeg, recompressed } = await loadCoverCoefficients(cover);
+  // 2. Encrypt the message or file record, bound to the container and JPEG it goes into
+  const flags = secretContainerFlags(secret, password, encryption);
+  const encryptedPayload = await encryptSecretForContainer(secret, password, encryption, stegoContext(ContainerMethod.JpegDct, flags, 1, jpeg.width, jpeg.height));
+  // 3. Hide it in the LSBs of the usable AC coefficients
+  const changedValues = embedContainerInCoefficients(jpeg, encodeContainerPayload(encryptedPayload, flags), flags);
+
+  // 4. Write the coefficients back out as a real JPEG
+  return { jpegBytes: encodeJpegCoefficients(jpeg), encryptedPayload, changedValues, recompressed };
+};
+
+// Embeds container payload bytes (already encrypted) with the given header flags into a cover.
+export const embedJpegPayloadBytes = async (cover: JpegCover, payloadBytes: Uint8Array, flags: number): Promise<{ jpegBytes: Uint8Array; changedValues: number; recompressed: boolean }> => {
+  const { jpeg, recompressed } = await loadCoverCoefficients(cover);
+  const changedValues = embedContainerInCoefficients(jpeg, payloadBytes, flags);
+  return { jpegBytes: encodeJpegCoefficients(jpeg), changedValues, recompressed };
+};
+
+// Wraps the payload in the container and replaces the LSBs of the usable AC coefficients with it.
+// Returns the number of coefficients that changed.
+const embedContainerInCoefficients = (jpeg: JpegImage, payloadBytes: Uint8Array, flags: number): number => {
+  const bits = bytesToBinary(buildContainer(payloadBytes, ContainerMethod.JpegDct, flags));
+  const positions = usableCoefficientPositions(jpeg);
+  if (bits.length > positions.length) {
+    throw new Error(
+      `Encrypted message is too long to be hidden in this JPEG. It needs ${bits.length} usable DCT coefficients but the image only has ${positions.length}. ` +
+      'Try a larger or more detailed image, or a shorter original message.'
+    );
+  }
+
+  const coefficients = jpeg.coefficients;
+  let changedValues = 0;
+  for (let i = 0; i < bits.length; i++) {
+    const position = positions[i];
+    const value = (coefficients[position] & ~1) | (bits[i] === '1' ? 1 : 0);
+    if (value !== coefficients[position]) changedValues++;
+    coefficients[position] = value;
+  }
+  return changedValues;
+};
+
+// Reads the coefficients of a JPEG produced by this method.
+export const readJpegCoefficients = (bytes: Uint8Array): JpegImage => {
+  if (!isJpeg(bytes)) throw new Error('JPEG DCT: The file is not a JPEG image.');
+  try {
+    return decodeJpegCoefficients(bytes);
+  } catch (e: any) {
+    throw new Error(`JPEG DCT: ${e.message.replace(/^JPEG: /, '')} Images produced by this method are always baseline JPEGs.`);
+  }
+};
+
+// Reads the container from coefficient LSBs straight from the entropy-decoded data, no pixel decode
+// needed. Returns null when there is none.
+export const findJpegContainer = (jpeg: JpegImage): { header: ContainerHeader; payload: Uint8Array } | null => {
+  const positions = usableCoefficientPositions(jpeg);
+  const readBits = (offset: number, count: number): string => {
+    let bits = '';
+    for (let i = offset; i < offset + count; i++) {
+      bits += (jpeg.coefficients[positions[i]] & 1).toString();
+    }
+    return bits;
+  };
+  return readContainerFromBits(readBits, positions.length, ContainerMethod.JpegDct, 'JPEG DCT');
+};
+
+export const decodeJpegMessageBytes = async (bytes: Uint8Array, password: DecryptionSecret): Promise<DecodedPayload> => {
+  if (!password) throw new Error('Password is required for JPEG DCT decoding.');
+
+  const jpeg = readJpegCoefficients(bytes);
+  const container = findJpegContainer(jpeg);
+  if (!container) {
+    throw new Error(
+      'JPEG DCT: No hidden payload found. The image was not encoded with the JPEG DCT method, ' +
+      'or it has been re-saved or re-compressed since, which destroys the hidden coefficients.'
+    );
+  }
+  return decryptContainerSecret(decodeContainerPayload(container.payload, container.header, 'JPEG DCT'), password, headerStegoContext(container.header, 1, jpeg.width, jpeg.height), 'JPEG DCT');
+};
+
+// --- Browser adapters: File in, JPEG data URL out ---
+
+// Runs a core function on the file's bytes when the codecs here can read them, and on browser-decoded
+// pixels otherwise (WebP, GIF, progressive JPEG, ...). Codec errors all start with 'JPEG: '.
+const withCoverFile = async <T>(file: File, run: (cover: JpegCover) => Promise<T>): Promise<T> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isJpeg(bytes) && !isPng(bytes)) return run(await loadImage(file));
+  try {
+    return await run(bytes);
+  } catch (e: any) {
+    if (isJpeg(bytes) && e.message?.startsWith('JPEG: ')) return run(await loadImage(file));
+    throw e;
+  }
+};
+
+// The cover withCoverFile would settle on, for callers that need it before running anything.
+export const loadJpegCoverFile = async (file: File): Promise<JpegCover> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (isPng(bytes)) return bytes;
+  if (isJpeg(bytes)) {
+    try {
+      decodeJpegCoefficients(bytes);
+      return bytes;
+    } catch (e: any) {
+      if (!e.message?.startsWith('JPEG: ')) throw e;
+    }
+  }
+  return loadImage(file);
+};
+
+export const estimateJpegCapacity = (file: File): Promise<{ capacityBytes: number; recompressed: boolean }> =>
+  withCoverFile(file, estimateJpegCapacityBytes);
+
+export const encodeJpegMessage = async (file: File, secret: string | HiddenFile, password: EncryptionSecret, encryption: EncryptionOptions = {}): Promise<{ dataUrl: string; encryptedPayload: string; changedValues: number; recompressed: boolean }> => {
+  if (!file) throw new Error('No image file provided.');
+  const { jpegBytes, ...result } = await withCoverFile(file, cover => encodeJpegMessageBytes(cover, secret, password, encryption));
+  return { dataUrl: `data:image/jpeg;base64,${arrayBufferToBase64(jpegBytes.buffer as ArrayBuffer)}`, ...result };
+};
+
+export const decodeJpegMessage = async (file: File, password: DecryptionSecret): Promise<DecodedPayload> => {
+  if (!file) throw new Error('No image file provided.');
+  return decodeJpegMessageBytes(new Uint8Array(await file.arrayBuffer()), password);
+};
@@ -1,82 +1,94 @@
 
-import { MESSAGE_TERMINATOR_BINARY, MAX_MESSAGE_LENGTH_CHARS } from '../constants.ts';
-import { textToBinary, binaryToText, loadImageToCanvas, md5KeyToSeed, seededShuffle } from '../utils.ts';
-import { encryptMessage as cryptoEncrypt, decryptMessage as cryptoDecrypt } from './cryptoService.ts';
-
-export const encodeMessageMD5Pattern = async (file: File, message: string, stegoKey: string, password: string): Promise<{ dataUrl: string; encryptedPayload: string; }> => {
-  if (!file) throw new Error('No image file provided.');
-  if (!message) throw new Error('No message provided.');
+import { MESSAGE_TERMINATOR_BINARY, PIXEL_PERMUTATION_VERSION } from '../constants.ts';
+import { ContainerMethod, type ContainerHeader, type HiddenFile, type DecodedPayload, type LsbEncodeOptions, type RawImage, type EncryptionOptions, type EncryptionSecret, type DecryptionSecret, type DeniableOptions } from '../types.ts';
+import { binaryToText } from '../utils.ts';
+import { loadImage, rawImageToPngDataUrl, cloneRawImage } from './imageIoService.ts';
+import { decryptBytes as cryptoDecrypt } from './cryptoService.ts';
+import { lsbLayoutFromOptions, encodeLsbParams, lsbOptionsContainerFlags, lsbPayloadCapacityBits, embedLsbContainer, extractLsbContainer, lsbStegoContext, lsbContainerStegoContext } from './lsbEmbeddingService.ts';
+import { keyedPixelOrder, candidatePixelOrders, encodePermutationVersion, assertPermutationVersion } from './pixelPermutationService.ts';
+import { embedDeniableMessages, extractDeniableContainer } from './deniableEmbeddingService.ts';
+import { buildContainer, encodeContainerPayload, decodeContainerPayload, validateSecret, deserializeSecret, secretContainerFlags, encryptSecretForContainer, decryptContainerSecret } from './payloadContainerService.ts';
+
+// --- Headless core: works on decoded pixels, no DOM needed ---
+
+export const encodeMessageMD5PatternPixels = async (cover: RawImage, secret: string | HiddenFile, stegoKey: string, password: EncryptionSecret, options: LsbEncodeOptions = {}, encryption: EncryptionOptions = {}, deniable?: DeniableOptions): Promise<{ image: RawImage; encryptedPayload: string; changedValues: number; }> => {
+  validateSecret(secret);
   if (!stegoKey) throw new Error('No Stego Key provided. This key is required for MD5 Pattern LSB.');
   if (!password) throw new Error('No Password provided. This is required for encryption.');
-  if (message.length > MAX_MESSAGE_LENGTH_CHARS) {
-    throw new Error(`Message is too long. Maximum ${MAX_MESSAGE_LENGTH_CHARS} characters allowed.`);
+
+  // Deniable mode hides the message, and optionally a decoy, each in its own whitened slot of the pattern
+  if (deniable) {
+    const image = cloneRawImage(cover);
+    const order = await keyedPixelOrder('md5-pattern', stegoKey, image.width * image.height);
+    const { encryptedPayloads, changedValues } = await embedDeniableMessages(image, order, ContainerMethod.MD5Pattern, 'md5-pattern', stegoKey, secret, password, deniable.decoy, options, encryption, 'MD5 Pattern LSB');
+    return { image, encryptedPayload: encryptedPayloads[0], changedValues };
   }
 
-  // 1. Encrypt the message
-  const encryptedPayload = await cryptoEncrypt(message, password);
-  // 2. Convert encrypted payload to binary
-  const binaryEncryptedMessage = textToBinary(encryptedPayload) + MESSAGE_TERMINATOR_BINARY;
-  
-  const { canvas, ctx } = await loadImageToCanvas(file);
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
+  // 1. Encrypt the message or file record, bound to the container and image it goes into
+  const flags = secretContainerFlags(secret, password, encryption) | lsbOptionsContainerFlags(options);
+  const encryptedPayload = await encryptSecretForContainer(secret, password, encryption, lsbStegoContext(ContainerMethod.MD5Pattern, flags, options, cover.width, cover.height));
+  const { image, changedValues } = await embedMD5PatternPayloadPixels(cover, encodeContainerPayload(encryptedPayload, flags), flags, stegoKey, options);
+  return { image, encryptedPayload, changedValues };
+};
+
+// Embeds container payload bytes (already encrypted) with the given header flags into a copy of the cover.
+export const embedMD5PatternPayloadPixels = async (cover: RawImage, payloadBytes: Uint8Array, flags: number, stegoKey: string, options: LsbEncodeOptions = {}): Promise<{ image: RawImage; changedValues: number }> => {
+  const image = cloneRawImage(cover);
+  const data = image.data;
   
-  const numPixels = canvas.width * canvas.height;
-  const maxBitsStorable = numPixels * 3;
+  const numPixels = image.width * image.height;
 
-  if (binaryEncryptedMessage.length > maxBitsStorable) {
-    throw new Error('Encrypted message is too long to be hidden in this image using MD5 Pattern LSB. Try a larger image or shorter original message.');
-  }
+  // Wrap the payload in the container, recording the bit depth, channels and matrix code used
+  const layout = lsbLayoutFromOptions(options, numPixels, payloadBytes.length);
+  const container = buildContainer(payloadBytes, ContainerMethod.MD5Pattern, flags, encodeLsbParams(layout) | encodePermutationVersion(PIXEL_PERMUTATION_VERSION));
 
-  // Generate pixel access pattern using MD5 hash of the key
-  let pixelIndices = Array.from({ length: numPixels }, (_, i) => i);
-  const seed = md5KeyToSeed(stegoKey);
-  pixelIndices = seededShuffle(pixelIndices, seed);
+  if (payloadBytes.length * 8 > lsbPayloadCapacityBits(numPixels, layout)) {
+    throw new Error('Encrypted message is too long to be hidden in this image using MD5 Pattern LSB. Try a larger image, more bits per channel, or a shorter original message.');
+  }
 
-  let bitIndex = 0; 
-  let pixelSequenceIndex = 0;
+  // Generate the key-derived pixel access pattern
+  const pixelIndices = await keyedPixelOrder('md5-pattern', stegoKey, numPixels);
 
-  while (bitIndex < binaryEncryptedMessage.length && pixelSequenceIndex < numPixels) {
-    const currentPixelOrderIndex = pixelIndices[pixelSequenceIndex];
-    const dataStartIndexForPixel = currentPixelOrderIndex * 4;
+  const changedValues = embedLsbContainer(data, pixelIndices, container, layout, options.embeddingMode);
+  return { image, changedValues };
+};
 
-    for (let channel = 0; channel < 3; channel++) {
-      if (bitIndex >= binaryEncryptedMessage.length) break;
-      const bit = parseInt(binaryEncryptedMessage[bitIndex]);
-      const channelDataIndex = dataStartIndexForPixel + channel;
-      data[channelDataIndex] = (data[channelDataIndex] & 0xFE) | bit;
-      bitIndex++;
+// Finds the container along the candidate pixel orders of the stego key, or returns null.
+export const findMD5PatternContainer = (image: RawImage, pixelOrders: { version: number; order: number[] }[]): { header: ContainerHeader; payload: Uint8Array } | null => {
+  for (const { version, order } of pixelOrders) {
+    const container = extractLsbContainer(image.data, order, ContainerMethod.MD5Pattern, 'MD5 Pattern LSB');
+    if (container) {
+      assertPermutationVersion(container.header, version, 'MD5 Pattern LSB');
+      return container;
     }
-    pixelSequenceIndex++;
-  }
-  
-  if (bitIndex < binaryEncryptedMessage.length) {
-    throw new Error("MD5 Pattern LSB: Image data exhausted (based on shuffled sequence) before encrypted message fully encoded.");
   }
-
-  ctx.putImageData(imageData, 0, 0);
-  const dataUrl = canvas.toDataURL('image/png');
-  return { dataUrl, encryptedPayload };
+  return null;
 };
 
-
-export const decodeMessageMD5Pattern = async (file: File, stegoKey: string, password: string): Promise<string> => {
-  if (!file) throw new Error('No image file provided.');
+export const decodeMessageMD5PatternPixels = async (image: RawImage, stegoKey: string, password: DecryptionSecret): Promise<DecodedPayload> => {
   if (!stegoKey) throw new Error('No Stego Key provided. This key is required for MD5 Pattern LSB decoding.');
   if (!password) throw new Error('No Password provided. This is required for decryption.');
 
-  const { canvas, ctx } = await loadImageToCanvas(file);
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
+  const data = image.data;
 
-  const numPixels = canvas.width * canvas.height;
+  const numPixels = image.width * image.height;
   const maxBitsToRead = numPixels * 3;
 
-  // Re-generate the exact same pixel access pattern
-  let pixelIndices = Array.from({ length: numPixels }, (_, i) => i);
-  const seed = md5KeyToSeed(stegoKey);
-  pixelIndices = seededShuffle(pixelIndices, seed);
-  
+  // Re-generate the pixel access pattern; images made before the CSPRNG permutation use the legacy order
+  const pixelOrders = await candidatePixelOrders('md5-pattern', stegoKey, numPixels);
+  const container = findMD5PatternContainer(image, pixelOrders);
+  if (container) {
+    return decryptContainerSecret(decodeContainerPayload(container.payload, container.header, 'MD5 Pattern LSB'), password, lsbContainerStegoContext(container.header, image.width, image.height), 'MD5 Pattern LSB');
+  }
+
+  // Deniable images show no container until the password unlocks one of their slots.
+  const deniable = await extractDeniableContainer(image, pixelOrders[0].order, ContainerMethod.MD5Pattern, 'md5-pattern', stegoKey, password, 'MD5 Pattern LSB');
+  if (deniable) {
+    return decryptContainerSecret(decodeContainerPayload(deniable.payload, deniable.header, 'MD5 Pattern LSB'), password, lsbContainerStegoContext(deniable.header, image.width, image.height), 'MD5 Pattern LSB');
+  }
+
+  // No container header: fall back to the legacy terminator format, which always used the legacy order.
+  const pixelIndices = pixelOrders[pixelOrders.length - 1].order;
   let binaryEncryptedPayload = '';
   let bitsReadCount = 0;
   let pixelSequenceIndex = 0;
@@ -102,7 +114,7 @@ export const decodeMessageMD5Pattern = async (file: File, stegoKey: string, pass
         if (!encryptedPayloadString && encryptedPayloadPart.length > 0) {
              throw new Error('MD5 Pattern LSB: Failed to convert extracted binary data to text for decryption.');
         }
-        return cryptoDecrypt(encryptedPayloadString, password);
+        return deserializeSecret(await cryptoDecrypt(encryptedPayloadString, password));
       }
     }
     if (bitsReadCount >= maxBitsToRead) break;
@@ -117,7 +129,20 @@ export const decodeMessageMD5Pattern = async (file: File, stegoKey: string, pass
   }
   
   throw new Error(
-    `MD5 Pattern LSB: No hidden encrypted message found. Expected terminator not detected using key-derived pattern. ` +
+    `MD5 Pattern LSB: No hidden encrypted message found. Neither a payload container header nor the legacy terminator was detected using the key-derived pattern. ` +
     'Ensure Stego Key and Password are correct, image is MD5 Pattern LSB encoded, or data not corrupted.'
   );
-};
\ No newline at end of file
+};
+
+// --- Browser adapters: File in, PNG data URL out ---
+
+export const encodeMessageMD5Pattern = async (file: File, secret: string | HiddenFile, stegoKey: string, password: EncryptionSecret, options: LsbEncodeOptions = {}, encryption: EncryptionOptions = {}, deniable?: DeniableOptions): Promise<{ dataUrl: string; encryptedPayload: string; changedValues: number; }> => {
+  if (!file) throw new Error('No image file provided.');
+  const { image, ...result } = await encodeMessageMD5PatternPixels(await loadImage(file), secret, stegoKey, password, options, encryption, deniable);
+  return { dataUrl: await rawImageToPngDataUrl(image), ...result };
+};
+
+export const decodeMessageMD5Pattern = async (file: File, stegoKey: string, password: DecryptionSecret): Promise<DecodedPayload> => {
+  if (!file) throw new Error('No image file provided.');
+  return decodeMessageMD5PatternPixels(await loadImage(file), stegoKey, password);
+};
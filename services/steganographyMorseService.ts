@@ -1,15 +1,15 @@
 
-import { encryptMessage as cryptoEncrypt, decryptMessage as cryptoDecrypt } from './cryptoService.ts';
+import { decryptBytes as cryptoDecrypt } from './cryptoService.ts';
+import { buildContainer, hasContainerMagic, parseContainer, encodeContainerPayload, decodeContainerPayload, validateSecret, deserializeSecret, secretContainerFlags, stegoContext, headerStegoContext, encryptSecretForContainer, decryptContainerSecret, CONTAINER_METHOD_NAMES } from './payloadContainerService.ts';
+import { ContainerMethod, type HiddenFile, type DecodedPayload, type RawImage, type EncryptionOptions, type EncryptionSecret, type DecryptionSecret } from '../types.ts';
 import { 
   arrayBufferToHex, 
   hexToArrayBuffer, 
-  stringToArrayBuffer, 
   arrayBufferToString, 
   MORSE_CODE_MAP,
-  REVERSE_MORSE_CODE_MAP,
-  loadImageToCanvas
+  REVERSE_MORSE_CODE_MAP
 } from '../utils.ts';
-import { MAX_MESSAGE_LENGTH_CHARS } from '../constants.ts';
+import { loadImage, rawImageToPngDataUrl, createRawImage, fillRect } from './imageIoService.ts';
 
 // Visual parameters for grid-based Morse code
 const UNIT_SIZE = 4; // pixels for one grid unit
@@ -17,142 +17,124 @@ const DAH_UNITS = 3;
 const ELEM_GAP_UNITS = 1;
 const CHAR_GAP_UNITS = 3;
 const UNITS_PER_ROW = 100; // Number of grid units per visual row
-const BACKGROUND_COLOR = '#F0F0F0';
-const FOREGROUND_COLOR = '#000000';
+const BACKGROUND_COLOR = { r: 240, g: 240, b: 240 };
+const FOREGROUND_COLOR = { r: 0, g: 0, b: 0 };
 const LINE_SPACING = UNIT_SIZE * 2;
 
 
-export const encodeMorseMessage = async (message: string, password: string): Promise<{ dataUrl: string, hexString: string, encryptedPayload: string }> => {
-  if (!message) throw new Error('No message provided.');
+// --- Headless core: works on raw pixels, no DOM needed ---
+
+export const encodeMorseMessagePixels = async (secret: string | HiddenFile, password: EncryptionSecret, encryption: EncryptionOptions = {}): Promise<{ image: RawImage, hexString: string, encryptedPayload: string }> => {
+  validateSecret(secret);
   if (!password) throw new Error('Password is required for Morse encoding.');
-  if (message.length > MAX_MESSAGE_LENGTH_CHARS) {
-    throw new Error(`Message is too long. Maximum ${MAX_MESSAGE_LENGTH_CHARS} characters allowed.`);
-  }
 
-  // 1. Encrypt message -> base64 string
-  const encryptedPayload = await cryptoEncrypt(message, password);
-  // 2. Convert base64 string to ArrayBuffer, then to hex string
-  const hexString = arrayBufferToHex(stringToArrayBuffer(encryptedPayload));
+  // 1. Encrypt message or file record -> base64 string, bound to the container (Morse draws its own image)
+  const flags = secretContainerFlags(secret, password, encryption);
+  const encryptedPayload = await encryptSecretForContainer(secret, password, encryption, stegoContext(ContainerMethod.Morse, flags));
+  // 2. Wrap the payload string in the container, then convert it to a hex string
+  const container = buildContainer(encodeContainerPayload(encryptedPayload, flags), ContainerMethod.Morse, flags);
+  const hexString = arrayBufferToHex(container.buffer);
 
-  // 3. Convert hex string to a sequence of visual elements
-  const visualElements: ('dit' | 'dah' | 'elem_gap' | 'char_gap')[] = [];
-  for (let i = 0; i < hexString.length; i++) {
-    const char = hexString[i].toLowerCase();
+  // 3. Convert each hex digit to its marks, as run lengths in units: dit, gap, dah, gap, ...
+  const characters: number[][] = [];
+  for (const char of hexString.toLowerCase()) {
     const morse = MORSE_CODE_MAP[char];
     if (!morse) continue; // Should not happen for hex
-
+    const runs: number[] = [];
     for (let j = 0; j < morse.length; j++) {
-      visualElements.push(morse[j] === '.' ? 'dit' : 'dah');
-      if (j < morse.length - 1) {
-        visualElements.push('elem_gap');
-      }
-    }
-    if (i < hexString.length - 1) {
-      visualElements.push('char_gap');
+      if (j > 0) runs.push(ELEM_GAP_UNITS);
+      runs.push(morse[j] === '.' ? 1 : DAH_UNITS);
     }
+    characters.push(runs);
   }
 
-  // 4. Calculate total units and canvas size
-  let totalUnits = 0;
-  visualElements.forEach(el => {
-    if (el === 'dit') totalUnits += 1;
-    else if (el === 'dah') totalUnits += DAH_UNITS;
-    else if (el === 'elem_gap') totalUnits += ELEM_GAP_UNITS;
-    else if (el === 'char_gap') totalUnits += CHAR_GAP_UNITS;
-  });
+  // 4. Lay the characters out in rows. A character never wraps: the decoder reads each row on its own,
+  //    and a gap split across a row end could not be told from the gap between characters.
+  const rows: number[][][] = [[]];
+  let rowUnits = 0;
+  for (const runs of characters) {
+    const width = runs.reduce((sum, units) => sum + units, 0);
+    const gap = rows[rows.length - 1].length > 0 ? CHAR_GAP_UNITS : 0;
+    if (rowUnits + gap + width > UNITS_PER_ROW) {
+      rows.push([runs]);
+      rowUnits = width;
+    } else {
+      rows[rows.length - 1].push(runs);
+      rowUnits += gap + width;
+    }
+  }
 
-  const numRows = Math.ceil(totalUnits / UNITS_PER_ROW);
+  const numRows = rows.length;
   const canvasWidth = UNITS_PER_ROW * UNIT_SIZE;
   const canvasHeight = numRows * UNIT_SIZE + Math.max(0, numRows - 1) * LINE_SPACING;
 
-  const canvas = document.createElement('canvas');
-  canvas.width = canvasWidth;
-  canvas.height = canvasHeight;
-  const ctx = canvas.getContext('2d');
-  if (!ctx) throw new Error('Failed to get 2D context for Morse encoding.');
-
-  ctx.fillStyle = BACKGROUND_COLOR;
-  ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-  
-  // 5. Draw the elements
-  let currentX = 0;
-  let currentY = 0;
-  ctx.fillStyle = FOREGROUND_COLOR;
-
-  visualElements.forEach(el => {
-    let units = 0;
-    let isSymbol = false;
-    if (el === 'dit') { units = 1; isSymbol = true; }
-    else if (el === 'dah') { units = DAH_UNITS; isSymbol = true; }
-    else if (el === 'elem_gap') { units = ELEM_GAP_UNITS; }
-    else if (el === 'char_gap') { units = CHAR_GAP_UNITS; }
-
-    if (currentX + (units * UNIT_SIZE) > canvasWidth) {
-      currentX = 0;
-      currentY += UNIT_SIZE + LINE_SPACING;
-    }
-
-    if (isSymbol) {
-      ctx.fillRect(currentX, currentY, units * UNIT_SIZE, UNIT_SIZE);
-    }
-    currentX += units * UNIT_SIZE;
+  const image = createRawImage(canvasWidth, canvasHeight, BACKGROUND_COLOR);
+
+  // 5. Draw the marks; runs alternate between mark and gap, starting with a mark
+  rows.forEach((row, rowIndex) => {
+    const y = rowIndex * (UNIT_SIZE + LINE_SPACING);
+    let x = 0;
+    row.forEach((runs, charIndex) => {
+      if (charIndex > 0) x += CHAR_GAP_UNITS * UNIT_SIZE;
+      runs.forEach((units, j) => {
+        if (j % 2 === 0) fillRect(image, x, y, units * UNIT_SIZE, UNIT_SIZE, FOREGROUND_COLOR);
+        x += units * UNIT_SIZE;
+      });
+    });
   });
 
-  const dataUrl = canvas.toDataURL('image/png');
-  return { dataUrl, hexString, encryptedPayload };
+  return { image, hexString, encryptedPayload };
 };
 
-export const decodeMorseMessage = async (file: File, password: string): Promise<string> => {
-  if (!file) throw new Error('No image file provided for Morse decoding.');
+export const decodeMorseMessagePixels = async (image: RawImage, password: DecryptionSecret): Promise<DecodedPayload> => {
   if (!password) throw new Error('Password is required for Morse decoding.');
 
-  const { canvas, ctx } = await loadImageToCanvas(file);
-
-  // 1. Scan the canvas grid to reconstruct the black/white unit sequence
-  const unitSequence: ('B' | 'W')[] = [];
-  for (let y = 0; y < canvas.height; y += UNIT_SIZE + LINE_SPACING) {
-    for (let x = 0; x < canvas.width; x += UNIT_SIZE) {
-      const pixel = ctx.getImageData(x + UNIT_SIZE / 2, y + UNIT_SIZE / 2, 1, 1).data;
-      const intensity = (pixel[0] + pixel[1] + pixel[2]) / 3;
+  // 1. Scan the image grid row by row. Characters never cross a row end, so each row is parsed on its own
+  //    and the padding after its last character is ignored.
+  let morseString = '';
+  for (let y = 0; y < image.height; y += UNIT_SIZE + LINE_SPACING) {
+    const unitSequence: ('B' | 'W')[] = [];
+    for (let x = 0; x < image.width; x += UNIT_SIZE) {
+      const px = Math.min(image.width - 1, x + UNIT_SIZE / 2);
+      const py = Math.min(image.height - 1, y + UNIT_SIZE / 2);
+      const i = (py * image.width + px) * 4;
+      const intensity = (image.data[i] + image.data[i + 1] + image.data[i + 2]) / 3;
       unitSequence.push(intensity < 128 ? 'B' : 'W');
     }
-  }
 
-  // 2. Parse the unit sequence into a Morse string
-  let morseString = '';
-  let i = 0;
-  while (i < unitSequence.length) {
-    if (unitSequence[i] === 'W') {
-      i++;
-      continue;
-    }
-    
-    // We found the start of a symbol or gap sequence
-    let blackCount = 0;
-    while(i < unitSequence.length && unitSequence[i] === 'B') {
-      blackCount++;
-      i++;
-    }
+    // 2. Parse the row's unit sequence into a Morse string
+    let i = 0;
+    while (i < unitSequence.length) {
+      if (unitSequence[i] === 'W') {
+        i++;
+        continue;
+      }
 
-    if (blackCount === DAH_UNITS) morseString += '-';
-    else if (blackCount === 1) morseString += '.';
-    else if (blackCount > 0) throw new Error('Morse Decode: Detected invalid symbol shape.');
+      // We found the start of a symbol or gap sequence
+      let blackCount = 0;
+      while (i < unitSequence.length && unitSequence[i] === 'B') {
+        blackCount++;
+        i++;
+      }
 
-    let whiteCount = 0;
-    while(i < unitSequence.length && unitSequence[i] === 'W') {
-      whiteCount++;
-      i++;
-    }
+      if (blackCount === DAH_UNITS) morseString += '-';
+      else if (blackCount === 1) morseString += '.';
+      else if (blackCount > 0) throw new Error('Morse Decode: Detected invalid symbol shape.');
 
-    if (whiteCount >= CHAR_GAP_UNITS) {
-        morseString += ' '; // Character separator
-    } else if (whiteCount > 0 && whiteCount < CHAR_GAP_UNITS) {
-        // Element gap, do nothing
+      let whiteCount = 0;
+      while (i < unitSequence.length && unitSequence[i] === 'W') {
+        whiteCount++;
+        i++;
+      }
+
+      // A shorter gap separates the elements of one character
+      if (whiteCount >= CHAR_GAP_UNITS) morseString += ' ';
     }
+    morseString += ' ';
   }
-  
+
   // 3. Convert Morse string to hex string
-  const morseChars = morseString.trim().split(' ');
+  const morseChars = morseString.trim().split(/ +/);
   let hexString = '';
   for(const morseChar of morseChars) {
     const hexChar = REVERSE_MORSE_CODE_MAP[morseChar];
@@ -171,15 +153,35 @@ export const decodeMorseMessage = async (file: File, password: string): Promise<
 };
 
 
-export const decryptMorseMessageFromHex = async (hexString: string, password: string): Promise<string> => {
+export const decryptMorseMessageFromHex = async (hexString: string, password: DecryptionSecret): Promise<DecodedPayload> => {
   if (!hexString) throw new Error("No hex string provided for decryption.");
   if (!password) throw new Error("Password is required for decryption.");
   
   try {
     const encryptedPayloadBuffer = hexToArrayBuffer(hexString);
-    const encryptedPayload = arrayBufferToString(encryptedPayloadBuffer);
-    return await cryptoDecrypt(encryptedPayload, password);
+    const bytes = new Uint8Array(encryptedPayloadBuffer);
+    if (hasContainerMagic(bytes)) {
+      const { header, payload } = parseContainer(bytes, 'Morse Decode');
+      if (header.method !== ContainerMethod.Morse) {
+        throw new Error(`Morse Decode: This payload was produced by the ${CONTAINER_METHOD_NAMES[header.method]} method, not Morse Pattern.`);
+      }
+      return await decryptContainerSecret(decodeContainerPayload(payload, header, 'Morse Decode'), password, headerStegoContext(header), 'Morse Decode');
+    }
+    // Legacy hex strings carry the payload string directly.
+    return await deserializeSecret(await cryptoDecrypt(arrayBufferToString(encryptedPayloadBuffer), password));
   } catch (e: any) {
     throw new Error(`Decryption from hex string failed. Original error: ${e.message}`);
   }
-};
\ No newline at end of file
+};
+
+// --- Browser adapters: File in, PNG data URL out ---
+
+export const encodeMorseMessage = async (secret: string | HiddenFile, password: EncryptionSecret, encryption: EncryptionOptions = {}): Promise<{ dataUrl: string, hexString: string, encryptedPayload: string }> => {
+  const { image, ...result } = await encodeMorseMessagePixels(secret, password, encryption);
+  return { dataUrl: await rawImageToPngDataUrl(image), ...result };
+};
+
+export const decodeMorseMessage = async (file: File, password: DecryptionSecret): Promise<DecodedPayload> => {
+  if (!file) throw new Error('No image file provided for Morse decoding.');
+  return decodeMorseMessagePixels(await loadImage(file), password);
+};
@@ -1,73 +1,67 @@
 
-import { MESSAGE_TERMINATOR_BINARY, MAX_MESSAGE_LENGTH_CHARS } from '../constants.ts';
-import { textToBinary, binaryToText, loadImageToCanvas } from '../utils.ts';
-import { encryptMessage as cryptoEncrypt, decryptMessage as cryptoDecrypt } from './cryptoService.ts';
+import { MESSAGE_TERMINATOR_BINARY } from '../constants.ts';
+import { ContainerMethod, type HiddenFile, type DecodedPayload, type RawImage, type EncryptionOptions, type EncryptionSecret, type DecryptionSecret } from '../types.ts';
+import { binaryToText, bytesToBinary } from '../utils.ts';
+import { loadImage, rawImageToPngDataUrl, createRawImage, fillRect } from './imageIoService.ts';
+import { decryptBytes as cryptoDecrypt } from './cryptoService.ts';
+import { buildContainer, readContainerFromBits, encodeContainerPayload, decodeContainerPayload, validateSecret, deserializeSecret, secretContainerFlags, stegoContext, headerStegoContext, encryptSecretForContainer, decryptContainerSecret } from './payloadContainerService.ts';
 
 const DOT_SIZE = 5; // pixels
 const DOT_SPACING = 2; // pixels between dots
 const DOTS_PER_ROW = 48; // Number of dots per row in the grid
 const COLOR_BIT_1 = { r: 0, g: 0, b: 0 }; // Black
 const COLOR_BIT_0 = { r: 255, g: 255, b: 255 }; // White
-const BACKGROUND_COLOR = '#E0E0E0'; // Light gray for canvas background
+const BACKGROUND_COLOR = { r: 224, g: 224, b: 224 }; // Light gray for the image background
 
-export const encodeRDMessage = async (message: string, password: string): Promise<{imageDataUrl: string, binaryEncryptedPayloadWithTerminator: string, encryptedPayload: string}> => {
-  if (!message) throw new Error('No message provided.');
+// Decrypts the payload container the dot bits start with, or returns null for legacy images.
+// RD draws its own image, so the context has no carrier size.
+const decryptRDContainer = async (bits: string, password: DecryptionSecret, label: string): Promise<DecodedPayload | null> => {
+  const container = readContainerFromBits((offset, count) => bits.substring(offset, offset + count), bits.length, ContainerMethod.RD, label);
+  return container ? decryptContainerSecret(decodeContainerPayload(container.payload, container.header, label), password, headerStegoContext(container.header), label) : null;
+};
+
+// --- Headless core: works on raw pixels, no DOM needed ---
+
+export const encodeRDMessagePixels = async (secret: string | HiddenFile, password: EncryptionSecret, encryption: EncryptionOptions = {}): Promise<{image: RawImage, binaryPayload: string, encryptedPayload: string}> => {
+  validateSecret(secret);
   if (!password) throw new Error('Password is required for RD encoding.');
-  if (message.length > MAX_MESSAGE_LENGTH_CHARS) {
-    throw new Error(`Message is too long. Maximum ${MAX_MESSAGE_LENGTH_CHARS} characters allowed for RD encoding.`);
-  }
 
-  // 1. Encrypt the message
-  const encryptedPayload = await cryptoEncrypt(message, password);
-  // 2. Convert encrypted payload string to binary for RD pattern
-  const binaryEncryptedPayloadWithTerminator = textToBinary(encryptedPayload) + MESSAGE_TERMINATOR_BINARY;
+  // 1. Encrypt the message or file record, bound to the container it goes into
+  const flags = secretContainerFlags(secret, password, encryption);
+  const encryptedPayload = await encryptSecretForContainer(secret, password, encryption, stegoContext(ContainerMethod.RD, flags));
+  // 2. Wrap the encrypted payload in the container and convert it to binary for the RD pattern
+  const binaryPayload = bytesToBinary(buildContainer(encodeContainerPayload(encryptedPayload, flags), ContainerMethod.RD, flags));
   
-  const numDots = binaryEncryptedPayloadWithTerminator.length;
+  const numDots = binaryPayload.length;
   const numRows = Math.ceil(numDots / DOTS_PER_ROW);
   
   const canvasWidth = DOTS_PER_ROW * (DOT_SIZE + DOT_SPACING) + DOT_SPACING;
   const canvasHeight = numRows * (DOT_SIZE + DOT_SPACING) + DOT_SPACING;
 
-  const canvas = document.createElement('canvas');
-  canvas.width = canvasWidth;
-  canvas.height = canvasHeight;
-  const ctx = canvas.getContext('2d');
-
-  if (!ctx) {
-    throw new Error('Failed to get 2D context for RD encoding.');
-  }
-
-  ctx.fillStyle = BACKGROUND_COLOR;
-  ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+  const image = createRawImage(canvasWidth, canvasHeight, BACKGROUND_COLOR);
 
   for (let i = 0; i < numDots; i++) {
-    const bit = binaryEncryptedPayloadWithTerminator[i];
+    const bit = binaryPayload[i];
     const row = Math.floor(i / DOTS_PER_ROW);
     const col = i % DOTS_PER_ROW;
 
     const x = DOT_SPACING + col * (DOT_SIZE + DOT_SPACING);
     const y = DOT_SPACING + row * (DOT_SIZE + DOT_SPACING);
 
-    const color = (bit === '1') ? COLOR_BIT_1 : COLOR_BIT_0;
-    ctx.fillStyle = `rgb(${color.r},${color.g},${color.b})`;
-    ctx.fillRect(x, y, DOT_SIZE, DOT_SIZE);
+    fillRect(image, x, y, DOT_SIZE, DOT_SIZE, (bit === '1') ? COLOR_BIT_1 : COLOR_BIT_0);
   }
 
-  const imageDataUrl = canvas.toDataURL('image/png');
-  return {imageDataUrl, binaryEncryptedPayloadWithTerminator, encryptedPayload};
+  return {image, binaryPayload, encryptedPayload};
 };
 
-export const decodeRDMessage = async (file: File, password: string): Promise<string> => {
-  if (!file) throw new Error('No image file provided for RD decoding.');
+export const decodeRDMessagePixels = async (image: RawImage, password: DecryptionSecret): Promise<DecodedPayload> => {
   if (!password) throw new Error('Password is required for RD decoding.');
 
-  const { canvas, ctx } = await loadImageToCanvas(file);
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
+  const data = image.data;
 
   let binaryEncryptedPayload = '';
-  const numRows = Math.floor((canvas.height - DOT_SPACING) / (DOT_SIZE + DOT_SPACING));
-  const numCols = Math.floor((canvas.width - DOT_SPACING) / (DOT_SIZE + DOT_SPACING));
+  const numRows = Math.floor((image.height - DOT_SPACING) / (DOT_SIZE + DOT_SPACING));
+  const numCols = Math.floor((image.width - DOT_SPACING) / (DOT_SIZE + DOT_SPACING));
 
   if (numRows === 0 || numCols === 0) {
     throw new Error('Uploaded image is too small or not in the expected RD format.');
@@ -78,9 +72,9 @@ export const decodeRDMessage = async (file: File, password: string): Promise<str
       const dotCenterX = DOT_SPACING + col * (DOT_SIZE + DOT_SPACING) + Math.floor(DOT_SIZE / 2);
       const dotCenterY = DOT_SPACING + row * (DOT_SIZE + DOT_SPACING) + Math.floor(DOT_SIZE / 2);
 
-      if (dotCenterX >= canvas.width || dotCenterY >= canvas.height) continue;
+      if (dotCenterX >= image.width || dotCenterY >= image.height) continue;
 
-      const pixelIndex = (dotCenterY * canvas.width + dotCenterX) * 4;
+      const pixelIndex = (dotCenterY * image.width + dotCenterX) * 4;
       const r = data[pixelIndex];
       const g = data[pixelIndex + 1];
       const b = data[pixelIndex + 2];
@@ -90,10 +84,14 @@ export const decodeRDMessage = async (file: File, password: string): Promise<str
     }
   }
   
+  const decoded = await decryptRDContainer(binaryEncryptedPayload, password, 'RD Decode (Image)');
+  if (decoded) return decoded;
+
+  // No container header: fall back to the legacy terminator format.
   const terminatorIndex = binaryEncryptedPayload.indexOf(MESSAGE_TERMINATOR_BINARY);
 
   if (terminatorIndex === -1) {
-    throw new Error('RD Decode (Image): Message terminator not found. The image might not be a valid RD encoded image or data is corrupted.');
+    throw new Error('RD Decode (Image): Neither a payload container nor the legacy message terminator was found. The image might not be a valid RD encoded image or data is corrupted.');
   }
 
   const encryptedPayloadPartBinary = binaryEncryptedPayload.substring(0, terminatorIndex);
@@ -106,16 +104,20 @@ export const decodeRDMessage = async (file: File, password: string): Promise<str
     throw new Error('RD Decode (Image): Failed to convert binary dot data to text for decryption. Data might be corrupted.');
   }
 
-  return cryptoDecrypt(encryptedPayloadString, password);
+  return deserializeSecret(await cryptoDecrypt(encryptedPayloadString, password));
 };
 
-export const decryptRDMessageFromBinary = async (binaryStringWithTerminator: string, password: string): Promise<string> => {
+export const decryptRDMessageFromBinary = async (binaryStringWithTerminator: string, password: DecryptionSecret): Promise<DecodedPayload> => {
   if (!binaryStringWithTerminator) throw new Error('No binary string provided for RD decoding.');
   if (!password) throw new Error('Password is required for RD binary decoding.');
 
+  const decoded = await decryptRDContainer(binaryStringWithTerminator, password, 'RD Decode (Binary)');
+  if (decoded) return decoded;
+
+  // No container header: fall back to the legacy terminator format.
   const terminatorIndex = binaryStringWithTerminator.indexOf(MESSAGE_TERMINATOR_BINARY);
   if (terminatorIndex === -1) {
-    throw new Error('RD Decode (Binary): Message terminator not found in the provided binary string. Ensure it is the full binary output from encoding.');
+    throw new Error('RD Decode (Binary): Neither a payload container nor the legacy message terminator was found in the provided binary string. Ensure it is the full binary output from encoding.');
   }
 
   const binaryEncryptedPayload = binaryStringWithTerminator.substring(0, terminatorIndex);
@@ -137,5 +139,17 @@ export const decryptRDMessageFromBinary = async (binaryStringWithTerminator: str
   }
 
 
-  return cryptoDecrypt(encryptedPayloadString, password);
-};
\ No newline at end of file
+  return deserializeSecret(await cryptoDecrypt(encryptedPayloadString, password));
+};
+
+// --- Browser adapters: File in, PNG data URL out ---
+
+export const encodeRDMessage = async (secret: string | HiddenFile, password: EncryptionSecret, encryption: EncryptionOptions = {}): Promise<{imageDataUrl: string, binaryPayload: string, encryptedPayload: string}> => {
+  const { image, ...result } = await encodeRDMessagePixels(secret, password, encryption);
+  return { imageDataUrl: await rawImageToPngDataUrl(image), ...result };
+};
+
+export const decodeRDMessage = async (file: File, password: DecryptionSecret): Promise<DecodedPayload> => {
+  if (!file) throw new Error('No image file provided for RD decoding.');
+  return decodeRDMessagePixels(await loadImage(file), password);
+};
@@ -1,61 +1,58 @@
 
-import { MESSAGE_TERMINATOR_BINARY, MAX_MESSAGE_LENGTH_CHARS } from '../constants.ts';
-import { textToBinary, binaryToText, loadImageToCanvas } from '../utils.ts';
-import { encryptMessage as cryptoEncrypt, decryptMessage as cryptoDecrypt } from './cryptoService.ts';
+import { MESSAGE_TERMINATOR_BINARY } from '../constants.ts';
+import { ContainerMethod, type HiddenFile, type DecodedPayload, type LsbEncodeOptions, type RawImage, type EncryptionOptions, type EncryptionSecret, type DecryptionSecret } from '../types.ts';
+import { binaryToText, stringToArrayBuffer } from '../utils.ts';
+import { loadImage, rawImageToPngDataUrl, cloneRawImage } from './imageIoService.ts';
+import { decryptBytes as cryptoDecrypt } from './cryptoService.ts';
+import { lsbLayoutFromOptions, encodeLsbParams, lsbOptionsContainerFlags, lsbPayloadCapacityBits, embedLsbContainer, extractLsbContainer, lsbStegoContext, lsbContainerStegoContext } from './lsbEmbeddingService.ts';
+import { buildContainer, encodeContainerPayload, decodeContainerPayload, validateSecret, deserializeSecret, secretContainerFlags, encryptSecretForContainer, decryptContainerSecret } from './payloadContainerService.ts';
 
 
-export const encodeMessage = async (file: File, message: string, password: string): Promise<{ dataUrl: string; encryptedPayload: string; }> => {
-  if (!file) throw new Error('No image file provided.');
-  if (!message) throw new Error('No message provided.');
+// --- Headless core: works on decoded pixels, no DOM needed ---
+
+export const encodeMessagePixels = async (cover: RawImage, secret: string | HiddenFile, password: EncryptionSecret, options: LsbEncodeOptions = {}, encryption: EncryptionOptions = {}): Promise<{ image: RawImage; encryptedPayload: string; changedValues: number; }> => {
+  validateSecret(secret);
   if (!password) throw new Error('Password is required for LSB encoding.');
-  if (message.length > MAX_MESSAGE_LENGTH_CHARS) {
-    throw new Error(`Message is too long. Maximum ${MAX_MESSAGE_LENGTH_CHARS} characters allowed.`);
-  }
 
-  // 1. Encrypt the message
-  const encryptedPayload = await cryptoEncrypt(message, password);
-  // 2. Convert encrypted payload (likely base64 string) to binary for LSB encoding
-  const binaryMessage = textToBinary(encryptedPayload) + MESSAGE_TERMINATOR_BINARY;
-  
-  const { canvas, ctx } = await loadImageToCanvas(file);
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
+  // 1. Encrypt the message or file record, bound to the container and image it goes into
+  const flags = secretContainerFlags(secret, password, encryption) | lsbOptionsContainerFlags(options);
+  const encryptedPayload = await encryptSecretForContainer(secret, password, encryption, lsbStegoContext(ContainerMethod.LSB, flags, options, cover.width, cover.height));
+  const { image, changedValues } = embedLsbPayloadPixels(cover, encodeContainerPayload(encryptedPayload, flags), flags, options);
+  return { image, encryptedPayload, changedValues };
+};
 
-  const maxBitsStorable = Math.floor(data.length / 4) * 3; 
-  if (binaryMessage.length > maxBitsStorable) {
-    throw new Error('Encrypted message is too long to be hidden in this image. Try a larger image or shorter original message (encryption adds overhead).');
-  }
+// Embeds container payload bytes (already encrypted) with the given header flags into a copy of the cover.
+export const embedLsbPayloadPixels = (cover: RawImage, payloadBytes: Uint8Array, flags: number, options: LsbEncodeOptions = {}): { image: RawImage; changedValues: number } => {
+  const image = cloneRawImage(cover);
+  const data = image.data;
 
-  let dataIndex = 0;
-  for (let i = 0; i < binaryMessage.length; i++) {
-    const bit = parseInt(binaryMessage[i]);
-    const channelIndex = i % 3; 
-    data[dataIndex + channelIndex] = (data[dataIndex + channelIndex] & 0xFE) | bit;
-    if (channelIndex === 2) { 
-      dataIndex += 4; 
-    }
-    if (dataIndex >= data.length && i < binaryMessage.length -1) {
-        throw new Error("Image data exhausted before encrypted message fully encoded.");
-    }
+  // Wrap the payload in the container, recording the bit depth, channels and matrix code used
+  const layout = lsbLayoutFromOptions(options, image.width * image.height, payloadBytes.length);
+  const container = buildContainer(payloadBytes, ContainerMethod.LSB, flags, encodeLsbParams(layout));
+
+  if (payloadBytes.length * 8 > lsbPayloadCapacityBits(image.width * image.height, layout)) {
+    throw new Error('Encrypted message is too long to be hidden in this image. Try a larger image, more bits per channel, or a shorter original message (encryption adds overhead).');
   }
 
-  ctx.putImageData(imageData, 0, 0);
-  const dataUrl = canvas.toDataURL('image/png');
-  return { dataUrl, encryptedPayload };
+  const changedValues = embedLsbContainer(data, null, container, layout, options.embeddingMode);
+  return { image, changedValues };
 };
 
-
-export const decodeMessage = async (file: File, password: string): Promise<string> => {
-  if (!file) throw new Error('No image file provided.');
+export const decodeMessagePixels = async (image: RawImage, password: DecryptionSecret): Promise<DecodedPayload> => {
   if (!password) throw new Error('Password is required for LSB decoding.');
 
-  const { ctx, canvas } = await loadImageToCanvas(file);
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
+  const data = image.data;
 
+  const maxBitsToRead = Math.floor(data.length / 4) * 3;
+
+  const container = extractLsbContainer(data, null, ContainerMethod.LSB, 'LSB Decode');
+  if (container) {
+    return decryptContainerSecret(decodeContainerPayload(container.payload, container.header, 'LSB Decode'), password, lsbContainerStegoContext(container.header, image.width, image.height), 'LSB Decode');
+  }
+
+  // No container header: fall back to the legacy terminator format.
   let binaryEncryptedPayload = '';
   let bitCount = 0;
-  const maxBitsToRead = Math.floor(data.length / 4) * 3;
 
   for (let i = 0; i < data.length; i += 4) { 
     for (let j = 0; j < 3; j++) { 
@@ -78,7 +75,7 @@ export const decodeMessage = async (file: File, password: string): Promise<strin
             throw new Error('LSB Decode: Failed to convert extracted binary data to text for decryption. Data might be corrupted.');
         }
         // Decrypt the string
-        return cryptoDecrypt(encryptedPayloadString, password);
+        return deserializeSecret(await cryptoDecrypt(encryptedPayloadString, password));
       }
     }
     if (bitCount >= maxBitsToRead) break;
@@ -92,57 +89,45 @@ export const decodeMessage = async (file: File, password: string): Promise<strin
   }
   
   throw new Error(
-    `LSB Decode: No hidden encrypted message found. The expected terminator sequence was not detected after scanning all ${maxBitsToRead} available LSBs. ` +
+    `LSB Decode: No hidden encrypted message found. Neither a payload container header nor the legacy terminator sequence was detected after scanning all ${maxBitsToRead} available LSBs. ` +
     'The image might not be LSB encoded, password might be wrong (leading to different encrypted payload structure), or data could be corrupted.'
   );
 };
 
-// Encodes a raw payload string (e.g., already encrypted data) into an image using LSB.
+// Encodes a raw payload string (e.g., already encrypted data) into an image using LSB, wrapped in the payload container.
 // This function does NOT perform encryption; it assumes 'payload' is ready for binary conversion.
-export const lsbEncodeRawPayload = async (file: File, payload: string): Promise<string> => {
-  if (!file) throw new Error('No image file provided for LSB raw payload encoding.');
+export const lsbEncodeRawPayloadPixels = (cover: RawImage, payload: string): RawImage => {
   if (!payload) throw new Error('No payload provided for LSB raw payload encoding.');
 
-  const binaryMessage = textToBinary(payload) + MESSAGE_TERMINATOR_BINARY;
+  const payloadBytes = new Uint8Array(stringToArrayBuffer(payload));
   
-  const { canvas, ctx } = await loadImageToCanvas(file);
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
+  const image = cloneRawImage(cover);
+  const data = image.data;
+  const layout = lsbLayoutFromOptions({}, image.width * image.height, payloadBytes.length);
 
-  const maxBitsStorable = Math.floor(data.length / 4) * 3; 
-  if (binaryMessage.length > maxBitsStorable) {
+  if (payloadBytes.length * 8 > lsbPayloadCapacityBits(image.width * image.height, layout)) {
     throw new Error('Payload is too long to be hidden in this image using LSB. (Payload might be an encrypted string, which adds overhead).');
   }
 
-  let dataIndex = 0;
-  for (let i = 0; i < binaryMessage.length; i++) {
-    const bit = parseInt(binaryMessage[i]);
-    const channelIndex = i % 3; 
-    data[dataIndex + channelIndex] = (data[dataIndex + channelIndex] & 0xFE) | bit;
-    if (channelIndex === 2) { 
-      dataIndex += 4; 
-    }
-    if (dataIndex >= data.length && i < binaryMessage.length -1) {
-        throw new Error("Image data exhausted before payload fully LSB-encoded.");
-    }
-  }
-
-  ctx.putImageData(imageData, 0, 0);
-  return canvas.toDataURL('image/png');
+  embedLsbContainer(data, null, buildContainer(payloadBytes, ContainerMethod.LSB, 0, encodeLsbParams(layout)), layout);
+  return image;
 };
 
 // Decodes LSB data from an image and returns the raw (still encrypted) payload string.
 // Does NOT perform decryption.
-export const lsbDecodeRawPayload = async (file: File): Promise<string> => {
-  if (!file) throw new Error('No image file provided for LSB raw payload decoding.');
+export const lsbDecodeRawPayloadPixels = (image: RawImage): string => {
+  const data = image.data;
+
+  const maxBitsToRead = Math.floor(data.length / 4) * 3;
 
-  const { ctx, canvas } = await loadImageToCanvas(file);
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
+  const container = extractLsbContainer(data, null, ContainerMethod.LSB, 'LSB Decode Raw');
+  if (container) {
+    return decodeContainerPayload(container.payload, container.header, 'LSB Decode Raw');
+  }
 
+  // No container header: fall back to the legacy terminator format.
   let binaryEncryptedPayload = '';
   let bitCount = 0;
-  const maxBitsToRead = Math.floor(data.length / 4) * 3;
 
   for (let i = 0; i < data.length; i += 4) { 
     for (let j = 0; j < 3; j++) { 
@@ -177,7 +162,30 @@ export const lsbDecodeRawPayload = async (file: File): Promise<string> => {
   }
   
   throw new Error(
-    `LSB Decode Raw: No hidden message found. The expected terminator sequence was not detected after scanning all ${maxBitsToRead} available LSBs. ` +
+    `LSB Decode Raw: No hidden message found. Neither a payload container header nor the legacy terminator sequence was detected after scanning all ${maxBitsToRead} available LSBs. ` +
     'The image might not be LSB encoded with a terminator, or data could be corrupted.'
   );
-};
\ No newline at end of file
+};
+
+// --- Browser adapters: File in, PNG data URL out ---
+
+export const encodeMessage = async (file: File, secret: string | HiddenFile, password: EncryptionSecret, options: LsbEncodeOptions = {}, encryption: EncryptionOptions = {}): Promise<{ dataUrl: string; encryptedPayload: string; changedValues: number; }> => {
+  if (!file) throw new Error('No image file provided.');
+  const { image, ...result } = await encodeMessagePixels(await loadImage(file), secret, password, options, encryption);
+  return { dataUrl: await rawImageToPngDataUrl(image), ...result };
+};
+
+export const decodeMessage = async (file: File, password: DecryptionSecret): Promise<DecodedPayload> => {
+  if (!file) throw new Error('No image file provided.');
+  return decodeMessagePixels(await loadImage(file), password);
+};
+
+export const lsbEncodeRawPayload = async (file: File, payload: string): Promise<string> => {
+  if (!file) throw new Error('No image file provided for LSB raw payload encoding.');
+  return rawImageToPngDataUrl(lsbEncodeRawPayloadPixels(await loadImage(file), payload));
+};
+
+export const lsbDecodeRawPayload = async (file: File): Promise<string> => {
+  if (!file) throw new Error('No image file provided for LSB raw payload decoding.');
+  return lsbDecodeRawPayloadPixels(await loadImage(file));
+};
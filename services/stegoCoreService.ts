@@ -0,0 +1,20 @@
+// Headless steganography core: everything here works on Uint8Array bytes and RawImage pixel buffers,
+// with no DOM, canvas or File. It runs unchanged in Node scripts, Web Workers and tests.
+// The browser-facing services (File in, data URL out) are thin adapters over these functions.
+
+export { decodeImageBytes, encodeImagePng, cloneRawImage, createRawImage } from './imageIoService.ts';
+export { isPng, decodePng, encodePng } from './pngCodecService.ts';
+export { isJpeg } from './jpegCodecService.ts';
+
+export { encodeMessagePixels, decodeMessagePixels, lsbEncodeRawPayloadPixels, lsbDecodeRawPayloadPixels } from './steganographyService.ts';
+export { encodeMessagePatternLSBPixels, decodeMessagePatternLSBPixels } from './steganographyPatternLSBService.ts';
+export { encodeMessageMD5PatternPixels, decodeMessageMD5PatternPixels } from './steganographyMD5PatternService.ts';
+export { encodeRDMessagePixels, decodeRDMessagePixels, decryptRDMessageFromBinary } from './steganographyRDService.ts';
+export { encodeMorseMessagePixels, decodeMorseMessagePixels, decryptMorseMessageFromHex } from './steganographyMorseService.ts';
+export { type JpegCover, estimateJpegCapacityBytes, encodeJpegMessageBytes, decodeJpegMessageBytes } from './steganographyJpegService.ts';
+export { type ShareMethod, type ShareImageFile, type ImageShare, SHARE_METHODS, encodeShareSet, findImageShare, decodeShareSet } from './secretSharingService.ts';
+
+export { type EmbeddingVerdict, chiSquareAttack, estimateEmbeddingRates, meanEmbeddingRate, embeddingRateVerdict, statisticalVerdict, channelMessageBytes, estimatedMessageBytes, analyzeImageStatistics } from './steganalysisService.ts';
+
+export { estimateLsbDistortion, lsbLayoutFromOptions } from './lsbEmbeddingService.ts';
+export { CONTAINER_METHOD_NAMES } from './payloadContainerService.ts';
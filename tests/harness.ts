@@ -0,0 +1,15 @@
+// Runs named checks in order and reports each one; the result is the process exit code.
+export const runChecks = async (kind: string, checks: { name: string; run: () => void | Promise<void> }[]): Promise<number> => {
+  let failures = 0;
+  for (const check of checks) {
+    try {
+      await check.run();
+      process.stdout.write(`ok   ${check.name}\n`);
+    } catch (e: any) {
+      failures++;
+      process.stdout.write(`FAIL ${check.name}\n     ${e.message}\n`);
+    }
+  }
+  process.stdout.write(`${checks.length - failures} of ${checks.length} ${kind} checks passed.\n`);
+  return failures === 0 ? 0 : 1;
+};
@@ -0,0 +1,113 @@
+// Known-answer checks for the hand-written cryptographic primitives, against the test vectors of the RFCs
+// they implement. Every payload depends on these producing exactly the standard output, so run them after
+// any change to the primitives:
+//
+//   npm test
+
+import { arrayBufferToHex, hexToArrayBuffer } from '../utils.ts';
+import { blake2b, argon2id, scrypt } from '../services/kdfService.ts';
+import { poly1305, chacha20Poly1305Encrypt, chacha20Poly1305Decrypt } from '../services/chacha20Poly1305Service.ts';
+import { aesGcmSivEncrypt, aesGcmSivDecrypt } from '../services/aesGcmSivService.ts';
+
+const hex = (bytes: Uint8Array): string => arrayBufferToHex(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+const fromHex = (value: string): Uint8Array => new Uint8Array(hexToArrayBuffer(value.replace(/\s/g, '')));
+const repeated = (length: number, value: number): Uint8Array => new Uint8Array(length).fill(value);
+const text = (value: string): Uint8Array => new TextEncoder().encode(value);
+
+const RFC8439_KEY = Uint8Array.from({ length: 32 }, (_, i) => 0x80 + i);
+const RFC8439_NONCE = fromHex('070000004041424344454647');
+const RFC8439_AAD = fromHex('50515253c0c1c2c3c4c5c6c7');
+const RFC8439_PLAINTEXT = "Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it.";
+// Ciphertext followed by the tag, the layout chacha20Poly1305Encrypt returns.
+const RFC8439_SEALED = `d31a8d34648e60db7b86afbc53ef7ec2a4aded51296e08fea9e2b5a736ee62d6
+                        3dbea45e8ca9671282fafb69da92728b1a71de0a9e060b2905d6a5b67ecd3b36
+                        92ddbd7f2d778b8c9803aee328091b58fab324e4fad675945585808b4831d7bc
+                        3ff4def08e4b7a9de576d26586cec64b6116
+                        1ae10b594f09e26a7e902ecbd0600691`;
+
+const RFC8452_KEY = fromHex('0100000000000000000000000000000000000000000000000000000000000000');
+const RFC8452_NONCE = fromHex('030000000000000000000000');
+
+const VECTORS: { name: string; expected: string; actual: () => Uint8Array | Promise<Uint8Array> }[] = [
+  {
+    name: 'BLAKE2b-512 "abc" (RFC 7693, Appendix A)',
+    expected: `ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d1
+               7d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923`,
+    actual: () => blake2b(text('abc'), 64),
+  },
+  {
+    name: 'Argon2id m=32 t=3 p=4 (RFC 9106, 5.3)',
+    expected: '0d640df58d78766c08c037a34a8b53c9d01ef0452d75b65eb52520e96b01e659',
+    actual: () => argon2id(repeated(32, 1), repeated(16, 2), { memoryKiB: 32, iterations: 3, parallelism: 4 }, 32, repeated(8, 3), repeated(12, 4)),
+  },
+  {
+    name: 'scrypt N=16 r=1 p=1, empty password and salt (RFC 7914, 12)',
+    expected: `77d6576238657b203b19ca42c18a0497f16b4844e3074ae8dfdffa3fede21442
+               fcd0069ded0948f8326a753a0fc81f17e8d3e0fb2e0d3628cf35e20c38d18906`,
+    actual: () => scrypt(new Uint8Array(0), new Uint8Array(0), { logN: 4, r: 1, p: 1 }, 64),
+  },
+  {
+    name: 'scrypt N=1024 r=8 p=16, "password" / "NaCl" (RFC 7914, 12)',
+    expected: `fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b373162
+               2eaf30d92e22a3886ff109279d9830dac727afb94a83ee6d8360cbdfa2cc0640`,
+    actual: () => scrypt(text('password'), text('NaCl'), { logN: 10, r: 8, p: 16 }, 64),
+  },
+  {
+    name: 'Poly1305 (RFC 8439, 2.5.2)',
+    expected: 'a8061dc1305136c6c22b8baf0c0127a9',
+    actual: () => poly1305(fromHex('85d6be7857556d337f4452fe42d506a80103808afb0db2fd4abff6af4149f51b'), text('Cryptographic Forum Research Group')),
+  },
+  {
+    name: 'ChaCha20-Poly1305 encryption (RFC 8439, 2.8.2)',
+    expected: RFC8439_SEALED,
+    actual: () => chacha20Poly1305Encrypt(RFC8439_KEY, RFC8439_NONCE, text(RFC8439_PLAINTEXT), RFC8439_AAD),
+  },
+  {
+    name: 'ChaCha20-Poly1305 decryption (RFC 8439, 2.8.2)',
+    expected: hex(text(RFC8439_PLAINTEXT)),
+    actual: () => chacha20Poly1305Decrypt(RFC8439_KEY, RFC8439_NONCE, fromHex(RFC8439_SEALED), RFC8439_AAD),
+  },
+  {
+    name: 'AES-256-GCM-SIV, empty plaintext (RFC 8452, C.2)',
+    expected: '07f5f4169bbf55a8400cd47ea6fd400f',
+    actual: () => aesGcmSivEncrypt(RFC8452_KEY, RFC8452_NONCE, new Uint8Array(0)),
+  },
+  {
+    name: 'AES-256-GCM-SIV, 8-byte plaintext (RFC 8452, C.2)',
+    expected: 'c2ef328e5c71c83b843122130f7364b761e0b97427e3df28',
+    actual: () => aesGcmSivEncrypt(RFC8452_KEY, RFC8452_NONCE, fromHex('0100000000000000')),
+  },
+  {
+    name: 'AES-256-GCM-SIV, 12-byte plaintext with additional data (RFC 8452, C.2)',
+    expected: '163d6f9cc1b346cd453a2e4cc1a4a19ae800941ccdc57cc8413c277f',
+    actual: () => aesGcmSivEncrypt(RFC8452_KEY, RFC8452_NONCE, fromHex('020000000000000000000000'), fromHex('01')),
+  },
+  {
+    name: 'AES-256-GCM-SIV decryption (RFC 8452, C.2)',
+    expected: '020000000000000000000000',
+    actual: () => aesGcmSivDecrypt(RFC8452_KEY, RFC8452_NONCE, fromHex('163d6f9cc1b346cd453a2e4cc1a4a19ae800941ccdc57cc8413c277f'), fromHex('01')),
+  },
+];
+
+const run = async (): Promise<number> => {
+  let failures = 0;
+  for (const vector of VECTORS) {
+    let actual: string;
+    try {
+      actual = hex(await vector.actual());
+    } catch (e: any) {
+      actual = `error: ${e.message}`;
+    }
+    const expected = vector.expected.replace(/\s/g, '');
+    if (actual === expected) {
+      process.stdout.write(`ok   ${vector.name}\n`);
+    } else {
+      failures++;
+      process.stdout.write(`FAIL ${vector.name}\n     expected ${expected}\n     actual   ${actual}\n`);
+    }
+  }
+  process.stdout.write(`${VECTORS.length - failures} of ${VECTORS.length} known-answer checks passed.\n`);
+  return failures === 0 ? 0 : 1;
+};
+
+process.exitCode = await run();
@@ -0,0 +1,234 @@
+// Round-trip checks through the headless core: what each method hides must come back out unchanged.
+//
+//   npm test
+
+import { ContainerMethod, KdfAlgorithm, type DecodedPayload, type HiddenFile, type RawImage } from '../types.ts';
+import * as core from '../services/stegoCoreService.ts';
+import { runChecks } from './harness.ts';
+
+// A cheap KDF keeps the checks fast; the KDFs themselves are covered by the known-answer checks.
+const FAST_KDF = { kdf: { algorithm: KdfAlgorithm.PBKDF2, iterations: 1000 } } as const;
+const PASSWORD = 'correct horse battery staple';
+const DECOY_PASSWORD = 'nothing to see here';
+const STEGO_KEY = 'stego key';
+const MESSAGE = 'Meet at the north gate at dawn. 🦊';
+
+const expectText = (payload: DecodedPayload, expected: string): void => {
+  if (payload.file) throw new Error(`expected text, got the file "${payload.file.name}"`);
+  if (payload.text !== expected) throw new Error(`expected "${expected.slice(0, 40)}", got "${payload.text.slice(0, 40)}"`);
+};
+
+const expectFile = (payload: DecodedPayload, expected: HiddenFile): void => {
+  if (!payload.file) throw new Error(`expected the file "${expected.name}", got text`);
+  const { name, mimeType, data } = payload.file;
+  if (name !== expected.name || mimeType !== expected.mimeType) throw new Error(`expected ${expected.name} (${expected.mimeType}), got ${name} (${mimeType})`);
+  if (data.length !== expected.data.length || data.some((v, i) => v !== expected.data[i])) throw new Error(`the contents of ${name} differ`);
+};
+
+const expectFailure = async (action: () => Promise<unknown>, expected: RegExp): Promise<void> => {
+  let message: string;
+  try {
+    await action();
+    message = 'no error';
+  } catch (e: any) {
+    message = e.message;
+  }
+  if (!expected.test(message)) throw new Error(`expected an error matching ${expected}, got: ${message}`);
+};
+
+// Textured, deterministic pixels, so adaptive embedding has somewhere to go and runs are reproducible.
+const noisyCover = (width: number, height: number, seed = 1): RawImage => {
+  const image = core.createRawImage(width, height, { r: 0, g: 0, b: 0 });
+  let state = seed;
+  for (let i = 0; i < image.data.length; i++) {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    image.data[i] = (i & 3) === 3 ? 255 : state >>> 24;
+  }
+  return image;
+};
+
+// Decoders see what a saved and reopened image holds, not the encoder's own buffer.
+const saved = async (image: RawImage): Promise<RawImage> => core.decodeImageBytes(await core.encodeImagePng(image));
+
+const FILE: HiddenFile = {
+  name: 'notes.bin',
+  mimeType: 'application/octet-stream',
+  data: Uint8Array.from({ length: 700 }, (_, i) => (i * 37) & 0xff),
+};
+
+const COVER = noisyCover(128, 128);
+
+// Long enough that the Morse image wraps over many rows.
+const LONG_MESSAGE = Array.from({ length: 40 }, (_, i) => `line ${i}: the quick brown fox jumps over the lazy dog`).join('\n');
+
+const CHECKS: { name: string; run: () => Promise<void> }[] = [
+  {
+    name: 'LSB, defaults',
+    run: async () => {
+      const { image } = await core.encodeMessagePixels(COVER, MESSAGE, PASSWORD, {}, FAST_KDF);
+      expectText(await core.decodeMessagePixels(await saved(image), PASSWORD), MESSAGE);
+    },
+  },
+  {
+    name: 'LSB, 3 bits per channel with alpha',
+    run: async () => {
+      const { image } = await core.encodeMessagePixels(COVER, LONG_MESSAGE, PASSWORD, { bitsPerChannel: 3, useAlpha: true }, FAST_KDF);
+      expectText(await core.decodeMessagePixels(await saved(image), PASSWORD), LONG_MESSAGE);
+    },
+  },
+  {
+    name: 'LSB, matching with matrix embedding',
+    run: async () => {
+      const { image } = await core.encodeMessagePixels(COVER, MESSAGE, PASSWORD, { embeddingMode: 'matching', matrixEmbedding: true }, FAST_KDF);
+      expectText(await core.decodeMessagePixels(await saved(image), PASSWORD), MESSAGE);
+    },
+  },
+  {
+    name: 'LSB, compressed binary payload',
+    run: async () => {
+      const { image } = await core.encodeMessagePixels(COVER, LONG_MESSAGE, PASSWORD, {}, { ...FAST_KDF, compress: true, binaryPayload: true });
+      expectText(await core.decodeMessagePixels(await saved(image), PASSWORD), LONG_MESSAGE);
+    },
+  },
+  {
+    name: 'LSB, file payload',
+    run: async () => {
+      const { image } = await core.encodeMessagePixels(COVER, FILE, PASSWORD, {}, FAST_KDF);
+      expectFile(await core.decodeMessagePixels(await saved(image), PASSWORD), FILE);
+    },
+  },
+  {
+    name: 'LSB, wrong password fails',
+    run: async () => {
+      const { image } = await core.encodeMessagePixels(COVER, MESSAGE, PASSWORD, {}, FAST_KDF);
+      await expectFailure(() => core.decodeMessagePixels(image, DECOY_PASSWORD), /./);
+    },
+  },
+  {
+    name: 'LSB, payload moved to another image fails the stego context check',
+    run: async () => {
+      const { encryptedPayload } = await core.encodeMessagePixels(COVER, MESSAGE, PASSWORD, {}, FAST_KDF);
+      const moved = core.lsbEncodeRawPayloadPixels(noisyCover(96, 96, 2), encryptedPayload);
+      await expectFailure(() => core.decodeMessagePixels(moved, PASSWORD), /Stego context mismatch/);
+    },
+  },
+  {
+    name: 'Pattern LSB, defaults',
+    run: async () => {
+      const { image } = await core.encodeMessagePatternLSBPixels(COVER, MESSAGE, STEGO_KEY, PASSWORD, {}, FAST_KDF);
+      expectText(await core.decodeMessagePatternLSBPixels(await saved(image), STEGO_KEY, PASSWORD), MESSAGE);
+    },
+  },
+  {
+    name: 'Pattern LSB, adaptive with 2 bits per channel',
+    run: async () => {
+      const { image } = await core.encodeMessagePatternLSBPixels(COVER, LONG_MESSAGE, STEGO_KEY, PASSWORD, { adaptive: true, bitsPerChannel: 2 }, FAST_KDF);
+      expectText(await core.decodeMessagePatternLSBPixels(await saved(image), STEGO_KEY, PASSWORD), LONG_MESSAGE);
+    },
+  },
+  {
+    name: 'Pattern LSB, wrong stego key fails',
+    run: async () => {
+      const { image } = await core.encodeMessagePatternLSBPixels(COVER, MESSAGE, STEGO_KEY, PASSWORD, {}, FAST_KDF);
+      await expectFailure(() => core.decodeMessagePatternLSBPixels(image, 'another key', PASSWORD), /./);
+    },
+  },
+  {
+    name: 'Pattern LSB, deniable with a decoy: each password opens its own message',
+    run: async () => {
+      const decoy = { secret: 'Shopping list: eggs, milk.', password: DECOY_PASSWORD };
+      const { image } = await core.encodeMessagePatternLSBPixels(COVER, MESSAGE, STEGO_KEY, PASSWORD, {}, FAST_KDF, { decoy });
+      const reopened = await saved(image);
+      expectText(await core.decodeMessagePatternLSBPixels(reopened, STEGO_KEY, PASSWORD), MESSAGE);
+      expectText(await core.decodeMessagePatternLSBPixels(reopened, STEGO_KEY, DECOY_PASSWORD), decoy.secret);
+    },
+  },
+  {
+    name: 'Pattern LSB, deniable without a decoy: only the real password opens it',
+    run: async () => {
+      const { image } = await core.encodeMessagePatternLSBPixels(COVER, MESSAGE, STEGO_KEY, PASSWORD, {}, FAST_KDF, {});
+      const reopened = await saved(image);
+      expectText(await core.decodeMessagePatternLSBPixels(reopened, STEGO_KEY, PASSWORD), MESSAGE);
+      await expectFailure(() => core.decodeMessagePatternLSBPixels(reopened, STEGO_KEY, DECOY_PASSWORD), /./);
+    },
+  },
+  {
+    name: 'MD5 Pattern, defaults',
+    run: async () => {
+      const { image } = await core.encodeMessageMD5PatternPixels(COVER, MESSAGE, STEGO_KEY, PASSWORD, {}, FAST_KDF);
+      expectText(await core.decodeMessageMD5PatternPixels(await saved(image), STEGO_KEY, PASSWORD), MESSAGE);
+    },
+  },
+  {
+    name: 'MD5 Pattern, deniable with a decoy and a file payload',
+    run: async () => {
+      const decoy = { secret: 'Shopping list: eggs, milk.', password: DECOY_PASSWORD };
+      const { image } = await core.encodeMessageMD5PatternPixels(COVER, FILE, STEGO_KEY, PASSWORD, {}, FAST_KDF, { decoy });
+      const reopened = await saved(image);
+      expectFile(await core.decodeMessageMD5PatternPixels(reopened, STEGO_KEY, PASSWORD), FILE);
+      expectText(await core.decodeMessageMD5PatternPixels(reopened, STEGO_KEY, DECOY_PASSWORD), decoy.secret);
+    },
+  },
+  {
+    name: 'RD',
+    run: async () => {
+      const { image } = await core.encodeRDMessagePixels(MESSAGE, PASSWORD, FAST_KDF);
+      expectText(await core.decodeRDMessagePixels(await saved(image), PASSWORD), MESSAGE);
+    },
+  },
+  {
+    name: 'Morse, short message',
+    run: async () => {
+      const { image } = await core.encodeMorseMessagePixels('hi', PASSWORD, FAST_KDF);
+      expectText(await core.decodeMorseMessagePixels(image, PASSWORD), 'hi');
+    },
+  },
+  {
+    name: 'Morse, message over many rows',
+    run: async () => {
+      const { image } = await core.encodeMorseMessagePixels(LONG_MESSAGE, PASSWORD, FAST_KDF);
+      expectText(await core.decodeMorseMessagePixels(image, PASSWORD), LONG_MESSAGE);
+    },
+  },
+  {
+    name: 'JPEG DCT, pixel cover',
+    run: async () => {
+      const { jpegBytes } = await core.encodeJpegMessageBytes(COVER, MESSAGE, PASSWORD, FAST_KDF);
+      expectText(await core.decodeJpegMessageBytes(jpegBytes, PASSWORD), MESSAGE);
+    },
+  },
+  {
+    name: 'JPEG DCT, re-embedding into a baseline JPEG',
+    run: async () => {
+      const { jpegBytes: cover } = await core.encodeJpegMessageBytes(COVER, 'first', PASSWORD, FAST_KDF);
+      const { jpegBytes, recompressed } = await core.encodeJpegMessageBytes(cover, FILE, PASSWORD, { ...FAST_KDF, compress: true });
+      if (recompressed) throw new Error('a baseline JPEG cover was recompressed');
+      expectFile(await core.decodeJpegMessageBytes(jpegBytes, PASSWORD), FILE);
+    },
+  },
+  {
+    name: 'Shamir shares, any 2 of 3',
+    run: async () => {
+      const covers = [1, 2, 3].map(seed => noisyCover(96, 96, seed));
+      const { images } = await core.encodeShareSet(covers, ContainerMethod.PatternLSB, 2, MESSAGE, PASSWORD, STEGO_KEY, {}, FAST_KDF);
+      const found = await Promise.all(images.map(async ({ bytes }) => core.findImageShare(bytes, await core.decodeImageBytes(bytes), STEGO_KEY)));
+      if (found.some(share => !share)) throw new Error('a share was not found');
+      const shares = found as core.ImageShare[];
+      for (const pair of [[0, 1], [0, 2], [1, 2]]) {
+        expectText(await core.decodeShareSet(pair.map(i => shares[i]), PASSWORD), MESSAGE);
+      }
+      await expectFailure(() => core.decodeShareSet([shares[0]], PASSWORD), /Shares:/);
+    },
+  },
+  {
+    name: 'Shamir shares, JPEG DCT',
+    run: async () => {
+      const covers = [1, 2].map(seed => noisyCover(96, 96, seed));
+      const { images } = await core.encodeShareSet(covers, ContainerMethod.JpegDct, 2, MESSAGE, PASSWORD, '', {}, FAST_KDF);
+      const found = await Promise.all(images.map(({ bytes }) => core.findImageShare(bytes, null)));
+      expectText(await core.decodeShareSet(found as core.ImageShare[], PASSWORD), MESSAGE);
+    },
+  },
+];
+
+process.exitCode = await runChecks('round-trip', CHECKS);
@@ -0,0 +1,38 @@
+// Checks of how the statistical tests combine into the verdict shown to analysts.
+//
+//   npm test
+
+import { EMBEDDING_RATE_POSSIBLE, EMBEDDING_RATE_LIKELY } from '../constants.ts';
+import type { StatisticalAnalysis } from '../types.ts';
+import { statisticalVerdict, estimatedMessageBytes } from '../services/steganalysisService.ts';
+import { runChecks } from './harness.ts';
+
+// An analysis of a 100×100 image whose G channel has the given RS and SPA rates, with or without a
+// chi-square curve that finds an embedded part.
+const analysis = (rs: number, spa: number, chiSquareHit: boolean): StatisticalAnalysis => ({
+  width: 100,
+  height: 100,
+  chiSquare: [{ channel: 'B', points: [], embeddedFraction: chiSquareHit ? 1 : 0 }],
+  embeddingRates: [
+    { channel: 'R', rs: { rate: 0, messageBytes: 0 }, spa: { rate: 0, messageBytes: 0 } },
+    { channel: 'G', rs: { rate: rs, messageBytes: 0 }, spa: { rate: spa, messageBytes: 0 } },
+  ],
+});
+
+const expectEqual = <T>(actual: T, expected: T): void => {
+  if (actual !== expected) throw new Error(`expected ${expected}, got ${actual}`);
+};
+
+const possible = EMBEDDING_RATE_POSSIBLE + 0.01;
+const likely = EMBEDDING_RATE_LIKELY + 0.01;
+
+process.exitCode = await runChecks('steganalysis', [
+  { name: 'Clean rates and no chi-square hit: none', run: () => expectEqual(statisticalVerdict(analysis(0, 0, false)), 'none') },
+  { name: 'Chi-square hit alone: possible', run: () => expectEqual(statisticalVerdict(analysis(0, 0, true)), 'possible') },
+  { name: 'Chi-square hit and a possible rate: still possible', run: () => expectEqual(statisticalVerdict(analysis(possible, possible, true)), 'possible') },
+  // A clean synthetic cover gave these rates, whose mean is just under the likely threshold.
+  { name: 'Chi-square hit and RS 12.8% / SPA 2.7%: possible', run: () => expectEqual(statisticalVerdict(analysis(0.128, 0.027, true)), 'possible') },
+  { name: 'Likely rate without chi-square: likely', run: () => expectEqual(statisticalVerdict(analysis(likely, likely, false)), 'likely') },
+  { name: 'Rates below possible count no message bytes', run: () => expectEqual(estimatedMessageBytes(analysis(EMBEDDING_RATE_POSSIBLE / 2, 0, true)), 0) },
+  { name: 'A 50% rate counts half the LSBs', run: () => expectEqual(estimatedMessageBytes(analysis(0.5, 0.5, false)), Math.round(0.5 * 100 * 100 / 8)) },
+]);
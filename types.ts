@@ -6,16 +6,243 @@ export enum HubMode {
   MD5Pattern = 'md5_pattern',
   RD = 'rd',
   Morse = 'morse',
+  JpegDct = 'jpeg_dct',
   HashingTools = 'hashing_tools',
   MD5Cracker = 'md5_cracker',
   Utilities = 'utilities',
   AutoDecode = 'auto_decode',
+  BitPlanes = 'bit_planes',
+  Keyring = 'keyring',
 }
 
-export type SteganographyMode = HubMode.LSB | HubMode.PatternLSB | HubMode.MD5Pattern | HubMode.RD | HubMode.Morse;
+export type SteganographyMode = HubMode.LSB | HubMode.PatternLSB | HubMode.MD5Pattern | HubMode.RD | HubMode.Morse | HubMode.JpegDct;
 
 export type Action = 'encrypt' | 'decrypt';
 
+// Method identifiers stored in the payload container header. Values are part of the
+// on-image format and must never be renumbered.
+export enum ContainerMethod {
+  LSB = 1,
+  PatternLSB = 2,
+  MD5Pattern = 3,
+  RD = 4,
+  Morse = 5,
+  JpegDct = 6,
+}
+
+// Bit flags stored in the container header's `flags` field.
+export enum ContainerFlag {
+  FilePayload = 1 << 0, // The encrypted payload is a file record rather than a text message
+  LsbMatching = 1 << 1, // Embedded with LSB matching (±1) instead of LSB replacement
+  AdaptiveSelection = 1 << 2, // Pixels visited in order of texture (Pattern LSB adaptive mode)
+  KeyFilesRequired = 1 << 3, // Decrypting needs key files as well as the password
+  Compressed = 1 << 4, // The plaintext was deflated before encryption
+  BinaryPayload = 1 << 5, // The encrypted payload is stored in the compact binary form rather than as text
+  // 1 << 6 is reserved: early deniable images flagged their slots, which told a decoy's reader that a second message existed
+  ShamirShare = 1 << 7, // One share of a payload split across several images; any `threshold` of them rebuild it
+}
+
+// How a bit is written into a channel value whose LSB does not already match:
+// 'replacement' overwrites the LSB, 'matching' randomly adds or subtracts 1 (LSB matching / ±1 embedding).
+export type LsbEmbeddingMode = 'replacement' | 'matching';
+
+// Password-based key derivation functions. The id and parameters are written into every encrypted
+// payload, so costs can be raised later without breaking existing images.
+export enum KdfAlgorithm {
+  PBKDF2 = 'pbkdf2',
+  Scrypt = 'scrypt',
+  Argon2id = 'argon2id',
+}
+
+export type KdfParams =
+  | { algorithm: KdfAlgorithm.PBKDF2; iterations: number }
+  | { algorithm: KdfAlgorithm.Scrypt; logN: number; r: number; p: number } // N = 2^logN
+  | { algorithm: KdfAlgorithm.Argon2id; memoryKiB: number; iterations: number; parallelism: number };
+
+// Authenticated ciphers for payloads. All take a 256-bit key and a 96-bit nonce and add a 16-byte tag.
+// AES-GCM is the default and is not named in the payload; the others prefix it with their id.
+export enum CipherAlgorithm {
+  AesGcm = 'aes-256-gcm',
+  ChaCha20Poly1305 = 'chacha20-poly1305',
+  AesGcmSiv = 'aes-256-gcm-siv',
+}
+
+// Options for encrypting a payload before it is hidden.
+// How a hidden secret is encrypted: this app's own payload format, or a standard OpenPGP message
+// (password only) that other tools can decrypt.
+export enum PayloadFormat {
+  Native = 'native',
+  OpenPgp = 'openpgp',
+}
+
+export interface EncryptionOptions {
+  format?: PayloadFormat; // Defaults to PayloadFormat.Native; only stego encoders honour OpenPgp
+  cipher?: CipherAlgorithm; // Defaults to DEFAULT_CIPHER
+  kdf?: KdfParams; // Defaults to DEFAULT_KDF_PARAMS
+  signingKey?: CryptoKey; // ECDSA P-256 or Ed25519 private key; signs the plaintext inside the encryption
+  additionalData?: Uint8Array; // Authenticated but not encrypted; recorded in the payload in the clear
+  compress?: boolean; // Deflate the plaintext first; only stego encoders honour it, for native payloads
+  binaryPayload?: boolean; // Embed the payload in the compact binary form; only stego encoders honour it, for native payloads
+}
+
+// Where a payload is hidden. Encoders bind it to the encryption as additional authenticated data, so a
+// payload moved to another carrier or method, or under a modified container header, does not decrypt.
+export interface StegoContext {
+  version: number; // Container format version
+  method: ContainerMethod;
+  flags: number; // Container flags
+  bitDepth: number; // Payload bits per carrier value: LSB bits per channel, 1 for JPEG DCT, 0 for RD and Morse
+  width: number; // Carrier size in pixels; 0 × 0 for RD and Morse, which draw their own image
+  height: number;
+}
+
+export enum SignatureAlgorithm {
+  EcdsaP256 = 'ecdsa-p256',
+  Ed25519 = 'ed25519',
+}
+
+// Outcome of checking the signature embedded in a decrypted payload. keyId is the signer's key fingerprint.
+export interface SignatureInfo {
+  status: 'unsigned' | 'verified' | 'invalid';
+  algorithm: SignatureAlgorithm | null;
+  keyId: string | null;
+  reason?: string; // Why verification failed
+}
+
+// What a payload is encrypted for: a shared password (optionally with key files), or (hybrid ECDH +
+// AES-GCM) the ECDH P-256 public keys of one or more recipients.
+export interface PublicKeyRecipients {
+  recipients: CryptoKey[];
+}
+
+// A password with key files as a second factor. Only the combined digest of the files is kept.
+export interface PasswordWithKeyFiles {
+  password: string;
+  keyFileDigest: Uint8Array;
+}
+export type EncryptionSecret = string | PasswordWithKeyFiles | PublicKeyRecipients;
+
+// What a payload is decrypted with: the shared password (with its key files, if it needs them), or one
+// recipient's ECDH P-256 private key.
+export type DecryptionSecret = string | PasswordWithKeyFiles | CryptoKey;
+
+export type KeyFormat = 'pem' | 'jwk';
+
+// An imported ECDH key with the fingerprint of its public half, for listing in the UI.
+export interface LoadedKey {
+  key: CryptoKey;
+  fingerprint: string;
+}
+
+// A key file chosen in the UI: its name for display and its SHA-256 digest.
+export interface LoadedKeyFile {
+  name: string;
+  digest: Uint8Array;
+}
+
+// Keyring entries. `secret` is the password, the stego key, or a private key (PEM or JWK); a key pair
+// entry may hold only a public key (e.g. a contact's), in which case `secret` is empty.
+export type KeyringEntryKind = 'password' | 'stego-key' | 'key-pair';
+
+export interface KeyringEntry {
+  id: string;
+  kind: KeyringEntryKind;
+  name: string;
+  secret: string;
+  publicKey?: string; // key-pair entries
+  fingerprint?: string; // key-pair entries, of the public key
+  createdAt: number;
+}
+
+// A keyring decrypted with its master password. Only ever held in memory.
+export interface UnlockedKeyring {
+  key: CryptoKey;
+  entries: KeyringEntry[];
+}
+
+export type SetKeyringFunction = (keyring: UnlockedKeyring | null) => void;
+
+// Options shared by the image-based LSB encoders (LSB, Pattern LSB, MD5 Pattern).
+export interface LsbEncodeOptions {
+  embeddingMode?: LsbEmbeddingMode;
+  bitsPerChannel?: number; // 1-4 low bits per channel (default 1)
+  useAlpha?: boolean; // Also embed in the alpha channel
+  matrixEmbedding?: boolean; // Hamming syndrome coding; requires 1 bit per channel
+  adaptive?: boolean; // Pattern LSB only: embed in the most textured pixels first; requires LSB replacement
+}
+
+// The harmless second message of deniable mode (Pattern LSB and MD5 Pattern), under its own password.
+export interface DecoyMessage {
+  secret: string | HiddenFile;
+  password: EncryptionSecret;
+}
+
+// Deniable mode of Pattern LSB and MD5 Pattern. Without a decoy, the other slot holds random fill only.
+export interface DeniableOptions {
+  decoy?: DecoyMessage;
+}
+
+// Where payload bits go in each pixel. Stored in the container header's `params` field.
+export interface LsbLayout {
+  bitsPerChannel: number;
+  useAlpha: boolean;
+  matrixK: number; // Hamming code parameter: k bits per 2^k - 1 LSBs. 0 = plain embedding
+}
+
+export interface ContainerHeader {
+  version: number;
+  method: ContainerMethod;
+  flags: number;
+  params: number;
+  payloadLength: number; // in bytes
+  checksum: number; // CRC-32 over the header fields and the payload
+}
+
+// Decoded 8-bit RGBA pixels, laid out like ImageData.
+export interface RawImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array;
+}
+
+// A baseline JPEG held as quantised DCT coefficients (no pixel decode).
+export interface JpegComponent {
+  id: number;
+  h: number; // horizontal sampling factor
+  v: number; // vertical sampling factor
+  quantTableIndex: number;
+  blocksPerLine: number; // blocks covering the image (what a non-interleaved scan codes)
+  blocksPerColumn: number;
+  blocksPerLineForMcu: number; // blocks including MCU padding (what an interleaved scan codes)
+  blocksPerColumnForMcu: number;
+  blockOffset: number; // index of this component's first block in JpegImage.coefficients
+}
+
+export interface JpegImage {
+  width: number;
+  height: number;
+  components: JpegComponent[];
+  quantTables: Uint16Array[]; // 64 entries each, zigzag order
+  coefficients: Int16Array; // 64 per block, zigzag order, components back to back
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  adobeSegment: Uint8Array | null; // APP14 Adobe marker segment, kept because it defines the colour transform
+}
+
+// A file hidden in (or recovered from) an image, with its original name and MIME type.
+export interface HiddenFile {
+  name: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+// What a decoder recovers. `text` is the message itself, or a short description when the payload is a file.
+export interface DecodedPayload {
+  kind: 'text' | 'file';
+  text: string;
+  file: HiddenFile | null;
+  signature: SignatureInfo;
+}
 
 export interface ProcessResult {
   success: boolean;
@@ -47,6 +274,40 @@ export interface AIForensicResult {
   visual_anomalies: string[];
 }
 
+// A colour channel, or 'RGB' for the three read together.
+export type AnalysisChannel = 'R' | 'G' | 'B' | 'A' | 'RGB';
+
+// Chi-square attack on one channel, read in scan order (rows from the top). `probability` is the chance
+// that the LSBs of the first `fraction` of the samples were replaced by message bits.
+export interface ChiSquareCurve {
+  channel: AnalysisChannel;
+  points: { fraction: number; probability: number }[];
+  embeddedFraction: number; // Estimated embedded part of the scan, from the top, 0-1
+}
+
+// Estimated share of a channel's LSBs that carry message bits (the embedding rate), and the message
+// length that implies at one bit per sample. Estimates are noisy around 0 and can come out slightly negative.
+export interface EmbeddingRateEstimate {
+  rate: number;
+  messageBytes: number;
+}
+
+// RS analysis and Sample Pair Analysis of one channel. Both look at the whole channel at once, so they
+// find scattered embedding as well as sequential.
+export interface ChannelEmbeddingEstimate {
+  channel: AnalysisChannel;
+  rs: EmbeddingRateEstimate;
+  spa: EmbeddingRateEstimate;
+}
+
+// Offline statistical steganalysis of an image's pixels; nothing leaves the device.
+export interface StatisticalAnalysis {
+  width: number;
+  height: number;
+  chiSquare: ChiSquareCurve[];
+  embeddingRates: ChannelEmbeddingEstimate[];
+}
+
 export interface AnalysisReport {
   fileProperties: {
     name: string;
@@ -54,8 +315,11 @@ export interface AnalysisReport {
     type: string;
   } | null;
   aiAnalysis: AIForensicResult | null;
+  statisticalAnalysis: StatisticalAnalysis | null;
   decodingLog: { method: string; result: 'Success' | 'Failed' | 'Skipped'; details: string }[];
   finalResult: string | null;
+  finalFile: HiddenFile | null;
+  finalSignature: SignatureInfo | null;
   detectedMethod: string | null;
 }
 
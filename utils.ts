@@ -41,6 +41,52 @@ export const binaryToText = (binary: string): string => {
   }
 };
 
+// Convert a byte array to a binary string (8 bits per byte, most significant bit first)
+export const bytesToBinary = (bytes: Uint8Array): string => {
+  let binaryString = '';
+  for (const byte of bytes) {
+    binaryString += byte.toString(2).padStart(8, '0');
+  }
+  return binaryString;
+};
+
+// Convert a binary string back to bytes. Trailing bits that do not fill a whole byte are ignored.
+export const binaryToBytes = (binary: string): Uint8Array => {
+  const bytes = new Uint8Array(Math.floor(binary.length / 8));
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(binary.substring(i * 8, i * 8 + 8), 2);
+  }
+  return bytes;
+};
+
+// CRC-32 (IEEE 802.3, the variant used by PNG and zip)
+let crc32Table: Uint32Array | null = null;
+export const crc32 = (bytes: Uint8Array, crc: number = 0): number => {
+  if (!crc32Table) {
+    crc32Table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crc32Table[n] = c >>> 0;
+    }
+  }
+  let c = (crc ^ 0xFFFFFFFF) >>> 0;
+  for (let i = 0; i < bytes.length; i++) {
+    c = crc32Table[(c ^ bytes[i]) & 0xFF] ^ (c >>> 8);
+  }
+  return (c ^ 0xFFFFFFFF) >>> 0;
+};
+
+// Compares two byte arrays in time that depends only on their length (for authentication tags)
+export const constantTimeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
 // Function to load an image file and draw it to a canvas
 export const loadImageToCanvas = (file: File): Promise<{ canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D; img: HTMLImageElement }> => {
   return new Promise((resolve, reject) => {
@@ -109,6 +155,25 @@ export const downloadTextFile = (content: string, filename: string, mimeType: st
   URL.revokeObjectURL(element.href);
 };
 
+// Function to download binary content (e.g. a recovered hidden file)
+export const downloadBinaryFile = (content: Uint8Array, filename: string, mimeType: string = 'application/octet-stream'): void => {
+  const element = document.createElement('a');
+  const file = new Blob([content], { type: mimeType || 'application/octet-stream' });
+  element.href = URL.createObjectURL(file);
+  element.download = filename;
+  document.body.appendChild(element);
+  element.click();
+  document.body.removeChild(element);
+  URL.revokeObjectURL(element.href);
+};
+
+// Human-readable byte size, e.g. "1.5 KB"
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
 // Convert ArrayBuffer to Base64 string
 export const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
   let binary = '';
@@ -117,12 +182,12 @@ export const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
   for (let i = 0; i < len; i++) {
     binary += String.fromCharCode(bytes[i]);
   }
-  return window.btoa(binary);
+  return btoa(binary);
 };
 
 // Convert Base64 string to ArrayBuffer
 export const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
-  const binary_string = window.atob(base64);
+  const binary_string = atob(base64);
   const len = binary_string.length;
   const bytes = new Uint8Array(len);
   for (let i = 0; i < len; i++) {